@@ -0,0 +1,100 @@
+/**
+ * Streaming downloads for receivers without OPFS, imported into the generated
+ * Workbox service worker (see `workbox.importScripts` in vite.config.ts).
+ *
+ * The page registers a download with a MessagePort, then navigates a hidden
+ * iframe to its URL. The fetch handler answers with an attachment response
+ * whose body pulls decrypted chunks from the port one at a time, so the
+ * browser's download manager writes them to disk as they arrive. The page side
+ * and the message shapes live in src/lib/stream-download.ts.
+ */
+
+const STREAM_DOWNLOAD_PATH = '/__stream-download/';
+const STREAM_DOWNLOAD_MESSAGE = 'secure-send:stream-download';
+
+/** Registered downloads by id, each served once. */
+const streamDownloads = new Map();
+
+function contentDisposition(fileName) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+function createDownloadStream(port) {
+  let pulled = null;
+  const settlePull = () => {
+    const resolve = pulled;
+    pulled = null;
+    resolve?.();
+  };
+  return new ReadableStream(
+    {
+      start(controller) {
+        port.onmessage = (event) => {
+          const message = event.data;
+          if (message.type === 'chunk') {
+            controller.enqueue(new Uint8Array(message.bytes));
+          } else if (message.type === 'end') {
+            controller.close();
+            port.close();
+          } else if (message.type === 'abort') {
+            controller.error(new Error('Transfer failed'));
+            port.close();
+          }
+          settlePull();
+        };
+      },
+      // One chunk per pull: the page sends a chunk only when asked, so the
+      // download manager's pace backpressures the transfer.
+      pull() {
+        return new Promise((resolve) => {
+          pulled = resolve;
+          port.postMessage({ type: 'pull' });
+        });
+      },
+      cancel() {
+        port.postMessage({ type: 'cancelled' });
+        port.close();
+      },
+    },
+    { highWaterMark: 1 },
+  );
+}
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (message?.type !== STREAM_DOWNLOAD_MESSAGE || !event.ports[0]) return;
+  streamDownloads.set(message.id, {
+    port: event.ports[0],
+    fileName: String(message.fileName),
+    mimeType: String(message.mimeType || 'application/octet-stream'),
+  });
+  event.ports[0].postMessage({ type: 'registered' });
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (
+    url.origin !== self.location.origin ||
+    !url.pathname.startsWith(STREAM_DOWNLOAD_PATH)
+  ) {
+    return;
+  }
+  const id = url.pathname.slice(STREAM_DOWNLOAD_PATH.length);
+  const download = streamDownloads.get(id);
+  if (!download) {
+    event.respondWith(new Response('Download not found', { status: 404 }));
+    return;
+  }
+  streamDownloads.delete(id);
+  download.port.postMessage({ type: 'started' });
+  event.respondWith(
+    new Response(createDownloadStream(download.port), {
+      headers: {
+        'Content-Type': download.mimeType,
+        'Content-Disposition': contentDisposition(download.fileName),
+        'X-Content-Type-Options': 'nosniff',
+      },
+    }),
+  );
+});
@@ -1,13 +1,53 @@
 #!/usr/bin/env npx tsx
 /**
- * Decrypt clipboard data from Secure Send QR mode
- * Usage: npx tsx scripts/decrypt-clipboard.ts <pin> [base64-data]
- *    or: echo '<base64-data>' | npx tsx scripts/decrypt-clipboard.ts <pin>
+ * Inspect Manual Exchange codes from Secure Send for debugging failed
+ * pairings: decodes SS03 offers/answers (and SS04 with the passphrase) and
+ * pretty-prints the SDP, ICE candidates, metadata and key fingerprint.
+ *
+ * Usage:
+ *   npx tsx scripts/decrypt-clipboard.ts [options] <base64-code>
+ *   npx tsx scripts/decrypt-clipboard.ts [options] <chunk-url...>
+ *   pbpaste | npx tsx scripts/decrypt-clipboard.ts [options]
+ *
+ * Multi-QR `/r#...` chunk URLs are reassembled and their CRC32 checked; give
+ * every chunk of the set, in any order.
+ *
+ * Options:
+ *   --passphrase <words>  Open a passphrase-sealed (SS04) code
+ *   --json                Also print the decoded payload as JSON
  */
 
-import crypto from 'node:crypto';
 import { createInterface } from 'node:readline';
-import zlib from 'node:zlib';
+import { parseArgs } from 'node:util';
+import {
+  computeCrc32,
+  extractChunkParam,
+  isValidPayloadChecksum,
+  parseChunk,
+  reassembleChunks,
+} from '../src/lib/chunk-utils';
+import {
+  derivePassphraseSeal,
+  formatFingerprint,
+  publicKeyToFingerprint,
+} from '../src/lib/crypto';
+import { formatFileSize } from '../src/lib/file-utils';
+import {
+  getSealedPayloadSalt,
+  isMutualPayload,
+  isSealedPayload,
+  parseClipboardPayload,
+  parseMutualPayload,
+  resolveManualOffer,
+  type SignalingPayload,
+} from '../src/lib/manual-signaling';
+
+const USAGE = `Usage: npx tsx scripts/decrypt-clipboard.ts [--passphrase <words>] [--json] <base64-code | chunk-url...>
+   or: pbpaste | npx tsx scripts/decrypt-clipboard.ts [--passphrase <words>] [--json]`;
+
+const HOUR_MS = 60 * 60 * 1000;
+// How far back to look for the obfuscation bucket of a stale SS03 code.
+const STALE_SEARCH_HOURS = 7 * 24;
 
 async function readStdin(): Promise<string> {
   const rl = createInterface({ input: process.stdin });
@@ -15,113 +55,272 @@ async function readStdin(): Promise<string> {
   for await (const line of rl) {
     lines.push(line);
   }
-  return lines.join('');
+  return lines.join('\n');
 }
 
-const PBKDF2_ITERATIONS = 600_000;
-const AES_NONCE_LENGTH = 12;
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
 
-function deriveKey(pin: string, salt: Buffer): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    crypto.pbkdf2(pin, salt, PBKDF2_ITERATIONS, 32, 'sha256', (err, key) => {
-      if (err) reject(err);
-      else resolve(key);
-    });
-  });
+function crcHex(crc: number): string {
+  return (crc >>> 0).toString(16).padStart(8, '0');
 }
 
-function decrypt(key: Buffer, encrypted: Buffer): Buffer {
-  const nonce = encrypted.subarray(0, AES_NONCE_LENGTH);
-  const ciphertext = encrypted.subarray(AES_NONCE_LENGTH, -16);
-  const tag = encrypted.subarray(-16);
+/**
+ * Reassemble a multi-QR payload from its `/r#` URLs, reporting each chunk,
+ * any missing ones, and whether the CRC32 in chunk 0 matches.
+ */
+function reassembleFromUrls(urls: string[]): Uint8Array {
+  const chunks = new Map<number, Uint8Array>();
+  let total: number | null = null;
+  let checksum: number | null = null;
 
-  const decipher = crypto.createDecipheriv('aes-256-gcm', key, nonce);
-  decipher.setAuthTag(tag);
+  console.log('=== Chunks ===');
+  for (const url of urls) {
+    const token = extractChunkParam(url);
+    const parsed = token ? parseChunk(token) : null;
+    if (!parsed) {
+      throw new Error(`Not a valid /r# chunk URL: ${url}`);
+    }
+    if (total !== null && parsed.total !== total) {
+      throw new Error(
+        `Chunk ${parsed.index + 1} belongs to a set of ${parsed.total}, not ${total}`,
+      );
+    }
+    total = parsed.total;
+    if (chunks.has(parsed.index)) {
+      console.log(`  chunk ${parsed.index + 1}/${parsed.total}: duplicate`);
+      continue;
+    }
+    chunks.set(parsed.index, parsed.data);
+    if (parsed.checksum !== undefined) checksum = parsed.checksum;
+    console.log(
+      `  chunk ${parsed.index + 1}/${parsed.total}: ${parsed.data.length} bytes${
+        parsed.checksum !== undefined
+          ? `, crc32 ${crcHex(parsed.checksum)}`
+          : ''
+      }`,
+    );
+  }
 
-  const decrypted = Buffer.concat([
-    decipher.update(ciphertext),
-    decipher.final(),
-  ]);
+  if (total === null) throw new Error('No chunk URLs given');
+  const missing: number[] = [];
+  for (let i = 0; i < total; i++) {
+    if (!chunks.has(i)) missing.push(i + 1);
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing chunk(s) ${missing.join(', ')} of ${total}`);
+  }
 
-  return decrypted;
+  const assembled = reassembleChunks(chunks, total);
+  if (!assembled) throw new Error('Chunks failed to reassemble');
+  if (checksum === null) throw new Error('Chunk 1 carries no CRC32');
+  if (!isValidPayloadChecksum(assembled, checksum)) {
+    throw new Error(
+      `CRC32 mismatch: chunk 1 expects ${crcHex(checksum)}, payload is ${crcHex(computeCrc32(assembled))}`,
+    );
+  }
+  console.log(`  reassembled: ${assembled.length} bytes, crc32 ✓`);
+  console.log();
+  return assembled;
 }
 
-async function main(): Promise<void> {
-  const [, , pin, base64Arg] = process.argv;
+/**
+ * Decode an SS03 payload. Past its two-hour obfuscation window the app
+ * refuses the code, but it still decodes against an earlier clock, which
+ * tells a stale code apart from a corrupt one.
+ */
+async function decodeObfuscated(binary: Uint8Array): Promise<SignalingPayload> {
+  const payload = await parseMutualPayload(binary);
+  if (payload) return payload;
 
-  if (!pin) {
-    console.error(
-      'Usage: npx tsx scripts/decrypt-clipboard.ts <pin> [base64-data]',
+  const now = Date.now();
+  for (let hours = 2; hours <= STALE_SEARCH_HOURS; hours += 2) {
+    const stale = await parseMutualPayload(
+      binary,
+      undefined,
+      now - hours * HOUR_MS,
     );
-    console.error(
-      '   or: echo "<base64-data>" | npx tsx scripts/decrypt-clipboard.ts <pin>',
+    if (stale) {
+      console.log(
+        '! Obfuscated over two hours ago: the app no longer decodes this code',
+      );
+      return stale;
+    }
+  }
+  throw new Error(
+    `SS03 code did not decode (corrupt, truncated, or older than ${STALE_SEARCH_HOURS / 24} days)`,
+  );
+}
+
+async function decodeSealed(
+  binary: Uint8Array,
+  passphrase: string | undefined,
+): Promise<SignalingPayload> {
+  const salt = getSealedPayloadSalt(binary);
+  if (!salt) throw new Error('Truncated SS04 code');
+  console.log('Passphrase salt:', hex(salt));
+  if (!passphrase) {
+    throw new Error(
+      'Code is passphrase-sealed (SS04); pass --passphrase to open it',
     );
-    process.exit(1);
   }
+  const seal = await derivePassphraseSeal(passphrase, salt);
+  const payload = await parseMutualPayload(binary, seal);
+  if (!payload) {
+    throw new Error('Wrong passphrase or corrupted SS04 code');
+  }
+  return payload;
+}
 
-  // Read base64 data from argument or stdin
-  const base64Data = base64Arg || (await readStdin());
+function describeCandidate(candidate: string): string {
+  // candidate:<foundation> <component> <protocol> <priority> <address> <port> typ <type> ...
+  const fields = candidate.replace(/^a=/, '').split(/\s+/);
+  const typIndex = fields.indexOf('typ');
+  if (fields.length < 8 || typIndex < 0) return `? ${candidate}`;
+  const type = fields[typIndex + 1] ?? '?';
+  const protocol = fields[2].toLowerCase();
+  const address = fields[4];
+  const port = fields[5];
+  const host = address.includes(':') ? `[${address}]` : address;
+  const related = fields.indexOf('raddr');
+  const via =
+    related >= 0 ? ` (from ${fields[related + 1]}:${fields[related + 3]})` : '';
+  return `${type.padEnd(5)} ${protocol} ${host}:${port}${via}`;
+}
 
-  if (!base64Data.trim()) {
-    console.error('Error: No base64 data provided');
-    process.exit(1);
-  }
+function sdpAttribute(sdp: string, name: string): string | null {
+  const match = sdp.match(new RegExp(`^a=${name}:(.*)$`, 'm'));
+  return match ? match[1].trim() : null;
+}
 
-  // Decode base64
-  const binary = Buffer.from(base64Data.trim(), 'base64');
+async function printPayload(payload: SignalingPayload): Promise<void> {
+  const age = Date.now() - payload.createdAt;
+  console.log('=== Payload ===');
+  console.log('Type:', payload.type);
+  console.log(
+    'Created:',
+    `${new Date(payload.createdAt).toISOString()} (${Math.round(age / 60_000)} min ago)`,
+  );
+  console.log(
+    'Public key fingerprint:',
+    formatFingerprint(
+      await publicKeyToFingerprint(new Uint8Array(payload.publicKey)),
+    ),
+  );
 
-  // Verify magic header "SS01"
-  const magic = binary.subarray(0, 4).toString('ascii');
-  if (magic !== 'SS01') {
-    console.error(`Invalid magic header: expected "SS01", got "${magic}"`);
-    console.error('Hex bytes:', binary.subarray(0, 4).toString('hex'));
-    process.exit(1);
+  if (payload.type === 'offer') {
+    console.log('Content type:', payload.contentType ?? 'file');
+    console.log('Name:', payload.fileName ?? '(none)');
+    if (payload.fileSize !== undefined) {
+      console.log(
+        'Size:',
+        `${payload.fileSizeExact === false ? 'about ' : ''}${formatFileSize(payload.fileSize)} (${payload.fileSize} bytes)`,
+      );
+    }
+    console.log('MIME type:', payload.mimeType ?? '(none)');
+    console.log(
+      'Salt:',
+      payload.salt ? hex(new Uint8Array(payload.salt)) : '(missing)',
+    );
+    try {
+      resolveManualOffer(payload);
+      console.log('Offer check: ok');
+    } catch (err) {
+      console.log(
+        'Offer check: rejected -',
+        err instanceof Error ? err.message : String(err),
+      );
+    }
   }
 
-  console.log('Magic header: SS01 ✓');
-  console.log('Total binary length:', binary.length, 'bytes');
-
-  // Extract salt and encrypted data
-  const salt = binary.subarray(4, 20);
-  const encrypted = binary.subarray(20);
+  console.log();
+  console.log('=== ICE ===');
+  console.log('ice-ufrag:', sdpAttribute(payload.sdp, 'ice-ufrag') ?? '(none)');
+  console.log(
+    'DTLS fingerprint:',
+    sdpAttribute(payload.sdp, 'fingerprint') ?? '(none)',
+  );
+  console.log('DTLS setup:', sdpAttribute(payload.sdp, 'setup') ?? '(none)');
+  const inSdp = payload.sdp
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('a=candidate:'));
+  const candidates = [...payload.candidates, ...inSdp];
+  if (candidates.length === 0) {
+    console.log(
+      'Candidates: none (the peer must be reachable from the other side)',
+    );
+  } else {
+    console.log(
+      `Candidates: ${payload.candidates.length} listed, ${inSdp.length} in SDP`,
+    );
+    for (const candidate of candidates) {
+      console.log(`  ${describeCandidate(candidate)}`);
+    }
+  }
 
-  console.log('Salt:', salt.toString('hex'));
-  console.log('Encrypted length:', encrypted.length, 'bytes');
+  console.log();
+  console.log('=== SDP ===');
+  console.log(payload.sdp.trimEnd());
+}
 
-  // Derive key
-  console.log('\nDeriving key with PBKDF2 (600k iterations)...');
-  const key = await deriveKey(pin, salt);
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      passphrase: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
 
-  // Decrypt and decompress
-  try {
-    const compressed = await decrypt(key, encrypted);
-    console.log('Compressed payload:', compressed.length, 'bytes');
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
 
-    // Decompress (deflate was used before encryption)
-    const jsonBytes = zlib.inflateSync(compressed);
-    console.log('Decompressed JSON:', jsonBytes.length, 'bytes');
-    console.log(
-      'Compression ratio:',
-      `${((compressed.length / jsonBytes.length) * 100).toFixed(1)}%`,
-    );
+  // Read codes from arguments or stdin
+  const input =
+    positionals.length > 0 ? positionals.join('\n') : await readStdin();
+  const tokens = input.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    throw new Error(`No code or chunk URL provided\n${USAGE}`);
+  }
 
-    const json = jsonBytes.toString('utf8');
+  let binary: Uint8Array | null;
+  if (tokens.some((token) => token.includes('#'))) {
+    binary = reassembleFromUrls(tokens);
+  } else {
+    // A pasted code may be wrapped across lines
+    binary = parseClipboardPayload(tokens.join(''));
+    if (!binary) throw new Error('Input is not valid base64');
+  }
 
-    console.log('\n=== Decrypted Payload Raw ===');
-    console.log(json);
+  const magic = new TextDecoder().decode(binary.subarray(0, 4));
+  console.log('Magic header:', JSON.stringify(magic));
+  console.log('Total binary length:', binary.length, 'bytes');
 
-    const payload = JSON.parse(json) as unknown;
+  let payload: SignalingPayload;
+  if (isSealedPayload(binary)) {
+    payload = await decodeSealed(binary, values.passphrase);
+  } else if (isMutualPayload(binary)) {
+    payload = await decodeObfuscated(binary);
+  } else {
+    throw new Error(
+      `Not a Manual Exchange code: expected "SS03" or "SS04", got hex ${hex(binary.subarray(0, 4))}`,
+    );
+  }
+  console.log();
 
-    console.log('\n=== Decrypted Payload Prettified ===');
+  await printPayload(payload);
+  if (values.json) {
+    console.log();
+    console.log('=== JSON ===');
     console.log(JSON.stringify(payload, null, 2));
-  } catch (err) {
-    console.error(
-      '\nDecryption failed:',
-      err instanceof Error ? err.message : String(err),
-    );
-    console.error('(Wrong PIN or corrupted data)');
-    process.exit(1);
   }
 }
 
-void main();
+main().catch((err) => {
+  console.error('\nError:', err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
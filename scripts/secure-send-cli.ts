@@ -0,0 +1,1142 @@
+#!/usr/bin/env npx tsx
+/**
+ * Send and receive Secure Send transfers from a terminal, interoperating with
+ * the web app. The handshake, signaling and data-channel protocol are the
+ * app's own modules; node-datachannel supplies WebRTC.
+ *
+ * Usage:
+ *   npx tsx scripts/secure-send-cli.ts send <file...>
+ *   npx tsx scripts/secure-send-cli.ts receive <PIN> [-o <dir>]
+ *   npx tsx scripts/secure-send-cli.ts send --manual <file...>
+ *   npx tsx scripts/secure-send-cli.ts receive --manual [-o <dir>]
+ *
+ * Options:
+ *   -o, --output <dir>   Where received files go (default: current directory)
+ *   --relay <url>        Nostr relay to signal over; repeat for several
+ *                        (default: the app's relays)
+ *   --manual             Manual Exchange: paste codes instead of a PIN
+ *   --pbkdf2-pin         Mint PBKDF2 PINs, for receivers whose client predates
+ *                        Argon2id or lacks WebAssembly
+ *   --lan-only           Use host candidates only and no STUN/TURN servers
+ *   --verbose            Log WebRTC and relay details
+ *
+ * The PIN flow needs a global WebSocket: Node 22+, or Node 20 with
+ * --experimental-websocket.
+ */
+
+import { createWriteStream, openAsBlob } from 'node:fs';
+import { mkdir, open, rename, rm, stat, utimes } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { parseArgs } from 'node:util';
+import { cleanup as cleanupDataChannels } from 'node-datachannel';
+import {
+  RTCIceCandidate,
+  RTCPeerConnection,
+  RTCSessionDescription,
+} from 'node-datachannel/polyfill';
+import type { Event } from 'nostr-tools';
+import {
+  computeManualSas,
+  deriveAESKeyFromSecretKey,
+  deriveSharedSecretKey,
+  formatPin,
+  formatPinHint,
+  generateECDHKeyPair,
+  generatePin,
+  generateSalt,
+  generateTransferId,
+  getPinKdf,
+  importPinRoot,
+  isPinBucketActive,
+  type ManualSas,
+  normalizePinInput,
+  PIN_ROTATION_MS,
+  PIN_WAIT_TIMEOUT_MS,
+  type PinKdf,
+  preferredPinKdf,
+  TRANSFER_EXPIRATION_MS,
+} from '../src/lib/crypto';
+import { P2PConnectionError } from '../src/lib/errors';
+import {
+  createManifestTransferSource,
+  type FileManifest,
+  splitManifestPayload,
+} from '../src/lib/file-manifest';
+import { formatFileSize } from '../src/lib/file-utils';
+import {
+  generateMutualAnswerBinary,
+  generateMutualClipboardData,
+  generateMutualOfferBinary,
+  parseClipboardPayload,
+  parseMutualPayload,
+  resolveManualOffer,
+} from '../src/lib/manual-signaling';
+import {
+  type ContentType,
+  createClaim,
+  createConfirmEvent,
+  createNostrClient,
+  createRendezvous,
+  createSignalEvent,
+  derivePinLookupKeys,
+  deriveTransferSessionKeys,
+  EVENT_KIND_DATA_TRANSFER,
+  EVENT_KIND_RENDEZVOUS,
+  findRendezvous,
+  generateEphemeralKeys,
+  getSignalingRelays,
+  type NostrClient,
+  openSignalEvent,
+  type PinGeneration,
+  resolveRendezvousContent,
+  sanitizeRelays,
+  uint8ArrayToBase64,
+  type VerifiedClaim,
+  verifyClaim,
+  verifyConfirm,
+} from '../src/lib/nostr';
+import {
+  ACK,
+  createDataChannelReceiver,
+  type DataChannelReceiver,
+  MAX_RESUME_ATTEMPTS,
+  type ReceivedPayload,
+  sendFileOverDataChannel,
+} from '../src/lib/p2p-transfer';
+import type { AppendSink, ReceiveSink } from '../src/lib/scratch-sink';
+import { decodeTextMessage } from '../src/lib/text-message';
+import {
+  createFileTransferSource,
+  getTransferContentType,
+  type TransferSource,
+} from '../src/lib/transfer-source';
+import {
+  DEFAULT_DATA_CHANNELS,
+  WebRTCConnection,
+  type WebRTCSignal,
+} from '../src/lib/webrtc';
+import { getWebRTCConfig, type IceSettings } from '../src/lib/webrtc-config';
+
+// WebRTCConnection uses the browser globals.
+Object.assign(globalThis, {
+  RTCPeerConnection,
+  RTCSessionDescription,
+  RTCIceCandidate,
+});
+
+/** Same bounds as the web app's hooks. */
+const CONFIRM_TIMEOUT_MS = 30000;
+const CONNECTION_TIMEOUT_MS = 30000;
+const MANUAL_CONNECTION_TIMEOUT_MS = 120000;
+const RESUME_TIMEOUT_MS = 120000;
+const ICE_GATHER_TIMEOUT_MS = 5000;
+const OFFER_RETRY_MS = 5000;
+const ACK_LINGER_MS = 3000;
+
+/**
+ * ICE settings for every connection. Node has no localStorage to hold the
+ * app's saved settings, so these are the defaults unless `--lan-only` is given.
+ */
+const iceSettings: IceSettings = { servers: [], policy: 'all' };
+
+// Early checks: libdatachannel answers connectivity checks that arrive before
+// the remote description is set, then fails the DTLS handshake for want of
+// the peer's fingerprint. So a sender's candidates reach the receiver only
+// once the answer is applied: held back in the PIN flow, and left out of a
+// Manual Exchange offer, where the receiver learns the sender's address from
+// its checks instead (as a peer-reflexive candidate).
+
+const USAGE = `Usage:
+  npx tsx scripts/secure-send-cli.ts send [--relay <url>] [--pbkdf2-pin] <file...>
+  npx tsx scripts/secure-send-cli.ts receive [--relay <url>] <PIN> [-o <dir>]
+  npx tsx scripts/secure-send-cli.ts send --manual <file...>
+  npx tsx scripts/secure-send-cli.ts receive --manual [-o <dir>]`;
+
+/** Progress and prompts go to stderr; stdout carries only PINs, codes and text. */
+function status(message: string) {
+  process.stderr.write(`${message}\n`);
+}
+
+function progressReporter(label: string) {
+  let last = -1;
+  return (current: number, total: number) => {
+    const percent = total > 0 ? Math.floor((current / total) * 100) : 0;
+    if (percent === last) return;
+    last = percent;
+    process.stderr.write(
+      `\r${label} ${formatFileSize(current)} of ${formatFileSize(total)} (${percent}%)`,
+    );
+    if (current >= total) process.stderr.write('\n');
+  };
+}
+
+// --- Files ---------------------------------------------------------------
+
+async function openFile(path: string): Promise<File> {
+  const info = await stat(path);
+  if (!info.isFile()) {
+    throw new Error(`${path} is not a file`);
+  }
+  const blob = (await openAsBlob(path)) as Blob;
+  return new File([blob], basename(path), { lastModified: info.mtimeMs });
+}
+
+/** One file as-is, several as a multi-file transfer with a manifest. */
+async function createPathTransferSource(
+  paths: string[],
+): Promise<TransferSource> {
+  const files = await Promise.all(paths.map(openFile));
+  return files.length === 1
+    ? createFileTransferSource(files[0])
+    : createManifestTransferSource(files, `${files.length} files`);
+}
+
+/**
+ * Receive into a part file on disk: positional writes for an exact-size
+ * payload, appends for one of unknown size. `discard()` deletes the file.
+ */
+async function createFileSink(
+  path: string,
+  exactSize: boolean,
+): Promise<ReceiveSink | AppendSink> {
+  const handle = await open(path, 'w');
+  let appended = 0;
+  let closed = false;
+  const close = async () => {
+    if (closed) return;
+    closed = true;
+    await handle.close();
+  };
+  const finish = async () => {
+    await close();
+    return (await openAsBlob(path)) as Blob;
+  };
+  const discard = async () => {
+    await close().catch(() => {});
+    await rm(path, { force: true });
+  };
+  if (exactSize) {
+    return {
+      async write(position, bytes) {
+        await handle.write(bytes, 0, bytes.length, position);
+      },
+      finish,
+      discard,
+    };
+  }
+  return {
+    async append(bytes) {
+      // Reserve the offset before awaiting so concurrent appends stay in order.
+      const position = appended;
+      appended += bytes.length;
+      await handle.write(bytes, 0, bytes.length, position);
+    },
+    finish,
+    discard,
+  };
+}
+
+/** `path`, or `name (2).ext` and so on when it exists already. */
+async function availablePath(path: string): Promise<string> {
+  const ext = extname(path);
+  const stem = path.slice(0, path.length - ext.length);
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? path : `${stem} (${n})${ext}`;
+    try {
+      await stat(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+}
+
+/** A received file name reduced to a plain name inside the output folder. */
+function safeFileName(name: string): string {
+  const plain = basename(name.replaceAll('\\', '/'));
+  return plain && plain !== '.' && plain !== '..' ? plain : 'received-file';
+}
+
+/**
+ * Move a verified payload out of its part file: a file under its own name,
+ * a multi-file payload into its folder layout, a text message to stdout.
+ */
+async function saveReceived(
+  received: ReceivedPayload,
+  partPath: string,
+  outputDir: string,
+  contentType: ContentType,
+  fileName: string,
+) {
+  if (contentType === 'text') {
+    process.stdout.write(`${await decodeTextMessage(received.data)}\n`);
+    await rm(partPath, { force: true });
+    return;
+  }
+  if (received.manifest) {
+    await saveManifestFiles(received.data, received.manifest, outputDir);
+    await rm(partPath, { force: true });
+    return;
+  }
+  const target = await availablePath(join(outputDir, safeFileName(fileName)));
+  await rename(partPath, target);
+  status(`Saved ${target}`);
+}
+
+async function saveManifestFiles(
+  data: Blob,
+  manifest: FileManifest,
+  outputDir: string,
+) {
+  // decodeManifest already refused unsafe paths.
+  for (const file of splitManifestPayload(data, manifest)) {
+    const target = await availablePath(
+      join(outputDir, file.path ?? file.fileName),
+    );
+    await mkdir(dirname(target), { recursive: true });
+    await pipeline(
+      Readable.fromWeb(
+        file.data.stream() as Parameters<typeof Readable.fromWeb>[0],
+      ),
+      createWriteStream(target),
+    );
+    if (file.lastModified) {
+      const mtime = new Date(file.lastModified);
+      await utimes(target, mtime, mtime);
+    }
+    status(`Saved ${target}`);
+  }
+}
+
+// --- Terminal prompts ----------------------------------------------------
+
+async function prompt(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return (await rl.question(question)).trim();
+  } finally {
+    rl.close();
+  }
+}
+
+async function readCode(question: string) {
+  const binary = parseClipboardPayload(await prompt(question));
+  const payload = binary && (await parseMutualPayload(binary));
+  if (!payload) {
+    throw new Error(
+      'Invalid code. Passphrase-protected codes are not supported here.',
+    );
+  }
+  return payload;
+}
+
+function showSas(sas: ManualSas) {
+  status('\nVerification symbols:');
+  status(`  ${sas.emoji.map((symbol) => symbol.emoji).join('  ')}`);
+  status(`  ${sas.emoji.map((symbol) => symbol.name).join(', ')}`);
+}
+
+/** As in the app, nothing connects until the sender confirms the symbols. */
+async function confirmSas(sas: ManualSas) {
+  showSas(sas);
+  const answer = await prompt('Does the other device show the same? [y/N] ');
+  if (answer.toLowerCase() !== 'y') {
+    throw new Error(
+      'The verification symbols did not match, so nothing was sent.',
+    );
+  }
+}
+
+// --- Nostr PIN flow ------------------------------------------------------
+
+async function connectRelays(relays: string[]): Promise<NostrClient> {
+  if (typeof WebSocket === 'undefined') {
+    throw new Error(
+      'The PIN flow needs a global WebSocket: use Node 22+, or Node 20 with --experimental-websocket.',
+    );
+  }
+  const chosen = relays.length > 0 ? sanitizeRelays(relays) : [];
+  return createNostrClient(
+    chosen.length > 0 ? chosen : await getSignalingRelays(),
+  );
+}
+
+function waitForEvent<T>(
+  client: NostrClient,
+  filter: Parameters<NostrClient['subscribe']>[0][number],
+  accept: (event: Event) => Promise<T | null>,
+  timeoutMs: number,
+  timeoutMessage: string,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const seen = new Set<string>();
+    let settled = false;
+    const finish = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      clearInterval(poll);
+      client.unsubscribe(subId);
+      action();
+    };
+    const onEvent = (event: Event) => {
+      if (settled || seen.has(event.id)) return;
+      seen.add(event.id);
+      void accept(event).then((value) => {
+        if (value !== null) finish(() => resolve(value));
+      });
+    };
+    const subId = client.subscribe([filter], onEvent);
+    // Backstop for relays that stored the event before the subscription.
+    const poll = setInterval(() => {
+      void client
+        .query([{ ...filter, limit: 10 }])
+        .then((events) => events.forEach(onEvent))
+        .catch(() => {});
+    }, 3000);
+    const timeout = setTimeout(
+      () => finish(() => reject(new Error(timeoutMessage))),
+      timeoutMs,
+    );
+  });
+}
+
+async function sendWithPin(
+  source: TransferSource,
+  relays: string[],
+  pinKdf: PinKdf,
+) {
+  const client = await connectRelays(relays);
+  try {
+    const { secretKey, publicKey } = generateEphemeralKeys();
+    const ecdh = await generateECDHKeyPair();
+    const ecdhPublicKeyB64 = uint8ArrayToBase64(ecdh.publicKeyBytes);
+    const salt = generateSalt();
+    const transferId = generateTransferId();
+    const generations: PinGeneration[] = [];
+
+    const publishRendezvous = async () => {
+      const pin = generatePin(pinKdf);
+      const { event, generation, fingerprint } = await createRendezvous(
+        pin,
+        pinKdf,
+        secretKey,
+        salt,
+        {
+          type: 'rendezvous',
+          contentType: getTransferContentType(source),
+          transferId,
+          senderPubkey: publicKey,
+          ecdhPublicKey: ecdhPublicKeyB64,
+          relays: client.getRelays(),
+          fileName: source.name,
+          fileSize: source.size ?? source.estimatedSize,
+          fileSizeExact: source.size !== null,
+          mimeType: source.type,
+        },
+      );
+      generations.unshift(generation);
+      generations.splice(
+        0,
+        generations.length,
+        ...generations.filter((g) => isPinBucketActive(g.bucket)),
+      );
+      await client.publish(event);
+      process.stdout.write(
+        `PIN: ${formatPin(pin)}  (check ${formatPinHint(fingerprint)})\n`,
+      );
+    };
+
+    status(
+      `Sending ${source.name} (${formatFileSize(source.size ?? source.estimatedSize)}). The PIN changes every ${PIN_ROTATION_MS / 60000} minutes.`,
+    );
+    await publishRendezvous();
+    const rotation = setInterval(() => {
+      void publishRendezvous().catch((err) =>
+        console.error('Failed to publish a new PIN:', err),
+      );
+    }, PIN_ROTATION_MS);
+
+    let claim: VerifiedClaim;
+    try {
+      claim = await waitForEvent(
+        client,
+        {
+          kinds: [EVENT_KIND_DATA_TRANSFER],
+          '#t': [transferId],
+          '#p': [publicKey],
+        },
+        (event) =>
+          verifyClaim(event, transferId, generations, ecdhPublicKeyB64),
+        PIN_WAIT_TIMEOUT_MS,
+        'No receiver connected.',
+      );
+    } finally {
+      clearInterval(rotation);
+    }
+
+    status('Receiver connected. Starting P2P transfer...');
+    await client.publish(
+      await createConfirmEvent(secretKey, transferId, claim),
+    );
+    const sessionKeys = await deriveTransferSessionKeys(
+      ecdh.privateKey,
+      claim.receiverEcdhPublicKey,
+      salt,
+    );
+
+    let dataChannelEverOpened = false;
+    const runAttempt = (attempt: number) =>
+      new Promise<string>((resolve, reject) => {
+        let answered = false;
+        let settled = false;
+        const seen = new Set<string>();
+        // Candidates wait for the answer (see "Early checks" above).
+        const heldCandidates: WebRTCSignal[] = [];
+        const publishSignal = async (signal: WebRTCSignal) => {
+          await client.publish(
+            await createSignalEvent(
+              secretKey,
+              claim.receiverPubkey,
+              transferId,
+              sessionKeys.signals,
+              signal,
+              attempt,
+            ),
+          );
+        };
+        const rtc = new WebRTCConnection(
+          getWebRTCConfig(iceSettings),
+          async (signal) => {
+            if (signal.type === 'candidate' && !answered) {
+              heldCandidates.push(signal);
+              return;
+            }
+            await publishSignal(signal);
+          },
+          async () => {
+            stop();
+            dataChannelEverOpened = true;
+            if (await rtc.isRelayed()) status('Relayed via a TURN server.');
+            try {
+              const result = await sendFileOverDataChannel(
+                rtc,
+                sessionKeys.content,
+                source,
+                { onProgress: progressReporter('Sent') },
+              );
+              resolve(result.digest);
+            } catch (err) {
+              reject(err);
+            } finally {
+              rtc.close();
+            }
+          },
+          () => {},
+        );
+
+        const onSignal = async (event: Event) => {
+          if (seen.has(event.id)) return;
+          seen.add(event.id);
+          try {
+            const opened = await openSignalEvent(
+              event,
+              transferId,
+              sessionKeys.signals,
+            );
+            if (!opened || opened.attempt !== attempt) return;
+            if (opened.signal.type !== 'answer') {
+              await rtc.handleSignal(opened.signal);
+              return;
+            }
+            if (answered) return;
+            answered = true;
+            await rtc.handleSignal(opened.signal);
+            for (const held of heldCandidates.splice(0)) {
+              await publishSignal(held);
+            }
+          } catch (err) {
+            console.error('Failed to process signaling event:', err);
+          }
+        };
+        const filter = {
+          kinds: [EVENT_KIND_DATA_TRANSFER],
+          '#t': [transferId],
+          '#p': [publicKey],
+          authors: [claim.receiverPubkey],
+        };
+        const subId = client.subscribe([filter], onSignal);
+        // Resend the offer until the receiver answers; relays may drop it.
+        const retry = setInterval(() => {
+          if (answered) return;
+          void client
+            .query([{ ...filter, limit: 50 }])
+            .then(async (events) => {
+              for (const event of events) await onSignal(event);
+              if (!answered && !settled) void rtc.createOffer();
+            })
+            .catch(() => {});
+        }, OFFER_RETRY_MS);
+        const timeout = setTimeout(() => {
+          stop();
+          rtc.close();
+          reject(new P2PConnectionError('WebRTC connection timeout'));
+        }, CONNECTION_TIMEOUT_MS);
+        function stop() {
+          settled = true;
+          clearInterval(retry);
+          clearTimeout(timeout);
+          client.unsubscribe(subId);
+        }
+
+        rtc.createDataChannel('file-transfer', DEFAULT_DATA_CHANNELS);
+        void rtc.createOffer();
+      });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const digest = await runAttempt(attempt);
+        status(`Sent. SHA-256 ${digest}`);
+        return;
+      } catch (err) {
+        if (
+          !dataChannelEverOpened ||
+          !(err instanceof P2PConnectionError) ||
+          attempt >= MAX_RESUME_ATTEMPTS
+        ) {
+          throw err;
+        }
+        status(
+          `\nConnection lost. Reconnecting to resume (attempt ${attempt + 1} of ${MAX_RESUME_ATTEMPTS})...`,
+        );
+      }
+    }
+  } finally {
+    client.close();
+  }
+}
+
+async function receiveWithPin(
+  pinInput: string,
+  outputDir: string,
+  relays: string[],
+) {
+  const pin = normalizePinInput(pinInput);
+  const pinKdf = getPinKdf(pin);
+  if (!pinKdf) throw new Error('Invalid PIN. Check it for typos.');
+
+  status('Deriving lookup keys...');
+  const { hints, rendezvousKey, authKey } = await derivePinLookupKeys(
+    await importPinRoot(pin),
+  );
+  const client = await connectRelays(relays);
+  try {
+    status('Searching for sender...');
+    const events = await client.query([
+      { kinds: [EVENT_KIND_RENDEZVOUS], '#h': hints, limit: 10 },
+    ]);
+    const { rendezvous, sawExpired } = await findRendezvous(
+      events,
+      rendezvousKey,
+      pinKdf,
+    );
+    if (!rendezvous) {
+      throw new Error(
+        events.length === 0
+          ? 'No transfer found for this PIN. It may have rotated.'
+          : sawExpired
+            ? 'This PIN has expired. Enter the code currently shown on the sender.'
+            : 'Could not decrypt transfer. Wrong PIN?',
+      );
+    }
+    const content = resolveRendezvousContent(rendezvous.payload);
+    const { transferId, senderPubkey } = rendezvous;
+    await client.addRelays(sanitizeRelays(rendezvous.payload.relays ?? []));
+
+    const claim = await createClaim(authKey, rendezvous);
+    status(
+      `Claiming ${content.fileName} (${formatFileSize(content.fileSize)})...`,
+    );
+    const confirmed = waitForEvent(
+      client,
+      {
+        kinds: [EVENT_KIND_DATA_TRANSFER],
+        '#t': [transferId],
+        '#p': [claim.publicKey],
+        authors: [senderPubkey],
+      },
+      async (event) =>
+        (await verifyConfirm(event, authKey, rendezvous, claim)) ? true : null,
+      CONFIRM_TIMEOUT_MS,
+      'Sender did not confirm. The transfer may have been claimed by another device, or the sender went offline.',
+    );
+    await client.publish(claim.event);
+    await confirmed;
+
+    const sessionKeys = await deriveTransferSessionKeys(
+      claim.ecdh.privateKey,
+      rendezvous.senderEcdhPublicKey,
+      rendezvous.salt,
+    );
+
+    await mkdir(outputDir, { recursive: true });
+    const partPath = join(outputDir, `.secure-send-${transferId}.part`);
+    const sink = await createFileSink(partPath, content.fileSizeExact);
+    const receiver = createDataChannelReceiver(
+      sessionKeys.content,
+      content.fileSizeExact ? content.fileSize : null,
+      sink,
+      {
+        estimatedBytes: content.fileSize,
+        expectManifest: content.contentType === 'files',
+        onProgress: progressReporter('Received'),
+      },
+    );
+
+    let received: ReceivedPayload;
+    try {
+      received = await receiveSignaledTransfer(
+        client,
+        receiver,
+        (attempt, signal) =>
+          createSignalEvent(
+            claim.secretKey,
+            senderPubkey,
+            transferId,
+            sessionKeys.signals,
+            signal,
+            attempt,
+          ),
+        (event) => openSignalEvent(event, transferId, sessionKeys.signals),
+        {
+          kinds: [EVENT_KIND_DATA_TRANSFER],
+          '#t': [transferId],
+          '#p': [claim.publicKey],
+          authors: [senderPubkey],
+        },
+      );
+    } catch (err) {
+      await sink.discard();
+      throw err;
+    }
+    await saveReceived(
+      received,
+      partPath,
+      outputDir,
+      content.contentType,
+      content.fileName,
+    );
+    status(`Received. SHA-256 ${received.digest}`);
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Answer the sender's signaling over the relays until the receiver has the
+ * whole payload. A new attempt number from the sender replaces the
+ * connection; the receiver and its part file carry over, so it resumes.
+ */
+function receiveSignaledTransfer(
+  client: NostrClient,
+  receiver: DataChannelReceiver,
+  sealSignal: (
+    attempt: number,
+    signal: Parameters<WebRTCConnection['handleSignal']>[0],
+  ) => Promise<Event>,
+  openSignal: (event: Event) => ReturnType<typeof openSignalEvent>,
+  filter: Parameters<NostrClient['subscribe']>[0][number],
+): Promise<ReceivedPayload> {
+  return new Promise<ReceivedPayload>((resolve, reject) => {
+    let rtc: WebRTCConnection | null = null;
+    let rtcAttempt = -1;
+    let opened = false;
+    let finished = false;
+    let timeout: ReturnType<typeof setTimeout> | null = setTimeout(
+      () => fail('WebRTC connection timeout'),
+      CONNECTION_TIMEOUT_MS,
+    );
+    const seen = new Set<string>();
+
+    const clear = () => {
+      if (timeout) clearTimeout(timeout);
+      timeout = null;
+    };
+    const fail = (message: string) => {
+      clear();
+      client.unsubscribe(subId);
+      receiver.dispose();
+      rtc?.close();
+      reject(new P2PConnectionError(message));
+    };
+    const connectionLost = (conn: WebRTCConnection) => {
+      if (conn !== rtc || timeout || finished) return;
+      receiver.suspend();
+      status('\nConnection lost. Waiting for sender to reconnect...');
+      timeout = setTimeout(
+        () => fail('Connection lost and the sender did not reconnect'),
+        RESUME_TIMEOUT_MS,
+      );
+    };
+
+    receiver.done.then(
+      (result) => {
+        finished = true;
+        clear();
+        client.unsubscribe(subId);
+        const conn = rtc;
+        conn?.send(ACK);
+        // Linger so the ACK reaches the sender before the transport closes.
+        setTimeout(() => conn?.close(), ACK_LINGER_MS);
+        setTimeout(() => resolve(result), ACK_LINGER_MS);
+      },
+      (err) => {
+        finished = true;
+        clear();
+        client.unsubscribe(subId);
+        rtc?.close();
+        reject(err);
+      },
+    );
+
+    const connect = (attempt: number) => {
+      if (rtc && attempt === rtcAttempt) return rtc;
+      if (rtc) {
+        connectionLost(rtc);
+        rtc.close();
+      }
+      rtcAttempt = attempt;
+      const conn: WebRTCConnection = new WebRTCConnection(
+        getWebRTCConfig(iceSettings),
+        async (signal) => {
+          await client.publish(await sealSignal(attempt, signal));
+        },
+        () => {
+          if (conn !== rtc) return;
+          opened = true;
+          clear();
+          receiver.start();
+          void receiver.createHaveMessage().then((have) => {
+            if (conn === rtc) conn.send(have);
+          });
+        },
+        (data) => {
+          if (conn === rtc) receiver.onMessage(data);
+        },
+        (state) => {
+          if (opened && (state === 'failed' || state === 'closed')) {
+            connectionLost(conn);
+          }
+        },
+      );
+      rtc = conn;
+      return conn;
+    };
+
+    const onSignal = async (event: Event) => {
+      if (seen.has(event.id)) return;
+      seen.add(event.id);
+      try {
+        const signal = await openSignal(event);
+        // Signals from an attempt the sender has moved past are stale.
+        if (!signal || signal.attempt < rtcAttempt) return;
+        await connect(signal.attempt).handleSignal(signal.signal);
+      } catch (err) {
+        console.error('Signal handling error', err);
+      }
+    };
+    const subId = client.subscribe([filter], onSignal);
+    void client
+      .query([{ ...filter, limit: 50 }])
+      .then(async (events) => {
+        for (const event of events) await onSignal(event);
+      })
+      .catch(() => {});
+  });
+}
+
+// --- Manual Exchange -----------------------------------------------------
+
+/**
+ * Every local candidate once ICE gathering completes (or times out), read
+ * from the local description: node-datachannel reports gathering complete
+ * before it has delivered the matching `icecandidate` events. The
+ * description is filtered like a signaled one, so LAN-only settings keep
+ * server-derived candidates out of the answer.
+ */
+async function gatherCandidates(
+  rtc: WebRTCConnection,
+): Promise<RTCIceCandidate[]> {
+  await rtc.waitForIceGatheringComplete(ICE_GATHER_TIMEOUT_MS);
+  const sdp = rtc.getLocalSdp();
+  return sdp
+    .split('\r\n')
+    .filter((line) => line.startsWith('a=candidate:'))
+    .map(
+      (line) =>
+        new RTCIceCandidate({
+          candidate: line.slice('a='.length),
+          sdpMid: '0',
+          sdpMLineIndex: 0,
+        }),
+    );
+}
+
+/** Resolves when the connection's data channels are open. */
+function waitForOpen(opened: Promise<void>): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new P2PConnectionError('Connection timeout')),
+      MANUAL_CONNECTION_TIMEOUT_MS,
+    );
+    void opened.then(() => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+async function sendManual(source: TransferSource) {
+  const ecdh = await generateECDHKeyPair();
+  const salt = generateSalt();
+  const createdAt = Date.now();
+  let offer: RTCSessionDescriptionInit | null = null;
+  let channelOpened = () => {};
+  const opened = new Promise<void>((resolve) => {
+    channelOpened = resolve;
+  });
+
+  const rtc = new WebRTCConnection(
+    getWebRTCConfig(iceSettings),
+    (signal) => {
+      if (signal.type === 'offer') {
+        offer = { type: 'offer', sdp: signal.sdp };
+      }
+    },
+    () => channelOpened(),
+    () => {},
+  );
+  try {
+    rtc.createDataChannel('file-transfer', DEFAULT_DATA_CHANNELS);
+    await rtc.createOffer();
+    if (!offer) throw new Error('WebRTC did not create an offer');
+
+    // No candidates (see "Early checks" above).
+    const offerBinary = await generateMutualOfferBinary(offer, [], {
+      createdAt,
+      contentType: getTransferContentType(source),
+      fileName: source.name,
+      fileSize: source.size ?? source.estimatedSize,
+      fileSizeExact: source.size !== null,
+      mimeType: source.type,
+      publicKey: ecdh.publicKeyBytes,
+      salt,
+    });
+    status("Paste this code into the receiver's Manual Exchange:");
+    process.stdout.write(`${generateMutualClipboardData(offerBinary)}\n`);
+
+    const answer = await readCode("\nPaste the receiver's response: ");
+    if (answer.type !== 'answer') throw new Error('Expected answer, got offer');
+    if (Date.now() - createdAt > TRANSFER_EXPIRATION_MS) {
+      throw new Error('Session expired. Please start a new transfer.');
+    }
+
+    const receiverPublicKey = new Uint8Array(answer.publicKey);
+    const sharedSecretKey = await deriveSharedSecretKey(
+      ecdh.privateKey,
+      receiverPublicKey,
+    );
+    const key = await deriveAESKeyFromSecretKey(sharedSecretKey, salt);
+    await confirmSas(
+      await computeManualSas(
+        sharedSecretKey,
+        salt,
+        ecdh.publicKeyBytes,
+        receiverPublicKey,
+      ),
+    );
+
+    status('Connecting...');
+    await rtc.handleSignal({ type: 'answer', sdp: answer.sdp });
+    for (const candidate of answer.candidates) {
+      await rtc.handleSignal({
+        type: 'candidate',
+        candidate: { candidate, sdpMid: '0', sdpMLineIndex: 0 },
+      });
+    }
+    await waitForOpen(opened);
+
+    const result = await sendFileOverDataChannel(rtc, key, source, {
+      onProgress: progressReporter('Sent'),
+    });
+    status(`Sent. SHA-256 ${result.digest}`);
+  } finally {
+    rtc.close();
+  }
+}
+
+async function receiveManual(outputDir: string) {
+  const offerPayload = await readCode(
+    "Paste the sender's Manual Exchange code: ",
+  );
+  const offer = resolveManualOffer(offerPayload);
+  const ecdh = await generateECDHKeyPair();
+  const sharedSecretKey = await deriveSharedSecretKey(
+    ecdh.privateKey,
+    offer.senderPublicKey,
+  );
+  const key = await deriveAESKeyFromSecretKey(sharedSecretKey, offer.salt);
+  const sas = await computeManualSas(
+    sharedSecretKey,
+    offer.salt,
+    offer.senderPublicKey,
+    ecdh.publicKeyBytes,
+  );
+
+  await mkdir(outputDir, { recursive: true });
+  const partPath = join(outputDir, `.secure-send-${Date.now()}.part`);
+  const sink = await createFileSink(partPath, offer.fileSizeExact);
+  const receiver = createDataChannelReceiver(
+    key,
+    offer.fileSizeExact ? offer.fileSize : null,
+    sink,
+    {
+      estimatedBytes: offer.fileSize,
+      expectManifest: offer.contentType === 'files',
+      onProgress: progressReporter('Received'),
+    },
+  );
+
+  let answer: RTCSessionDescriptionInit | null = null;
+  let rtc: WebRTCConnection | null = null;
+  try {
+    let channelOpened = () => {};
+    const opened = new Promise<void>((resolve) => {
+      channelOpened = resolve;
+    });
+    const conn = new WebRTCConnection(
+      getWebRTCConfig(iceSettings),
+      (signal) => {
+        if (signal.type === 'answer') {
+          answer = { type: 'answer', sdp: signal.sdp };
+        }
+      },
+      () => {
+        receiver.start();
+        void receiver.createHaveMessage().then((have) => conn.send(have));
+        channelOpened();
+      },
+      (data) => receiver.onMessage(data),
+    );
+    rtc = conn;
+
+    await conn.handleSignal({ type: 'offer', sdp: offerPayload.sdp });
+    for (const candidate of offerPayload.candidates) {
+      await conn.handleSignal({
+        type: 'candidate',
+        candidate: { candidate, sdpMid: '0', sdpMLineIndex: 0 },
+      });
+    }
+    const candidates = await gatherCandidates(conn);
+    if (!answer) throw new Error('WebRTC did not create an answer');
+
+    const answerBinary = await generateMutualAnswerBinary(
+      answer,
+      candidates,
+      ecdh.publicKeyBytes,
+    );
+    status(
+      `Receiving ${offer.fileName} (${formatFileSize(offer.fileSize)}). Paste this response into the sender:`,
+    );
+    process.stdout.write(`${generateMutualClipboardData(answerBinary)}\n`);
+    showSas(sas);
+    status('The sender checks that these match before anything is sent.');
+
+    await waitForOpen(opened);
+    const received = await receiver.done;
+    conn.send(ACK);
+    await new Promise((resolve) => setTimeout(resolve, ACK_LINGER_MS));
+    await saveReceived(
+      received,
+      partPath,
+      outputDir,
+      offer.contentType,
+      offer.fileName,
+    );
+    status(`Received. SHA-256 ${received.digest}`);
+  } catch (err) {
+    receiver.dispose();
+    await sink.discard();
+    throw err;
+  } finally {
+    rtc?.close();
+  }
+}
+
+// --- Entry point ---------------------------------------------------------
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o', default: '.' },
+      relay: { type: 'string', multiple: true, default: [] },
+      manual: { type: 'boolean', default: false },
+      'pbkdf2-pin': { type: 'boolean', default: false },
+      'lan-only': { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  // The shared WebRTC and relay code narrates every state change and each
+  // recoverable error; keep it off stdout, and quiet unless asked for.
+  if (values.verbose) {
+    console.log = console.error;
+  } else {
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+
+  if (values['lan-only']) iceSettings.policy = 'lan-only';
+
+  const outputDir = resolve(values.output);
+  if (command === 'send' && args.length > 0) {
+    const source = await createPathTransferSource(args);
+    await (values.manual
+      ? sendManual(source)
+      : sendWithPin(
+          source,
+          values.relay,
+          values['pbkdf2-pin'] ? 'pbkdf2' : preferredPinKdf(),
+        ));
+  } else if (command === 'receive' && values.manual && args.length === 0) {
+    await receiveManual(outputDir);
+  } else if (command === 'receive' && !values.manual && args.length === 1) {
+    await receiveWithPin(args[0], outputDir, values.relay);
+  } else {
+    status(USAGE);
+    process.exit(1);
+  }
+}
+
+main().then(
+  () => {
+    cleanupDataChannels();
+    process.exit(0);
+  },
+  (err) => {
+    status(`\nError: ${err instanceof Error ? err.message : String(err)}`);
+    cleanupDataChannels();
+    process.exit(1);
+  },
+);
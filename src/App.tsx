@@ -2,6 +2,7 @@ import { Route, Routes } from 'react-router-dom';
 import { Footer } from '@/components/footer';
 import { Navbar } from '@/components/navbar';
 import { AboutPage } from '@/pages/about';
+import { HistoryPage } from '@/pages/history';
 import { HomePage } from '@/pages/home';
 import { NotFoundPage } from '@/pages/not-found';
 import { ReceivePage } from '@/pages/receive';
@@ -10,6 +11,7 @@ import { SendPage } from '@/pages/send';
 import { SendLayout } from '@/pages/send/layout';
 import { SendTransferPage } from '@/pages/send/transfer';
 import { SendTransferLayout } from '@/pages/send/transfer/layout';
+import { SettingsPage } from '@/pages/settings';
 
 function App() {
   return (
@@ -27,6 +29,8 @@ function App() {
           </Route>
           <Route path="/receive" element={<ReceivePage />} />
           <Route path="/r" element={<ReceiveChunkedPage />} />
+          <Route path="/history" element={<HistoryPage />} />
+          <Route path="/settings" element={<SettingsPage />} />
           <Route path="/about" element={<AboutPage />} />
           <Route path="*" element={<NotFoundPage />} />
         </Routes>
@@ -1,4 +1,13 @@
-import { Download, Home, Info, Menu, Send, X } from 'lucide-react';
+import {
+  Download,
+  History,
+  Home,
+  Info,
+  Menu,
+  Send,
+  Settings,
+  X,
+} from 'lucide-react';
 import { useState } from 'react';
 import { Link, NavLink } from 'react-router-dom';
 import { Logo } from '@/components/logo';
@@ -18,6 +27,8 @@ const NAV_LINKS = [
   { to: '/', label: 'Home', icon: Home, end: true },
   { to: '/send', label: 'Send', icon: Send, end: false },
   { to: '/receive', label: 'Receive', icon: Download, end: false },
+  { to: '/history', label: 'History', icon: History, end: false },
+  { to: '/settings', label: 'Settings', icon: Settings, end: false },
   { to: '/about', label: 'About', icon: Info, end: false },
 ] as const;
 
@@ -0,0 +1,98 @@
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { buildChunkUrl } from '@/lib/chunk-utils';
+import { createFountainEncoder } from '@/lib/fountain';
+import { generateTextQRCode } from '@/lib/qr-utils';
+
+const MIN_QR_SIZE = 150;
+// Frame period of the animated display: about two scan attempts per frame at
+// the scanner's ~8fps.
+const ANIMATION_FRAME_MS = 250;
+
+/**
+ * One QR code cycling through an endless stream of fountain-coded frames.
+ * The receiver decodes once it has caught enough independent frames, in any
+ * order, so nothing has to be rescanned. Used for long signaling codes and
+ * for the offline QR transfer.
+ */
+export function AnimatedQR({ data }: { data: Uint8Array }) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [frameNumber, setFrameNumber] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const encoder = useMemo(() => createFountainEncoder(data), [data]);
+
+  useEffect(() => {
+    let active = true;
+    const baseUrl = window.location.origin;
+    const qrWidth = Math.max(
+      containerRef.current?.clientWidth ?? 0,
+      MIN_QR_SIZE,
+    );
+
+    setImageUrl(null);
+    setError(null);
+
+    // Render one frame at a time so a slow QR generator stretches the
+    // period instead of queueing frames.
+    const run = async () => {
+      for (let n = 0; active; n++) {
+        const started = Date.now();
+        try {
+          const url = await generateTextQRCode(
+            buildChunkUrl(baseUrl, encoder.frame(n)),
+            { width: qrWidth, errorCorrectionLevel: 'M' },
+          );
+          if (!active) return;
+          setImageUrl(url);
+          setFrameNumber(n);
+        } catch (err) {
+          if (!active) return;
+          console.error('Failed to generate QR codes:', err);
+          setError('Failed to generate QR codes');
+          return;
+        }
+        const wait = ANIMATION_FRAME_MS - (Date.now() - started);
+        if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+      }
+    };
+    void run();
+
+    return () => {
+      active = false;
+    };
+  }, [encoder]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center text-destructive text-sm py-8">
+        <AlertCircle className="h-4 w-4 mr-2" />
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1 w-full max-w-[300px]">
+      <div className="p-2 bg-white rounded-lg w-full">
+        <div ref={containerRef} className="flex items-center justify-center">
+          {imageUrl ? (
+            <img
+              src={imageUrl}
+              alt={`Animated QR code, frame ${frameNumber + 1}`}
+              className="block w-full h-auto"
+            />
+          ) : (
+            <div className="aspect-square w-full flex items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Keep this code in view of the receiver's camera until it is done; missed
+        frames don't matter.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { ChevronDown, ChevronRight, Download } from 'lucide-react';
+import { useState, useSyncExternalStore } from 'react';
+import { Button } from '@/components/ui/button';
+import { APP_VERSION } from '@/lib/app-version';
+import {
+  buildDiagnosticsReport,
+  type CandidateSummary,
+  type ConnectionDiagnostics as ConnectionDiagnosticsEntry,
+  diagnoseConnection,
+  getTrackedConnections,
+  subscribeConnectionDiagnostics,
+  throughputSeries,
+} from '@/lib/connection-diagnostics';
+import { downloadFile, formatFileSize } from '@/lib/file-utils';
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 40;
+
+function countByType(candidates: CandidateSummary[]): string {
+  if (candidates.length === 0) return 'none';
+  const counts = new Map<string, number>();
+  for (const candidate of candidates) {
+    counts.set(candidate.type, (counts.get(candidate.type) ?? 0) + 1);
+  }
+  const mdns = candidates.filter((c) => c.mdns).length;
+  return [
+    ...[...counts].map(([type, count]) => `${count} ${type}`),
+    ...(mdns > 0 ? [`${mdns} mDNS`] : []),
+  ].join(', ');
+}
+
+function Throughput({ entry }: { entry: ConnectionDiagnosticsEntry }) {
+  const series = throughputSeries(entry.samples);
+  if (series.length < 2) return null;
+  const peak = Math.max(...series.map((point) => point.bytesPerSecond), 1);
+  const points = series
+    .map((point, i) => {
+      const x = (i / (series.length - 1)) * SPARKLINE_WIDTH;
+      const y =
+        SPARKLINE_HEIGHT - (point.bytesPerSecond / peak) * SPARKLINE_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const latest = series[series.length - 1].bytesPerSecond;
+
+  return (
+    <div className="space-y-1">
+      <p>
+        Throughput: {formatFileSize(latest)}/s (peak {formatFileSize(peak)}/s)
+      </p>
+      <svg
+        viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+        className="h-10 w-full max-w-[240px] text-primary"
+        role="img"
+        aria-label="Throughput over time"
+      >
+        <polyline
+          points={points}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+        />
+      </svg>
+    </div>
+  );
+}
+
+function ConnectionDetails({ entry }: { entry: ConnectionDiagnosticsEntry }) {
+  const { summary } = entry;
+  const selected = summary?.selectedPair;
+  const hints = diagnoseConnection(entry);
+
+  const exportReport = () => {
+    const report = buildDiagnosticsReport(entry, APP_VERSION);
+    downloadFile(
+      new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }),
+      `secure-send-diagnostics-${entry.startedAt}.json`,
+      'application/json',
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <p>
+        State: {entry.connectionState} (ICE {entry.iceConnectionState},
+        gathering {entry.iceGatheringState})
+      </p>
+      <p>
+        ICE servers:{' '}
+        {entry.iceServers.length > 0
+          ? entry.iceServers.join(', ')
+          : 'none (local network only)'}
+        {entry.iceTransportPolicy === 'relay' && ' — relay only'}
+      </p>
+      {summary && (
+        <>
+          <p>Local candidates: {countByType(summary.localCandidates)}</p>
+          <p>Remote candidates: {countByType(summary.remoteCandidates)}</p>
+          <p>
+            Candidate pairs: {summary.pairs.length}
+            {summary.pairs.length > 0 &&
+              ` (${summary.pairs.filter((p) => p.state === 'failed').length} failed)`}
+          </p>
+        </>
+      )}
+      {selected ? (
+        <>
+          <p>
+            Selected pair: {selected.localType} → {selected.remoteType}
+            {selected.rttMs !== undefined && `, RTT ${selected.rttMs} ms`}
+          </p>
+          <p>
+            Sent {formatFileSize(selected.bytesSent)}, received{' '}
+            {formatFileSize(selected.bytesReceived)}
+          </p>
+        </>
+      ) : (
+        <p>No candidate pair selected.</p>
+      )}
+      <Throughput entry={entry} />
+      {hints.length > 0 && (
+        <ul className="list-disc space-y-0.5 pl-4">
+          {hints.map((hint) => (
+            <li key={hint}>{hint}</li>
+          ))}
+        </ul>
+      )}
+      <Button variant="outline" size="sm" onClick={exportReport}>
+        <Download className="mr-2 h-3 w-3" />
+        Export report
+      </Button>
+      <p>
+        The report includes the devices' network addresses. It never includes
+        TURN passwords.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Collapsible view of the recent WebRTC connections' ICE candidates and
+ * stats (see connection-diagnostics.ts), with a JSON export for support.
+ * Renders nothing until a connection has been attempted.
+ */
+export function ConnectionDiagnostics() {
+  const connections = useSyncExternalStore(
+    subscribeConnectionDiagnostics,
+    getTrackedConnections,
+  );
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  if (connections.length === 0) return null;
+  const entry =
+    connections.find((connection) => connection.id === selectedId) ??
+    connections[0];
+
+  return (
+    <div className="text-xs space-y-1">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        {open ? (
+          <ChevronDown className="h-3 w-3" />
+        ) : (
+          <ChevronRight className="h-3 w-3" />
+        )}
+        <span>Connection diagnostics</span>
+      </button>
+      {open && (
+        <div className="pl-4 space-y-2 text-muted-foreground">
+          {connections.length > 1 && (
+            <div className="flex flex-wrap gap-1">
+              {connections.map((connection) => (
+                <Button
+                  key={connection.id}
+                  variant={connection === entry ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setSelectedId(connection.id)}
+                >
+                  {new Date(connection.startedAt).toLocaleTimeString()}
+                </Button>
+              ))}
+            </div>
+          )}
+          <ConnectionDetails entry={entry} />
+        </div>
+      )}
+    </div>
+  );
+}
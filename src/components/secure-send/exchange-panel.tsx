@@ -0,0 +1,156 @@
+import {
+  ArrowDown,
+  ArrowLeftRight,
+  ArrowUp,
+  CheckCircle2,
+  Loader2,
+  Upload,
+  XCircle,
+} from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import type { ExchangeItem, ExchangeState } from '@/lib/exchange-session';
+import { createManifestTransferSource } from '@/lib/file-manifest';
+import { formatFileSize } from '@/lib/file-utils';
+import type { TransferSource } from '@/lib/transfer-source';
+import { ReceivedContentView } from './received-content';
+
+interface ExchangePanelProps {
+  exchange: ExchangeState;
+  /** Queue files in the session; throws if the session cannot take them. */
+  onSend: (source: TransferSource) => void;
+  onEnd: () => void;
+}
+
+function ExchangeItemIcon({ item }: { item: ExchangeItem }) {
+  switch (item.status) {
+    case 'complete':
+      return <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />;
+    case 'error':
+      return <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />;
+    case 'transferring':
+      return <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />;
+    default:
+      return item.direction === 'outgoing' ? (
+        <ArrowUp className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+      ) : (
+        <ArrowDown className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+      );
+  }
+}
+
+/**
+ * Files sent and received over an exchange session, shared by the send and
+ * receive pages. Either side can add files while the session is open.
+ */
+export function ExchangePanel({ exchange, onSend, onEnd }: ExchangePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    setError(null);
+    try {
+      onSend(
+        createManifestTransferSource(
+          files,
+          files.length === 1 ? files[0].name : `${files.length} files`,
+        ),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send files');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-3 space-y-3">
+      <div className="flex items-start gap-2">
+        <ArrowLeftRight className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        <div className="space-y-0.5">
+          <p className="text-sm font-medium">Exchange session</p>
+          <p className="text-xs text-muted-foreground">
+            {exchange.open
+              ? 'Still connected. Either of you can send more files.'
+              : 'Session ended.'}
+          </p>
+        </div>
+      </div>
+
+      {exchange.items.length > 0 && (
+        <ul className="space-y-3">
+          {exchange.items.map((item) => (
+            <li key={item.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <ExchangeItemIcon item={item} />
+                <span className="min-w-0 flex-1 truncate text-sm">
+                  {item.direction === 'outgoing' ? 'Sent: ' : 'Received: '}
+                  {item.name}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatFileSize(item.size)}
+                </span>
+              </div>
+              {item.message && item.status !== 'complete' && (
+                <p
+                  className={`pl-6 text-xs ${
+                    item.status === 'error'
+                      ? 'text-destructive'
+                      : 'text-muted-foreground'
+                  }`}
+                >
+                  {item.message}
+                </p>
+              )}
+              {item.status === 'transferring' &&
+                item.progress &&
+                item.progress.total > 0 && (
+                  <div className="pl-6">
+                    <Progress
+                      value={
+                        (item.progress.current / item.progress.total) * 100
+                      }
+                      className="h-1.5"
+                    />
+                  </div>
+                )}
+              {item.content && (
+                <div className="pl-6">
+                  <ReceivedContentView content={item.content} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {exchange.open && (
+        <div className="space-y-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          <div className="flex gap-2">
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Send Files
+            </Button>
+            <Button onClick={onEnd} variant="outline">
+              End Session
+            </Button>
+          </div>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  getIceSettings,
+  type IcePolicy,
+  type IceSettings as IceSettingsValue,
+  isTurnUrl,
+  MAX_ICE_SERVERS,
+  parseIceServerUrl,
+  saveIceSettings,
+} from '@/lib/webrtc-config';
+
+const POLICY_OPTIONS: {
+  value: IcePolicy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: 'all',
+    label: 'Direct when possible',
+    description:
+      'Connect directly, and fall back to a TURN relay only if one is configured and no direct route works.',
+  },
+  {
+    value: 'relay',
+    label: 'Always relay',
+    description:
+      "Send everything through a TURN relay, so neither device learns the other's IP address. Requires a TURN server.",
+  },
+  {
+    value: 'no-relay',
+    label: 'Never relay',
+    description:
+      'Only direct connections, even when a TURN server is configured.',
+  },
+  {
+    value: 'lan-only',
+    label: 'Local network only',
+    description:
+      'Contact no STUN or TURN server, so none of them learns your public IP address, and only connect devices on the same local network.',
+  },
+];
+
+/**
+ * STUN/TURN servers and relay policy for the WebRTC connection. Changes are
+ * saved in this browser right away and apply to the next send or receive.
+ */
+export function IceSettings() {
+  const [settings, setSettings] = useState<IceSettingsValue>(getIceSettings);
+  const [url, setUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [credential, setCredential] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const persist = (next: IceSettingsValue) =>
+    setSettings(saveIceSettings(next));
+
+  const parsedUrl = parseIceServerUrl(url);
+  const turn = parsedUrl !== null && isTurnUrl(parsedUrl);
+  const hasTurn = settings.servers.some((server) =>
+    isTurnUrl(server.urls as string),
+  );
+
+  const handleAdd = () => {
+    setError(null);
+    if (!parsedUrl) {
+      setError(
+        'Enter a server address such as stun:stun.example.com:3478 or turn:turn.example.com:3478',
+      );
+      return;
+    }
+    if (settings.servers.some((server) => server.urls === parsedUrl)) {
+      setError('That server is already in the list');
+      return;
+    }
+    if (settings.servers.length >= MAX_ICE_SERVERS) {
+      setError(`Use at most ${MAX_ICE_SERVERS} servers`);
+      return;
+    }
+    if (turn && (!username || !credential)) {
+      setError('A TURN server needs a username and password');
+      return;
+    }
+    persist({
+      ...settings,
+      servers: [
+        ...settings.servers,
+        turn ? { urls: parsedUrl, username, credential } : { urls: parsedUrl },
+      ],
+    });
+    setUrl('');
+    setUsername('');
+    setCredential('');
+  };
+
+  const custom = settings.servers.length > 0 || settings.policy !== 'all';
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl">Connection Servers</CardTitle>
+        <CardDescription>
+          STUN servers help the devices find a direct route to each other. A
+          TURN server relays the connection when no direct route works, for
+          example behind a corporate firewall; it only ever sees encrypted data.
+          Your servers replace the default public STUN servers. Saved in this
+          browser, including TURN passwords.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings.servers.length > 0 ? (
+          <ul className="space-y-2">
+            {settings.servers.map((server) => (
+              <li
+                key={server.urls as string}
+                className="flex items-center gap-2 rounded-md border px-3 py-2"
+              >
+                <span className="min-w-0 flex-1 truncate font-mono text-sm">
+                  {server.urls as string}
+                </span>
+                {server.username && (
+                  <span className="truncate text-xs text-muted-foreground">
+                    {server.username}
+                  </span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${server.urls as string}`}
+                  onClick={() =>
+                    persist({
+                      ...settings,
+                      servers: settings.servers.filter((s) => s !== server),
+                    })
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Using the default public STUN servers (Google and Cloudflare).
+          </p>
+        )}
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+        >
+          <Label htmlFor="new-ice-server">Add a server</Label>
+          <Input
+            id="new-ice-server"
+            placeholder="turn:turn.example.com:3478"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+          {turn && (
+            <div className="flex gap-2">
+              <Input
+                aria-label="TURN username"
+                placeholder="Username"
+                autoComplete="off"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+              <Input
+                aria-label="TURN password"
+                placeholder="Password"
+                type="password"
+                autoComplete="new-password"
+                value={credential}
+                onChange={(e) => setCredential(e.target.value)}
+              />
+            </div>
+          )}
+          <Button type="submit" disabled={!url.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+
+        <div className="space-y-2">
+          <Label>TURN relay policy</Label>
+          <RadioGroup
+            value={settings.policy}
+            onValueChange={(value) =>
+              persist({ ...settings, policy: value as IcePolicy })
+            }
+            className="gap-2"
+          >
+            {POLICY_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                htmlFor={`ice-policy-${option.value}`}
+                className={`flex cursor-pointer items-start gap-3 rounded-md border p-3 transition-colors ${
+                  settings.policy === option.value
+                    ? 'border-primary bg-primary/5'
+                    : 'border-border hover:bg-muted/60'
+                }`}
+              >
+                <RadioGroupItem
+                  id={`ice-policy-${option.value}`}
+                  value={option.value}
+                  className="mt-0.5"
+                />
+                <div className="space-y-1">
+                  <span className="text-sm font-medium">{option.label}</span>
+                  <p className="text-xs text-muted-foreground">
+                    {option.description}
+                  </p>
+                </div>
+              </label>
+            ))}
+          </RadioGroup>
+          {settings.policy === 'relay' && !hasTurn && (
+            <p className="text-sm text-destructive">
+              Add a TURN server, or every connection will fail.
+            </p>
+          )}
+          {settings.policy === 'lan-only' && settings.servers.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              The servers above are not used while this is selected.
+            </p>
+          )}
+        </div>
+
+        {custom && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              setError(null);
+              persist({ servers: [], policy: 'all' });
+            }}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset to Defaults
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,12 @@
-import { AlertCircle, Check, ChevronDown, Copy, Loader2 } from 'lucide-react';
+import {
+  AlertCircle,
+  Check,
+  ChevronDown,
+  Copy,
+  Film,
+  LayoutGrid,
+  Loader2,
+} from 'lucide-react';
 import type * as React from 'react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
@@ -11,6 +19,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { buildChunkUrl, chunkPayload } from '@/lib/chunk-utils';
 import { generateMutualClipboardData } from '@/lib/manual-signaling';
 import { generateTextQRCode } from '@/lib/qr-utils';
+import { AnimatedQR } from './animated-qr';
 
 // The Clipboard API is unavailable in insecure contexts and some in-app
 // browsers. Fall back to a read-only text box for manual selection there.
@@ -44,6 +53,8 @@ export function MultiQRDisplay({
   const [error, setError] = useState<string | null>(null);
   // Reveal the read-only text box when the browser can't copy, or on request.
   const [showText, setShowText] = useState(!clipboardWriteSupported);
+  // Grid of every chunk, or one animated fountain-coded code.
+  const [animated, setAnimated] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
   // The exact payload the receiver needs, matching what Copy Data writes.
@@ -64,7 +75,7 @@ export function MultiQRDisplay({
   }, [data]);
 
   useEffect(() => {
-    if (chunkInfos.length === 0) {
+    if (chunkInfos.length === 0 || animated) {
       setQrImageUrls(new Map());
       setError(null);
       return;
@@ -120,7 +131,7 @@ export function MultiQRDisplay({
     return () => {
       active = false;
     };
-  }, [chunkInfos]);
+  }, [chunkInfos, animated]);
 
   const handleCopy = useCallback(async () => {
     if (!copyPayload) return;
@@ -165,37 +176,64 @@ export function MultiQRDisplay({
         {chunkInfos.length !== 1 ? 's' : ''}
       </div>
 
-      <div
-        className={`grid gap-4 ${chunkInfos.length === 1 ? 'grid-cols-1' : 'grid-cols-1 sm:grid-cols-2'} w-full max-w-[600px]`}
-      >
-        {chunkInfos.map((info, i) => (
-          <div key={info.index} className="flex flex-col items-center gap-1">
-            <div className="p-2 bg-white rounded-lg w-full">
-              <div
-                ref={i === 0 ? containerRef : undefined}
-                className="flex items-center justify-center w-full"
-              >
-                {qrImageUrls.has(info.index) ? (
-                  <img
-                    src={qrImageUrls.get(info.index)}
-                    alt={`QR Code ${info.index + 1} of ${info.total}`}
-                    className="block w-full h-auto"
-                  />
-                ) : (
-                  <div className="aspect-square w-full flex items-center justify-center">
-                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-                  </div>
-                )}
+      {chunkInfos.length > 1 && (
+        <div className="flex gap-1 rounded-md border p-1">
+          <Button
+            variant={animated ? 'ghost' : 'secondary'}
+            size="sm"
+            onClick={() => setAnimated(false)}
+            className="text-xs"
+          >
+            <LayoutGrid className="h-3 w-3 mr-1" />
+            All codes
+          </Button>
+          <Button
+            variant={animated ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setAnimated(true)}
+            className="text-xs"
+          >
+            <Film className="h-3 w-3 mr-1" />
+            Animated
+          </Button>
+        </div>
+      )}
+
+      {animated ? (
+        <AnimatedQR data={data} />
+      ) : (
+        <div
+          className={`grid gap-4 ${chunkInfos.length === 1 ? 'grid-cols-1' : 'grid-cols-1 sm:grid-cols-2'} w-full max-w-[600px]`}
+        >
+          {chunkInfos.map((info, i) => (
+            <div key={info.index} className="flex flex-col items-center gap-1">
+              <div className="p-2 bg-white rounded-lg w-full">
+                <div
+                  ref={i === 0 ? containerRef : undefined}
+                  className="flex items-center justify-center w-full"
+                >
+                  {qrImageUrls.has(info.index) ? (
+                    <img
+                      src={qrImageUrls.get(info.index)}
+                      alt={`QR Code ${info.index + 1} of ${info.total}`}
+                      className="block w-full h-auto"
+                    />
+                  ) : (
+                    <div className="aspect-square w-full flex items-center justify-center">
+                      <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                    </div>
+                  )}
+                </div>
               </div>
+              {info.total > 1 && (
+                <p className="text-xs text-muted-foreground font-medium">
+                  {info.index + 1} of {info.total}
+                </p>
+              )}
             </div>
-            {info.total > 1 && (
-              <p className="text-xs text-muted-foreground font-medium">
-                {info.index + 1} of {info.total}
-              </p>
-            )}
-          </div>
-        ))}
-      </div>
+          ))}
+        </div>
+      )}
 
       {showCopyButton && copyPayload && (
         <div className="flex flex-col items-center gap-2 w-full max-w-[600px]">
@@ -0,0 +1,43 @@
+import { KeyRound } from 'lucide-react';
+import { type FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface PassphrasePromptProps {
+  onSubmit: (passphrase: string) => void;
+}
+
+/**
+ * Asks the receiver for the passphrase a sealed (SS04) Manual Exchange code
+ * was protected with. The hook reports a wrong passphrase in its status
+ * message, so the field stays filled for a correction.
+ */
+export function PassphrasePrompt({ onSubmit }: PassphrasePromptProps) {
+  const [passphrase, setPassphrase] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (passphrase.trim()) onSubmit(passphrase);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <label htmlFor="receive-passphrase" className="text-sm font-medium">
+        Passphrase
+      </label>
+      <Input
+        id="receive-passphrase"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        autoComplete="off"
+        autoCapitalize="off"
+        spellCheck={false}
+        autoFocus
+      />
+      <Button type="submit" disabled={!passphrase.trim()} className="w-full">
+        <KeyRound className="mr-2 h-4 w-4" />
+        Unlock code
+      </Button>
+    </form>
+  );
+}
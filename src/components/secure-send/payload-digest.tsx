@@ -0,0 +1,58 @@
+import { Check, Copy, Fingerprint } from 'lucide-react';
+import { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+
+interface PayloadDigestProps {
+  /** Lowercase hex SHA-256 of the transferred payload. */
+  digest: string;
+}
+
+/**
+ * The whole-payload SHA-256 both sides agreed on, shown in full so it can be
+ * compared between devices or pasted into a ticket. It matches `sha256sum` of
+ * the downloaded file (or ZIP archive).
+ */
+export function PayloadDigest({ digest }: PayloadDigestProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(digest);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      // The digest stays selectable for a manual copy.
+      console.error('Failed to copy:', err);
+    }
+  }, [digest]);
+
+  return (
+    <div className="rounded-lg border bg-muted/50 p-3 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+          <Fingerprint className="h-3 w-3" />
+          SHA-256
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleCopy}
+          className="h-auto px-2 py-1 text-xs"
+        >
+          {copied ? (
+            <>
+              <Check className="mr-1 h-3 w-3" />
+              Copied!
+            </>
+          ) : (
+            <>
+              <Copy className="mr-1 h-3 w-3" />
+              Copy
+            </>
+          )}
+        </Button>
+      </div>
+      <p className="font-mono text-xs break-all select-all">{digest}</p>
+    </div>
+  );
+}
@@ -24,6 +24,11 @@ interface PinDisplayProps {
    * shown PINs. The button is hidden when not provided.
    */
   onRefresh?: () => Promise<void> | void;
+  /**
+   * Replaces the PIN with a PBKDF2 one a receiver on an older client or
+   * without WebAssembly can use. The option is hidden when not provided.
+   */
+  onUseCompatiblePin?: () => Promise<void> | void;
 }
 
 export function PinDisplay({
@@ -31,6 +36,7 @@ export function PinDisplay({
   fingerprint,
   onExpire,
   onRefresh,
+  onUseCompatiblePin,
 }: PinDisplayProps) {
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState(false);
@@ -150,17 +156,30 @@ export function PinDisplay({
 
   const [refreshing, setRefreshing] = useState(false);
 
-  const handleRefresh = useCallback(async () => {
-    if (!onRefresh || refreshing) return;
-    setRefreshing(true);
-    try {
-      await onRefresh();
-    } finally {
-      if (mountedRef.current) {
-        setRefreshing(false);
+  const runRefresh = useCallback(
+    async (refresh: (() => Promise<void> | void) | undefined) => {
+      if (!refresh || refreshing) return;
+      setRefreshing(true);
+      try {
+        await refresh();
+      } finally {
+        if (mountedRef.current) {
+          setRefreshing(false);
+        }
       }
-    }
-  }, [onRefresh, refreshing]);
+    },
+    [refreshing],
+  );
+
+  const handleRefresh = useCallback(
+    () => runRefresh(onRefresh),
+    [runRefresh, onRefresh],
+  );
+
+  const handleUseCompatiblePin = useCallback(
+    () => runRefresh(onUseCompatiblePin),
+    [runRefresh, onUseCompatiblePin],
+  );
 
   // Mask PIN with bullet characters (dashes stay visible)
   const maskedPin = formattedPin.replace(/[^-]/g, '•');
@@ -254,6 +273,21 @@ export function PinDisplay({
         screen. Share it over a channel you trust.
       </p>
 
+      {onUseCompatiblePin && (
+        <p className="text-xs text-muted-foreground text-center">
+          Receiver says the PIN is invalid or needs WebAssembly?{' '}
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={handleUseCompatiblePin}
+            disabled={refreshing}
+          >
+            Use a compatible PIN
+          </Button>
+        </p>
+      )}
+
       {/* Quiet resource backstop, not a security deadline: rotation already
           caps each code's life, so there is no urgency to surface here. */}
       <p className="text-xs text-muted-foreground/70 text-center">
@@ -10,13 +10,16 @@ import {
 import { Input } from '@/components/ui/input';
 import {
   computePinFingerprint,
+  getPinKdf,
   importPinRoot,
   isValidPin,
   normalizePinInput,
   PIN_CHARSET,
   PIN_GROUP_LENGTH,
   PIN_LENGTH,
+  type PinKdf,
 } from '@/lib/crypto';
+import { ValidationError } from '@/lib/errors';
 
 const GROUP_COUNT = PIN_LENGTH / PIN_GROUP_LENGTH;
 const MASK_CHAR = '*';
@@ -24,6 +27,7 @@ const MASK_CHAR = '*';
 export interface PinChangePayload {
   key: CryptoKey | null;
   fingerprint: string | null;
+  kdf: PinKdf | null;
   isValid: boolean;
   length: number;
 }
@@ -92,6 +96,7 @@ export const PinInput = forwardRef<PinInputRef, PinInputProps>(
     const generationRef = useRef(0);
     const securedKeyRef = useRef<CryptoKey | null>(null);
     const securedFingerprintRef = useRef<string | null>(null);
+    const securedKdfRef = useRef<PinKdf | null>(null);
 
     useEffect(() => {
       return () => {
@@ -104,6 +109,7 @@ export const PinInput = forwardRef<PinInputRef, PinInputProps>(
         onPinChange({
           key: valid ? securedKeyRef.current : null,
           fingerprint: valid ? securedFingerprintRef.current : null,
+          kdf: valid ? securedKdfRef.current : null,
           isValid: valid,
           length,
         });
@@ -141,6 +147,7 @@ export const PinInput = forwardRef<PinInputRef, PinInputProps>(
 
           securedKeyRef.current = root;
           securedFingerprintRef.current = fingerprint;
+          securedKdfRef.current = getPinKdf(candidate);
           setPin('');
           setIsSecured(true);
           setError(null);
@@ -151,7 +158,11 @@ export const PinInput = forwardRef<PinInputRef, PinInputProps>(
           securedKeyRef.current = null;
           securedFingerprintRef.current = null;
           emitChange(false, candidate.length);
-          setError('Failed to secure PIN');
+          setError(
+            err instanceof ValidationError
+              ? err.message
+              : 'Failed to secure PIN',
+          );
         }
       },
       [emitChange],
@@ -9,12 +9,19 @@ import {
   parseChunk,
   reassembleChunks,
 } from '@/lib/chunk-utils';
+import {
+  createFountainDecoder,
+  type FountainDecoder,
+  parseFountainFrame,
+} from '@/lib/fountain';
 import { isValidBinaryPayload } from '@/lib/manual-signaling';
 import { isMobileDevice } from '@/lib/utils';
 
 interface QRScannerProps {
   onScan: (binary: Uint8Array) => void;
-  expectedType: 'offer' | 'answer';
+  // 'transfer' is the offline QR transfer: animated frames, handed on
+  // undecoded like an offer.
+  expectedType: 'offer' | 'answer' | 'transfer';
   onError?: (error: string) => void;
   disabled?: boolean;
 }
@@ -35,12 +42,16 @@ export function QRScanner({
     new Set(),
   );
   const [totalChunks, setTotalChunks] = useState<number | null>(null);
+  // Set while decoding an animated (fountain-coded) offer; the counts then
+  // track source blocks recovered rather than codes scanned.
+  const [animated, setAnimated] = useState(false);
   const [warning, setWarning] = useState<string | null>(null);
   const warningTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const chunksRef = useRef<Map<number, Uint8Array>>(new Map());
   const totalChunksRef = useRef<number | null>(null);
   const checksumRef = useRef<number | null>(null);
+  const fountainRef = useRef<FountainDecoder | null>(null);
 
   const showWarning = useCallback((msg: string) => {
     if (warningTimerRef.current) clearTimeout(warningTimerRef.current);
@@ -59,12 +70,14 @@ export function QRScanner({
     chunksRef.current.clear();
     totalChunksRef.current = null;
     checksumRef.current = null;
+    fountainRef.current = null;
   }, []);
 
   const clearChunkProgressState = useCallback(() => {
     setCollectedCount(0);
     setCollectedIndices(new Set());
     setTotalChunks(null);
+    setAnimated(false);
   }, []);
 
   const handleInvalidPayload = useCallback(
@@ -91,8 +104,8 @@ export function QRScanner({
 
   const handleScan = useCallback(
     (binaryData: Uint8Array) => {
-      if (expectedType === 'offer') {
-        // URL-based QR codes from MultiQRDisplay
+      if (expectedType !== 'answer') {
+        // URL-based QR codes from MultiQRDisplay or AnimatedQR
         const text = new TextDecoder().decode(binaryData);
         const param = extractChunkParam(text);
         if (!param) {
@@ -101,6 +114,42 @@ export function QRScanner({
           return;
         }
 
+        const frame = parseChunk(param) ? null : parseFountainFrame(param);
+        if (frame) {
+          // Animated display: a frame from another payload starts over.
+          if (fountainRef.current && !fountainRef.current.accepts(frame)) {
+            clearChunkRefs();
+            clearChunkProgressState();
+          }
+          let decoder = fountainRef.current;
+          if (decoder) {
+            decoder.addFrame(frame);
+          } else {
+            clearChunkRefs();
+            decoder = createFountainDecoder(frame);
+            fountainRef.current = decoder;
+          }
+          setAnimated(true);
+          setTotalChunks(decoder.blockCount);
+          setCollectedCount(decoder.rank());
+          setError(null);
+          setWarning(null);
+
+          if (decoder.rank() === decoder.blockCount) {
+            const assembled = decoder.result();
+            clearChunkRefs();
+            clearChunkProgressState();
+            if (!assembled) {
+              const msg = 'Invalid QR payload. Please start scanning again.';
+              setError(msg);
+              onError?.(msg);
+              return;
+            }
+            onScan(assembled);
+          }
+          return;
+        }
+
         const chunk = parseChunk(param);
         if (!chunk) {
           console.debug('QRScanner: failed to parse chunk param', param);
@@ -109,10 +158,12 @@ export function QRScanner({
           return;
         }
 
-        // Reset if total changed (different transfer)
+        // Reset if total changed (different transfer) or an animated
+        // decode was under way
         if (
-          totalChunksRef.current !== null &&
-          totalChunksRef.current !== chunk.total
+          fountainRef.current ||
+          (totalChunksRef.current !== null &&
+            totalChunksRef.current !== chunk.total)
         ) {
           clearChunkRefs();
           clearChunkProgressState();
@@ -180,7 +231,7 @@ export function QRScanner({
           onScan(assembled);
         }
       } else {
-        // Binary SS03 payload from QRDisplay
+        // Binary SS03/SS04 payload from QRDisplay
         if (!isValidBinaryPayload(binaryData)) {
           setError('Invalid or unsupported QR payload format');
           onError?.('Invalid or unsupported QR payload format');
@@ -239,32 +290,42 @@ export function QRScanner({
       {needsMoreChunks && (
         <div className="space-y-2">
           <p className="text-xs text-muted-foreground text-center">
-            Collected {collectedCount} of {totalChunks} QR codes (
+            {animated ? 'Decoded' : 'Collected'} {collectedCount} of{' '}
+            {totalChunks} {animated ? 'blocks' : 'QR codes'} (
             {Math.round((collectedCount / totalChunks) * 100)}%)
           </p>
-          <div className="flex flex-wrap justify-center gap-1.5">
-            {Array.from({ length: totalChunks ?? 0 }, (_, i) => {
-              const received = collectedIndices.has(i);
-              return (
-                <div
-                  // biome-ignore lint/suspicious/noArrayIndexKey: fixed-position chunk grid; index IS the identity
-                  key={i}
-                  className={`w-7 h-7 rounded text-xs font-medium flex items-center justify-center transition-colors ${
-                    received
-                      ? 'bg-cyan-600 text-white'
-                      : 'border border-muted-foreground/30 text-muted-foreground'
-                  }`}
-                  title={`QR #${i + 1}: ${received ? 'Received' : 'Missing'}`}
-                >
-                  {i + 1}
-                </div>
-              );
-            })}
-          </div>
-          <p className="text-xs text-muted-foreground text-center">
-            QR codes can be scanned in any order, but all QR codes must be
-            scanned.
-          </p>
+          {animated ? (
+            <p className="text-xs text-muted-foreground text-center">
+              Keep the camera on the animated QR code; later frames make up for
+              missed ones.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap justify-center gap-1.5">
+                {Array.from({ length: totalChunks ?? 0 }, (_, i) => {
+                  const received = collectedIndices.has(i);
+                  return (
+                    <div
+                      // biome-ignore lint/suspicious/noArrayIndexKey: fixed-position chunk grid; index IS the identity
+                      key={i}
+                      className={`w-7 h-7 rounded text-xs font-medium flex items-center justify-center transition-colors ${
+                        received
+                          ? 'bg-cyan-600 text-white'
+                          : 'border border-muted-foreground/30 text-muted-foreground'
+                      }`}
+                      title={`QR #${i + 1}: ${received ? 'Received' : 'Missing'}`}
+                    >
+                      {i + 1}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground text-center">
+                QR codes can be scanned in any order, but all QR codes must be
+                scanned.
+              </p>
+            </>
+          )}
         </div>
       )}
 
@@ -340,8 +401,9 @@ export function QRScanner({
       )}
 
       <p className="text-xs text-muted-foreground text-center">
-        Point your camera at the {expectedType} QR code
-        {needsMoreChunks ? 's' : ''}
+        {expectedType === 'transfer'
+          ? "Point your camera at the sender's animated QR code"
+          : `Point your camera at the ${expectedType} QR code${needsMoreChunks ? 's' : ''}`}
       </p>
     </div>
   );
@@ -1,7 +1,6 @@
 import {
   ArrowLeftRight,
   Download,
-  FileDown,
   Fingerprint,
   KeyRound,
   RotateCcw,
@@ -12,16 +11,17 @@ import { Button } from '@/components/ui/button';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useManualReceive } from '@/hooks/use-manual-receive';
 import { useNostrReceive } from '@/hooks/use-nostr-receive';
-import { formatPinHint } from '@/lib/crypto';
-import {
-  downloadFile,
-  formatFileSize,
-  getMimeTypeDescription,
-} from '@/lib/file-utils';
+import { formatPinHint, type ManualSas } from '@/lib/crypto';
 import type { PinKeyMaterial } from '@/lib/types';
+import { ExchangePanel } from './exchange-panel';
+import { PassphrasePrompt } from './passphrase-prompt';
 import { type PinChangePayload, PinInput, type PinInputRef } from './pin-input';
 import { QRDisplay } from './qr-display';
 import { QRInput } from './qr-input';
+import { QRScanner } from './qr-scanner';
+import { ReceivedContentView } from './received-content';
+import { SasDisplay } from './sas-display';
+import { SaveLocationPrompt } from './save-location-prompt';
 import { TransferStatus } from './transfer-status';
 
 const PIN_INACTIVITY_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
@@ -53,7 +53,17 @@ export function ReceiveTab() {
 
   const activeHook = isManualMode ? manualHook : nostrHook;
 
-  const { state: rawState, receivedContent, cancel, reset } = activeHook;
+  const {
+    state: rawState,
+    receivedContent,
+    cancel,
+    reset,
+    saveLocationRequest,
+    chooseSaveLocation,
+    keepInBrowser,
+  } = activeHook;
+  // Auto Exchange only: the sender may keep the connection for replies
+  const exchange = isManualMode ? null : nostrHook.exchange;
 
   // Get the right receive function based on mode
   // nostrHook has .receive, manualHook does not
@@ -63,7 +73,13 @@ export function ReceiveTab() {
     typeof activeHook.receive === 'function'
       ? activeHook.receive
       : undefined;
-  const { startReceive, submitOffer } = manualHook;
+  const {
+    startReceive,
+    submitOffer,
+    submitPassphrase,
+    receiveOverQr,
+    submitQrTransfer,
+  } = manualHook;
 
   // Use rawState directly for common properties
   const state = rawState;
@@ -74,6 +90,7 @@ export function ReceiveTab() {
     rawStateAny.answerData instanceof Uint8Array
       ? rawStateAny.answerData
       : undefined;
+  const sas = rawStateAny.sas as ManualSas | undefined;
   const clipboardData: string | undefined =
     typeof rawStateAny.clipboardData === 'string'
       ? rawStateAny.clipboardData
@@ -208,11 +225,11 @@ export function ReceiveTab() {
 
   const handlePinChange = useCallback(
     (payload: PinChangePayload) => {
-      const { key, fingerprint, isValid, length } = payload;
+      const { key, fingerprint, kdf, isValid, length } = payload;
       pinInputLengthRef.current = length;
 
-      if (isValid && key && fingerprint) {
-        pinSecretRef.current = { key, fingerprint };
+      if (isValid && key && fingerprint && kdf) {
+        pinSecretRef.current = { key, fingerprint, kdf };
         setIsPinValid(true);
         setPinFingerprint(formatPinHint(fingerprint));
       } else {
@@ -226,16 +243,6 @@ export function ReceiveTab() {
     [resetPinInactivityTimeout],
   );
 
-  const handleDownload = () => {
-    if (receivedContent) {
-      downloadFile(
-        receivedContent.data,
-        receivedContent.fileName,
-        receivedContent.mimeType,
-      );
-    }
-  };
-
   const isActive =
     state.status !== 'idle' &&
     state.status !== 'error' &&
@@ -386,7 +393,10 @@ export function ReceiveTab() {
         </>
       ) : (
         <>
-          <TransferStatus state={state} />
+          <TransferStatus
+            state={state}
+            onQrTransfer={isManualMode ? receiveOverQr : undefined}
+          />
 
           {/* QR Input for receiving offer */}
           {showQRInput && (
@@ -399,6 +409,16 @@ export function ReceiveTab() {
             </div>
           )}
 
+          {/* Passphrase for a sealed offer */}
+          {isManualMode && state.status === 'waiting_for_passphrase' && (
+            <PassphrasePrompt onSubmit={submitPassphrase} />
+          )}
+
+          {/* Offline QR transfer after a failed connection */}
+          {isManualMode && state.status === 'receiving_qr' && (
+            <QRScanner expectedType="transfer" onScan={submitQrTransfer} />
+          )}
+
           {/* Answer display: returned to the sender by QR or copy/paste */}
           {showQRDisplay && answerData && (
             <div className="space-y-4">
@@ -438,33 +458,32 @@ export function ReceiveTab() {
                 clipboardData={clipboardData}
                 label="Your response"
               />
+              {sas && <SasDisplay sas={sas} side="receiver" />}
             </div>
           )}
 
+          {saveLocationRequest && (
+            <SaveLocationPrompt
+              request={saveLocationRequest}
+              onChoose={() => void chooseSaveLocation()}
+              onKeepInBrowser={keepInBrowser}
+            />
+          )}
+
           {state.status === 'complete' && receivedContent && (
             <div className="space-y-4">
-              <div className="p-6 border rounded-lg bg-muted/50 text-center space-y-3">
-                <FileDown className="h-12 w-12 mx-auto text-muted-foreground" />
-                <div>
-                  <p className="font-medium truncate max-w-[300px] mx-auto">
-                    {receivedContent.fileName}
-                  </p>
-                  <p className="text-sm text-muted-foreground">
-                    {formatFileSize(receivedContent.fileSize)} &bull;{' '}
-                    {getMimeTypeDescription(receivedContent.mimeType)}
-                  </p>
-                </div>
-                <Button
-                  onClick={handleDownload}
-                  className="w-full max-w-[200px] bg-cyan-600 hover:bg-cyan-700 dark:bg-cyan-600 dark:hover:bg-cyan-700"
-                >
-                  <Download className="mr-2 h-4 w-4" />
-                  Download File
-                </Button>
-              </div>
+              <ReceivedContentView content={receivedContent} />
             </div>
           )}
 
+          {exchange && (
+            <ExchangePanel
+              exchange={exchange}
+              onSend={nostrHook.sendInExchange}
+              onEnd={nostrHook.endExchange}
+            />
+          )}
+
           <div className="flex gap-2">
             {isActive && (
               <Button variant="outline" onClick={cancel} className="flex-1">
@@ -0,0 +1,248 @@
+import {
+  Check,
+  Copy,
+  Download,
+  FileDown,
+  FolderDown,
+  MessageSquareText,
+} from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  downloadFile,
+  formatFileSize,
+  getMimeTypeDescription,
+  saveFilesToDirectory,
+  supportsDirectorySave,
+} from '@/lib/file-utils';
+import type {
+  ReceivedContent,
+  ReceivedFile,
+  ReceivedFileList,
+  ReceivedText,
+} from '@/lib/types';
+
+interface ReceivedContentViewProps {
+  content: ReceivedContent;
+}
+
+/** Seconds after copying a text message before the clipboard is cleared. */
+const CLIPBOARD_CLEAR_SECONDS = 30;
+
+const clipboardWriteSupported =
+  typeof navigator !== 'undefined' &&
+  typeof navigator.clipboard?.writeText === 'function';
+
+/**
+ * Completed-transfer card shared by the receive pages: a single file with a
+ * download button (or where it was saved, if written straight to disk or
+ * streamed to the downloads), the file list of a multi-file transfer with per-file
+ * downloads and (where supported) saving everything into a chosen folder, or
+ * a text message with copy-to-clipboard.
+ */
+export function ReceivedContentView({ content }: ReceivedContentViewProps) {
+  switch (content.contentType) {
+    case 'files':
+      return <ReceivedFileListView content={content} />;
+    case 'text':
+      return <ReceivedTextView message={content} />;
+    default:
+      return <ReceivedFileView file={content} />;
+  }
+}
+
+function downloadReceivedFile(file: ReceivedFile) {
+  downloadFile(file.data, file.fileName, file.mimeType);
+}
+
+function ReceivedFileView({ file }: { file: ReceivedFile }) {
+  return (
+    <div className="p-6 border rounded-lg bg-muted/50 text-center space-y-3">
+      <FileDown className="h-12 w-12 mx-auto text-muted-foreground" />
+      <div>
+        <p className="font-medium truncate max-w-[300px] mx-auto">
+          {file.fileName}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {formatFileSize(file.fileSize)} &bull;{' '}
+          {getMimeTypeDescription(file.mimeType)}
+        </p>
+      </div>
+      {file.savedAs || file.downloaded ? (
+        <p className="flex items-center justify-center gap-1 text-sm text-green-600 dark:text-green-400">
+          <Check className="h-4 w-4" />
+          {file.savedAs
+            ? `Saved to ${file.savedAs}`
+            : "Saved to your browser's downloads"}
+        </p>
+      ) : (
+        <Button
+          onClick={() => downloadReceivedFile(file)}
+          className="w-full max-w-[200px] bg-cyan-600 hover:bg-cyan-700 dark:bg-cyan-600 dark:hover:bg-cyan-700"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Download File
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function ReceivedFileListView({ content }: { content: ReceivedFileList }) {
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const totalSize = content.files.reduce((sum, file) => sum + file.fileSize, 0);
+
+  const handleSaveAll = useCallback(async () => {
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      const saved = await saveFilesToDirectory(content.files);
+      if (saved) setSaveMessage(`Saved ${content.files.length} files`);
+    } catch (err) {
+      console.error('Failed to save files:', err);
+      setSaveMessage(
+        err instanceof Error
+          ? `Failed to save files: ${err.message}`
+          : 'Failed to save files',
+      );
+    } finally {
+      setSaving(false);
+    }
+  }, [content.files]);
+
+  return (
+    <div className="p-4 border rounded-lg bg-muted/50 space-y-3">
+      <div className="text-center space-y-1">
+        <FolderDown className="h-12 w-12 mx-auto text-muted-foreground" />
+        <p className="font-medium truncate max-w-[300px] mx-auto">
+          {content.name}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {content.files.length} files &bull; {formatFileSize(totalSize)}
+        </p>
+      </div>
+
+      {supportsDirectorySave && (
+        <div className="text-center space-y-1">
+          <Button
+            onClick={handleSaveAll}
+            disabled={saving}
+            className="w-full max-w-[200px] bg-cyan-600 hover:bg-cyan-700 dark:bg-cyan-600 dark:hover:bg-cyan-700"
+          >
+            <FolderDown className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save to Folder'}
+          </Button>
+          {saveMessage && (
+            <p className="text-xs text-muted-foreground">{saveMessage}</p>
+          )}
+        </div>
+      )}
+
+      <ul className="max-h-72 overflow-y-auto divide-y rounded-md border bg-background">
+        {content.files.map((file) => (
+          <li
+            key={file.path ?? file.fileName}
+            className="flex items-center gap-2 px-3 py-2"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm" title={file.path}>
+                {file.path ?? file.fileName}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatFileSize(file.fileSize)}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => downloadReceivedFile(file)}
+              aria-label={`Download ${file.fileName}`}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ReceivedTextView({ message }: { message: ReceivedText }) {
+  const [copyError, setCopyError] = useState(false);
+  // Seconds until the copied message is cleared from the clipboard.
+  const [clearIn, setClearIn] = useState<number | null>(null);
+  const copiedRef = useRef(false);
+
+  useEffect(() => {
+    if (clearIn === null) return;
+    if (clearIn === 0) {
+      copiedRef.current = false;
+      navigator.clipboard.writeText('').catch(() => {});
+      setClearIn(null);
+      return;
+    }
+    const timer = setTimeout(() => setClearIn(clearIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [clearIn]);
+
+  // Leaving the page clears a message that is still on the clipboard.
+  useEffect(
+    () => () => {
+      if (copiedRef.current) navigator.clipboard.writeText('').catch(() => {});
+    },
+    [],
+  );
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(message.text);
+      copiedRef.current = true;
+      setCopyError(false);
+      setClearIn(CLIPBOARD_CLEAR_SECONDS);
+    } catch {
+      setCopyError(true);
+    }
+  }, [message.text]);
+
+  return (
+    <div className="p-4 border rounded-lg bg-muted/50 space-y-3">
+      <div className="flex items-center gap-2">
+        <MessageSquareText className="h-5 w-5 text-muted-foreground" />
+        <p className="font-medium">Text message</p>
+      </div>
+      <Textarea
+        value={message.text}
+        readOnly
+        className="min-h-[120px] max-h-72 font-mono text-sm"
+        aria-label="Received text message"
+      />
+      {clipboardWriteSupported && (
+        <div className="text-center space-y-1">
+          <Button
+            onClick={handleCopy}
+            className="w-full max-w-[200px] bg-cyan-600 hover:bg-cyan-700 dark:bg-cyan-600 dark:hover:bg-cyan-700"
+          >
+            {clearIn !== null ? (
+              <Check className="mr-2 h-4 w-4" />
+            ) : (
+              <Copy className="mr-2 h-4 w-4" />
+            )}
+            {clearIn !== null ? 'Copied' : 'Copy to Clipboard'}
+          </Button>
+          {clearIn !== null && (
+            <p className="text-xs text-muted-foreground">
+              Clipboard clears in {clearIn}s
+            </p>
+          )}
+          {copyError && (
+            <p className="text-xs text-destructive">
+              Could not copy. Select the text and copy it manually.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { CheckCircle2, Loader2, Server, XCircle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { formatFileSize } from '@/lib/file-utils';
+import type { ReceiverTransfer } from '@/lib/nostr';
+
+interface ReceiverListProps {
+  receivers: ReceiverTransfer[];
+}
+
+function ReceiverStatusIcon({
+  status,
+}: {
+  status: ReceiverTransfer['status'];
+}) {
+  switch (status) {
+    case 'complete':
+      return <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />;
+    case 'error':
+      return <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />;
+    default:
+      return <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />;
+  }
+}
+
+/**
+ * Per-receiver rows of a broadcast send. Each receiver is identified by its
+ * ECDH key fingerprint, which the receiver shows on its own screen.
+ */
+export function ReceiverList({ receivers }: ReceiverListProps) {
+  return (
+    <div className="rounded-lg border bg-muted/30 p-3 space-y-2">
+      <p className="text-sm font-medium">Receivers ({receivers.length})</p>
+      {receivers.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Share the PIN with each receiver. They appear here as they connect.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {receivers.map((receiver) => (
+            <li key={receiver.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <ReceiverStatusIcon status={receiver.status} />
+                <span className="font-mono text-sm">
+                  {receiver.fingerprint}
+                </span>
+                {receiver.relayed && (
+                  <span
+                    className="flex-shrink-0 text-muted-foreground"
+                    title="Relayed via a TURN server (still end-to-end encrypted)"
+                  >
+                    <Server className="h-3 w-3" />
+                  </span>
+                )}
+                {receiver.message && (
+                  <span
+                    className={`ml-auto truncate text-xs ${
+                      receiver.status === 'error'
+                        ? 'text-destructive'
+                        : 'text-muted-foreground'
+                    }`}
+                    title={receiver.message}
+                  >
+                    {receiver.message}
+                  </span>
+                )}
+              </div>
+              {receiver.progress &&
+                receiver.progress.total > 0 &&
+                receiver.status !== 'error' && (
+                  <div className="space-y-0.5 pl-6">
+                    <Progress
+                      value={
+                        (receiver.progress.current / receiver.progress.total) *
+                        100
+                      }
+                      className="h-1.5"
+                    />
+                    <p className="text-xs text-muted-foreground text-right">
+                      {formatFileSize(receiver.progress.current)} /{' '}
+                      {formatFileSize(receiver.progress.total)}
+                    </p>
+                  </div>
+                )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Each receiver shows its key fingerprint while connecting; check that it
+        matches a row here.
+      </p>
+    </div>
+  );
+}
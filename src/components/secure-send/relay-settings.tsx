@@ -0,0 +1,308 @@
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  Loader2,
+  Plus,
+  RotateCcw,
+  Search,
+  Trash2,
+  XCircle,
+} from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  DISCOVERED_RELAY_COUNT,
+  discoverRelays,
+  getRelays,
+  hasCustomRelays,
+  isRelayDiscoveryEnabled,
+  MAX_RELAYS,
+  parseRelayUrl,
+  type RelayProbe,
+  saveRelays,
+  setRelayDiscoveryEnabled,
+  testRelayAvailability,
+} from '@/lib/nostr';
+
+type RelayStatus = 'checking' | 'reachable' | 'unreachable';
+
+function RelayStatusIcon({ status }: { status?: RelayStatus }) {
+  switch (status) {
+    case 'checking':
+      return <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />;
+    case 'reachable':
+      return <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />;
+    case 'unreachable':
+      return <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />;
+    default:
+      return <span className="h-4 w-4 flex-shrink-0" />;
+  }
+}
+
+/**
+ * The Nostr relays used for Auto Exchange signaling, in order of preference.
+ * Changes are saved in this browser right away and apply to the next send or
+ * receive.
+ */
+export function RelaySettings() {
+  const [relays, setRelays] = useState<string[]>(getRelays);
+  const [custom, setCustom] = useState(hasCustomRelays);
+  const [statuses, setStatuses] = useState<Record<string, RelayStatus>>({});
+  const [newRelay, setNewRelay] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [discovery, setDiscovery] = useState(isRelayDiscoveryEnabled);
+  const [discovered, setDiscovered] = useState<RelayProbe[] | null>(null);
+  const [discovering, setDiscovering] = useState(false);
+
+  const persist = (next: string[]) => {
+    setRelays(saveRelays(next));
+    setCustom(next.length > 0);
+  };
+
+  const setStatus = (urls: string[], status: RelayStatus) =>
+    setStatuses((current) => ({
+      ...current,
+      ...Object.fromEntries(urls.map((url) => [url, status])),
+    }));
+
+  const handleAdd = async () => {
+    setError(null);
+    const url = parseRelayUrl(newRelay);
+    if (!url) {
+      setError('Enter a relay address starting with wss://');
+      return;
+    }
+    if (relays.includes(url)) {
+      setError('That relay is already in the list');
+      return;
+    }
+    if (relays.length >= MAX_RELAYS) {
+      setError(`Use at most ${MAX_RELAYS} relays`);
+      return;
+    }
+    setAdding(true);
+    const result = await testRelayAvailability([url]);
+    setAdding(false);
+    if (!result.available) {
+      setError(`Could not connect to ${url}`);
+      return;
+    }
+    setStatus([url], 'reachable');
+    persist([...relays, url]);
+    setNewRelay('');
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const next = [...relays];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    persist(next);
+  };
+
+  const handleTestAll = async () => {
+    const tested = [...relays];
+    setStatus(tested, 'checking');
+    const { connectedRelays } = await testRelayAvailability(tested);
+    const reachable = new Set(connectedRelays);
+    setStatus(
+      tested.filter((url) => reachable.has(url)),
+      'reachable',
+    );
+    setStatus(
+      tested.filter((url) => !reachable.has(url)),
+      'unreachable',
+    );
+  };
+
+  const handleDiscoveryChange = (enabled: boolean) => {
+    setRelayDiscoveryEnabled(enabled);
+    setDiscovery(enabled);
+    if (!enabled) setDiscovered(null);
+  };
+
+  const handleDiscover = async () => {
+    setDiscovering(true);
+    try {
+      setDiscovered(await discoverRelays({ refresh: true }));
+    } catch {
+      setDiscovered([]);
+    } finally {
+      setDiscovering(false);
+    }
+  };
+
+  const discoveredExtra = (discovered ?? [])
+    .filter((probe) => !relays.includes(probe.url))
+    .slice(0, DISCOVERED_RELAY_COUNT);
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl">Relays</CardTitle>
+        <CardDescription>
+          Nostr relays used to set up Auto Exchange transfers. The sender shares
+          its list with the receiver, so both sides need only one relay in
+          common. Saved in this browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {relays.map((url, index) => (
+            <li
+              key={url}
+              className="flex items-center gap-2 rounded-md border px-3 py-2"
+            >
+              <RelayStatusIcon status={statuses[url]} />
+              <span className="min-w-0 flex-1 truncate font-mono text-sm">
+                {url}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Move ${url} up`}
+                disabled={index === 0}
+                onClick={() => handleMove(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Move ${url} down`}
+                disabled={index === relays.length - 1}
+                onClick={() => handleMove(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove ${url}`}
+                disabled={relays.length === 1}
+                onClick={() => persist(relays.filter((r) => r !== url))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleAdd();
+          }}
+        >
+          <Label htmlFor="new-relay">Add a relay</Label>
+          <div className="flex gap-2">
+            <Input
+              id="new-relay"
+              placeholder="wss://relay.example.com"
+              value={newRelay}
+              onChange={(e) => setNewRelay(e.target.value)}
+              disabled={adding}
+            />
+            <Button type="submit" disabled={adding || !newRelay.trim()}>
+              {adding ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add
+            </Button>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => void handleTestAll()}>
+            Test Connections
+          </Button>
+          {custom && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setError(null);
+                persist([]);
+              }}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset to Defaults
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-3 rounded-lg border bg-muted/30 p-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-1">
+              <label htmlFor="relay-discovery" className="text-sm font-medium">
+                Discover more relays
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Look up public relays (NIP-65/NIP-66) and add the{' '}
+                {DISCOVERED_RELAY_COUNT} fastest to the list above. This
+                contacts many relays, each of which sees your IP address.
+              </p>
+            </div>
+            <Switch
+              id="relay-discovery"
+              checked={discovery}
+              onCheckedChange={handleDiscoveryChange}
+            />
+          </div>
+          {discovery && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={discovering}
+                onClick={() => void handleDiscover()}
+              >
+                {discovering ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Search className="mr-2 h-4 w-4" />
+                )}
+                Discover Now
+              </Button>
+              {discovered &&
+                (discoveredExtra.length > 0 ? (
+                  <ul className="space-y-1">
+                    {discoveredExtra.map((probe) => (
+                      <li
+                        key={probe.url}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <span className="min-w-0 flex-1 truncate font-mono">
+                          {probe.url}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {probe.latencyMs} ms
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    No additional relays found.
+                  </p>
+                ))}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
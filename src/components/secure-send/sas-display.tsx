@@ -0,0 +1,84 @@
+import { ShieldCheck, ShieldX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ManualSas } from '@/lib/crypto';
+
+interface SasDisplayProps {
+  sas: ManualSas;
+  /** Which end this is; decides the wording and the key labels. */
+  side: 'sender' | 'receiver';
+  /** Sender only: the symbols match, go ahead. */
+  onConfirm?: () => void;
+  /** Sender only: the symbols differ, abort. */
+  onReject?: () => void;
+}
+
+/**
+ * The Manual Exchange verification symbols. Both screens show the same
+ * sequence only if nobody swapped the keys in the exchanged codes; the sender
+ * confirms the match before anything is sent.
+ */
+export function SasDisplay({
+  sas,
+  side,
+  onConfirm,
+  onReject,
+}: SasDisplayProps) {
+  const [ownFingerprint, peerFingerprint] =
+    side === 'sender'
+      ? [sas.senderFingerprint, sas.receiverFingerprint]
+      : [sas.receiverFingerprint, sas.senderFingerprint];
+
+  return (
+    <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
+      <div className="space-y-1">
+        <p className="flex items-center gap-2 font-medium">
+          <ShieldCheck className="h-4 w-4" />
+          Verification symbols
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {side === 'sender'
+            ? "Check that the receiver's screen shows the same symbols in the same order — in person or over a call, not through the channel you pasted the codes into."
+            : 'The sender checks that their screen shows the same symbols in the same order. If theirs differ, cancel: the codes were changed on the way.'}
+        </p>
+      </div>
+
+      <ol className="grid grid-cols-4 gap-2">
+        {sas.emoji.map((symbol, index) => (
+          <li
+            // Symbols can repeat, so the position is part of the key.
+            // biome-ignore lint/suspicious/noArrayIndexKey: fixed-length sequence
+            key={index}
+            className="flex flex-col items-center rounded-md border bg-background p-2"
+          >
+            <span className="text-2xl" aria-hidden="true">
+              {symbol.emoji}
+            </span>
+            <span className="text-xs text-muted-foreground">{symbol.name}</span>
+          </li>
+        ))}
+      </ol>
+
+      <div className="space-y-0.5 text-xs text-muted-foreground">
+        <p>
+          Your key: <span className="font-mono">{ownFingerprint}</span>
+        </p>
+        <p>
+          Their key: <span className="font-mono">{peerFingerprint}</span>
+        </p>
+      </div>
+
+      {onConfirm && onReject && (
+        <div className="flex gap-2">
+          <Button onClick={onConfirm} className="flex-1">
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Symbols match
+          </Button>
+          <Button onClick={onReject} variant="outline" className="flex-1">
+            <ShieldX className="mr-2 h-4 w-4" />
+            They differ
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { HardDriveDownload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { SaveLocationRequest } from '@/hooks/use-save-location';
+import { formatFileSize } from '@/lib/file-utils';
+
+interface SaveLocationPromptProps {
+  request: SaveLocationRequest;
+  onChoose: () => void;
+  onKeepInBrowser: () => void;
+}
+
+/**
+ * Asked before a large single file is received: write it straight into a
+ * file the receiver picks, or keep it in browser storage and download it
+ * afterwards (which needs room for a second copy).
+ */
+export function SaveLocationPrompt({
+  request,
+  onChoose,
+  onKeepInBrowser,
+}: SaveLocationPromptProps) {
+  return (
+    <div className="rounded-lg border bg-muted/30 p-3 space-y-3">
+      <div className="flex items-start gap-2">
+        <HardDriveDownload className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        <div className="space-y-0.5 min-w-0">
+          <p className="text-sm font-medium truncate">
+            Save {request.fileName} ({formatFileSize(request.fileSize)})
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Choose a location to write the file straight to disk as it arrives.
+            Keeping it in the browser stores a temporary copy you download
+            afterwards.
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={onChoose} className="flex-1">
+          Choose Location
+        </Button>
+        <Button onClick={onKeepInBrowser} variant="outline">
+          Keep in Browser
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -5,20 +5,47 @@ import {
   FolderUp,
   Info,
   KeyRound,
+  MessageSquareText,
   Send,
   Upload,
   X,
 } from 'lucide-react';
 import { useCallback, useMemo, useRef, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { useSend } from '@/contexts/send-context';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  type MultiFileMode,
+  type ResendState,
+  useSend,
+} from '@/contexts/send-context';
+import { MAX_BROADCAST_RECEIVERS } from '@/hooks/use-nostr-send';
 import { MAX_MESSAGE_SIZE } from '@/lib/crypto';
-import { formatFileSize } from '@/lib/file-utils';
+import {
+  formatFileSize,
+  pickFiles,
+  supportsFilePicker,
+} from '@/lib/file-utils';
 import { supportsFolderSelection } from '@/lib/folder-utils';
+import { MAX_TEXT_MESSAGE_BYTES, textMessageSize } from '@/lib/text-message';
+import { DEFAULT_DATA_CHANNELS, MAX_DATA_CHANNELS } from '@/lib/webrtc';
+
+const DATA_CHANNEL_CHOICES = Array.from(
+  { length: MAX_DATA_CHANNELS },
+  (_, i) => i + 1,
+);
+
+const RECEIVER_CHOICES = Array.from(
+  { length: MAX_BROADCAST_RECEIVERS },
+  (_, i) => i + 1,
+);
 
 type MethodChoice = 'online' | 'offline';
+type PayloadKind = 'files' | 'text';
 
 // Extend input element to include webkitdirectory attribute
 declare module 'react' {
@@ -44,10 +71,31 @@ type DisplayEntry =
 
 export function SendTab() {
   const navigate = useNavigate();
+  const location = useLocation();
   const { setConfig } = useSend();
+  // A re-send from the transfer history arrives with its files preselected.
+  const resend = location.state as ResendState | null;
 
-  const [methodChoice, setMethodChoice] = useState<MethodChoice>('online');
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [methodChoice, setMethodChoice] = useState<MethodChoice>(
+    resend?.methodChoice ?? 'online',
+  );
+  const [dataChannels, setDataChannels] = useState(DEFAULT_DATA_CHANNELS);
+  const [maxReceivers, setMaxReceivers] = useState(1);
+  const [exchange, setExchange] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [multiFileMode, setMultiFileMode] = useState<MultiFileMode>('files');
+  const [payloadKind, setPayloadKind] = useState<PayloadKind>('files');
+  const [selectedFiles, setSelectedFiles] = useState<File[]>(
+    () => resend?.files ?? [],
+  );
+  // Picker handles of selected files, for re-sending them from the history.
+  const [fileHandles] = useState(
+    () =>
+      new WeakMap<File, FileSystemFileHandle>(
+        resend?.files.map((file, i) => [file, resend.fileHandles[i]]),
+      ),
+  );
+  const [text, setText] = useState('');
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
@@ -55,12 +103,18 @@ export function SendTab() {
 
   const totalSize = selectedFiles.reduce((sum, f) => sum + f.size, 0);
   const isOverLimit = totalSize > MAX_MESSAGE_SIZE;
-  const canSend = selectedFiles.length > 0 && !isOverLimit;
-  // Anything beyond a single loose file is zipped; folder selections always
-  // zip so their structure is preserved.
-  const willZip =
-    selectedFiles.length > 1 ||
-    (selectedFiles.length === 1 && !!selectedFiles[0].webkitRelativePath);
+  const textSize = useMemo(() => textMessageSize(text), [text]);
+  const isTextOverLimit = textSize > MAX_TEXT_MESSAGE_BYTES;
+  const canSend =
+    payloadKind === 'text'
+      ? text.length > 0 && !isTextOverLimit
+      : selectedFiles.length > 0 && !isOverLimit;
+  // Anything beyond a single loose file is sent as separate files or zipped;
+  // either way folder selections keep their structure.
+  const isMultiFile =
+    payloadKind === 'files' &&
+    (selectedFiles.length > 1 ||
+      (selectedFiles.length === 1 && !!selectedFiles[0].webkitRelativePath));
 
   // Collapse folder selections into one row per top-level folder; loose files
   // stay individual rows. Order follows first appearance in the selection.
@@ -101,13 +155,27 @@ export function SendTab() {
   const manualModeDescription =
     'You and the recipient directly exchange a short signaling payload — by QR code or copy/paste — to establish the transfer. No third-party coordination servers; STUN may be used when internet is available. File data stays encrypted.';
   const manualModeHowItWorksDescription =
-    'You and the recipient directly exchange a short signaling payload, either by scanning QR codes or by copy/paste. The signaling payload is obfuscated, not encrypted, so exchange it only with the intended recipient. If internet is available, STUN is used for connection setup metadata such as IP address and port; it does not receive your file contents or encryption keys. It also works without internet when the devices can reach each other over a network path, such as the same LAN/Wi-Fi.';
+    'You and the recipient directly exchange a short signaling payload, either by scanning QR codes or by copy/paste. The signaling payload is obfuscated, not encrypted, unless you set a passphrase, so exchange it only with the intended recipient. If internet is available, STUN is used for connection setup metadata such as IP address and port; it does not receive your file contents or encryption keys. It also works without internet when the devices can reach each other over a network path, such as the same LAN/Wi-Fi.';
 
   const handleSend = () => {
+    const handles = selectedFiles.map((file) => fileHandles.get(file));
     // Set context with all the configuration
     setConfig({
-      selectedFiles,
+      selectedFiles: payloadKind === 'files' ? selectedFiles : [],
+      fileHandles:
+        payloadKind === 'files' && handles.every((handle) => handle)
+          ? (handles as FileSystemFileHandle[])
+          : undefined,
+      text: payloadKind === 'text' ? text : undefined,
       methodChoice,
+      dataChannels,
+      multiFileMode,
+      maxReceivers: methodChoice === 'online' ? maxReceivers : 1,
+      exchange: methodChoice === 'online' && maxReceivers === 1 && exchange,
+      passphrase:
+        methodChoice === 'offline' && passphrase.trim()
+          ? passphrase
+          : undefined,
     });
     // Navigate to transfer page
     void navigate('/send/transfer');
@@ -126,6 +194,25 @@ export function SendTab() {
     }
   }, []);
 
+  // Pick through the File System Access picker where there is one, so the
+  // files keep handles; otherwise through the file input.
+  const openFilePicker = useCallback(async () => {
+    if (!supportsFilePicker) {
+      fileInputRef.current?.click();
+      return;
+    }
+    try {
+      const picked = await pickFiles();
+      if (!picked) return;
+      picked.files.forEach((file, i) => {
+        fileHandles.set(file, picked.handles[i]);
+      });
+      addFiles(picked.files);
+    } catch (err) {
+      console.error('File picker failed:', err);
+    }
+  }, [addFiles, fileHandles]);
+
   const removeFile = useCallback((file: File) => {
     setSelectedFiles((prev) => prev.filter((f) => f !== file));
   }, []);
@@ -185,148 +272,193 @@ export function SendTab() {
 
   return (
     <div className="space-y-4 pt-4">
-      <div className="space-y-2">
-        {selectedFiles.length > 0 ? (
-          <div className="space-y-2">
-            {/* Selection list: loose files and folders mixed */}
-            <div className="max-h-[160px] overflow-y-auto space-y-1 border rounded-lg p-2">
-              {displayEntries.map((entry) =>
-                entry.kind === 'file' ? (
-                  <div
-                    key={selectionKey(entry.file)}
-                    className="flex items-center gap-2 py-1 px-2 rounded hover:bg-muted/50 group"
-                  >
-                    <FileUp className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                    <span className="flex-1 truncate text-sm">
-                      {entry.file.name}
-                    </span>
-                    <span className="text-xs text-muted-foreground flex-shrink-0">
-                      {formatFileSize(entry.file.size)}
-                    </span>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                      onClick={() => removeFile(entry.file)}
+      <Tabs
+        value={payloadKind}
+        onValueChange={(value) => setPayloadKind(value as PayloadKind)}
+      >
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="files">
+            <FileUp className="h-4 w-4 mr-2" />
+            Files
+          </TabsTrigger>
+          <TabsTrigger value="text">
+            <MessageSquareText className="h-4 w-4 mr-2" />
+            Text
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {payloadKind === 'text' ? (
+        <div className="space-y-2">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Paste a password, token or snippet..."
+            className="min-h-[200px] font-mono text-sm"
+            aria-label="Text message"
+            autoComplete="off"
+            spellCheck={false}
+          />
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">
+              Shown to the receiver with a copy button, not saved as a file
+            </span>
+            <span
+              className={
+                isTextOverLimit ? 'text-destructive' : 'text-muted-foreground'
+              }
+            >
+              {formatFileSize(textSize)} /{' '}
+              {formatFileSize(MAX_TEXT_MESSAGE_BYTES)}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {selectedFiles.length > 0 ? (
+            <div className="space-y-2">
+              {/* Selection list: loose files and folders mixed */}
+              <div className="max-h-[160px] overflow-y-auto space-y-1 border rounded-lg p-2">
+                {displayEntries.map((entry) =>
+                  entry.kind === 'file' ? (
+                    <div
+                      key={selectionKey(entry.file)}
+                      className="flex items-center gap-2 py-1 px-2 rounded hover:bg-muted/50 group"
                     >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                ) : (
-                  <div
-                    key={`folder-${entry.name}`}
-                    className="flex items-center gap-2 py-1 px-2 rounded hover:bg-muted/50 group"
-                  >
-                    <FolderUp className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                    <span className="flex-1 truncate text-sm">
-                      {entry.name}
-                    </span>
-                    <span className="text-xs text-muted-foreground flex-shrink-0">
-                      {entry.fileCount} file{entry.fileCount !== 1 ? 's' : ''}{' '}
-                      &bull; {formatFileSize(entry.size)}
-                    </span>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                      onClick={() => removeFolder(entry.name)}
+                      <FileUp className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <span className="flex-1 truncate text-sm">
+                        {entry.file.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {formatFileSize(entry.file.size)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={() => removeFile(entry.file)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div
+                      key={`folder-${entry.name}`}
+                      className="flex items-center gap-2 py-1 px-2 rounded hover:bg-muted/50 group"
                     >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                ),
-              )}
-            </div>
-            {/* Summary and add more */}
-            <div className="flex items-center justify-between gap-2 text-sm">
-              <span className="text-muted-foreground">
-                {selectedFiles.length} file
-                {selectedFiles.length !== 1 ? 's' : ''} •{' '}
-                {formatFileSize(totalSize)}
-                {willZip && ' • Will package as ZIP'}
-              </span>
-              <div className="flex gap-2 flex-shrink-0">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => fileInputRef.current?.click()}
-                >
-                  <FileUp className="h-3.5 w-3.5 mr-1" />
-                  Add files
-                </Button>
-                {supportsFolderSelection && (
+                      <FolderUp className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <span className="flex-1 truncate text-sm">
+                        {entry.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {entry.fileCount} file{entry.fileCount !== 1 ? 's' : ''}{' '}
+                        &bull; {formatFileSize(entry.size)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={() => removeFolder(entry.name)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ),
+                )}
+              </div>
+              {/* Summary and add more */}
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {selectedFiles.length} file
+                  {selectedFiles.length !== 1 ? 's' : ''} •{' '}
+                  {formatFileSize(totalSize)}
+                  {isMultiFile &&
+                    multiFileMode === 'zip' &&
+                    ' • Will package as ZIP'}
+                </span>
+                <div className="flex gap-2 flex-shrink-0">
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => folderInputRef.current?.click()}
+                    onClick={() => void openFilePicker()}
                   >
-                    <FolderUp className="h-3.5 w-3.5 mr-1" />
-                    Add folder
+                    <FileUp className="h-3.5 w-3.5 mr-1" />
+                    Add files
                   </Button>
-                )}
+                  {supportsFolderSelection && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => folderInputRef.current?.click()}
+                    >
+                      <FolderUp className="h-3.5 w-3.5 mr-1" />
+                      Add folder
+                    </Button>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        ) : (
-          <div className="space-y-2">
-            <button
-              type="button"
-              onClick={() => fileInputRef.current?.click()}
-              onDrop={handleDrop}
-              onDragEnter={handleDragEnter}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              className={`
+          ) : (
+            <div className="space-y-2">
+              <button
+                type="button"
+                onClick={() => void openFilePicker()}
+                onDrop={handleDrop}
+                onDragEnter={handleDragEnter}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                className={`
                     w-full min-h-[200px] border-2 border-dashed rounded-lg
                     flex flex-col items-center justify-center gap-3
                     cursor-pointer transition-colors
                     ${isDragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/25 hover:border-muted-foreground/50'}
                   `}
-            >
-              <Upload className="h-10 w-10 text-muted-foreground" />
-              <div className="text-center">
-                <p className="font-medium">
-                  Drop files here or click to select
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Multiple files are packaged as ZIP &bull; Max size:{' '}
-                  {formatFileSize(MAX_MESSAGE_SIZE)}
-                </p>
-              </div>
-            </button>
-            {supportsFolderSelection && (
-              <Button
-                variant="outline"
-                className="w-full"
-                onClick={() => folderInputRef.current?.click()}
               >
-                <FolderUp className="h-4 w-4 mr-2" />
-                Select a folder
-              </Button>
-            )}
-          </div>
-        )}
-        <input
-          ref={fileInputRef}
-          type="file"
-          multiple
-          onChange={handleFileInputChange}
-          className="hidden"
-        />
-        <input
-          ref={folderInputRef}
-          type="file"
-          onChange={handleFolderInputChange}
-          className="hidden"
-          webkitdirectory=""
-          directory=""
-        />
-        {isOverLimit && (
-          <p className="text-xs text-destructive">
-            Total size exceeds {formatFileSize(MAX_MESSAGE_SIZE)} limit
-          </p>
-        )}
-      </div>
+                <Upload className="h-10 w-10 text-muted-foreground" />
+                <div className="text-center">
+                  <p className="font-medium">
+                    Drop files here or click to select
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Files and folders &bull; Max size:{' '}
+                    {formatFileSize(MAX_MESSAGE_SIZE)}
+                  </p>
+                </div>
+              </button>
+              {supportsFolderSelection && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => folderInputRef.current?.click()}
+                >
+                  <FolderUp className="h-4 w-4 mr-2" />
+                  Select a folder
+                </Button>
+              )}
+            </div>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            onChange={handleFileInputChange}
+            className="hidden"
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            onChange={handleFolderInputChange}
+            className="hidden"
+            webkitdirectory=""
+            directory=""
+          />
+          {isOverLimit && (
+            <p className="text-xs text-destructive">
+              Total size exceeds {formatFileSize(MAX_MESSAGE_SIZE)} limit
+            </p>
+          )}
+        </div>
+      )}
 
       {/* Transfer mode selector */}
       <div className="space-y-2 rounded-lg border bg-muted/30 p-3">
@@ -386,6 +518,129 @@ export function SendTab() {
         </RadioGroup>
       </div>
 
+      {/* Broadcast: several receivers from one PIN (Auto Exchange only) */}
+      {methodChoice === 'online' && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3">
+          <div className="space-y-1">
+            <label htmlFor="send-max-receivers" className="text-sm font-medium">
+              Receivers
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Send to several people with one PIN; each gets their own encrypted
+              connection.
+            </p>
+          </div>
+          <select
+            id="send-max-receivers"
+            value={maxReceivers}
+            onChange={(e) => setMaxReceivers(Number(e.target.value))}
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            {RECEIVER_CHOICES.map((count) => (
+              <option key={count} value={count}>
+                {count === 1 ? '1' : `Up to ${count}`}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Exchange session: reply over the same connection (Auto Exchange,
+          single receiver) */}
+      {methodChoice === 'online' && maxReceivers === 1 && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3">
+          <div className="space-y-1">
+            <label htmlFor="send-exchange" className="text-sm font-medium">
+              Keep connection for replies
+            </label>
+            <p className="text-xs text-muted-foreground">
+              After the transfer, both of you can send more files over the same
+              encrypted connection.
+            </p>
+          </div>
+          <Switch
+            id="send-exchange"
+            checked={exchange}
+            onCheckedChange={setExchange}
+          />
+        </div>
+      )}
+
+      {/* Passphrase sealing of the exchanged codes (Manual Exchange only) */}
+      {methodChoice === 'offline' && (
+        <div className="space-y-2 rounded-lg border bg-muted/30 p-3">
+          <div className="space-y-1">
+            <label htmlFor="send-passphrase" className="text-sm font-medium">
+              Passphrase (optional)
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Encrypts the codes you exchange, so file names and network details
+              stay private, and stops anyone without it from swapping keys. Tell
+              the recipient in person or by phone.
+            </p>
+          </div>
+          <Input
+            id="send-passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+          />
+        </div>
+      )}
+
+      {/* Parallel data channels */}
+      <div className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3">
+        <div className="space-y-1">
+          <label htmlFor="send-data-channels" className="text-sm font-medium">
+            Parallel channels
+          </label>
+          <p className="text-xs text-muted-foreground">
+            More channels can speed up transfers on fast local networks.
+          </p>
+        </div>
+        <select
+          id="send-data-channels"
+          value={dataChannels}
+          onChange={(e) => setDataChannels(Number(e.target.value))}
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+        >
+          {DATA_CHANNEL_CHOICES.map((count) => (
+            <option key={count} value={count}>
+              {count}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Multi-file packaging */}
+      {isMultiFile && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3">
+          <div className="space-y-1">
+            <label
+              htmlFor="send-multi-file-mode"
+              className="text-sm font-medium"
+            >
+              Send multiple files as
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Separate files can be saved individually or into a folder; a ZIP
+              arrives as one archive.
+            </p>
+          </div>
+          <select
+            id="send-multi-file-mode"
+            value={multiFileMode}
+            onChange={(e) => setMultiFileMode(e.target.value as MultiFileMode)}
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            <option value="files">Separate files</option>
+            <option value="zip">ZIP archive</option>
+          </select>
+        </div>
+      )}
+
       {/* How it works info box */}
       <div className="rounded-lg bg-gradient-to-br from-primary/5 to-accent/5 border border-primary/10 p-4">
         <div className="flex items-start gap-3">
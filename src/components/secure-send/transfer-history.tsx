@@ -0,0 +1,264 @@
+import {
+  AlertTriangle,
+  CheckCircle2,
+  CircleHelp,
+  Loader2,
+  RotateCcw,
+  Trash2,
+  XCircle,
+} from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import type { ResendState } from '@/contexts/send-context';
+import { formatFileSize, supportsFilePicker } from '@/lib/file-utils';
+import {
+  clearTransferHistory,
+  deleteTransferHistoryEntry,
+  isTransferHistoryEnabled,
+  listTransferHistory,
+  reopenFileHandles,
+  setTransferHistoryEnabled,
+  type TransferHistoryEntry,
+} from '@/lib/transfer-history';
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
+
+function OutcomeIcon({ entry }: { entry: TransferHistoryEntry }) {
+  if (entry.outcome === 'failed') {
+    return <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />;
+  }
+  if (entry.outcome === 'unconfirmed') {
+    return (
+      <CircleHelp className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+    );
+  }
+  if (entry.outcome === 'cancelled') {
+    return (
+      <AlertTriangle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+    );
+  }
+  return <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />;
+}
+
+function outcomeLabel(entry: TransferHistoryEntry): string {
+  switch (entry.outcome) {
+    case 'failed':
+      return entry.error ? `Failed: ${entry.error}` : 'Failed';
+    case 'unconfirmed':
+      return 'Shown as QR codes; delivery unconfirmed';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return entry.peers.length > 0 &&
+        entry.peers.every((peer) => peer.acknowledged)
+        ? 'Delivered'
+        : 'Sent without a receipt';
+  }
+}
+
+function HistoryRow({
+  entry,
+  onResend,
+  onDelete,
+}: {
+  entry: TransferHistoryEntry;
+  onResend: (entry: TransferHistoryEntry) => void;
+  onDelete: (entry: TransferHistoryEntry) => void;
+}) {
+  return (
+    <li className="space-y-2 rounded-md border px-3 py-2">
+      <div className="flex items-center gap-2">
+        <OutcomeIcon entry={entry} />
+        <span className="min-w-0 flex-1 truncate text-sm font-medium">
+          {entry.name}
+        </span>
+        {entry.fileHandles && supportsFilePicker && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={`Send ${entry.name} again`}
+            onClick={() => onResend(entry)}
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={`Delete ${entry.name} from history`}
+          onClick={() => onDelete(entry)}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {new Date(entry.startedAt).toLocaleString()} &bull;{' '}
+        {formatFileSize(entry.size)} &bull;{' '}
+        {entry.mode === 'nostr' ? 'Auto Exchange' : 'Manual Exchange'} &bull;{' '}
+        {formatDuration(entry.durationMs)}
+      </p>
+      <p className="text-xs">{outcomeLabel(entry)}</p>
+      {entry.peers.length > 0 && (
+        <ul className="space-y-0.5">
+          {entry.peers.map((peer) => (
+            <li
+              key={peer.fingerprint}
+              className="flex items-center gap-2 text-xs text-muted-foreground"
+            >
+              <span className="font-mono">{peer.fingerprint}</span>
+              <span>{peer.acknowledged ? 'receipt' : 'no receipt'}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {entry.digest && (
+        <p className="font-mono text-xs text-muted-foreground break-all select-all">
+          SHA-256 {entry.digest}
+        </p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The opt-in record of past sends, kept only in this browser. Files picked
+ * with the browser's file picker can be sent again while they are still on
+ * disk where they were.
+ */
+export function TransferHistory() {
+  const navigate = useNavigate();
+  const [enabled, setEnabled] = useState(isTransferHistoryEnabled);
+  const [entries, setEntries] = useState<TransferHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setEntries(await listTransferHistory());
+    } catch (err) {
+      console.error('Failed to read transfer history:', err);
+      setEntries([]);
+      setError('Could not read the history in this browser.');
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // Apply a change to the stored history, then show what is stored.
+  const update = async (change: () => Promise<void>) => {
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      console.error('Failed to update transfer history:', err);
+      setError('Could not update the history in this browser.');
+    }
+    await load();
+  };
+
+  const handleEnabledChange = (next: boolean) => {
+    setEnabled(next);
+    void update(() => setTransferHistoryEnabled(next));
+  };
+
+  const handleResend = async (entry: TransferHistoryEntry) => {
+    if (!entry.fileHandles) return;
+    setError(null);
+    const files = await reopenFileHandles(entry.fileHandles);
+    if (!files) {
+      setError(
+        `The files from "${entry.name}" are no longer accessible. They may have been moved or deleted; select them again on the Send page.`,
+      );
+      return;
+    }
+    const state: ResendState = {
+      files,
+      fileHandles: entry.fileHandles,
+      methodChoice: entry.mode === 'nostr' ? 'online' : 'offline',
+    };
+    void navigate('/send', { state });
+  };
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl">Transfer History</CardTitle>
+        <CardDescription>
+          What you sent, when, and to which receiver key, with whether the
+          receiver confirmed it. Kept only in this browser and never sent
+          anywhere.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3">
+          <div className="space-y-1">
+            <label htmlFor="history-enabled" className="text-sm font-medium">
+              Keep a history of sends
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Records file names, sizes, digests and receiver fingerprints,
+              never file contents or the text of a message. Turning it off
+              forgets everything.
+            </p>
+          </div>
+          <Switch
+            id="history-enabled"
+            checked={enabled}
+            onCheckedChange={handleEnabledChange}
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {entries === null ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {enabled
+              ? 'No sends recorded yet.'
+              : 'History is off. Turn it on to record your next sends.'}
+          </p>
+        ) : (
+          <>
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <HistoryRow
+                  key={entry.id}
+                  entry={entry}
+                  onResend={(e) => void handleResend(e)}
+                  onDelete={(e) =>
+                    void update(() => deleteTransferHistoryEntry(e.id))
+                  }
+                />
+              ))}
+            </ul>
+            <Button
+              variant="outline"
+              onClick={() => void update(clearTransferHistory)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Forget All
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
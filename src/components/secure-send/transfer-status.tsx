@@ -3,25 +3,38 @@ import {
   ChevronDown,
   ChevronRight,
   ExternalLink,
+  Film,
   Loader2,
   Radio,
+  Server,
+  Wifi,
   XCircle,
 } from 'lucide-react';
 import { useState } from 'react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { OFFLINE_QR_TRANSFER_URL } from '@/lib/constants';
 import { formatFileSize } from '@/lib/file-utils';
 import type { TransferState } from '@/lib/nostr';
+import { isLanOnly } from '@/lib/webrtc-config';
+import { ConnectionDiagnostics } from './connection-diagnostics';
+import { PayloadDigest } from './payload-digest';
 
 interface TransferStatusProps {
   state: TransferState;
   betweenProgressAndChunks?: React.ReactNode;
+  /**
+   * Receiver: switch to the built-in QR transfer, offered instead of the
+   * external app when state.qrFallback is set.
+   */
+  onQrTransfer?: () => void;
 }
 
 export function TransferStatus({
   state,
   betweenProgressAndChunks,
+  onQrTransfer,
 }: TransferStatusProps) {
   const [showDebug, setShowDebug] = useState(false);
 
@@ -58,6 +71,11 @@ export function TransferStatus({
   // Suggest the offline QR transfer app when a direct P2P connection failed.
   const showOfflineQrSuggestion =
     state.status === 'error' && state.connectionFailed === true;
+  // A small Manual Exchange payload can go by QR right here instead.
+  const showQrTransfer =
+    showOfflineQrSuggestion && state.qrFallback === true && !!onQrTransfer;
+  // LAN-only mode leaves nothing but host candidate pairs to try.
+  const showLanOnlyFailure = showOfflineQrSuggestion && isLanOnly();
 
   return (
     <div className="space-y-3">
@@ -71,7 +89,45 @@ export function TransferStatus({
         </AlertDescription>
       </Alert>
 
-      {showOfflineQrSuggestion && (
+      {state.relayed &&
+        (state.status === 'transferring' || state.status === 'receiving') && (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Server className="h-3 w-3 flex-shrink-0" />
+            Relayed via a TURN server. The relay only sees encrypted data.
+          </p>
+        )}
+
+      {showLanOnlyFailure && (
+        <Alert>
+          <Wifi className="h-4 w-4" />
+          <AlertDescription>
+            Local network only mode is on, so the devices could only connect
+            directly over the local network, and no local route between them
+            worked. Check that both are on the same network, or change the mode
+            in Settings.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {showQrTransfer && (
+        <Alert>
+          <Film className="h-4 w-4" />
+          <AlertDescription className="space-y-2">
+            <p>
+              A direct peer-to-peer connection couldn't be established. If the
+              devices are side by side, the sender can show the file as an
+              animated QR code for this device's camera — still encrypted with
+              this transfer's key.
+            </p>
+            <Button onClick={onQrTransfer} size="sm">
+              <Film className="mr-2 h-4 w-4" />
+              Receive by QR code
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {showOfflineQrSuggestion && !showQrTransfer && (
         <Alert>
           <ExternalLink className="h-4 w-4" />
           <AlertDescription>
@@ -129,6 +185,8 @@ export function TransferStatus({
         </div>
       )}
 
+      <ConnectionDiagnostics />
+
       {state.progress && state.progress.total > 0 && (
         <div className="space-y-1">
           <Progress value={progressPercent} className="h-2" />
@@ -139,6 +197,17 @@ export function TransferStatus({
         </div>
       )}
 
+      {state.keyFingerprint && (
+        <p className="text-xs text-muted-foreground">
+          Your key fingerprint:{' '}
+          <span className="font-mono">{state.keyFingerprint}</span>
+        </p>
+      )}
+
+      {state.status === 'complete' && state.digest && (
+        <PayloadDigest digest={state.digest} />
+      )}
+
       {betweenProgressAndChunks}
     </div>
   );
@@ -10,13 +10,42 @@ import {
 
 export type MethodChoice = 'online' | 'offline';
 
+// How a multi-file or folder selection is sent: as separate files described
+// by a manifest, or packaged into one ZIP archive.
+export type MultiFileMode = 'files' | 'zip';
+
 interface SendConfig {
   // Files (loose files and folder selections mixed; folder entries carry
   // webkitRelativePath so archive structure is preserved)
   selectedFiles: File[];
+  // Handles to selectedFiles, in the same order, when every file was picked
+  // with the File System Access picker; kept in the transfer history so the
+  // files can be re-sent
+  fileHandles?: FileSystemFileHandle[];
+  // Text message to send instead of files (selectedFiles is then empty)
+  text?: string;
 
   // Configuration
   methodChoice: MethodChoice;
+  // Data channels to stripe the transfer across (1 to MAX_DATA_CHANNELS)
+  dataChannels: number;
+  multiFileMode: MultiFileMode;
+  // Auto Exchange only: receivers to send to from one PIN (1 to
+  // MAX_BROADCAST_RECEIVERS); above 1 the send is a broadcast
+  maxReceivers: number;
+  // Auto Exchange with one receiver only: keep the connection open after the
+  // transfer so both sides can send more files
+  exchange: boolean;
+  // Manual Exchange only: seal the exchanged codes with this passphrase
+  passphrase?: string;
+}
+
+// Router state for /send that preselects files, set by a re-send from the
+// transfer history.
+export interface ResendState {
+  files: File[];
+  fileHandles: FileSystemFileHandle[];
+  methodChoice: MethodChoice;
 }
 
 interface SendContextState {
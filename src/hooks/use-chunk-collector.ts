@@ -5,11 +5,19 @@ import {
   parseChunk,
   reassembleChunks,
 } from '@/lib/chunk-utils';
+import {
+  createFountainDecoder,
+  type FountainDecoder,
+  parseFountainFrame,
+} from '@/lib/fountain';
 
 interface ChunkCollectorState {
+  // For animated (fountain-coded) offers: the source block count and the
+  // independent frames caught so far; collectedIndices stays empty.
   totalChunks: number | null;
   collectedCount: number;
   collectedIndices: Set<number>;
+  animated: boolean;
   isComplete: boolean;
   assembledPayload: Uint8Array | null;
   error: string | null;
@@ -19,11 +27,13 @@ export function useChunkCollector() {
   const chunksRef = useRef(new Map<number, Uint8Array>());
   const totalRef = useRef<number | null>(null);
   const checksumRef = useRef<number | null>(null);
+  const fountainRef = useRef<FountainDecoder | null>(null);
 
   const [state, setState] = useState<ChunkCollectorState>({
     totalChunks: null,
     collectedCount: 0,
     collectedIndices: new Set<number>(),
+    animated: false,
     isComplete: false,
     assembledPayload: null,
     error: null,
@@ -33,20 +43,76 @@ export function useChunkCollector() {
     chunksRef.current.clear();
     totalRef.current = null;
     checksumRef.current = null;
+    fountainRef.current = null;
     setState({
       totalChunks: null,
       collectedCount: 0,
       collectedIndices: new Set<number>(),
+      animated: false,
       isComplete: false,
       assembledPayload: null,
       error,
     });
   }, []);
 
+  // Animated display: any frames will do once enough independent ones
+  // arrive. A frame switches an unfinished grid collection over, since the
+  // sender may change display mode mid-scan.
+  const addFountainFrame = useCallback(
+    (encoded: string): boolean => {
+      const frame = parseFountainFrame(encoded);
+      if (!frame) return false;
+
+      let decoder = fountainRef.current;
+      if (decoder && !decoder.accepts(frame)) return false;
+      if (decoder) {
+        if (!decoder.addFrame(frame)) return false;
+      } else {
+        chunksRef.current.clear();
+        totalRef.current = null;
+        checksumRef.current = null;
+        decoder = createFountainDecoder(frame);
+        fountainRef.current = decoder;
+      }
+
+      const collectedCount = decoder.rank();
+      if (collectedCount < decoder.blockCount) {
+        setState({
+          totalChunks: decoder.blockCount,
+          collectedCount,
+          collectedIndices: new Set<number>(),
+          animated: true,
+          isComplete: false,
+          assembledPayload: null,
+          error: null,
+        });
+        return true;
+      }
+
+      const assembled = decoder.result();
+      if (!assembled) {
+        resetCollector('Invalid QR payload');
+        return false;
+      }
+      setState({
+        totalChunks: decoder.blockCount,
+        collectedCount,
+        collectedIndices: new Set<number>(),
+        animated: true,
+        isComplete: true,
+        assembledPayload: assembled,
+        error: null,
+      });
+      return true;
+    },
+    [resetCollector],
+  );
+
   const addChunk = useCallback(
     (encoded: string): boolean => {
       const parsed = parseChunk(encoded);
-      if (!parsed) return false;
+      if (!parsed) return addFountainFrame(encoded);
+      if (fountainRef.current) return false;
 
       // Reject chunks with mismatched total (guards against mixing different offers)
       if (totalRef.current !== null && parsed.total !== totalRef.current) {
@@ -105,6 +171,7 @@ export function useChunkCollector() {
           totalChunks: parsed.total,
           collectedCount,
           collectedIndices,
+          animated: false,
           isComplete: true,
           assembledPayload: assembled,
           error: null,
@@ -114,6 +181,7 @@ export function useChunkCollector() {
           totalChunks: parsed.total,
           collectedCount,
           collectedIndices,
+          animated: false,
           isComplete: false,
           assembledPayload: null,
           error: null,
@@ -122,7 +190,7 @@ export function useChunkCollector() {
 
       return true;
     },
-    [resetCollector],
+    [resetCollector, addFountainFrame],
   );
 
   const addChunkFromUrl = useCallback(
@@ -1,38 +1,64 @@
 import { useCallback, useRef, useState } from 'react';
 import {
+  computeManualSas,
+  constantTimeEqualBytes,
   deriveAESKeyFromSecretKey,
+  derivePassphraseSeal,
   deriveSharedSecretKey,
   generateECDHKeyPair,
-  MAX_MESSAGE_SIZE,
-  TRANSFER_EXPIRATION_MS,
+  type ManualSas,
+  type PassphraseSeal,
 } from '@/lib/crypto';
 import { P2PConnectionError } from '@/lib/errors';
-import { formatFileSize } from '@/lib/file-utils';
+import { splitManifestPayload } from '@/lib/file-manifest';
 import {
   generateMutualAnswerBinary,
+  getSealedPayloadSalt,
   parseMutualPayload,
+  resolveManualOffer,
   type SignalingPayload,
 } from '@/lib/manual-signaling';
-import type { TransferState } from '@/lib/nostr';
-import { ACK, createDataChannelReceiver } from '@/lib/p2p-transfer';
+import type { ContentType, TransferState } from '@/lib/nostr';
+import {
+  ACK,
+  createDataChannelReceiver,
+  MAX_RESUME_ATTEMPTS,
+  type ReceivedPayload,
+} from '@/lib/p2p-transfer';
+import { fitsQrTransfer, replayQrTransfer } from '@/lib/qr-transfer';
 import {
   type AppendSink,
   createAdaptiveAppendSink,
   createReceiveSink,
+  createSaveFileAppendSink,
+  createSaveFileReceiveSink,
   type ReceiveSink,
 } from '@/lib/scratch-sink';
+import {
+  createStreamDownloadSink,
+  type StreamDownloadSink,
+  shouldStreamDownload,
+} from '@/lib/stream-download';
+import { decodeTextMessage } from '@/lib/text-message';
 import type { ReceivedContent } from '@/lib/types';
 import { WebRTCConnection } from '@/lib/webrtc';
 import { getWebRTCConfig } from '@/lib/webrtc-config';
+import {
+  type SaveLocationRequest,
+  shouldAskSaveLocation,
+  useSaveLocation,
+} from './use-save-location';
 
 // Extended transfer status for Manual Exchange receive mode
 export type ManualReceiveStatus =
   | 'idle'
   | 'waiting_for_offer'
+  | 'waiting_for_passphrase'
   | 'generating_answer'
   | 'showing_answer'
   | 'connecting'
   | 'receiving'
+  | 'receiving_qr'
   | 'complete'
   | 'error';
 
@@ -44,17 +70,22 @@ export interface ManualReceiveState {
     current: number;
     total: number;
   };
-  contentType?: 'file';
+  contentType?: ContentType;
   fileMetadata?: {
     fileName: string;
     fileSize: number;
     mimeType: string;
   };
   useWebRTC?: boolean;
+  // Set while receiving when the connection runs through a TURN relay.
+  relayed?: boolean;
   currentRelays?: string[];
   totalRelays?: number;
   answerData?: Uint8Array; // Binary data for QR code
   clipboardData?: string; // Base64 for copy button
+  // Short authentication string the sender must see too, shown with the
+  // answer.
+  sas?: ManualSas;
 }
 
 export interface UseManualReceiveReturn {
@@ -62,13 +93,55 @@ export interface UseManualReceiveReturn {
   receivedContent: ReceivedContent | null;
   startReceive: () => void;
   submitOffer: (offerData: Uint8Array) => void;
+  /** Open a passphrase-protected offer (status waiting_for_passphrase). */
+  submitPassphrase: (passphrase: string) => void;
+  /**
+   * After a failed connection (state.qrFallback), scan the sender's animated
+   * QR transfer instead (status receiving_qr).
+   */
+  receiveOverQr: () => void;
+  /** Deliver the transcript the scanner decoded while receiving_qr. */
+  submitQrTransfer: (transcript: Uint8Array) => void;
   cancel: () => void;
   reset: () => void;
+  /** Set while the receive waits for the receiver to place a large file. */
+  saveLocationRequest: SaveLocationRequest | null;
+  /** Pick the destination file (from a click); the receive then continues. */
+  chooseSaveLocation: () => Promise<void>;
+  /** Receive into browser storage instead of a picked file. */
+  keepInBrowser: () => void;
 }
 
 const ICE_GATHER_TIMEOUT_MS = 5000;
 const MANUAL_CONNECTION_TIMEOUT_MS = 120000;
 
+const RECEIVING_MESSAGES: Record<ContentType, string> = {
+  file: 'Receiving file...',
+  files: 'Receiving files...',
+  text: 'Receiving message...',
+};
+
+const RECEIVED_MESSAGES: Record<ContentType, string> = {
+  file: 'File received (P2P)!',
+  files: 'Files received (P2P)!',
+  text: 'Message received (P2P)!',
+};
+
+const QR_RECEIVED_MESSAGES: Record<ContentType, string> = {
+  file: 'File received (QR)!',
+  files: 'Files received (QR)!',
+  text: 'Message received (QR)!',
+};
+
+// What the offer announced, as validated by doReceive.
+interface OfferedContent {
+  contentType: ContentType;
+  fileName: string;
+  fileSize: number;
+  fileSizeExact: boolean;
+  mimeType: string;
+}
+
 export function useManualReceive(): UseManualReceiveReturn {
   const [state, setState] = useState<TransferState & ManualReceiveState>({
     status: 'idle',
@@ -89,6 +162,20 @@ export function useManualReceive(): UseManualReceiveReturn {
     null,
   );
   const offerRejectRef = useRef<((error: Error) => void) | null>(null);
+  // A passphrase-protected offer waiting for the receiver to type the
+  // passphrase, and the seal it opened with. The seal answers the sender and
+  // is required of every resume offer.
+  const pendingSealedOfferRef = useRef<Uint8Array | null>(null);
+  const passphraseSealRef = useRef<PassphraseSeal | null>(null);
+  // Kept from a transfer whose connection failed, until the receiver scans
+  // the sender's QR transfer or moves on.
+  const qrFallbackRef = useRef<{
+    key: CryptoKey;
+    offered: OfferedContent;
+  } | null>(null);
+  const saveLocation = useSaveLocation();
+  const { ask: askSaveLocation, keepInBrowser: dismissSaveLocation } =
+    saveLocation;
 
   const discardSink = useCallback(() => {
     const sink = sinkRef.current;
@@ -104,12 +191,17 @@ export function useManualReceive(): UseManualReceiveReturn {
     receivingRef.current = false;
     offerResolverRef.current = null;
     offerRejectRef.current = null;
+    pendingSealedOfferRef.current = null;
+    passphraseSealRef.current = null;
+    qrFallbackRef.current = null;
+    // Settle a pending save-location question; the receive sees the cancel.
+    dismissSaveLocation();
     if (rtcRef.current) {
       rtcRef.current.close();
       rtcRef.current = null;
     }
     setState({ status: 'idle' });
-  }, [discardSink]);
+  }, [discardSink, dismissSaveLocation]);
 
   const reset = useCallback(() => {
     cancel();
@@ -117,17 +209,7 @@ export function useManualReceive(): UseManualReceiveReturn {
     setReceivedContent(null);
   }, [cancel, discardSink]);
 
-  const submitOffer = useCallback(async (offerData: Uint8Array) => {
-    if (!offerResolverRef.current) return;
-
-    // Parse mutual payload (no decryption needed)
-    const parsed = await parseMutualPayload(offerData);
-    if (!parsed) {
-      offerRejectRef.current?.(new Error('Invalid offer format'));
-      offerRejectRef.current = null;
-      offerResolverRef.current = null;
-      return;
-    }
+  const acceptOffer = useCallback((parsed: SignalingPayload) => {
     if (parsed.type !== 'offer') {
       offerRejectRef.current?.(new Error('Expected offer, got answer'));
       offerRejectRef.current = null;
@@ -137,12 +219,89 @@ export function useManualReceive(): UseManualReceiveReturn {
     offerResolverRef.current?.(parsed);
   }, []);
 
+  const submitOffer = useCallback(
+    async (offerData: Uint8Array) => {
+      if (!offerResolverRef.current) return;
+
+      const seal = passphraseSealRef.current;
+      if (!seal && getSealedPayloadSalt(offerData)) {
+        // Hold the code until the receiver types the passphrase.
+        pendingSealedOfferRef.current = offerData;
+        setState((s) => ({
+          ...s,
+          status: 'waiting_for_passphrase',
+          message:
+            'This code is protected with a passphrase. Enter the one the sender chose.',
+        }));
+        return;
+      }
+
+      // Parse mutual payload; once a passphrase opened the transfer, only
+      // codes sealed with it are accepted
+      const parsed = await parseMutualPayload(offerData, seal ?? undefined);
+      if (!parsed) {
+        offerRejectRef.current?.(
+          new Error(
+            seal
+              ? "Code is not protected with this transfer's passphrase"
+              : 'Invalid offer format',
+          ),
+        );
+        offerRejectRef.current = null;
+        offerResolverRef.current = null;
+        return;
+      }
+      acceptOffer(parsed);
+    },
+    [acceptOffer],
+  );
+
+  const submitPassphrase = useCallback(
+    async (passphrase: string) => {
+      const offerData = pendingSealedOfferRef.current;
+      const salt = offerData && getSealedPayloadSalt(offerData);
+      if (!offerData || !salt || !offerResolverRef.current) return;
+
+      setState((s) => ({ ...s, message: 'Checking passphrase...' }));
+      let seal: PassphraseSeal;
+      try {
+        seal = await derivePassphraseSeal(passphrase, salt);
+      } catch (err) {
+        setState((s) => ({
+          ...s,
+          message: err instanceof Error ? err.message : 'Invalid passphrase',
+        }));
+        return;
+      }
+      if (cancelledRef.current || pendingSealedOfferRef.current !== offerData) {
+        return;
+      }
+
+      const parsed = await parseMutualPayload(offerData, seal);
+      if (!parsed) {
+        setState((s) => ({
+          ...s,
+          message:
+            'Wrong passphrase, or the code was damaged. Check it with the sender and try again.',
+        }));
+        return;
+      }
+      pendingSealedOfferRef.current = null;
+      passphraseSealRef.current = seal;
+      acceptOffer(parsed);
+    },
+    [acceptOffer],
+  );
+
   // biome-ignore lint/correctness/useExhaustiveDependencies: doReceive is defined below and only invoked at call time; references stable refs/setState
   const startReceive = useCallback(() => {
     // Guard against concurrent invocations
     if (receivingRef.current) return;
     receivingRef.current = true;
     cancelledRef.current = false;
+    pendingSealedOfferRef.current = null;
+    passphraseSealRef.current = null;
+    qrFallbackRef.current = null;
     setReceivedContent(null);
     // The previous transfer's payload (if any) is gone from the UI now.
     discardSink();
@@ -151,7 +310,55 @@ export function useManualReceive(): UseManualReceiveReturn {
     void doReceive();
   }, []);
 
+  // Hand a verified payload to the UI and mark the receive complete.
+  const completeReceive = async (
+    received: ReceivedPayload,
+    offered: OfferedContent,
+    message: string,
+    {
+      streamedSink,
+      savedAs,
+    }: { streamedSink?: StreamDownloadSink | null; savedAs?: string } = {},
+  ) => {
+    const { contentType, fileName, mimeType } = offered;
+    const receivedData = received.data;
+    // A streamed download leaves nothing in the page to measure.
+    const receivedSize = streamedSink?.bytesWritten ?? receivedData.size;
+    if (contentType === 'text') {
+      // The message is kept as a string; its payload storage can go now.
+      const text = await decodeTextMessage(receivedData);
+      discardSink();
+      if (cancelledRef.current) return;
+      setReceivedContent({ contentType: 'text', text });
+    } else if (received.manifest) {
+      setReceivedContent({
+        contentType: 'files',
+        name: fileName,
+        files: splitManifestPayload(receivedData, received.manifest),
+      });
+    } else {
+      setReceivedContent({
+        contentType: 'file',
+        data: receivedData,
+        fileName,
+        fileSize: receivedSize,
+        mimeType,
+        savedAs,
+        downloaded: streamedSink ? true : undefined,
+      });
+    }
+    setState({
+      status: 'complete',
+      message,
+      contentType,
+      fileMetadata: { fileName, fileSize: receivedSize, mimeType },
+      digest: received.digest,
+    });
+  };
+
   const doReceive = async () => {
+    // Set once the key is derived; see the catch below.
+    let qrFallback: { key: CryptoKey; offered: OfferedContent } | null = null;
     try {
       // Show input for scanning/pasting offer
       setState({
@@ -160,11 +367,8 @@ export function useManualReceive(): UseManualReceiveReturn {
       });
 
       // Wait for offer to be submitted
-      const offerPayload = await new Promise<SignalingPayload>(
-        (resolve, reject) => {
-          offerResolverRef.current = resolve;
-          offerRejectRef.current = reject;
-
+      const waitForOffer = () =>
+        new Promise<SignalingPayload>((resolve, reject) => {
           // Check periodically if cancelled
           const checkInterval = setInterval(() => {
             if (cancelledRef.current) {
@@ -172,82 +376,54 @@ export function useManualReceive(): UseManualReceiveReturn {
               reject(new Error('Cancelled'));
             }
           }, 500);
-        },
-      );
-
-      if (cancelledRef.current) return;
 
-      // Enforce TTL
-      if (
-        typeof offerPayload.createdAt !== 'number' ||
-        !Number.isFinite(offerPayload.createdAt)
-      ) {
-        setState({
-          status: 'error',
-          message: 'Offer missing timestamp. Ask sender to create a new one.',
-        });
-        return;
-      }
-      if (Date.now() - offerPayload.createdAt > TRANSFER_EXPIRATION_MS) {
-        setState({
-          status: 'error',
-          message: 'Offer expired. Ask sender to create a new one.',
+          offerResolverRef.current = (payload) => {
+            clearInterval(checkInterval);
+            resolve(payload);
+          };
+          offerRejectRef.current = (error) => {
+            clearInterval(checkInterval);
+            reject(error);
+          };
         });
-        return;
-      }
+      const offerPayload = await waitForOffer();
 
-      // Extract metadata from offer
-      const {
-        fileName,
-        fileSize,
-        fileSizeExact,
-        mimeType,
-        salt: saltArray,
-        publicKey: senderPublicKeyArray,
-      } = offerPayload;
+      if (cancelledRef.current) return;
 
-      // Validate required fields
-      if (!saltArray) {
-        setState({
-          status: 'error',
-          message: 'Invalid offer: missing encryption salt',
-        });
-        return;
-      }
+      const { salt, senderPublicKey, ...offered } =
+        resolveManualOffer(offerPayload);
+      const { contentType, fileName, fileSize, fileSizeExact, mimeType } =
+        offered;
 
-      // Validate required metadata
-      if (
-        !fileName ||
-        !mimeType ||
-        typeof fileSize !== 'number' ||
-        !Number.isFinite(fileSize) ||
-        fileSize < 0 ||
-        typeof fileSizeExact !== 'boolean'
-      ) {
-        setState({
-          status: 'error',
-          message: 'Invalid offer: missing or invalid file metadata',
-        });
-        return;
-      }
+      if (cancelledRef.current) return;
 
-      // Security check: Enforce MAX_MESSAGE_SIZE
-      if (fileSize > MAX_MESSAGE_SIZE) {
-        setState({
-          status: 'error',
-          message: `Transfer rejected: Size (${formatFileSize(fileSize)}) exceeds limit (${formatFileSize(MAX_MESSAGE_SIZE)})`,
-        });
-        return;
+      // A large single file can go straight into a file the receiver picks.
+      // Ask before answering, while the sender is still waiting for us.
+      let savedSink: ReceiveSink | AppendSink | null = null;
+      let savedAs: string | undefined;
+      if (shouldAskSaveLocation(contentType, fileSize)) {
+        setState((s) => ({
+          ...s,
+          message: 'Choose where to save the file...',
+        }));
+        const handle = await askSaveLocation({ fileName, fileSize });
+        if (cancelledRef.current) return;
+        if (handle) {
+          savedSink = fileSizeExact
+            ? await createSaveFileReceiveSink(handle, fileSize)
+            : await createSaveFileAppendSink(handle);
+          // Any failure from here on discards it, which removes the
+          // still-empty file the picker created.
+          sinkRef.current = savedSink;
+          savedAs = handle.name;
+          if (cancelledRef.current) return;
+        }
       }
 
-      if (cancelledRef.current) return;
-
       // Generate our ECDH keypair and derive shared secret
       setState({ status: 'generating_answer', message: 'Generating keys...' });
 
       const ecdhKeyPair = await generateECDHKeyPair();
-      const senderPublicKey = new Uint8Array(senderPublicKeyArray);
-      const salt = new Uint8Array(saltArray);
 
       // Derive shared secret as non-extractable CryptoKey
       const sharedSecretKey = await deriveSharedSecretKey(
@@ -255,246 +431,365 @@ export function useManualReceive(): UseManualReceiveReturn {
         senderPublicKey,
       );
       const key = await deriveAESKeyFromSecretKey(sharedSecretKey, salt);
+      const sas = await computeManualSas(
+        sharedSecretKey,
+        salt,
+        senderPublicKey,
+        ecdhKeyPair.publicKeyBytes,
+      );
+      // A small payload can still arrive by QR under this key if no
+      // connection forms.
+      if (fitsQrTransfer(fileSize)) qrFallback = { key, offered };
 
       if (cancelledRef.current) return;
 
-      // Create WebRTC connection and handle offer
-      setState({
-        status: 'generating_answer',
-        message: 'Creating P2P answer...',
-      });
-
-      const iceCandidates: RTCIceCandidate[] = [];
-      let answerSDP: RTCSessionDescriptionInit | null = null;
+      const transferMetadata = {
+        fileName,
+        fileSize,
+        mimeType,
+      };
 
       // Decrypted chunks land in the receive sink as they arrive.
-      const sink = fileSizeExact
-        ? await createReceiveSink(fileSize)
-        : await createAdaptiveAppendSink(fileSize);
+      // Without OPFS, a large streamed ZIP goes straight to the downloads.
+      const streamedSink =
+        !savedSink && !fileSizeExact && shouldStreamDownload(fileSize)
+          ? await createStreamDownloadSink(fileName, mimeType)
+          : null;
+      const sink =
+        savedSink ??
+        streamedSink ??
+        (fileSizeExact
+          ? await createReceiveSink(fileSize)
+          : await createAdaptiveAppendSink(fileSize));
       sinkRef.current = sink;
 
       if (cancelledRef.current) return;
 
       // Streaming receiver: decrypts each chunk into the sink as it arrives
-      // and resolves once DONE arrives and all chunks authenticate.
+      // and resolves once DONE arrives and all chunks authenticate. It
+      // outlives any one connection, so a resumed connection continues into
+      // the same sink.
       const receiver = createDataChannelReceiver(
         key,
         fileSizeExact ? fileSize : null,
         sink,
         {
           estimatedBytes: fileSize,
+          expectManifest: contentType === 'files',
           onProgress: (current, total) =>
             setState((s) => ({ ...s, progress: { current, total } })),
         },
       );
-      let dataChannelResolver: (() => void) | null = null;
-      let answerSDPResolver: (() => void) | null = null;
-
-      const rtc = new WebRTCConnection(
-        getWebRTCConfig(),
-        (signal) => {
-          // Collect signals (answer + candidates)
-          if (signal.type === 'answer') {
-            answerSDP = { type: 'answer', sdp: signal.sdp };
-            if (answerSDPResolver) {
-              answerSDPResolver();
-            }
-          } else if (signal.type === 'candidate' && signal.candidate) {
-            iceCandidates.push(new RTCIceCandidate(signal.candidate));
-          }
-        },
-        () => {
-          // Data channel opened; the idle watchdog covers the receiving stage
-          // from here on.
-          receiver.start();
-          if (dataChannelResolver) {
-            dataChannelResolver();
-          }
-        },
-        (data) => {
-          receiver.onMessage(data);
-        },
-      );
 
-      rtcRef.current = rtc;
-
-      // Handle offer signal
-      await rtc.handleSignal({ type: 'offer', sdp: offerPayload.sdp });
+      // One signaling round plus the transfer over the resulting connection.
+      // Resolves with the payload, or null when an opened connection drops
+      // before the transfer completes.
+      const runConnection = async (
+        offer: SignalingPayload,
+      ): Promise<ReceivedPayload | null> => {
+        // Create WebRTC connection and handle offer
+        setState((s) => ({
+          ...s,
+          status: 'generating_answer',
+          message: 'Creating P2P answer...',
+        }));
 
-      // Add ICE candidates from offer
-      for (const candidateStr of offerPayload.candidates) {
-        await rtc.handleSignal({
-          type: 'candidate',
-          candidate: { candidate: candidateStr, sdpMid: '0', sdpMLineIndex: 0 },
-        });
-      }
+        const iceCandidates: RTCIceCandidate[] = [];
+        let answerSDP: RTCSessionDescriptionInit | null = null;
+        let dataChannelResolver: (() => void) | null = null;
+        let answerSDPResolver: (() => void) | null = null;
+        let connectionLostResolver: (() => void) | null = null;
+        let dataChannelOpened = false;
+        let connectionLost = false;
+
+        const rtc: WebRTCConnection = new WebRTCConnection(
+          getWebRTCConfig(),
+          (signal) => {
+            // Collect signals (answer + candidates)
+            if (signal.type === 'answer') {
+              answerSDP = { type: 'answer', sdp: signal.sdp };
+              if (answerSDPResolver) {
+                answerSDPResolver();
+              }
+            } else if (signal.type === 'candidate' && signal.candidate) {
+              iceCandidates.push(new RTCIceCandidate(signal.candidate));
+            }
+          },
+          () => {
+            // Data channel opened; the idle watchdog covers the receiving
+            // stage from here on.
+            dataChannelOpened = true;
+            receiver.start();
+            // Tell the sender which chunks to skip (none on a fresh transfer).
+            void receiver
+              .createHaveMessage()
+              .then((have) => {
+                if (!connectionLost) rtc.send(have);
+              })
+              .catch((err) => {
+                console.error('Failed to send resume state:', err);
+              });
+            if (dataChannelResolver) {
+              dataChannelResolver();
+            }
+          },
+          (data) => {
+            if (connectionLost) return;
+            receiver.onMessage(data);
+          },
+          (connectionState) => {
+            if (
+              dataChannelOpened &&
+              !connectionLost &&
+              (connectionState === 'failed' || connectionState === 'closed')
+            ) {
+              connectionLost = true;
+              receiver.suspend();
+              connectionLostResolver?.();
+            }
+          },
+        );
 
-      if (cancelledRef.current) return;
+        rtcRef.current = rtc;
 
-      // Wait for answer SDP to be generated
-      setState({
-        status: 'generating_answer',
-        message: 'Generating answer...',
-      });
+        // Handle offer signal
+        await rtc.handleSignal({ type: 'offer', sdp: offer.sdp });
 
-      await new Promise<void>((resolve) => {
-        if (answerSDP) {
-          resolve();
-        } else {
-          answerSDPResolver = resolve;
-          // Timeout after 10 seconds
-          setTimeout(resolve, 10000);
+        // Add ICE candidates from offer
+        for (const candidateStr of offer.candidates) {
+          await rtc.handleSignal({
+            type: 'candidate',
+            candidate: {
+              candidate: candidateStr,
+              sdpMid: '0',
+              sdpMLineIndex: 0,
+            },
+          });
         }
-      });
 
-      if (cancelledRef.current) return;
+        if (cancelledRef.current) return null;
 
-      // Wait for ICE gathering to complete
-      setState({
-        status: 'generating_answer',
-        message: 'Gathering network info...',
-      });
-      const iceGatheringComplete = await rtc.waitForIceGatheringComplete(
-        ICE_GATHER_TIMEOUT_MS,
-      );
-      if (!iceGatheringComplete) {
-        console.warn(
-          'ICE gathering timed out while generating answer; continuing with available candidates',
-        );
-      }
-      setState({
-        status: 'generating_answer',
-        message: iceGatheringComplete
-          ? 'Preparing response code...'
-          : 'Network probe timed out. Preparing response code with available routes...',
-      });
+        // Wait for answer SDP to be generated
+        setState((s) => ({
+          ...s,
+          status: 'generating_answer',
+          message: 'Generating answer...',
+        }));
 
-      if (cancelledRef.current) return;
+        await new Promise<void>((resolve) => {
+          if (answerSDP) {
+            resolve();
+          } else {
+            answerSDPResolver = resolve;
+            // Timeout after 10 seconds
+            setTimeout(resolve, 10000);
+          }
+        });
 
-      // Validate answerSDP is available
-      if (!answerSDP) {
-        throw new Error(
-          'Failed to generate answer SDP: Answer was not created by WebRTC connection',
-        );
-      }
+        if (cancelledRef.current) return null;
 
-      // Generate answer with our public key
-      const answerBinary = await generateMutualAnswerBinary(
-        answerSDP,
-        iceCandidates,
-        ecdhKeyPair.publicKeyBytes,
-      );
+        // Wait for ICE gathering to complete
+        setState((s) => ({
+          ...s,
+          status: 'generating_answer',
+          message: 'Gathering network info...',
+        }));
+        const iceGatheringComplete = await rtc.waitForIceGatheringComplete(
+          ICE_GATHER_TIMEOUT_MS,
+        );
+        if (!iceGatheringComplete) {
+          console.warn(
+            'ICE gathering timed out while generating answer; continuing with available candidates',
+          );
+        }
+        setState((s) => ({
+          ...s,
+          status: 'generating_answer',
+          message: iceGatheringComplete
+            ? 'Preparing response code...'
+            : 'Network probe timed out. Preparing response code with available routes...',
+        }));
 
-      // Show answer and wait for connection
-      setState({
-        status: 'showing_answer',
-        message: 'Show this to sender and wait for connection',
-        answerData: answerBinary,
-        contentType: 'file',
-        fileMetadata: {
-          fileName: fileName!,
-          fileSize: fileSize!,
-          mimeType: mimeType!,
-        },
-      });
+        if (cancelledRef.current) return null;
 
-      // Wait for data channel to open
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new P2PConnectionError('Connection timeout'));
-        }, MANUAL_CONNECTION_TIMEOUT_MS);
-
-        dataChannelResolver = () => {
-          clearTimeout(timeout);
-          resolve();
-        };
-
-        // Check if already open
-        const dc = rtc.getDataChannel();
-        if (dc && dc.readyState === 'open') {
-          clearTimeout(timeout);
-          resolve();
+        // Validate answerSDP is available
+        if (!answerSDP) {
+          throw new Error(
+            'Failed to generate answer SDP: Answer was not created by WebRTC connection',
+          );
         }
-      });
 
-      if (cancelledRef.current) return;
+        // Generate answer with our public key
+        const answerBinary = await generateMutualAnswerBinary(
+          answerSDP,
+          iceCandidates,
+          ecdhKeyPair.publicKeyBytes,
+          Date.now(),
+          passphraseSealRef.current ?? undefined,
+        );
 
-      setState({
-        status: 'receiving',
-        message: 'Receiving file...',
-        contentType: 'file',
-        fileMetadata: {
-          fileName: fileName!,
-          fileSize: fileSize!,
-          mimeType: mimeType!,
-        },
-        useWebRTC: true,
-        progress: { current: 0, total: fileSize! },
-      });
+        // Show answer and wait for connection
+        setState((s) => ({
+          ...s,
+          status: 'showing_answer',
+          message: 'Show this to sender and wait for connection',
+          answerData: answerBinary,
+          sas,
+          contentType,
+          fileMetadata: transferMetadata,
+        }));
 
-      // Wait for the streaming receiver to finish, racing cancellation. The
-      // receiver decrypts, authenticates and writes chunks to the sink as they
-      // arrive and resolves with the sealed payload. A stalled stream is
-      // aborted by the receiver's own idle watchdog (see
-      // createDataChannelReceiver).
-      const receivedData = await new Promise<Blob>((resolve, reject) => {
-        const checkInterval = setInterval(() => {
-          if (cancelledRef.current) {
-            clearInterval(checkInterval);
-            receiver.dispose();
-            reject(new Error('Cancelled'));
+        // Wait for data channel to open
+        await new Promise<void>((resolve, reject) => {
+          const timeout = setTimeout(() => {
+            reject(new P2PConnectionError('Connection timeout'));
+          }, MANUAL_CONNECTION_TIMEOUT_MS);
+
+          dataChannelResolver = () => {
+            clearTimeout(timeout);
+            resolve();
+          };
+
+          // Check if already open
+          const dc = rtc.getDataChannel();
+          if (dc && dc.readyState === 'open') {
+            clearTimeout(timeout);
+            resolve();
           }
-        }, 500);
+        });
 
-        receiver.done
-          .then((data) => {
-            clearInterval(checkInterval);
-            resolve(data);
-          })
-          .catch((err) => {
-            clearInterval(checkInterval);
-            reject(err);
-          });
-      });
+        if (cancelledRef.current) return null;
+        const relayed = await rtc.isRelayed();
+
+        setState((s) => ({
+          status: 'receiving',
+          message: RECEIVING_MESSAGES[contentType],
+          contentType,
+          fileMetadata: transferMetadata,
+          useWebRTC: true,
+          relayed,
+          progress: s.progress ?? { current: 0, total: fileSize },
+        }));
 
-      if (cancelledRef.current) return;
+        // Wait for the streaming receiver to finish, racing cancellation and
+        // a dropped connection. The receiver decrypts, authenticates and
+        // writes chunks to the sink as they arrive and resolves with the
+        // sealed payload. A stalled stream is aborted by the receiver's own
+        // idle watchdog (see createDataChannelReceiver).
+        const receivedData = await new Promise<ReceivedPayload | null>(
+          (resolve, reject) => {
+            const checkInterval = setInterval(() => {
+              if (cancelledRef.current) {
+                clearInterval(checkInterval);
+                receiver.dispose();
+                reject(new Error('Cancelled'));
+              }
+            }, 500);
+
+            connectionLostResolver = () => {
+              clearInterval(checkInterval);
+              resolve(null);
+            };
+            if (connectionLost) connectionLostResolver();
+
+            receiver.done
+              .then((data) => {
+                clearInterval(checkInterval);
+                resolve(data);
+              })
+              .catch((err) => {
+                clearInterval(checkInterval);
+                reject(err);
+              });
+          },
+        );
 
-      // Acknowledge only after all chunks authenticate and reassemble.
-      rtc.send(ACK);
+        if (receivedData && !cancelledRef.current) {
+          // Acknowledge only after all chunks authenticate and reassemble.
+          rtc.send(ACK);
+        }
+        return receivedData;
+      };
+
+      // After a drop the sender shows a fresh offer for the same transfer:
+      // same ECDH key and salt, newer timestamp. Older codes (including the
+      // one that started this transfer) are ignored while waiting.
+      const waitForResumeOffer = async (
+        lastCreatedAt: number,
+      ): Promise<SignalingPayload> => {
+        setState((s) => ({
+          ...s,
+          status: 'waiting_for_offer',
+          message:
+            "Connection lost. Scan or paste the sender's new code to resume",
+        }));
+        while (true) {
+          const offer = await waitForOffer();
+          if (
+            typeof offer.createdAt !== 'number' ||
+            offer.createdAt <= lastCreatedAt
+          ) {
+            continue;
+          }
+          if (
+            !offer.publicKey ||
+            !offer.salt ||
+            !constantTimeEqualBytes(
+              new Uint8Array(offer.publicKey),
+              senderPublicKey,
+            ) ||
+            !constantTimeEqualBytes(new Uint8Array(offer.salt), salt)
+          ) {
+            setState((s) => ({
+              ...s,
+              message:
+                "That code is for a different transfer. Scan or paste the sender's new code to resume",
+            }));
+            continue;
+          }
+          return offer;
+        }
+      };
+
+      let offer = offerPayload;
+      let received: ReceivedPayload | null = null;
+      for (let attempt = 0; ; attempt++) {
+        received = await runConnection(offer);
+        if (cancelledRef.current) return;
+        if (received) break;
+        if (attempt >= MAX_RESUME_ATTEMPTS) {
+          throw new P2PConnectionError('Connection lost');
+        }
+        rtcRef.current?.close();
+        rtcRef.current = null;
+        offer = await waitForResumeOffer(offer.createdAt);
+        if (cancelledRef.current) return;
+      }
 
-      // Set received content
-      setReceivedContent({
-        contentType: 'file',
-        data: receivedData,
-        fileName: fileName!,
-        fileSize: receivedData.size,
-        mimeType: mimeType!,
-      });
-      setState({
-        status: 'complete',
-        message: 'File received (P2P)!',
-        contentType: 'file',
-        fileMetadata: {
-          fileName: fileName!,
-          fileSize: receivedData.size,
-          mimeType: mimeType!,
-        },
+      await completeReceive(received, offered, RECEIVED_MESSAGES[contentType], {
+        streamedSink,
+        savedAs,
       });
     } catch (error) {
       // Nothing downloadable survives a failed transfer; drop its storage.
       discardSink();
       if (!cancelledRef.current) {
+        const connectionFailed = error instanceof P2PConnectionError;
+        if (connectionFailed && qrFallback) qrFallbackRef.current = qrFallback;
         setState((prevState) => ({
           ...prevState,
           status: 'error',
           message: error instanceof Error ? error.message : 'Failed to receive',
-          connectionFailed: error instanceof P2PConnectionError,
+          connectionFailed,
+          qrFallback: connectionFailed && qrFallback !== null,
         }));
       }
     } finally {
       receivingRef.current = false;
       offerResolverRef.current = null;
       offerRejectRef.current = null;
+      pendingSealedOfferRef.current = null;
+      passphraseSealRef.current = null;
       if (rtcRef.current) {
         rtcRef.current.close();
         rtcRef.current = null;
@@ -502,5 +797,81 @@ export function useManualReceive(): UseManualReceiveReturn {
     }
   };
 
-  return { state, receivedContent, startReceive, submitOffer, cancel, reset };
+  const receiveOverQr = useCallback(() => {
+    const fallback = qrFallbackRef.current;
+    if (!fallback || receivingRef.current) return;
+    const { contentType, fileName, fileSize, mimeType } = fallback.offered;
+    cancelledRef.current = false;
+    setState({
+      status: 'receiving_qr',
+      message: "Point the camera at the sender's animated QR code",
+      contentType,
+      fileMetadata: { fileName, fileSize, mimeType },
+    });
+  }, []);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: completeReceive references stable refs/setState
+  const submitQrTransfer = useCallback(
+    async (transcript: Uint8Array) => {
+      const fallback = qrFallbackRef.current;
+      if (!fallback || receivingRef.current) return;
+      receivingRef.current = true;
+      const { key, offered } = fallback;
+      const { contentType, fileSize, fileSizeExact } = offered;
+
+      try {
+        setState((s) => ({ ...s, message: RECEIVING_MESSAGES[contentType] }));
+        const sink = fileSizeExact
+          ? await createReceiveSink(fileSize)
+          : await createAdaptiveAppendSink(fileSize);
+        sinkRef.current = sink;
+        if (cancelledRef.current) return;
+
+        // The same validation as a data channel: every chunk, the manifest
+        // and the digest must authenticate under the transfer key.
+        const receiver = createDataChannelReceiver(
+          key,
+          fileSizeExact ? fileSize : null,
+          sink,
+          { estimatedBytes: fileSize, expectManifest: contentType === 'files' },
+        );
+        const received = await replayQrTransfer(transcript, receiver);
+        if (cancelledRef.current) return;
+        qrFallbackRef.current = null;
+        await completeReceive(
+          received,
+          offered,
+          QR_RECEIVED_MESSAGES[contentType],
+        );
+      } catch (error) {
+        discardSink();
+        if (!cancelledRef.current) {
+          // Keep scanning: a code from another transfer or a damaged frame
+          // set must not end the fallback.
+          setState((s) => ({
+            ...s,
+            message: `Could not read that transfer (${error instanceof Error ? error.message : 'unknown error'}). Keep scanning the sender's code.`,
+          }));
+        }
+      } finally {
+        receivingRef.current = false;
+      }
+    },
+    [discardSink],
+  );
+
+  return {
+    state,
+    receivedContent,
+    startReceive,
+    submitOffer,
+    submitPassphrase,
+    receiveOverQr,
+    submitQrTransfer,
+    cancel,
+    reset,
+    saveLocationRequest: saveLocation.request,
+    chooseSaveLocation: saveLocation.choose,
+    keepInBrowser: saveLocation.keepInBrowser,
+  };
 }
@@ -1,10 +1,17 @@
 import { useCallback, useMemo, useRef, useState } from 'react';
 import {
+  computeManualSas,
+  constantTimeEqualBytes,
   deriveAESKeyFromSecretKey,
+  derivePassphraseSeal,
   deriveSharedSecretKey,
+  formatFingerprint,
   generateECDHKeyPair,
   generateSalt,
   MAX_MESSAGE_SIZE,
+  type ManualSas,
+  type PassphraseSeal,
+  publicKeyToFingerprint,
   TRANSFER_EXPIRATION_MS,
 } from '@/lib/crypto';
 import { P2PConnectionError } from '@/lib/errors';
@@ -14,9 +21,18 @@ import {
   parseMutualPayload,
   type SignalingPayload,
 } from '@/lib/manual-signaling';
-import { sendFileOverDataChannel } from '@/lib/p2p-transfer';
-import type { TransferSource } from '@/lib/transfer-source';
-import { WebRTCConnection } from '@/lib/webrtc';
+import type { ContentType } from '@/lib/nostr';
+import {
+  MAX_RESUME_ATTEMPTS,
+  sendFileOverDataChannel,
+  type TransferSetupOptions,
+} from '@/lib/p2p-transfer';
+import { encodeQrTransfer, fitsQrTransfer } from '@/lib/qr-transfer';
+import {
+  getTransferContentType,
+  type TransferSource,
+} from '@/lib/transfer-source';
+import { DEFAULT_DATA_CHANNELS, WebRTCConnection } from '@/lib/webrtc';
 import { getWebRTCConfig } from '@/lib/webrtc-config';
 
 // Extended transfer status for Manual Exchange mode
@@ -25,8 +41,10 @@ export type ManualTransferStatus =
   | 'generating_offer'
   | 'showing_offer'
   | 'waiting_for_answer'
+  | 'verifying_sas'
   | 'connecting'
   | 'transferring'
+  | 'sending_qr'
   | 'complete'
   | 'error';
 
@@ -36,19 +54,30 @@ interface ManualTransferStateBase {
     current: number;
     total: number;
   };
-  contentType?: 'file';
+  contentType?: ContentType;
   fileMetadata?: {
     fileName: string;
     fileSize: number;
     mimeType: string;
   };
   useWebRTC?: boolean;
+  // Set while transferring when the connection runs through a TURN relay.
+  relayed?: boolean;
   currentRelays?: string[];
   totalRelays?: number;
   offerData?: Uint8Array; // Binary data for QR code
+  // Short authentication string to compare with the receiver's screen, set
+  // while verifying_sas.
+  sas?: ManualSas;
   // Set on an error state when a direct P2P connection could not be established;
   // drives the offline-QR fallback suggestion in the UI.
   connectionFailed?: boolean;
+  // Set with connectionFailed when sendOverQr() can still deliver the payload.
+  qrFallback?: boolean;
+  // The offline QR transfer transcript to animate, set while sending_qr.
+  qrTransferData?: Uint8Array;
+  // Hex SHA-256 of the whole payload, set on completion once both sides agree.
+  digest?: string;
 }
 
 // Error state has required message
@@ -68,18 +97,47 @@ export type ManualTransferState =
   | ManualTransferStateError
   | ManualTransferStateOther;
 
+export interface ManualSendOptions extends TransferSetupOptions {
+  /**
+   * Seal the offer and answer (SS04) under this passphrase, which the
+   * receiver must type. Without one the codes are only obfuscated (SS03).
+   */
+  passphrase?: string;
+}
+
 export interface UseManualSendReturn {
   state: ManualTransferState;
-  send: (content: TransferSource) => Promise<void>;
+  /**
+   * Formatted ECDH key fingerprint of the receiver, once the sender has
+   * confirmed the verification symbols.
+   */
+  peerFingerprint: string | null;
+  send: (content: TransferSource, options?: ManualSendOptions) => Promise<void>;
   submitAnswer: (answerData: Uint8Array) => void;
+  /** The sender saw the same symbols as the receiver; start the transfer. */
+  confirmSas: () => void;
+  /** The symbols differ; abort without sending anything. */
+  rejectSas: () => void;
+  /**
+   * After a failed connection (state.qrFallback), encrypt the payload under
+   * the verified key and show it as an animated QR transfer instead.
+   */
+  sendOverQr: () => void;
   cancel: () => void;
 }
 
 const ICE_GATHER_TIMEOUT_MS = 5000;
 const MANUAL_CONNECTION_TIMEOUT_MS = 120000;
 
+const SENT_MESSAGES: Record<ContentType, string> = {
+  file: 'File sent via P2P!',
+  files: 'Files sent via P2P!',
+  text: 'Message sent via P2P!',
+};
+
 export function useManualSend(): UseManualSendReturn {
   const [state, setState] = useState<ManualTransferState>({ status: 'idle' });
+  const [peerFingerprint, setPeerFingerprint] = useState<string | null>(null);
 
   const rtcRef = useRef<WebRTCConnection | null>(null);
   const cancelledRef = useRef(false);
@@ -91,12 +149,23 @@ export function useManualSend(): UseManualSendReturn {
   // Store ECDH private key for computing shared secret when answer arrives
   const ecdhPrivateKeyRef = useRef<CryptoKey | null>(null);
   const saltRef = useRef<Uint8Array | null>(null);
+  // Set when the sender chose a passphrase; every offer of the session is
+  // sealed with it, and only answers sealed with it are accepted.
+  const passphraseSealRef = useRef<PassphraseSeal | null>(null);
 
   // Resolve function for answer submission
   const answerResolverRef = useRef<
     ((payload: SignalingPayload) => void) | null
   >(null);
   const answerRejectRef = useRef<((error: Error) => void) | null>(null);
+  // Settles the pending SAS comparison: true when the symbols match.
+  const sasResolverRef = useRef<((matched: boolean) => void) | null>(null);
+  // Kept from a transfer whose connection failed after the symbols were
+  // confirmed, until sendOverQr() uses it or the user moves on.
+  const qrFallbackRef = useRef<{
+    key: CryptoKey;
+    content: TransferSource;
+  } | null>(null);
 
   const clearExpirationTimeout = useCallback(() => {
     if (expirationTimeoutRef.current) {
@@ -111,22 +180,43 @@ export function useManualSend(): UseManualSendReturn {
     clearExpirationTimeout();
     answerResolverRef.current = null;
     answerRejectRef.current = null;
+    sasResolverRef.current?.(false);
+    sasResolverRef.current = null;
     ecdhPrivateKeyRef.current = null;
     saltRef.current = null;
+    passphraseSealRef.current = null;
+    qrFallbackRef.current = null;
     if (rtcRef.current) {
       rtcRef.current.close();
       rtcRef.current = null;
     }
+    setPeerFingerprint(null);
     setState({ status: 'idle' });
   }, [clearExpirationTimeout]);
 
+  const settleSas = useCallback((matched: boolean) => {
+    const resolve = sasResolverRef.current;
+    sasResolverRef.current = null;
+    resolve?.(matched);
+  }, []);
+  const confirmSas = useCallback(() => settleSas(true), [settleSas]);
+  const rejectSas = useCallback(() => settleSas(false), [settleSas]);
+
   const submitAnswer = useCallback(async (answerBinary: Uint8Array) => {
     if (!answerResolverRef.current) return;
 
-    // Parse mutual payload (no decryption needed)
-    const parsed = await parseMutualPayload(answerBinary);
+    // Parse mutual payload; a passphrase session accepts only answers
+    // sealed with the same passphrase
+    const seal = passphraseSealRef.current;
+    const parsed = await parseMutualPayload(answerBinary, seal ?? undefined);
     if (!parsed) {
-      answerRejectRef.current?.(new Error('Invalid response format'));
+      answerRejectRef.current?.(
+        new Error(
+          seal
+            ? "Response is not protected with this transfer's passphrase"
+            : 'Invalid response format',
+        ),
+      );
       answerResolverRef.current = null;
       return;
     }
@@ -151,11 +241,18 @@ export function useManualSend(): UseManualSendReturn {
   }, []);
 
   const send = useCallback(
-    async (content: TransferSource) => {
+    async (content: TransferSource, options: ManualSendOptions = {}) => {
       // Guard against concurrent invocations
       if (sendingRef.current) return;
       sendingRef.current = true;
       cancelledRef.current = false;
+      qrFallbackRef.current = null;
+      setPeerFingerprint(null);
+
+      // Established by the first answer and reused by every resume attempt:
+      // a resumed connection must come from the same receiver, and its
+      // chunks decrypt into the same sink under the same key.
+      let key: CryptoKey | null = null;
 
       try {
         // Validate and sanitize metadata
@@ -172,6 +269,8 @@ export function useManualSend(): UseManualSendReturn {
         const fileSize = content.size ?? content.estimatedSize;
         const fileSizeExact = content.size !== null;
         const mimeType = content.type || 'application/octet-stream';
+        // A manifest turns the payload into several files for the receiver.
+        const contentType = getTransferContentType(content);
 
         if (
           !Number.isFinite(fileSize) ||
@@ -211,253 +310,368 @@ export function useManualSend(): UseManualSendReturn {
         const salt = generateSalt();
         saltRef.current = salt;
 
-        // Set expiration timeout
-        clearExpirationTimeout();
-        expirationTimeoutRef.current = setTimeout(() => {
-          if (!cancelledRef.current && sendingRef.current) {
-            setState({
-              status: 'error',
-              message: 'Session expired. Please try again.',
-            });
-            sendingRef.current = false;
-            answerResolverRef.current = null;
-            ecdhPrivateKeyRef.current = null;
-            saltRef.current = null;
-            if (rtcRef.current) {
-              rtcRef.current.close();
-              rtcRef.current = null;
+        if (options.passphrase) {
+          setState({
+            status: 'generating_offer',
+            message: 'Securing the code with your passphrase...',
+          });
+          passphraseSealRef.current = await derivePassphraseSeal(
+            options.passphrase,
+          );
+        }
+
+        // Each offer expires if unanswered. Re-armed for every resume offer
+        // and cleared once a data channel opens; the transfer itself is
+        // bounded by the stall watchdog instead.
+        const armExpiration = () => {
+          clearExpirationTimeout();
+          expirationTimeoutRef.current = setTimeout(() => {
+            if (!cancelledRef.current && sendingRef.current) {
+              setState({
+                status: 'error',
+                message: 'Session expired. Please try again.',
+              });
+              sendingRef.current = false;
+              answerResolverRef.current = null;
+              ecdhPrivateKeyRef.current = null;
+              saltRef.current = null;
+              passphraseSealRef.current = null;
+              if (rtcRef.current) {
+                rtcRef.current.close();
+                rtcRef.current = null;
+              }
             }
-          }
-        }, TRANSFER_EXPIRATION_MS);
+          }, TRANSFER_EXPIRATION_MS);
+        };
 
         if (cancelledRef.current) return;
 
-        // Create WebRTC connection and offer
-        setState({
-          status: 'generating_offer',
-          message: 'Creating P2P offer...',
-        });
+        let receiverPublicKey: Uint8Array | null = null;
+        let dataChannelEverOpened = false;
 
-        const iceCandidates: RTCIceCandidate[] = [];
-        let offerSDP: RTCSessionDescriptionInit | null = null;
-
-        const rtc = new WebRTCConnection(
-          getWebRTCConfig(),
-          (signal) => {
-            // Collect signals (offer + candidates)
-            if (signal.type === 'offer') {
-              offerSDP = { type: 'offer', sdp: signal.sdp };
-            } else if (signal.type === 'candidate' && signal.candidate) {
-              iceCandidates.push(new RTCIceCandidate(signal.candidate));
-            }
-          },
-          () => {
-            // Data channel opened - will be handled later
-          },
-          () => {
-            // Message received - will be handled later
-          },
-        );
+        const runAttempt = async (attempt: number) => {
+          const offerCreatedAt = attempt === 0 ? sessionStartTime : Date.now();
+          armExpiration();
 
-        rtcRef.current = rtc;
-        rtc.createDataChannel('file-transfer');
-
-        // Create offer
-        await rtc.createOffer();
+          // Create WebRTC connection and offer
+          setState({
+            status: 'generating_offer',
+            message: 'Creating P2P offer...',
+          });
 
-        if (cancelledRef.current) return;
+          const iceCandidates: RTCIceCandidate[] = [];
+          let offerSDP: RTCSessionDescriptionInit | null = null;
+
+          const rtc = new WebRTCConnection(
+            getWebRTCConfig(),
+            (signal) => {
+              // Collect signals (offer + candidates)
+              if (signal.type === 'offer') {
+                offerSDP = { type: 'offer', sdp: signal.sdp };
+              } else if (signal.type === 'candidate' && signal.candidate) {
+                iceCandidates.push(new RTCIceCandidate(signal.candidate));
+              }
+            },
+            () => {
+              // Data channel opened - will be handled later
+            },
+            () => {
+              // Message received - will be handled later
+            },
+          );
 
-        // Wait for ICE gathering to complete
-        setState({
-          status: 'generating_offer',
-          message: 'Gathering network info...',
-        });
-        const iceGatheringComplete = await rtc.waitForIceGatheringComplete(
-          ICE_GATHER_TIMEOUT_MS,
-        );
-        if (!iceGatheringComplete) {
-          console.warn(
-            'ICE gathering timed out while generating offer; continuing with available candidates',
+          rtcRef.current = rtc;
+          rtc.createDataChannel(
+            'file-transfer',
+            options.dataChannels ?? DEFAULT_DATA_CHANNELS,
           );
-        }
-        setState({
-          status: 'generating_offer',
-          message: iceGatheringComplete
-            ? 'Preparing exchange code...'
-            : 'Network probe timed out. Preparing exchange code with available routes...',
-        });
 
-        if (cancelledRef.current) return;
+          // Create offer
+          await rtc.createOffer();
 
-        // Generate binary offer data with ECDH public key
-        const offerBinary = await generateMutualOfferBinary(
-          offerSDP!,
-          iceCandidates,
-          {
-            createdAt: sessionStartTime,
-            fileName,
-            fileSize,
-            fileSizeExact,
-            mimeType,
-            publicKey: ecdhKeyPair.publicKeyBytes,
-            salt,
-          },
-        );
-
-        // Show offer and wait for answer
-        setState({
-          status: 'showing_offer',
-          message: 'Show this to receiver, then scan/paste their response',
-          offerData: offerBinary,
-          contentType: 'file',
-          fileMetadata: { fileName, fileSize, mimeType },
-        });
+          if (cancelledRef.current) return;
 
-        // Wait for answer to be submitted
-        const answerPayload = await new Promise<SignalingPayload>(
-          (resolve, reject) => {
-            answerResolverRef.current = resolve;
-            answerRejectRef.current = reject;
-
-            // Check periodically if cancelled
-            const checkInterval = setInterval(() => {
-              if (cancelledRef.current) {
-                clearInterval(checkInterval);
-                reject(new Error('Cancelled'));
-              }
-            }, 500);
-          },
-        );
+          // Wait for ICE gathering to complete
+          setState({
+            status: 'generating_offer',
+            message: 'Gathering network info...',
+          });
+          const iceGatheringComplete = await rtc.waitForIceGatheringComplete(
+            ICE_GATHER_TIMEOUT_MS,
+          );
+          if (!iceGatheringComplete) {
+            console.warn(
+              'ICE gathering timed out while generating offer; continuing with available candidates',
+            );
+          }
+          setState({
+            status: 'generating_offer',
+            message: iceGatheringComplete
+              ? 'Preparing exchange code...'
+              : 'Network probe timed out. Preparing exchange code with available routes...',
+          });
 
-        if (cancelledRef.current) return;
+          if (cancelledRef.current) return;
+
+          // Generate binary offer data with ECDH public key
+          const offerBinary = await generateMutualOfferBinary(
+            offerSDP!,
+            iceCandidates,
+            {
+              createdAt: offerCreatedAt,
+              contentType,
+              fileName,
+              fileSize,
+              fileSizeExact,
+              mimeType,
+              publicKey: ecdhKeyPair.publicKeyBytes,
+              salt,
+            },
+            passphraseSealRef.current ?? undefined,
+          );
 
-        // Enforce TTL: refuse to proceed with old answers/offers
-        if (Date.now() - sessionStartTime > TRANSFER_EXPIRATION_MS) {
-          throw new Error('Session expired. Please start a new transfer.');
-        }
+          // Show offer and wait for answer
+          setState({
+            status: 'showing_offer',
+            message:
+              attempt === 0
+                ? 'Show this to receiver, then scan/paste their response'
+                : 'Connection lost. Show this new code to the receiver, then scan/paste their response to resume',
+            offerData: offerBinary,
+            contentType,
+            fileMetadata: { fileName, fileSize, mimeType },
+          });
 
-        // Derive shared secret from receiver's public key
-        setState({
-          status: 'connecting',
-          message: 'Establishing secure connection...',
-        });
+          // Wait for answer to be submitted
+          const answerPayload = await new Promise<SignalingPayload>(
+            (resolve, reject) => {
+              answerResolverRef.current = resolve;
+              answerRejectRef.current = reject;
+
+              // Check periodically if cancelled
+              const checkInterval = setInterval(() => {
+                if (cancelledRef.current) {
+                  clearInterval(checkInterval);
+                  reject(new Error('Cancelled'));
+                }
+              }, 500);
+            },
+          );
 
-        if (!ecdhPrivateKeyRef.current || !saltRef.current) {
-          throw new Error('Cryptographic state missing. Please try again.');
-        }
+          if (cancelledRef.current) return;
 
-        const receiverPublicKey = new Uint8Array(answerPayload.publicKey!);
-        // Derive shared secret as non-extractable CryptoKey
-        const sharedSecretKey = await deriveSharedSecretKey(
-          ecdhPrivateKeyRef.current,
-          receiverPublicKey,
-        );
-        const key = await deriveAESKeyFromSecretKey(
-          sharedSecretKey,
-          saltRef.current,
-        );
-
-        // Clear ECDH private key - no longer needed
-        ecdhPrivateKeyRef.current = null;
+          // Enforce TTL: refuse to proceed with old answers/offers
+          if (Date.now() - offerCreatedAt > TRANSFER_EXPIRATION_MS) {
+            throw new Error('Session expired. Please start a new transfer.');
+          }
 
-        // Handle answer signal
-        await rtc.handleSignal({ type: 'answer', sdp: answerPayload.sdp });
-
-        // Add ICE candidates from answer
-        for (const candidateStr of answerPayload.candidates) {
-          await rtc.handleSignal({
-            type: 'candidate',
-            candidate: {
-              candidate: candidateStr,
-              sdpMid: '0',
-              sdpMLineIndex: 0,
-            },
+          // Derive shared secret from receiver's public key
+          setState({
+            status: 'connecting',
+            message: 'Establishing secure connection...',
           });
-        }
 
-        // Wait for data channel to open
-        await new Promise<void>((resolve, reject) => {
-          const pc = rtc.getPeerConnection();
-          const dc = rtc.getDataChannel();
-          const timeout = setTimeout(() => {
-            cleanup();
-            reject(new P2PConnectionError('Connection timeout'));
-          }, MANUAL_CONNECTION_TIMEOUT_MS);
-
-          const cleanup = () => {
-            clearTimeout(timeout);
-            pc.onconnectionstatechange = null;
-            if (dc) {
-              dc.onopen = null;
+          const answerPublicKey = new Uint8Array(answerPayload.publicKey!);
+          if (!key || !receiverPublicKey) {
+            if (!ecdhPrivateKeyRef.current || !saltRef.current) {
+              throw new Error('Cryptographic state missing. Please try again.');
             }
-          };
+            // Derive shared secret as non-extractable CryptoKey
+            const sharedSecretKey = await deriveSharedSecretKey(
+              ecdhPrivateKeyRef.current,
+              answerPublicKey,
+            );
+            const derivedKey = await deriveAESKeyFromSecretKey(
+              sharedSecretKey,
+              saltRef.current,
+            );
+            const sas = await computeManualSas(
+              sharedSecretKey,
+              saltRef.current,
+              ecdhKeyPair.publicKeyBytes,
+              answerPublicKey,
+            );
+
+            // Clear ECDH private key - no longer needed
+            ecdhPrivateKeyRef.current = null;
 
-          const checkConnection = () => {
-            if (pc.connectionState === 'connected') {
-              const currentDc = rtc.getDataChannel();
-              if (currentDc && currentDc.readyState === 'open') {
-                cleanup();
-                resolve();
-              }
-            } else if (
-              pc.connectionState === 'failed' ||
-              pc.connectionState === 'disconnected'
-            ) {
-              cleanup();
-              reject(new P2PConnectionError('Connection failed'));
+            // Whoever carried the codes could have swapped both public keys.
+            // Nothing connects until the sender confirms that the receiver
+            // shows the same symbols; a resume reuses this verified receiver.
+            if (cancelledRef.current) return;
+            setState({
+              status: 'verifying_sas',
+              message: "Check that the receiver's screen shows these symbols",
+              sas,
+              contentType,
+              fileMetadata: { fileName, fileSize, mimeType },
+            });
+            const matched = await new Promise<boolean>((resolve) => {
+              sasResolverRef.current = resolve;
+            });
+            if (cancelledRef.current) return;
+            if (!matched) {
+              throw new Error(
+                'The verification symbols did not match, so nothing was sent. The codes may have been tampered with on the way; start a new transfer over a channel you trust.',
+              );
             }
-          };
 
-          pc.onconnectionstatechange = checkConnection;
-          if (dc) {
-            dc.onopen = () => {
+            key = derivedKey;
+            receiverPublicKey = answerPublicKey;
+            setPeerFingerprint(
+              formatFingerprint(await publicKeyToFingerprint(answerPublicKey)),
+            );
+            setState({
+              status: 'connecting',
+              message: 'Establishing secure connection...',
+            });
+          } else if (
+            !constantTimeEqualBytes(answerPublicKey, receiverPublicKey)
+          ) {
+            throw new Error(
+              'This response is from a different receiver. Resume needs the original receiver.',
+            );
+          }
+
+          // Handle answer signal
+          await rtc.handleSignal({ type: 'answer', sdp: answerPayload.sdp });
+
+          // Add ICE candidates from answer
+          for (const candidateStr of answerPayload.candidates) {
+            await rtc.handleSignal({
+              type: 'candidate',
+              candidate: {
+                candidate: candidateStr,
+                sdpMid: '0',
+                sdpMLineIndex: 0,
+              },
+            });
+          }
+
+          // Wait for data channel to open
+          await new Promise<void>((resolve, reject) => {
+            const pc = rtc.getPeerConnection();
+            const dc = rtc.getDataChannel();
+            const timeout = setTimeout(() => {
               cleanup();
-              resolve();
+              reject(new P2PConnectionError('Connection timeout'));
+            }, MANUAL_CONNECTION_TIMEOUT_MS);
+
+            const cleanup = () => {
+              clearTimeout(timeout);
+              pc.onconnectionstatechange = null;
+              if (dc) {
+                dc.onopen = null;
+              }
             };
-          }
-          checkConnection();
-        });
 
-        if (cancelledRef.current) return;
+            const checkConnection = () => {
+              if (pc.connectionState === 'connected') {
+                const currentDc = rtc.getDataChannel();
+                if (currentDc && currentDc.readyState === 'open') {
+                  cleanup();
+                  resolve();
+                }
+              } else if (
+                pc.connectionState === 'failed' ||
+                pc.connectionState === 'disconnected'
+              ) {
+                cleanup();
+                reject(new P2PConnectionError('Connection failed'));
+              }
+            };
 
-        // Enforce TTL again right before data transfer begins
-        if (Date.now() - sessionStartTime > TRANSFER_EXPIRATION_MS) {
-          throw new Error('Session expired. Please start a new transfer.');
-        }
+            pc.onconnectionstatechange = checkConnection;
+            if (dc) {
+              dc.onopen = () => {
+                cleanup();
+                resolve();
+              };
+            }
+            checkConnection();
+          });
 
-        // Send data via P2P (WebRTC DTLS provides transport encryption)
-        setState({
-          status: 'transferring',
-          message: 'Sending via P2P...',
-          progress: { current: 0, total: fileSize },
-          contentType: 'file',
-          fileMetadata: { fileName, fileSize, mimeType },
-        });
+          if (cancelledRef.current) return;
 
-        // Send data in encrypted chunks and wait for the receiver's ACK.
-        await sendFileOverDataChannel(rtc, key, content, {
-          onProgress: (current, total) =>
-            setState({
-              status: 'transferring',
-              message: 'Sending via P2P...',
-              progress: { current, total },
-              contentType: 'file',
-              fileMetadata: { fileName, fileSize, mimeType },
-            }),
-          isCancelled: () => cancelledRef.current,
-        });
+          // Enforce TTL again right before data transfer begins
+          if (Date.now() - offerCreatedAt > TRANSFER_EXPIRATION_MS) {
+            throw new Error('Session expired. Please start a new transfer.');
+          }
+          dataChannelEverOpened = true;
+          clearExpirationTimeout();
+          const relayed = await rtc.isRelayed();
+
+          // Send data via P2P (WebRTC DTLS provides transport encryption)
+          setState((prevState) => ({
+            status: 'transferring',
+            message: 'Sending via P2P...',
+            progress: prevState.progress ?? { current: 0, total: fileSize },
+            contentType,
+            fileMetadata: { fileName, fileSize, mimeType },
+            relayed,
+          }));
+
+          // Send data in encrypted chunks and wait for the receiver's ACK.
+          // On a resumed connection the receiver's HAVE message makes this
+          // skip every chunk it already holds.
+          const result = await sendFileOverDataChannel(rtc, key, content, {
+            onProgress: (current, total) =>
+              setState({
+                status: 'transferring',
+                message: 'Sending via P2P...',
+                progress: { current, total },
+                contentType,
+                fileMetadata: { fileName, fileSize, mimeType },
+                relayed,
+              }),
+            isCancelled: () => cancelledRef.current,
+          });
+          payloadDigest = result.digest;
+          webRTCSuccess = true;
+        };
+
+        let webRTCSuccess = false;
+        let payloadDigest: string | undefined;
+        for (let attempt = 0; !webRTCSuccess; attempt++) {
+          try {
+            await runAttempt(attempt);
+            if (cancelledRef.current) return;
+          } catch (err) {
+            // Only a connection that already carried data is worth resuming;
+            // an initial failure surfaces at once.
+            if (
+              cancelledRef.current ||
+              !dataChannelEverOpened ||
+              !(err instanceof P2PConnectionError) ||
+              attempt >= MAX_RESUME_ATTEMPTS
+            ) {
+              throw err;
+            }
+            rtcRef.current?.close();
+            rtcRef.current = null;
+          }
+        }
 
         setState({
           status: 'complete',
-          message: 'File sent via P2P!',
-          contentType: 'file',
+          message: SENT_MESSAGES[contentType],
+          contentType,
+          digest: payloadDigest,
         });
       } catch (error) {
         if (!cancelledRef.current) {
+          const connectionFailed = error instanceof P2PConnectionError;
+          // Only a key the sender verified may encrypt the QR fallback.
+          const qrFallback =
+            connectionFailed &&
+            key !== null &&
+            fitsQrTransfer(content.size ?? content.estimatedSize);
+          if (qrFallback && key) qrFallbackRef.current = { key, content };
           setState({
             status: 'error',
             message: error instanceof Error ? error.message : 'Failed to send',
-            connectionFailed: error instanceof P2PConnectionError,
+            connectionFailed,
+            qrFallback,
           });
         }
       } finally {
@@ -465,8 +679,10 @@ export function useManualSend(): UseManualSendReturn {
         sendingRef.current = false;
         answerResolverRef.current = null;
         answerRejectRef.current = null;
+        sasResolverRef.current = null;
         ecdhPrivateKeyRef.current = null;
         saltRef.current = null;
+        passphraseSealRef.current = null;
         if (rtcRef.current) {
           rtcRef.current.close();
           rtcRef.current = null;
@@ -476,9 +692,74 @@ export function useManualSend(): UseManualSendReturn {
     [clearExpirationTimeout],
   );
 
+  const sendOverQr = useCallback(async () => {
+    const fallback = qrFallbackRef.current;
+    if (!fallback || sendingRef.current) return;
+    sendingRef.current = true;
+    cancelledRef.current = false;
+    qrFallbackRef.current = null;
+
+    const { key, content } = fallback;
+    const contentType = getTransferContentType(content);
+    const fileMetadata = {
+      fileName: content.name,
+      fileSize: content.size ?? content.estimatedSize,
+      mimeType: content.type || 'application/octet-stream',
+    };
+    try {
+      setState({
+        status: 'sending_qr',
+        message: 'Encrypting for QR transfer...',
+        contentType,
+        fileMetadata,
+      });
+      // The transcript is ciphertext only; the key is not kept past this.
+      const transcript = await encodeQrTransfer(key, content);
+      if (cancelledRef.current) return;
+      setState({
+        status: 'sending_qr',
+        message:
+          "Hold this animated code in front of the receiver's camera until their screen shows the transfer is complete",
+        qrTransferData: transcript,
+        contentType,
+        fileMetadata,
+      });
+    } catch (error) {
+      if (!cancelledRef.current) {
+        setState({
+          status: 'error',
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to prepare QR transfer',
+        });
+      }
+    } finally {
+      sendingRef.current = false;
+    }
+  }, []);
+
   // Memoize return object to prevent unnecessary re-renders in consumers
   return useMemo(
-    () => ({ state, send, submitAnswer, cancel }),
-    [state, send, submitAnswer, cancel],
+    () => ({
+      state,
+      peerFingerprint,
+      send,
+      submitAnswer,
+      confirmSas,
+      rejectSas,
+      sendOverQr,
+      cancel,
+    }),
+    [
+      state,
+      peerFingerprint,
+      send,
+      submitAnswer,
+      confirmSas,
+      rejectSas,
+      sendOverQr,
+      cancel,
+    ],
   );
 }
@@ -1,54 +1,57 @@
 import type { Event } from 'nostr-tools';
 import { useCallback, useRef, useState } from 'react';
-import {
-  computePinHintFromRoot,
-  decrypt,
-  deriveNostrSessionKeys,
-  derivePinAuthKey,
-  derivePinRendezvousKey,
-  deriveSharedSecretKey,
-  encrypt,
-  generateECDHKeyPair,
-  getPinBucket,
-  MAX_MESSAGE_SIZE,
-  type NostrSessionKeys,
-  PIN_HINT_LOOKBACK_BUCKETS,
-  PIN_TTL_MS,
-} from '@/lib/crypto';
 import { P2PConnectionError } from '@/lib/errors';
-import { formatFileSize } from '@/lib/file-utils';
 import {
-  base64ToUint8Array,
-  type ClaimPayload,
-  type ConfirmPayload,
-  createHandshakeEvent,
+  createExchangeSession,
+  type ExchangeSession,
+  type ExchangeState,
+} from '@/lib/exchange-session';
+import { splitManifestPayload } from '@/lib/file-manifest';
+import {
+  type ContentType,
+  createClaim,
   createNostrClient,
-  createSignalingEvent,
-  DEFAULT_RELAYS,
+  createSignalEvent,
+  derivePinLookupKeys,
+  deriveTransferSessionKeys,
   EVENT_KIND_DATA_TRANSFER,
   EVENT_KIND_RENDEZVOUS,
-  generateEphemeralKeys,
-  generateHandshakeNonce,
+  findRendezvous,
+  getSignalingRelays,
   type NostrClient,
-  openHandshakePayload,
-  parseHandshakeEvent,
-  parseRendezvousEvent,
-  parseSignalingEvent,
-  type RendezvousPayload,
-  sealHandshakePayload,
+  openSignalEvent,
+  resolveRendezvousContent,
+  sanitizeRelays,
   type TransferState,
-  uint8ArrayToBase64,
+  verifyConfirm,
 } from '@/lib/nostr';
-import { ACK, createDataChannelReceiver } from '@/lib/p2p-transfer';
+import {
+  ACK,
+  createDataChannelReceiver,
+  type ReceivedPayload,
+} from '@/lib/p2p-transfer';
 import {
   type AppendSink,
   createAdaptiveAppendSink,
   createReceiveSink,
+  createSaveFileAppendSink,
+  createSaveFileReceiveSink,
   type ReceiveSink,
 } from '@/lib/scratch-sink';
+import {
+  createStreamDownloadSink,
+  shouldStreamDownload,
+} from '@/lib/stream-download';
+import { decodeTextMessage } from '@/lib/text-message';
+import type { TransferSource } from '@/lib/transfer-source';
 import type { PinKeyMaterial, ReceivedContent } from '@/lib/types';
 import { WebRTCConnection } from '@/lib/webrtc';
 import { getWebRTCConfig } from '@/lib/webrtc-config';
+import {
+  type SaveLocationRequest,
+  shouldAskSaveLocation,
+  useSaveLocation,
+} from './use-save-location';
 
 /**
  * Time to establish the WebRTC data channel after the handshake completes.
@@ -74,15 +77,24 @@ const CONFIRM_TIMEOUT_MS = 30000;
  */
 const ACK_LINGER_MS = 3000;
 
-function decodeEcdhPublicKey(b64: string): Uint8Array | null {
-  try {
-    const bytes = base64ToUint8Array(b64);
-    if (bytes.length !== 65 || bytes[0] !== 0x04) return null;
-    return bytes;
-  } catch {
-    return null;
-  }
-}
+/**
+ * How long a dropped transfer waits for the sender's reconnect attempt. The
+ * sender notices the drop through its own stall or close handling and then
+ * re-runs signaling, possibly several times, before it gives up.
+ */
+const RESUME_TIMEOUT_MS = 120000;
+
+const RECEIVING_MESSAGES: Record<ContentType, string> = {
+  file: 'Receiving file...',
+  files: 'Receiving files...',
+  text: 'Receiving message...',
+};
+
+const RECEIVED_MESSAGES: Record<ContentType, string> = {
+  file: 'File received (P2P)!',
+  files: 'Files received (P2P)!',
+  text: 'Message received (P2P)!',
+};
 
 export interface UseNostrReceiveReturn {
   state: TransferState;
@@ -90,6 +102,18 @@ export interface UseNostrReceiveReturn {
   receive: (pinMaterial: PinKeyMaterial) => Promise<void>;
   cancel: () => void;
   reset: () => void;
+  /** The exchange session the sender opened after the transfer, if any. */
+  exchange: ExchangeState | null;
+  /** Queue a multi-file source in the open exchange session. */
+  sendInExchange: (source: TransferSource) => void;
+  /** End the exchange session; received files stay available until reset. */
+  endExchange: () => void;
+  /** Set while the receive waits for the receiver to place a large file. */
+  saveLocationRequest: SaveLocationRequest | null;
+  /** Pick the destination file (from a click); the receive then continues. */
+  chooseSaveLocation: () => Promise<void>;
+  /** Receive into browser storage instead of a picked file. */
+  keepInBrowser: () => void;
 }
 
 export function useNostrReceive(): UseNostrReceiveReturn {
@@ -104,6 +128,11 @@ export function useNostrReceive(): UseNostrReceiveReturn {
   // the payload it backs is abandoned; kept after completion because
   // receivedContent.data reads from it until reset.
   const sinkRef = useRef<ReceiveSink | AppendSink | null>(null);
+  const [exchange, setExchange] = useState<ExchangeState | null>(null);
+  const exchangeRef = useRef<ExchangeSession | null>(null);
+  const saveLocation = useSaveLocation();
+  const { ask: askSaveLocation, keepInBrowser: dismissSaveLocation } =
+    saveLocation;
 
   const discardSink = useCallback(() => {
     const sink = sinkRef.current;
@@ -111,24 +140,44 @@ export function useNostrReceive(): UseNostrReceiveReturn {
     if (sink) void sink.discard();
   }, []);
 
+  const disposeExchange = useCallback(() => {
+    exchangeRef.current?.dispose();
+    exchangeRef.current = null;
+    setExchange(null);
+  }, []);
+
+  const sendInExchange = useCallback((source: TransferSource) => {
+    if (!exchangeRef.current) {
+      throw new Error('No exchange session is open');
+    }
+    exchangeRef.current.send(source);
+  }, []);
+
+  const endExchange = useCallback(() => {
+    exchangeRef.current?.end();
+  }, []);
+
   const cancel = useCallback(() => {
     // Only an in-flight transfer's storage is abandoned by cancel; a completed
     // payload stays readable until reset.
     if (receivingRef.current) discardSink();
     cancelledRef.current = true;
     receivingRef.current = false;
+    // Settle a pending save-location question; the receive sees the cancel.
+    dismissSaveLocation();
     if (clientRef.current) {
       clientRef.current.close();
       clientRef.current = null;
     }
     setState({ status: 'idle' });
-  }, [discardSink]);
+  }, [discardSink, dismissSaveLocation]);
 
   const reset = useCallback(() => {
     cancel();
     discardSink();
+    disposeExchange();
     setReceivedContent(null);
-  }, [cancel, discardSink]);
+  }, [cancel, discardSink, disposeExchange]);
 
   const receive = useCallback(
     async (pinMaterial: PinKeyMaterial) => {
@@ -139,6 +188,7 @@ export function useNostrReceive(): UseNostrReceiveReturn {
       setReceivedContent(null);
       // The previous transfer's payload (if any) is gone from the UI now.
       discardSink();
+      disposeExchange();
 
       try {
         if (!pinMaterial.key || !pinMaterial.fingerprint) {
@@ -155,25 +205,15 @@ export function useNostrReceive(): UseNostrReceiveReturn {
           message: 'Deriving lookup keys...',
         });
 
-        // Mirror the sender's acceptance rule by deriving the receiver's
-        // current and immediately previous rotation buckets.
-        const root = pinMaterial.key;
-        const currentBucket = getPinBucket();
-        const [hints, rendezvousKey, authKey] = await Promise.all([
-          Promise.all(
-            Array.from({ length: PIN_HINT_LOOKBACK_BUCKETS + 1 }, (_, offset) =>
-              computePinHintFromRoot(root, currentBucket - offset),
-            ),
-          ),
-          derivePinRendezvousKey(root),
-          derivePinAuthKey(root),
-        ]);
+        const { hints, rendezvousKey, authKey } = await derivePinLookupKeys(
+          pinMaterial.key,
+        );
 
         if (cancelledRef.current) return;
 
         // Connect to relays
         setState({ status: 'connecting', message: 'Connecting to relays...' });
-        const client = createNostrClient([...DEFAULT_RELAYS]);
+        const client = createNostrClient(await getSignalingRelays());
         clientRef.current = client;
 
         if (cancelledRef.current) return;
@@ -200,83 +240,15 @@ export function useNostrReceive(): UseNostrReceiveReturn {
           return;
         }
 
-        // Try to decrypt each candidate
-        let payload: RendezvousPayload | null = null;
-        let transferId: string | null = null;
-        let senderPubkey: string | null = null;
-        let senderEcdhPublicKey: Uint8Array | null = null;
-        let salt: Uint8Array | null = null;
-        let sawExpiredCandidate = false;
-
-        const sortedEvents = [...events].sort(
-          (a, b) => (b.created_at || 0) - (a.created_at || 0),
+        const { rendezvous, sawExpired } = await findRendezvous(
+          events,
+          rendezvousKey,
+          pinMaterial.kdf,
         );
-
-        for (const event of sortedEvents) {
-          // A rendezvous event is only claimable while the sender still honors
-          // its PIN generation.
-          if (
-            !event.created_at ||
-            Date.now() - event.created_at * 1000 > PIN_TTL_MS
-          ) {
-            sawExpiredCandidate = true;
-            continue;
-          }
-
-          const parsed = parseRendezvousEvent(event);
-          if (!parsed) continue;
-
-          let candidate: RendezvousPayload;
-          try {
-            const decrypted = await decrypt(
-              rendezvousKey,
-              parsed.encryptedPayload,
-            );
-            candidate = JSON.parse(
-              new TextDecoder().decode(decrypted),
-            ) as RendezvousPayload;
-          } catch {
-            // Not sealed with our PIN (stale event sharing the hint tag); try
-            // the next candidate.
-            continue;
-          }
-
-          // Bind the authenticated payload to the plaintext routing data: the
-          // payload must name the event's own author and transfer id, so a
-          // copied ciphertext republished under another identity is rejected.
-          const ecdhBytes =
-            typeof candidate.ecdhPublicKey === 'string'
-              ? decodeEcdhPublicKey(candidate.ecdhPublicKey)
-              : null;
-          if (
-            candidate.type !== 'rendezvous' ||
-            candidate.transferId !== parsed.transferId ||
-            candidate.senderPubkey !== event.pubkey ||
-            typeof candidate.nonce !== 'string' ||
-            !candidate.nonce ||
-            !ecdhBytes
-          ) {
-            continue;
-          }
-
-          payload = candidate;
-          transferId = parsed.transferId;
-          senderPubkey = event.pubkey;
-          senderEcdhPublicKey = ecdhBytes;
-          salt = parsed.salt;
-          break;
-        }
-
-        if (
-          !payload ||
-          !transferId ||
-          !senderPubkey ||
-          !senderEcdhPublicKey ||
-          !salt
-        ) {
+        if (!rendezvous) {
           setState({
             status: 'error',
-            message: sawExpiredCandidate
+            message: sawExpired
               ? 'This PIN has expired. Enter the code currently shown on the sender.'
               : 'Could not decrypt transfer. Wrong PIN?',
           });
@@ -285,61 +257,56 @@ export function useNostrReceive(): UseNostrReceiveReturn {
 
         if (cancelledRef.current) return;
 
-        // Validate payload
-        if (
-          payload.fileSize == null ||
-          !Number.isFinite(payload.fileSize) ||
-          payload.fileSize < 0 ||
-          typeof payload.fileSizeExact !== 'boolean'
-        ) {
-          setState({
-            status: 'error',
-            message: 'Invalid file size in transfer',
-          });
-          return;
-        }
+        const { payload, transferId, senderPubkey } = rendezvous;
+        const {
+          contentType: resolvedContentType,
+          fileName: resolvedFileName,
+          fileSize: resolvedFileSize,
+          fileSizeExact: resolvedFileSizeExact,
+          mimeType: resolvedMimeType,
+          exchange: exchangeRequested,
+        } = resolveRendezvousContent(payload);
 
-        const resolvedFileName = payload.fileName || 'unknown';
-        const resolvedFileSize = payload.fileSize;
-        const resolvedFileSizeExact = payload.fileSizeExact;
-        const resolvedMimeType = payload.mimeType || 'application/octet-stream';
+        // Signal over the sender's relays too: the two lists may differ when
+        // either side configured its own, and only one relay has to be shared
+        // to find the rendezvous.
+        await client.addRelays(sanitizeRelays(payload.relays ?? []));
+        if (cancelledRef.current) return;
 
-        if (resolvedFileSize > MAX_MESSAGE_SIZE) {
-          setState({
-            status: 'error',
-            message: `Transfer rejected: Size (${formatFileSize(resolvedFileSize)}) exceeds limit (${formatFileSize(MAX_MESSAGE_SIZE)})`,
+        // A large single file can go straight into a file the receiver picks.
+        // Ask before claiming: the sender starts connecting once it sees the
+        // claim, and the picker waits on a click.
+        let savedSink: ReceiveSink | AppendSink | null = null;
+        let savedAs: string | undefined;
+        if (shouldAskSaveLocation(resolvedContentType, resolvedFileSize)) {
+          setState((s) => ({
+            ...s,
+            message: 'Choose where to save the file...',
+          }));
+          const handle = await askSaveLocation({
+            fileName: resolvedFileName,
+            fileSize: resolvedFileSize,
           });
-          return;
+          if (cancelledRef.current) return;
+          if (handle) {
+            savedSink = resolvedFileSizeExact
+              ? await createSaveFileReceiveSink(handle, resolvedFileSize)
+              : await createSaveFileAppendSink(handle);
+            // Any failure from here on discards it, which removes the
+            // still-empty file the picker created.
+            sinkRef.current = savedSink;
+            savedAs = handle.name;
+            if (cancelledRef.current) return;
+          }
         }
 
-        // Claim the transfer: prove PIN knowledge and bind our ephemeral ECDH
-        // key (and the sender's) into the sealed payload.
-        const { secretKey, publicKey } = generateEphemeralKeys();
-        const ecdh = await generateECDHKeyPair();
-        const receiverEcdhPublicKeyB64 = uint8ArrayToBase64(
-          ecdh.publicKeyBytes,
-        );
-        const receiverNonce = generateHandshakeNonce();
-
-        const claimPayload: ClaimPayload = {
-          type: 'claim',
-          transferId,
-          senderNonce: payload.nonce,
-          receiverNonce,
-          receiverEcdhPublicKey: receiverEcdhPublicKeyB64,
-          senderEcdhPublicKey: payload.ecdhPublicKey,
-        };
-        const claimEvent = createHandshakeEvent(
-          secretKey,
-          senderPubkey,
-          transferId,
-          'claim',
-          await sealHandshakePayload(authKey, claimPayload),
-        );
+        const claim = await createClaim(authKey, rendezvous);
+        const { secretKey, publicKey, keyFingerprint } = claim;
 
         setState({
           status: 'connecting',
           message: 'Waiting for sender confirmation...',
+          keyFingerprint,
         });
 
         // Subscribe for the confirm before publishing the claim so the response
@@ -388,38 +355,10 @@ export function useNostrReceive(): UseNostrReceiveReturn {
             if (processedEventIds.has(event.id)) return;
             processedEventIds.add(event.id);
 
-            const handshake = parseHandshakeEvent(event);
-            if (
-              !handshake ||
-              handshake.type !== 'confirm' ||
-              handshake.transferId !== transferId ||
-              event.pubkey !== senderPubkey
-            ) {
-              return;
-            }
-
             void (async () => {
-              let opened: unknown;
-              try {
-                opened = await openHandshakePayload(
-                  authKey,
-                  handshake.sealedPayload,
-                );
-              } catch {
-                return; // Not sealed with our PIN
-              }
-
-              const p = opened as Partial<ConfirmPayload>;
-              if (
-                p.type !== 'confirm' ||
-                p.transferId !== transferId ||
-                p.senderNonce !== payload.nonce ||
-                p.receiverNonce !== receiverNonce ||
-                p.receiverEcdhPublicKey !== receiverEcdhPublicKeyB64
-              ) {
+              if (!(await verifyConfirm(event, authKey, rendezvous, claim))) {
                 return;
               }
-
               if (settled) return;
               settled = true;
               cleanup();
@@ -440,7 +379,7 @@ export function useNostrReceive(): UseNostrReceiveReturn {
           );
 
           const publishAndPoll = async () => {
-            await client.publish(claimEvent);
+            await client.publish(claim.event);
             // Backstop for relays that processed the publish before the
             // subscription: poll for an already-stored confirm.
             queryPoll = setInterval(() => {
@@ -476,21 +415,16 @@ export function useNostrReceive(): UseNostrReceiveReturn {
 
         if (cancelledRef.current) return;
 
-        // Session keys come from the ephemeral ECDH exchange the PIN just
-        // authenticated — the PIN derives no content or signaling keys.
-        const sharedSecret = await deriveSharedSecretKey(
-          ecdh.privateKey,
-          senderEcdhPublicKey,
-        );
-        const sessionKeys: NostrSessionKeys = await deriveNostrSessionKeys(
-          sharedSecret,
-          salt,
+        const sessionKeys = await deriveTransferSessionKeys(
+          claim.ecdh.privateKey,
+          rendezvous.senderEcdhPublicKey,
+          rendezvous.salt,
         );
 
         setState({
           status: 'receiving',
-          message: 'Receiving file...',
-          contentType: 'file',
+          message: RECEIVING_MESSAGES[resolvedContentType],
+          contentType: resolvedContentType,
           fileMetadata: {
             fileName: resolvedFileName,
             fileSize: resolvedFileSize,
@@ -498,232 +432,324 @@ export function useNostrReceive(): UseNostrReceiveReturn {
           },
           useWebRTC: false,
           currentRelays: client.getRelays(),
-          totalRelays: DEFAULT_RELAYS.length,
+          totalRelays: client.getRelays().length,
+          keyFingerprint,
         });
 
         // Decrypted chunks land in the receive sink as they arrive.
-        const sink = resolvedFileSizeExact
-          ? await createReceiveSink(resolvedFileSize)
-          : await createAdaptiveAppendSink(resolvedFileSize);
+        // Without OPFS, a large streamed ZIP goes straight to the downloads.
+        const streamedSink =
+          !savedSink &&
+          !resolvedFileSizeExact &&
+          shouldStreamDownload(resolvedFileSize)
+            ? await createStreamDownloadSink(resolvedFileName, resolvedMimeType)
+            : null;
+        const sink =
+          savedSink ??
+          streamedSink ??
+          (resolvedFileSizeExact
+            ? await createReceiveSink(resolvedFileSize)
+            : await createAdaptiveAppendSink(resolvedFileSize));
         sinkRef.current = sink;
 
         if (cancelledRef.current) return;
 
-        // Listener for the P2P transfer
-        const transferResult = await new Promise<Blob>((resolve, reject) => {
-          let rtc: WebRTCConnection | null = null;
-          let settled = false;
-
-          // Streaming receiver: decrypts each chunk into the sink as it
-          // arrives. Nostr is not involved past signaling; the data-channel
-          // ACK below confirms completion.
-          const receiver = createDataChannelReceiver(
-            sessionKeys.content,
-            resolvedFileSizeExact ? resolvedFileSize : null,
-            sink,
-            {
-              estimatedBytes: resolvedFileSize,
-              onProgress: (current, total) =>
-                setState((s) => ({
-                  ...s,
-                  status: 'receiving',
-                  progress: { current, total },
-                })),
-            },
-          );
-
-          let cancelPoll: ReturnType<typeof setInterval> | null = null;
-          let dataChannelOpened = false;
-          let connectionTimeout: ReturnType<typeof setTimeout> | null = null;
-          const clearConnectionTimeout = () => {
-            if (connectionTimeout) {
-              clearTimeout(connectionTimeout);
-              connectionTimeout = null;
-            }
-          };
+        // Listener for the P2P transfer. The sender re-runs WebRTC signaling
+        // (with a higher attempt number) after a dropped connection; the
+        // receiver and its sink survive across attempts so the transfer
+        // resumes instead of restarting.
+        const transferResult = await new Promise<ReceivedPayload>(
+          (resolve, reject) => {
+            let rtc: WebRTCConnection | null = null;
+            let rtcAttempt = -1;
+            let settled = false;
+            // Takes over the connection after the transfer when the sender
+            // asked for an exchange session.
+            let session: ExchangeSession | null = null;
+
+            // Streaming receiver: decrypts each chunk into the sink as it
+            // arrives. Nostr is not involved past signaling; the data-channel
+            // ACK below confirms completion.
+            const receiver = createDataChannelReceiver(
+              sessionKeys.content,
+              resolvedFileSizeExact ? resolvedFileSize : null,
+              sink,
+              {
+                estimatedBytes: resolvedFileSize,
+                expectManifest: resolvedContentType === 'files',
+                onProgress: (current, total) =>
+                  setState((s) => ({
+                    ...s,
+                    status: 'receiving',
+                    progress: { current, total },
+                  })),
+              },
+            );
 
-          // Bound the pre-open phase: the stall watchdog only arms once the data
-          // channel opens, so a sender that never completes WebRTC would leave
-          // receiver.done unresolved without this. Cleared the moment the channel
-          // opens (see below), on cancel, and on success/failure.
-          connectionTimeout = setTimeout(() => {
-            if (settled || dataChannelOpened) return;
-            settled = true;
-            if (cancelPoll) clearInterval(cancelPoll);
-            client.unsubscribe(subId);
-            try {
-              if (rtc) rtc.close();
-            } catch {
-              // ignore
-            }
-            reject(new P2PConnectionError('WebRTC connection timeout'));
-          }, P2P_CONNECTION_TIMEOUT_MS);
+            let cancelPoll: ReturnType<typeof setInterval> | null = null;
+            let dataChannelOpened = false;
+            let connectionTimeout: ReturnType<typeof setTimeout> | null = null;
+            const clearConnectionTimeout = () => {
+              if (connectionTimeout) {
+                clearTimeout(connectionTimeout);
+                connectionTimeout = null;
+              }
+            };
 
-          // cancel() only flips cancelledRef and closes the relay client; rtc is
-          // local to this Promise and unreachable from there. Poll so a cancel
-          // always settles the wait, even when rtc cannot be closed by cancel().
-          // A stalled stream is aborted by the receiver's own idle watchdog.
-          cancelPoll = setInterval(() => {
-            if (cancelledRef.current && !settled) {
-              settled = true;
-              clearConnectionTimeout();
-              receiver.dispose();
-              if (cancelPoll) clearInterval(cancelPoll);
-              client.unsubscribe(subId);
+            const closeRtc = () => {
               try {
                 if (rtc) rtc.close();
               } catch {
                 // ignore
               }
-              reject(new Error('Cancelled'));
-            }
-          }, 250);
+            };
 
-          receiver.done
-            .then((result) => {
+            const failConnection = (message: string) => {
               if (settled) return;
               settled = true;
-              clearConnectionTimeout();
-              if (cancelPoll) clearInterval(cancelPoll);
-              client.unsubscribe(subId);
-              // The file is fully received; a failure to send the ACK or tear
-              // down rtc must not prevent the Promise from settling.
-              try {
-                if (rtc) {
-                  const conn = rtc;
-                  conn.send(ACK);
-                  // Linger so the ACK reaches the sender; see ACK_LINGER_MS.
-                  setTimeout(() => {
-                    try {
-                      conn.close();
-                    } catch {
-                      // ignore
-                    }
-                  }, ACK_LINGER_MS);
-                }
-              } catch (e) {
-                console.error('ACK/teardown error', e);
-              }
-              resolve(result);
-            })
-            .catch((err) => {
-              if (settled) return;
-              settled = true;
-              clearConnectionTimeout();
+              receiver.dispose();
               if (cancelPoll) clearInterval(cancelPoll);
               client.unsubscribe(subId);
-              try {
-                if (rtc) rtc.close();
-              } catch {
-                // ignore
-              }
-              reject(err instanceof Error ? err : new Error('Transfer failed'));
-            });
-
-          const initWebRTC = () => {
-            if (rtc) return rtc;
-
-            rtc = new WebRTCConnection(
-              getWebRTCConfig(),
-              async (signal) => {
-                const signalPayload = { type: 'signal', signal };
-                const signalJson = JSON.stringify(signalPayload);
-                const encryptedSignal = await encrypt(
-                  sessionKeys.signals,
-                  new TextEncoder().encode(signalJson),
-                );
-                const event = createSignalingEvent(
-                  secretKey,
-                  senderPubkey,
-                  transferId,
-                  encryptedSignal,
+              closeRtc();
+              reject(new P2PConnectionError(message));
+            };
+
+            // Bound the pre-open phase: the stall watchdog only arms once the data
+            // channel opens, so a sender that never completes WebRTC would leave
+            // receiver.done unresolved without this. Cleared the moment the channel
+            // opens (see below), on cancel, and on success/failure.
+            connectionTimeout = setTimeout(() => {
+              if (dataChannelOpened) return;
+              failConnection('WebRTC connection timeout');
+            }, P2P_CONNECTION_TIMEOUT_MS);
+
+            // The connection dropped after data started flowing: keep the sink
+            // and wait for the sender to reconnect.
+            const handleConnectionLost = (conn: WebRTCConnection) => {
+              if (settled || conn !== rtc || connectionTimeout) return;
+              receiver.suspend();
+              setState((s) => ({
+                ...s,
+                message: 'Connection lost. Waiting for sender to reconnect...',
+              }));
+              connectionTimeout = setTimeout(() => {
+                connectionTimeout = null;
+                failConnection(
+                  'Connection lost and the sender did not reconnect',
                 );
-                await client.publish(event);
-              },
-              () => {
-                // Data channel opened; the idle watchdog covers the receiving
-                // stage from here on, replacing the pre-open connection timeout.
-                dataChannelOpened = true;
+              }, RESUME_TIMEOUT_MS);
+            };
+
+            // cancel() only flips cancelledRef and closes the relay client; rtc is
+            // local to this Promise and unreachable from there. Poll so a cancel
+            // always settles the wait, even when rtc cannot be closed by cancel().
+            // A stalled stream is aborted by the receiver's own idle watchdog.
+            cancelPoll = setInterval(() => {
+              if (cancelledRef.current && !settled) {
+                settled = true;
                 clearConnectionTimeout();
-                receiver.start();
-                setState((s) => ({
-                  ...s,
-                  message: 'Receiving via P2P...',
-                  useWebRTC: true,
-                }));
-              },
-              (data) => {
+                receiver.dispose();
+                if (cancelPoll) clearInterval(cancelPoll);
+                client.unsubscribe(subId);
+                closeRtc();
+                reject(new Error('Cancelled'));
+              }
+            }, 250);
+
+            receiver.done
+              .then((result) => {
                 if (settled) return;
-                receiver.onMessage(data);
-              },
-            );
-            return rtc;
-          };
+                settled = true;
+                clearConnectionTimeout();
+                if (cancelPoll) clearInterval(cancelPoll);
+                client.unsubscribe(subId);
+                // The file is fully received; a failure to send the ACK or tear
+                // down rtc must not prevent the Promise from settling.
+                try {
+                  if (rtc && exchangeRequested && !cancelledRef.current) {
+                    rtc.send(ACK);
+                    session = createExchangeSession(rtc, {
+                      exchangeKey: sessionKeys.exchange,
+                      role: 'receiver',
+                      onChange: setExchange,
+                    });
+                    exchangeRef.current = session;
+                  } else if (rtc) {
+                    const conn = rtc;
+                    conn.send(ACK);
+                    // Linger so the ACK reaches the sender; see ACK_LINGER_MS.
+                    setTimeout(() => {
+                      try {
+                        conn.close();
+                      } catch {
+                        // ignore
+                      }
+                    }, ACK_LINGER_MS);
+                  }
+                } catch (e) {
+                  console.error('ACK/teardown error', e);
+                }
+                resolve(result);
+              })
+              .catch((err) => {
+                if (settled) return;
+                settled = true;
+                clearConnectionTimeout();
+                if (cancelPoll) clearInterval(cancelPoll);
+                client.unsubscribe(subId);
+                closeRtc();
+                reject(
+                  err instanceof Error ? err : new Error('Transfer failed'),
+                );
+              });
+
+            // Replace the connection when the sender starts a new attempt; the
+            // previous one is dead or about to be abandoned by the sender.
+            const initWebRTC = (attempt: number) => {
+              if (rtc && attempt === rtcAttempt) return rtc;
+              if (rtc) {
+                handleConnectionLost(rtc);
+                closeRtc();
+              }
+              rtcAttempt = attempt;
+
+              const conn: WebRTCConnection = new WebRTCConnection(
+                getWebRTCConfig(),
+                async (signal) => {
+                  const event = await createSignalEvent(
+                    secretKey,
+                    senderPubkey,
+                    transferId,
+                    sessionKeys.signals,
+                    signal,
+                    attempt,
+                  );
+                  await client.publish(event);
+                },
+                () => {
+                  if (settled || conn !== rtc) return;
+                  // Data channel opened; the idle watchdog covers the receiving
+                  // stage from here on, replacing the pre-open connection timeout.
+                  dataChannelOpened = true;
+                  clearConnectionTimeout();
+                  receiver.start();
+                  setState((s) => ({
+                    ...s,
+                    message: 'Receiving via P2P...',
+                    useWebRTC: true,
+                  }));
+                  void conn.isRelayed().then((relayed) => {
+                    if (!settled && conn === rtc) {
+                      setState((s) => ({ ...s, relayed }));
+                    }
+                  });
+                  // Tell the sender which chunks to skip (none on a fresh
+                  // transfer).
+                  void receiver
+                    .createHaveMessage()
+                    .then((have) => {
+                      if (!settled && conn === rtc) conn.send(have);
+                    })
+                    .catch((err) => {
+                      console.error('Failed to send resume state:', err);
+                    });
+                },
+                (data) => {
+                  if (conn !== rtc) return;
+                  if (session) {
+                    session.onMessage(data);
+                    return;
+                  }
+                  if (settled) return;
+                  receiver.onMessage(data);
+                },
+                (connectionState) => {
+                  if (
+                    session &&
+                    conn === rtc &&
+                    (connectionState === 'failed' ||
+                      connectionState === 'closed')
+                  ) {
+                    session.connectionLost();
+                    return;
+                  }
+                  if (
+                    dataChannelOpened &&
+                    (connectionState === 'failed' ||
+                      connectionState === 'closed')
+                  ) {
+                    handleConnectionLost(conn);
+                  }
+                },
+              );
+              rtc = conn;
+              return conn;
+            };
 
-          const processedEventIds = new Set<string>();
+            const processedEventIds = new Set<string>();
 
-          const processEvent = async (event: Event) => {
-            if (settled) return;
-            if (processedEventIds.has(event.id)) return;
-            processedEventIds.add(event.id);
+            const processEvent = async (event: Event) => {
+              if (settled) return;
+              if (processedEventIds.has(event.id)) return;
+              processedEventIds.add(event.id);
 
-            const signalData = parseSignalingEvent(event);
-            if (signalData && signalData.transferId === transferId) {
               try {
-                const decrypted = await decrypt(
+                const opened = await openSignalEvent(
+                  event,
+                  transferId,
                   sessionKeys.signals,
-                  signalData.encryptedSignal,
-                );
-                const signalPayload = JSON.parse(
-                  new TextDecoder().decode(decrypted),
                 );
-                if (signalPayload.type === 'signal' && signalPayload.signal) {
-                  const r = initWebRTC();
-                  await r.handleSignal(signalPayload.signal);
-                }
+                // Signals from an attempt the sender has moved past are stale.
+                if (!opened || opened.attempt < rtcAttempt) return;
+                const r = initWebRTC(opened.attempt);
+                await r.handleSignal(opened.signal);
               } catch (e) {
                 console.error('Signal handling error', e);
               }
-            }
-          };
+            };
 
-          const subId = client.subscribe(
-            [
-              {
-                kinds: [EVENT_KIND_DATA_TRANSFER],
-                '#t': [transferId],
-                authors: [senderPubkey],
-              },
-            ],
-            processEvent,
-          );
-
-          // Fire-and-forget: Query existing events in parallel with the live subscription.
-          // This catches events published before we subscribed. Errors are logged inside.
-          void (async () => {
-            try {
-              const existingEvents = await client.query([
+            const subId = client.subscribe(
+              [
                 {
                   kinds: [EVENT_KIND_DATA_TRANSFER],
                   '#t': [transferId],
+                  '#p': [publicKey],
                   authors: [senderPubkey],
-                  limit: 50,
                 },
-              ]);
-              for (const event of existingEvents) {
-                await processEvent(event);
+              ],
+              processEvent,
+            );
+
+            // Fire-and-forget: Query existing events in parallel with the live subscription.
+            // This catches events published before we subscribed. Errors are logged inside.
+            void (async () => {
+              try {
+                const existingEvents = await client.query([
+                  {
+                    kinds: [EVENT_KIND_DATA_TRANSFER],
+                    '#t': [transferId],
+                    '#p': [publicKey],
+                    authors: [senderPubkey],
+                    limit: 50,
+                  },
+                ]);
+                for (const event of existingEvents) {
+                  await processEvent(event);
+                }
+              } catch (err) {
+                console.error('Failed to query existing events:', err);
               }
-            } catch (err) {
-              console.error('Failed to query existing events:', err);
-            }
-          })();
-        });
+            })();
+          },
+        );
 
         if (cancelledRef.current) return;
 
         // P2P transfer streamed already-decrypted chunks into the sink; this is
         // the sealed payload.
-        const contentData = transferResult;
+        const contentData = transferResult.data;
+        // A streamed download leaves nothing in the page to measure.
+        const receivedSize = streamedSink?.bytesWritten ?? contentData.size;
 
         if (cancelledRef.current) return;
 
@@ -731,23 +757,41 @@ export function useNostrReceive(): UseNostrReceiveReturn {
         // receiver.done resolved; no relay event is published post-transfer.
 
         // Set received content
-        setReceivedContent({
-          contentType: 'file',
-          data: contentData,
-          fileName: resolvedFileName,
-          fileSize: contentData.size,
-          mimeType: resolvedMimeType,
-        });
+        if (resolvedContentType === 'text') {
+          // The message is kept as a string; its payload storage can go now.
+          const text = await decodeTextMessage(contentData);
+          discardSink();
+          if (cancelledRef.current) return;
+          setReceivedContent({ contentType: 'text', text });
+        } else if (transferResult.manifest) {
+          setReceivedContent({
+            contentType: 'files',
+            name: resolvedFileName,
+            files: splitManifestPayload(contentData, transferResult.manifest),
+          });
+        } else {
+          setReceivedContent({
+            contentType: 'file',
+            data: contentData,
+            fileName: resolvedFileName,
+            fileSize: receivedSize,
+            mimeType: resolvedMimeType,
+            savedAs,
+            downloaded: streamedSink ? true : undefined,
+          });
+        }
 
         setState((prevState) => ({
           status: 'complete',
-          message: 'File received (P2P)!',
-          contentType: 'file',
+          message: RECEIVED_MESSAGES[resolvedContentType],
+          contentType: resolvedContentType,
           fileMetadata: {
             fileName: resolvedFileName,
-            fileSize: contentData.size,
+            fileSize: receivedSize,
             mimeType: resolvedMimeType,
           },
+          digest: transferResult.digest,
+          keyFingerprint,
           currentRelays: prevState.currentRelays,
           totalRelays: prevState.totalRelays,
           useWebRTC: prevState.useWebRTC,
@@ -772,8 +816,20 @@ export function useNostrReceive(): UseNostrReceiveReturn {
         }
       }
     },
-    [discardSink],
+    [discardSink, disposeExchange, askSaveLocation],
   );
 
-  return { state, receivedContent, receive, cancel, reset };
+  return {
+    state,
+    receivedContent,
+    receive,
+    cancel,
+    reset,
+    exchange,
+    sendInExchange,
+    endExchange,
+    saveLocationRequest: saveLocation.request,
+    chooseSaveLocation: saveLocation.choose,
+    keepInBrowser: saveLocation.keepInBrowser,
+  };
 }
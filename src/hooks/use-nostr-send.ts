@@ -1,83 +1,91 @@
 import type { Event } from 'nostr-tools';
 import { useCallback, useMemo, useRef, useState } from 'react';
 import {
-  computePinFingerprint,
-  computePinHintFromRoot,
-  decrypt,
-  deriveNostrSessionKeys,
-  derivePinAuthKey,
-  derivePinRendezvousKey,
-  deriveSharedSecretKey,
-  encrypt,
+  formatFingerprint,
   formatPinHint,
   generateECDHKeyPair,
   generatePin,
   generateSalt,
   generateTransferId,
-  getPinBucket,
-  importPinRoot,
   isPinBucketActive,
   MAX_MESSAGE_SIZE,
-  type NostrSessionKeys,
   PIN_ROTATION_MS,
   PIN_WAIT_TIMEOUT_MS,
+  type PinKdf,
+  preferredPinKdf,
+  publicKeyToFingerprint,
 } from '@/lib/crypto';
 import { P2PConnectionError } from '@/lib/errors';
+import {
+  createExchangeSession,
+  type ExchangeSession,
+  type ExchangeState,
+} from '@/lib/exchange-session';
 import { formatFileSize } from '@/lib/file-utils';
 import {
-  base64ToUint8Array,
-  type ClaimPayload,
-  type ConfirmPayload,
   type ContentType,
-  createHandshakeEvent,
+  createConfirmEvent,
   createNostrClient,
-  createRendezvousEvent,
-  createSignalingEvent,
-  DEFAULT_RELAYS,
+  createRendezvous,
+  createSignalEvent,
+  deriveTransferSessionKeys,
   EVENT_KIND_DATA_TRANSFER,
   generateEphemeralKeys,
-  generateHandshakeNonce,
+  getSignalingRelays,
   type NostrClient,
-  openHandshakePayload,
-  parseHandshakeEvent,
-  parseSignalingEvent,
-  type RendezvousPayload,
-  sealHandshakePayload,
+  openSignalEvent,
+  type PinGeneration,
+  type ReceiverTransfer,
   type TransferState,
   uint8ArrayToBase64,
+  type VerifiedClaim,
+  verifyClaim,
 } from '@/lib/nostr';
-import { sendFileOverDataChannel } from '@/lib/p2p-transfer';
-import type { TransferSource } from '@/lib/transfer-source';
-import { WebRTCConnection } from '@/lib/webrtc';
+import {
+  MAX_RESUME_ATTEMPTS,
+  sendFileOverDataChannel,
+  type TransferSetupOptions,
+} from '@/lib/p2p-transfer';
+import {
+  getTransferContentType,
+  type TransferSource,
+} from '@/lib/transfer-source';
+import { DEFAULT_DATA_CHANNELS, WebRTCConnection } from '@/lib/webrtc';
 import { getWebRTCConfig } from '@/lib/webrtc-config';
 
-/**
- * One rotation generation of the displayed PIN. Its absolute bucket lets the
- * sender reject it as soon as it is older than the immediately previous
- * bucket, regardless of timer delays or how many generations are retained.
- */
-interface PinGeneration {
-  authKey: CryptoKey;
-  nonce: string;
-  bucket: number;
+const SENT_MESSAGES: Record<ContentType, string> = {
+  file: 'File sent via P2P!',
+  files: 'Files sent via P2P!',
+  text: 'Message sent via P2P!',
+};
+
+/** How one receiver's transfer reports progress to the UI. */
+interface ReceiverReporter {
+  onConnecting: (message: string) => void;
+  onTransferring: () => void;
+  onRelayed: () => void;
+  onProgress: (current: number, total: number) => void;
 }
 
-/** A verified receiver claim: the transfer is locked to this peer. */
-interface VerifiedClaim {
-  receiverPubkey: string;
-  receiverEcdhPublicKey: Uint8Array;
-  payload: ClaimPayload;
-  authKey: CryptoKey;
-}
+/** A receiver's settled transfer: its payload digest, or why it failed. */
+type ReceiverOutcome = { digest: string } | { error: unknown };
 
-function decodeEcdhPublicKey(b64: string): Uint8Array | null {
-  try {
-    const bytes = base64ToUint8Array(b64);
-    if (bytes.length !== 65 || bytes[0] !== 0x04) return null;
-    return bytes;
-  } catch {
-    return null;
-  }
+/** Most receivers a single broadcast send accepts. */
+export const MAX_BROADCAST_RECEIVERS = 10;
+
+export interface NostrSendOptions extends TransferSetupOptions {
+  /**
+   * Receivers to accept, 1 to MAX_BROADCAST_RECEIVERS. Above 1 the PIN keeps
+   * rotating after the first claim and every receiver that claims it gets
+   * its own connection and transfer, until this many have claimed or the
+   * sender calls stopAccepting. Defaults to 1.
+   */
+  maxReceivers?: number;
+  /**
+   * Keep the connection open after the transfer so that both sides can send
+   * more files over it (see exchange-session.ts). Ignored for a broadcast.
+   */
+  exchange?: boolean;
 }
 
 export interface UseNostrSendReturn {
@@ -85,616 +93,856 @@ export interface UseNostrSendReturn {
   pin: string | null;
   /** Fingerprint of the currently displayed PIN, formatted for display. */
   pinFingerprint: string | null;
-  send: (content: TransferSource) => Promise<void>;
+  /**
+   * Formatted ECDH key fingerprint of the receiver a single-receiver send
+   * accepted; a broadcast lists its receivers' in state.receivers.
+   */
+  peerFingerprint: string | null;
+  send: (content: TransferSource, options?: NostrSendOptions) => Promise<void>;
   cancel: () => void;
+  /**
+   * Stop a broadcast from accepting more receivers while the transfers to
+   * the receivers it already accepted finish. No-op unless a broadcast has
+   * at least one receiver and is still accepting.
+   */
+  stopAccepting: () => void;
+  /** The KDF the current PIN was minted for, while one is shown. */
+  pinKdf: PinKdf | null;
   /**
    * Mint and publish a fresh PIN immediately, invalidating every previously
    * shown PIN, without redoing file read / key generation / relay connection.
-   * No-op unless a transfer is waiting for a receiver.
+   * Passing a KDF switches this and every later PIN of the transfer to it —
+   * 'pbkdf2' gives a compatible PIN for a receiver whose client predates
+   * Argon2id or lacks WebAssembly. No-op unless a transfer is waiting for a
+   * receiver.
    */
-  refreshPin: () => Promise<void>;
+  refreshPin: (kdf?: PinKdf) => Promise<void>;
+  /** The exchange session opened after the transfer, if the send asked for one. */
+  exchange: ExchangeState | null;
+  /** Queue a multi-file source in the open exchange session. */
+  sendInExchange: (source: TransferSource) => void;
+  /** End the exchange session; received files stay available until cancel. */
+  endExchange: () => void;
 }
 
 export function useNostrSend(): UseNostrSendReturn {
   const [state, setState] = useState<TransferState>({ status: 'idle' });
   const [pin, setPin] = useState<string | null>(null);
   const [pinFingerprint, setPinFingerprint] = useState<string | null>(null);
+  const [pinKdf, setPinKdf] = useState<PinKdf | null>(null);
+  const [peerFingerprint, setPeerFingerprint] = useState<string | null>(null);
 
   const clientRef = useRef<NostrClient | null>(null);
   const cancelledRef = useRef(false);
   const sendingRef = useRef(false);
   // Set while a transfer is waiting for a receiver; null otherwise.
-  const refreshPinRef = useRef<(() => Promise<void>) | null>(null);
+  const refreshPinRef = useRef<((kdf?: PinKdf) => Promise<void>) | null>(null);
+  // Set while a broadcast is accepting receivers; null otherwise.
+  const stopAcceptingRef = useRef<(() => void) | null>(null);
+  const [exchange, setExchange] = useState<ExchangeState | null>(null);
+  const exchangeRef = useRef<ExchangeSession | null>(null);
+
+  const refreshPin = useCallback(async (kdf?: PinKdf) => {
+    await refreshPinRef.current?.(kdf);
+  }, []);
+
+  const stopAccepting = useCallback(() => {
+    stopAcceptingRef.current?.();
+  }, []);
 
-  const refreshPin = useCallback(async () => {
-    await refreshPinRef.current?.();
+  const sendInExchange = useCallback((source: TransferSource) => {
+    if (!exchangeRef.current) {
+      throw new Error('No exchange session is open');
+    }
+    exchangeRef.current.send(source);
+  }, []);
+
+  const endExchange = useCallback(() => {
+    exchangeRef.current?.end();
   }, []);
 
   const cancel = useCallback(() => {
+    exchangeRef.current?.dispose();
+    exchangeRef.current = null;
+    setExchange(null);
     cancelledRef.current = true;
     sendingRef.current = false;
     refreshPinRef.current = null;
+    stopAcceptingRef.current = null;
     if (clientRef.current) {
       clientRef.current.close();
       clientRef.current = null;
     }
     setPin(null);
     setPinFingerprint(null);
+    setPinKdf(null);
+    setPeerFingerprint(null);
     setState({ status: 'idle' });
   }, []);
 
-  const send = useCallback(async (content: TransferSource) => {
-    // Guard against concurrent invocations
-    if (sendingRef.current) return;
-    sendingRef.current = true;
-    cancelledRef.current = false;
+  const send = useCallback(
+    async (content: TransferSource, options: NostrSendOptions = {}) => {
+      // Guard against concurrent invocations
+      if (sendingRef.current) return;
+      sendingRef.current = true;
+      cancelledRef.current = false;
+      exchangeRef.current?.dispose();
+      exchangeRef.current = null;
+      setExchange(null);
+      setPeerFingerprint(null);
+
+      // A manifest turns the payload into several files for the receiver.
+      const contentType = getTransferContentType(content);
+      const maxReceivers = Math.min(
+        Math.max(Math.floor(options.maxReceivers ?? 1), 1),
+        MAX_BROADCAST_RECEIVERS,
+      );
+      const broadcast = maxReceivers > 1;
+      const exchangeRequested = (options.exchange ?? false) && !broadcast;
 
-    const contentType: ContentType = 'file';
+      try {
+        // Validate and sanitize metadata
+        const rawFileName = content.name || '';
+        const sanitizedFileName = rawFileName.trim();
+
+        if (!sanitizedFileName) {
+          setState({ status: 'error', message: 'Missing file name' });
+          sendingRef.current = false;
+          return;
+        }
 
-    try {
-      // Validate and sanitize metadata
-      const rawFileName = content.name || '';
-      const sanitizedFileName = rawFileName.trim();
+        const fileName = sanitizedFileName;
+        const fileSize = content.size ?? content.estimatedSize;
+        const fileSizeExact = content.size !== null;
+        const mimeType = content.type || 'application/octet-stream';
+
+        if (
+          !Number.isFinite(fileSize) ||
+          fileSize < 0 ||
+          !Number.isFinite(content.estimatedSize) ||
+          content.estimatedSize < 0
+        ) {
+          setState({ status: 'error', message: 'Invalid file size' });
+          sendingRef.current = false;
+          return;
+        }
 
-      if (!sanitizedFileName) {
-        setState({ status: 'error', message: 'Missing file name' });
-        sendingRef.current = false;
-        return;
-      }
+        if (fileSizeExact && fileSize <= 0) {
+          setState({ status: 'error', message: 'File is empty' });
+          sendingRef.current = false;
+          return;
+        }
 
-      const fileName = sanitizedFileName;
-      const fileSize = content.size ?? content.estimatedSize;
-      const fileSizeExact = content.size !== null;
-      const mimeType = content.type || 'application/octet-stream';
-
-      if (
-        !Number.isFinite(fileSize) ||
-        fileSize < 0 ||
-        !Number.isFinite(content.estimatedSize) ||
-        content.estimatedSize < 0
-      ) {
-        setState({ status: 'error', message: 'Invalid file size' });
-        sendingRef.current = false;
-        return;
-      }
+        if (
+          fileSize > MAX_MESSAGE_SIZE ||
+          content.estimatedSize > MAX_MESSAGE_SIZE
+        ) {
+          setState({
+            status: 'error',
+            message: `File exceeds ${formatFileSize(MAX_MESSAGE_SIZE)} limit`,
+          });
+          sendingRef.current = false;
+          return;
+        }
 
-      if (fileSizeExact && fileSize <= 0) {
-        setState({ status: 'error', message: 'File is empty' });
-        sendingRef.current = false;
-        return;
-      }
+        // Per-transfer credentials: public salt (HKDF input for the ECDH session
+        // keys), ephemeral Nostr identity, and the ephemeral ECDH key pair whose
+        // shared secret will protect signaling and content.
+        const salt = generateSalt();
+        const { secretKey, publicKey } = generateEphemeralKeys();
+        const transferId = generateTransferId();
+
+        setState({ status: 'connecting', message: 'Preparing secure keys...' });
+        const ecdh = await generateECDHKeyPair();
+        const ecdhPublicKeyB64 = uint8ArrayToBase64(ecdh.publicKeyBytes);
+
+        if (cancelledRef.current) return;
+
+        // Create Nostr client for signaling
+        setState({ status: 'connecting', message: 'Connecting to relays...' });
+        // The configured list (plus discovered relays, if enabled), also
+        // advertised to receivers in the rendezvous payload so their
+        // signaling converges on the same relays.
+        const relays = await getSignalingRelays();
+        const client = createNostrClient(relays);
+        clientRef.current = client;
+        await client.waitForConnection();
+
+        if (cancelledRef.current) return;
 
-      if (
-        fileSize > MAX_MESSAGE_SIZE ||
-        content.estimatedSize > MAX_MESSAGE_SIZE
-      ) {
         setState({
-          status: 'error',
-          message: `File exceeds ${formatFileSize(MAX_MESSAGE_SIZE)} limit`,
+          status: 'waiting_for_receiver',
+          message: broadcast
+            ? `Waiting for receivers (0 of ${maxReceivers} connected)...`
+            : 'Waiting for receiver...',
+          contentType,
+          fileMetadata: { fileName, fileSize, mimeType },
+          useWebRTC: true,
+          currentRelays: client.getRelays(),
+          totalRelays: relays.length,
+          receivers: broadcast ? [] : undefined,
         });
-        sendingRef.current = false;
-        return;
-      }
 
-      // Per-transfer credentials: public salt (HKDF input for the ECDH session
-      // keys), ephemeral Nostr identity, and the ephemeral ECDH key pair whose
-      // shared secret will protect signaling and content.
-      const salt = generateSalt();
-      const { secretKey, publicKey } = generateEphemeralKeys();
-      const transferId = generateTransferId();
-
-      setState({ status: 'connecting', message: 'Preparing secure keys...' });
-      const ecdh = await generateECDHKeyPair();
-      const ecdhPublicKeyB64 = uint8ArrayToBase64(ecdh.publicKeyBytes);
-
-      if (cancelledRef.current) return;
-
-      // Create Nostr client for signaling
-      setState({ status: 'connecting', message: 'Connecting to relays...' });
-      const client = createNostrClient([...DEFAULT_RELAYS]);
-      clientRef.current = client;
-      await client.waitForConnection();
-
-      if (cancelledRef.current) return;
-
-      setState({
-        status: 'waiting_for_receiver',
-        message: 'Waiting for receiver...',
-        contentType,
-        fileMetadata: { fileName, fileSize, mimeType },
-        useWebRTC: true,
-        currentRelays: client.getRelays(),
-        totalRelays: DEFAULT_RELAYS.length,
-      });
-
-      // Rotate the PIN until a receiver proves knowledge of one of the
-      // retained generations, then lock the transfer to that receiver. A
-      // manual refresh bumps the epoch, so an in-flight rotation publish from
-      // before the reset can neither register its generation nor be displayed.
-      const generations: PinGeneration[] = [];
-      let pinEpoch = 0;
-
-      const publishRendezvous = async () => {
-        const epoch = pinEpoch;
-        const newPin = generatePin();
-        const root = await importPinRoot(newPin);
-        const bucket = getPinBucket();
-        const [hint, authKey, rendezvousKey, fingerprint] = await Promise.all([
-          computePinHintFromRoot(root, bucket),
-          derivePinAuthKey(root),
-          derivePinRendezvousKey(root),
-          computePinFingerprint(newPin),
-        ]);
-        const nonce = generateHandshakeNonce();
-
-        const payload: RendezvousPayload = {
-          type: 'rendezvous',
-          contentType,
-          transferId,
-          senderPubkey: publicKey,
-          ecdhPublicKey: ecdhPublicKeyB64,
-          nonce,
-          relays: [...DEFAULT_RELAYS],
-          fileName,
-          fileSize,
-          fileSizeExact,
-          mimeType,
-        };
-        const encryptedPayload = await encrypt(
-          rendezvousKey,
-          new TextEncoder().encode(JSON.stringify(payload)),
-        );
-        const event = createRendezvousEvent(
-          secretKey,
-          encryptedPayload,
-          salt,
-          transferId,
-          hint,
-          bucket,
-        );
+        // Rotate the PIN until receivers prove knowledge of one of the
+        // retained generations. A single-receiver send locks onto the first
+        // claim; a broadcast keeps accepting until maxReceivers have claimed,
+        // the sender stops it, or the wait backstop elapses. A manual refresh
+        // bumps the epoch, so an in-flight rotation publish from before the
+        // reset can neither register its generation nor be displayed.
+        const generations: PinGeneration[] = [];
+        let pinEpoch = 0;
+        let currentPinKdf = preferredPinKdf();
+
+        const publishRendezvous = async () => {
+          const epoch = pinEpoch;
+          const pinKdf = currentPinKdf;
+          const newPin = generatePin(pinKdf);
+          const { event, generation, fingerprint } = await createRendezvous(
+            newPin,
+            pinKdf,
+            secretKey,
+            salt,
+            {
+              type: 'rendezvous',
+              contentType,
+              transferId,
+              senderPubkey: publicKey,
+              ecdhPublicKey: ecdhPublicKeyB64,
+              relays,
+              fileName,
+              fileSize,
+              fileSizeExact,
+              mimeType,
+              ...(exchangeRequested && { exchange: true }),
+            },
+          );
 
-        if (cancelledRef.current || epoch !== pinEpoch) return;
+          if (cancelledRef.current || epoch !== pinEpoch) return;
 
-        // Register the generation before publishing so a fast claim can never
-        // race ahead of the retained-keys list.
-        generations.unshift({ authKey, nonce, bucket });
-        const activeGenerations = generations.filter((generation) =>
-          isPinBucketActive(generation.bucket),
-        );
-        generations.splice(0, generations.length, ...activeGenerations);
+          // Register the generation before publishing so a fast claim can never
+          // race ahead of the retained-keys list.
+          generations.unshift(generation);
+          const activeGenerations = generations.filter((generation) =>
+            isPinBucketActive(generation.bucket),
+          );
+          generations.splice(0, generations.length, ...activeGenerations);
 
-        await client.publish(event);
+          await client.publish(event);
 
-        if (!cancelledRef.current && epoch === pinEpoch) {
-          setPin(newPin);
-          setPinFingerprint(formatPinHint(fingerprint));
-        }
-      };
-
-      const claim = await new Promise<VerifiedClaim>((resolve, reject) => {
-        let settled = false;
-        let rotationInterval: ReturnType<typeof setInterval> | null = null;
-        let cancelPoll: ReturnType<typeof setInterval> | null = null;
-        let timeout: ReturnType<typeof setTimeout> | null = null;
-        let subId: string | null = null;
-
-        const cleanup = () => {
-          if (rotationInterval) clearInterval(rotationInterval);
-          if (cancelPoll) clearInterval(cancelPoll);
-          if (timeout) clearTimeout(timeout);
-          if (subId) client.unsubscribe(subId);
-          rotationInterval = null;
-          cancelPoll = null;
-          timeout = null;
-          subId = null;
-          refreshPinRef.current = null;
+          if (!cancelledRef.current && epoch === pinEpoch) {
+            setPin(newPin);
+            setPinFingerprint(formatPinHint(fingerprint));
+            setPinKdf(pinKdf);
+          }
         };
 
-        timeout = setTimeout(() => {
-          if (settled) return;
-          settled = true;
-          cleanup();
-          reject(
-            new Error('No receiver connected. Please start a new transfer.'),
+        // Confirm one verified claim, then run the P2P transfer to that
+        // receiver over its own session keys and WebRTC connection. Resolves
+        // with the payload digest once the receiver has ACKed.
+        const transferToReceiver = async (
+          claim: VerifiedClaim,
+          report: ReceiverReporter,
+        ): Promise<string> => {
+          await client.publish(
+            await createConfirmEvent(secretKey, transferId, claim),
           );
-        }, PIN_WAIT_TIMEOUT_MS);
-
-        cancelPoll = setInterval(() => {
-          if (cancelledRef.current && !settled) {
-            settled = true;
-            cleanup();
-            reject(new Error('Cancelled'));
-          }
-        }, 250);
 
-        const processedEventIds = new Set<string>();
+          // Each receiver brings its own ECDH key, so every receiver of a
+          // broadcast gets distinct session keys.
+          const sessionKeys = await deriveTransferSessionKeys(
+            ecdh.privateKey,
+            claim.receiverEcdhPublicKey,
+            salt,
+          );
 
-        subId = client.subscribe(
-          [
-            {
-              kinds: [EVENT_KIND_DATA_TRANSFER],
-              '#t': [transferId],
-              '#p': [publicKey],
-            },
-          ],
-          (event: Event) => {
-            if (settled || cancelledRef.current) return;
-            if (processedEventIds.has(event.id)) return;
-            processedEventIds.add(event.id);
-
-            const handshake = parseHandshakeEvent(event);
-            if (
-              !handshake ||
-              handshake.type !== 'claim' ||
-              handshake.transferId !== transferId
-            ) {
-              return;
-            }
+          if (cancelledRef.current) throw new Error('Cancelled');
+
+          // WebRTC Transfer Logic (P2P only — no cloud fallback). Each attempt
+          // runs fresh WebRTC signaling over the same Nostr session; once a
+          // data channel has opened, a dropped connection is retried and the
+          // transfer resumes from the chunks the receiver already holds.
+          let webRTCSuccess = false;
+          let dataChannelEverOpened = false;
+          let payloadDigest = '';
+
+          const runAttempt = (attempt: number) =>
+            new Promise<void>((resolve, reject) => {
+              let connectionTimeout: ReturnType<typeof setTimeout> | null =
+                null;
+              let offerRetryInterval: ReturnType<typeof setInterval> | null =
+                null;
+              let signalSubId: string | null = null;
+              let answerReceived = false;
+              let attemptSettled = false;
+              // The exchange session that takes over the connection after a
+              // successful transfer, when one was requested.
+              let session: ExchangeSession | null = null;
+              const processedEventIds = new Set<string>();
+
+              const processSignalEvent = async (event: Event) => {
+                if (processedEventIds.has(event.id)) return;
+                processedEventIds.add(event.id);
 
-            void (async () => {
-              // A retained key has no authority outside the sender's current
-              // and immediately previous wall-clock buckets.
-              for (const generation of generations.filter((candidate) =>
-                isPinBucketActive(candidate.bucket),
-              )) {
-                let opened: unknown;
                 try {
-                  opened = await openHandshakePayload(
-                    generation.authKey,
-                    handshake.sealedPayload,
+                  const opened = await openSignalEvent(
+                    event,
+                    transferId,
+                    sessionKeys.signals,
                   );
-                } catch {
-                  continue; // Sealed with a different PIN/generation
+                  // Answers and candidates from an earlier connection attempt
+                  // stay queryable on relays; only this attempt's apply.
+                  if (!opened || opened.attempt !== attempt) return;
+                  if (opened.signal.type === 'answer') {
+                    answerReceived = true;
+                    if (offerRetryInterval) {
+                      clearInterval(offerRetryInterval);
+                      offerRetryInterval = null;
+                    }
+                  }
+                  await rtc.handleSignal(opened.signal);
+                } catch (err) {
+                  console.error('Failed to process signaling event:', err);
                 }
+              };
 
-                const p = opened as Partial<ClaimPayload>;
-                const receiverEcdhPublicKey =
-                  typeof p.receiverEcdhPublicKey === 'string'
-                    ? decodeEcdhPublicKey(p.receiverEcdhPublicKey)
-                    : null;
+              const cleanup = () => {
+                if (connectionTimeout) {
+                  clearTimeout(connectionTimeout);
+                  connectionTimeout = null;
+                }
+                if (offerRetryInterval) {
+                  clearInterval(offerRetryInterval);
+                  offerRetryInterval = null;
+                }
+                if (signalSubId) {
+                  client.unsubscribe(signalSubId);
+                  signalSubId = null;
+                }
+              };
+
+              const rtc = new WebRTCConnection(
+                getWebRTCConfig(),
+                async (signal) => {
+                  if (cancelledRef.current) return;
+                  // Addressed to this receiver, so the other receivers of a
+                  // broadcast never see (or try to decrypt) it.
+                  const event = await createSignalEvent(
+                    secretKey,
+                    claim.receiverPubkey,
+                    transferId,
+                    sessionKeys.signals,
+                    signal,
+                    attempt,
+                  );
+                  await client.publish(event);
+                },
+                async () => {
+                  cleanup();
+                  dataChannelEverOpened = true;
+                  report.onTransferring();
+                  void rtc.isRelayed().then((relayed) => {
+                    if (relayed) report.onRelayed();
+                  });
+
+                  try {
+                    // After the data channel is open, nostr is no longer
+                    // involved: completion is the data-channel ACK awaited here.
+                    const result = await sendFileOverDataChannel(
+                      rtc,
+                      sessionKeys.content,
+                      content,
+                      {
+                        onProgress: report.onProgress,
+                        isCancelled: () => cancelledRef.current,
+                      },
+                    );
+                    payloadDigest = result.digest;
+                    webRTCSuccess = true;
+                    attemptSettled = true;
+                    if (exchangeRequested && !cancelledRef.current) {
+                      session = createExchangeSession(rtc, {
+                        exchangeKey: sessionKeys.exchange,
+                        role: 'sender',
+                        onChange: setExchange,
+                      });
+                      exchangeRef.current = session;
+                    }
+                    resolve();
+                  } catch (err) {
+                    attemptSettled = true;
+                    reject(err);
+                  } finally {
+                    // The local peer connection is scoped to this Promise and
+                    // is not reachable from the outer catch/finally, so close
+                    // it here on success, error, or cancellation to avoid
+                    // leaking it. An exchange session owns it from here on.
+                    if (!session) {
+                      try {
+                        rtc.close();
+                      } catch {
+                        // ignore
+                      }
+                    }
+                  }
+                },
+                (data) => {
+                  // Only an exchange session reads data-channel messages; the
+                  // transfer itself waits for its control messages directly.
+                  session?.onMessage(data);
+                },
+                (connectionState) => {
+                  if (
+                    connectionState === 'failed' ||
+                    connectionState === 'closed'
+                  ) {
+                    session?.connectionLost();
+                  }
+                },
+              );
 
-                // Invalid claims are ignored, never fatal: transfer tags are
-                // public, so aborting here would let anyone deny the transfer.
-                if (
-                  p.type !== 'claim' ||
-                  p.transferId !== transferId ||
-                  p.senderNonce !== generation.nonce ||
-                  typeof p.receiverNonce !== 'string' ||
-                  !p.receiverNonce ||
-                  p.senderEcdhPublicKey !== ecdhPublicKeyB64 ||
-                  !receiverEcdhPublicKey ||
-                  !isPinBucketActive(generation.bucket)
-                ) {
+              signalSubId = client.subscribe(
+                [
+                  {
+                    kinds: [EVENT_KIND_DATA_TRANSFER],
+                    '#t': [transferId],
+                    '#p': [publicKey],
+                    authors: [claim.receiverPubkey],
+                  },
+                ],
+                processSignalEvent,
+              );
+
+              const queryForExistingSignals = async () => {
+                try {
+                  const existingEvents = await client.query([
+                    {
+                      kinds: [EVENT_KIND_DATA_TRANSFER],
+                      '#t': [transferId],
+                      '#p': [publicKey],
+                      authors: [claim.receiverPubkey],
+                      limit: 50,
+                    },
+                  ]);
+                  for (const event of existingEvents) {
+                    await processSignalEvent(event);
+                  }
+                } catch (err) {
+                  console.error('Failed to query existing signal events:', err);
+                }
+              };
+
+              rtc.createDataChannel(
+                'file-transfer',
+                options.dataChannels ?? DEFAULT_DATA_CHANNELS,
+              );
+              void rtc.createOffer();
+              void queryForExistingSignals();
+
+              let retryCount = 0;
+              offerRetryInterval = setInterval(async () => {
+                if (answerReceived || attemptSettled || cancelledRef.current) {
+                  if (offerRetryInterval) {
+                    clearInterval(offerRetryInterval);
+                    offerRetryInterval = null;
+                  }
                   return;
                 }
 
-                if (settled) return;
-                settled = true;
-                cleanup();
-                resolve({
-                  receiverPubkey: event.pubkey,
-                  receiverEcdhPublicKey,
-                  payload: p as ClaimPayload,
-                  authKey: generation.authKey,
-                });
-                return;
-              }
-            })();
-          },
-        );
+                retryCount++;
+                console.log(
+                  `Retrying WebRTC offer (attempt ${retryCount + 1})...`,
+                );
+                await queryForExistingSignals();
+                if (!answerReceived && !attemptSettled) {
+                  void rtc.createOffer();
+                }
+              }, 5000);
 
-        const scheduleRotation = () => {
-          if (rotationInterval) clearInterval(rotationInterval);
-          rotationInterval = setInterval(() => {
-            if (settled || cancelledRef.current) return;
-            void publishRendezvous().catch((err) => {
-              console.error('Failed to publish rendezvous rotation:', err);
+              connectionTimeout = setTimeout(() => {
+                if (!attemptSettled) {
+                  attemptSettled = true;
+                  cleanup();
+                  rtc.close();
+                  reject(new P2PConnectionError('WebRTC connection timeout'));
+                }
+              }, 30000);
             });
-          }, PIN_ROTATION_MS);
-        };
 
-        // On-demand PIN reset: drop every retained generation so previously
-        // shown PINs stop authenticating, restart the rotation cadence, and
-        // publish a fresh rendezvous — reusing the transfer's file bytes,
-        // keys, and relay connections.
-        let refreshInFlight = false;
-        refreshPinRef.current = async () => {
-          if (settled || cancelledRef.current || refreshInFlight) return;
-          refreshInFlight = true;
           try {
-            pinEpoch += 1;
-            generations.length = 0;
-            scheduleRotation();
-            await publishRendezvous();
-          } catch (err) {
-            console.error('Failed to publish refreshed PIN:', err);
-          } finally {
-            refreshInFlight = false;
-          }
-        };
-
-        // First PIN generation, then rotate.
-        void publishRendezvous().catch((err) => {
-          if (settled) return;
-          settled = true;
-          cleanup();
-          reject(err instanceof Error ? err : new Error('Publish failed'));
-        });
-        scheduleRotation();
-      });
-
-      if (cancelledRef.current) return;
-
-      // First-claim lockout: rotation has stopped, retained generations are
-      // dropped with this scope, and only this receiver's events are processed
-      // from here on. The PIN is no longer needed for display.
-      setPin(null);
-      setPinFingerprint(null);
-
-      // Mutual proof: confirm under the same PIN-derived auth key that sealed
-      // the claim, echoing both nonces and the receiver key we locked onto.
-      const confirmPayload: ConfirmPayload = {
-        type: 'confirm',
-        transferId,
-        senderNonce: claim.payload.senderNonce,
-        receiverNonce: claim.payload.receiverNonce,
-        receiverEcdhPublicKey: claim.payload.receiverEcdhPublicKey,
-      };
-      const confirmEvent = createHandshakeEvent(
-        secretKey,
-        claim.receiverPubkey,
-        transferId,
-        'confirm',
-        await sealHandshakePayload(claim.authKey, confirmPayload),
-      );
-      await client.publish(confirmEvent);
-
-      // Session keys come from the ephemeral ECDH exchange the PIN just
-      // authenticated — the PIN derives no content or signaling keys.
-      const sharedSecret = await deriveSharedSecretKey(
-        ecdh.privateKey,
-        claim.receiverEcdhPublicKey,
-      );
-      const sessionKeys: NostrSessionKeys = await deriveNostrSessionKeys(
-        sharedSecret,
-        salt,
-      );
-
-      if (cancelledRef.current) return;
-
-      // WebRTC Transfer Logic (P2P only — no cloud fallback)
-      let webRTCSuccess = false;
-
-      try {
-        setState((prevState) => ({
-          ...prevState,
-          status: 'connecting',
-          message: 'Attempting P2P connection...',
-        }));
-
-        await new Promise<void>((resolve, reject) => {
-          let connectionTimeout: ReturnType<typeof setTimeout> | null = null;
-          let offerRetryInterval: ReturnType<typeof setInterval> | null = null;
-          let signalSubId: string | null = null;
-          let answerReceived = false;
-          const processedEventIds = new Set<string>();
-
-          const processSignalEvent = async (event: Event) => {
-            if (processedEventIds.has(event.id)) return;
-            processedEventIds.add(event.id);
+            report.onConnecting('Attempting P2P connection...');
 
-            const signalData = parseSignalingEvent(event);
-            if (signalData && signalData.transferId === transferId) {
+            for (let attempt = 0; !webRTCSuccess; attempt++) {
               try {
-                const decrypted = await decrypt(
-                  sessionKeys.signals,
-                  signalData.encryptedSignal,
-                );
-                const signalPayload = JSON.parse(
-                  new TextDecoder().decode(decrypted),
-                );
-                if (signalPayload.type === 'signal' && signalPayload.signal) {
-                  if (signalPayload.signal.type === 'answer') {
-                    answerReceived = true;
-                    if (offerRetryInterval) {
-                      clearInterval(offerRetryInterval);
-                      offerRetryInterval = null;
-                    }
-                  }
-                  await rtc.handleSignal(signalPayload.signal);
-                }
+                await runAttempt(attempt);
               } catch (err) {
-                console.error('Failed to process signaling event:', err);
+                // Only a connection that already carried data is worth
+                // resuming; an initial failure surfaces at once so the UI can
+                // suggest the offline-QR fallback.
+                if (
+                  cancelledRef.current ||
+                  !dataChannelEverOpened ||
+                  !(err instanceof P2PConnectionError) ||
+                  attempt >= MAX_RESUME_ATTEMPTS
+                ) {
+                  throw err;
+                }
+                report.onConnecting(
+                  `Connection lost. Reconnecting to resume (attempt ${attempt + 1} of ${MAX_RESUME_ATTEMPTS})...`,
+                );
               }
             }
-          };
+          } catch (err) {
+            const message = `P2P transfer failed: ${err instanceof Error ? err.message : 'Unknown error'}`;
+            // Preserve the connection-failure distinction so the UI can suggest
+            // the offline-QR fallback only when P2P could not be established.
+            throw err instanceof P2PConnectionError
+              ? new P2PConnectionError(message)
+              : new Error(message);
+          }
 
-          const cleanup = () => {
-            if (connectionTimeout) {
-              clearTimeout(connectionTimeout);
-              connectionTimeout = null;
+          return payloadDigest;
+        };
+
+        // A single-receiver send reports straight into the transfer state; a
+        // broadcast reports into the receiver's row of the receiver list.
+        const updateReceiver = (id: string, patch: Partial<ReceiverTransfer>) =>
+          setState((prevState) => ({
+            ...prevState,
+            receivers: prevState.receivers?.map((receiver) =>
+              receiver.id === id ? { ...receiver, ...patch } : receiver,
+            ),
+          }));
+
+        const reporterFor = (id: string): ReceiverReporter =>
+          broadcast
+            ? {
+                onConnecting: (message) =>
+                  updateReceiver(id, { status: 'connecting', message }),
+                onTransferring: () =>
+                  updateReceiver(id, {
+                    status: 'transferring',
+                    message: 'Sending via P2P...',
+                  }),
+                onRelayed: () => updateReceiver(id, { relayed: true }),
+                onProgress: (current, total) =>
+                  updateReceiver(id, { progress: { current, total } }),
+              }
+            : {
+                onConnecting: (message) =>
+                  setState((prevState) => ({
+                    ...prevState,
+                    status: 'connecting',
+                    message,
+                  })),
+                onTransferring: () =>
+                  setState((prevState) => ({
+                    ...prevState,
+                    status: 'transferring',
+                    message: 'Sending via P2P...',
+                    progress: prevState.progress ?? {
+                      current: 0,
+                      total: fileSize,
+                    },
+                    useWebRTC: true,
+                  })),
+                onRelayed: () =>
+                  setState((prevState) => ({ ...prevState, relayed: true })),
+                onProgress: (current, total) =>
+                  setState((s) => ({
+                    ...s,
+                    progress: { current, total },
+                  })),
+              };
+
+        // Each accepted receiver's transfer, settled so a failure while still
+        // accepting claims is never an unhandled rejection.
+        const acceptedReceivers = new Set<string>();
+        const outcomes: Promise<ReceiverOutcome>[] = [];
+
+        const acceptReceiver = (claim: VerifiedClaim) => {
+          acceptedReceivers.add(claim.receiverPubkey);
+          const id = claim.receiverPubkey;
+          const outcome = (async () => {
+            const fingerprint = formatFingerprint(
+              await publicKeyToFingerprint(claim.receiverEcdhPublicKey),
+            );
+            if (broadcast) {
+              setState((prevState) => {
+                const receivers = [
+                  ...(prevState.receivers ?? []),
+                  { id, fingerprint, status: 'connecting' as const },
+                ];
+                return {
+                  ...prevState,
+                  ...(prevState.status === 'waiting_for_receiver' && {
+                    message: `Waiting for receivers (${receivers.length} of ${maxReceivers} connected)...`,
+                  }),
+                  receivers,
+                };
+              });
+            } else {
+              setPeerFingerprint(fingerprint);
             }
-            if (offerRetryInterval) {
-              clearInterval(offerRetryInterval);
-              offerRetryInterval = null;
+            const digest = await transferToReceiver(claim, reporterFor(id));
+            if (broadcast) {
+              updateReceiver(id, { status: 'complete', message: 'Sent' });
             }
-            if (signalSubId) {
-              client.unsubscribe(signalSubId);
-              signalSubId = null;
+            return { digest };
+          })().catch((error: unknown): ReceiverOutcome => {
+            if (broadcast && !cancelledRef.current) {
+              updateReceiver(id, {
+                status: 'error',
+                message: error instanceof Error ? error.message : 'Failed',
+              });
             }
+            return { error };
+          });
+          outcomes.push(outcome);
+        };
+
+        await new Promise<void>((resolve, reject) => {
+          let settled = false;
+          let rotationInterval: ReturnType<typeof setInterval> | null = null;
+          let cancelPoll: ReturnType<typeof setInterval> | null = null;
+          let timeout: ReturnType<typeof setTimeout> | null = null;
+          let subId: string | null = null;
+
+          const cleanup = () => {
+            if (rotationInterval) clearInterval(rotationInterval);
+            if (cancelPoll) clearInterval(cancelPoll);
+            if (timeout) clearTimeout(timeout);
+            if (subId) client.unsubscribe(subId);
+            rotationInterval = null;
+            cancelPoll = null;
+            timeout = null;
+            subId = null;
+            refreshPinRef.current = null;
+            stopAcceptingRef.current = null;
           };
 
-          const rtc = new WebRTCConnection(
-            getWebRTCConfig(),
-            async (signal) => {
-              if (cancelledRef.current) return;
-              const signalPayload = { type: 'signal', signal };
-              const signalJson = JSON.stringify(signalPayload);
-              const encryptedSignal = await encrypt(
-                sessionKeys.signals,
-                new TextEncoder().encode(signalJson),
-              );
-              const event = createSignalingEvent(
-                secretKey,
-                publicKey,
-                transferId,
-                encryptedSignal,
-              );
-              await client.publish(event);
-            },
-            async () => {
+          // Stop accepting claims: rotation stops and the retained generations
+          // are dropped with this scope.
+          const finishAccepting = () => {
+            if (settled) return;
+            settled = true;
+            cleanup();
+            resolve();
+          };
+
+          timeout = setTimeout(() => {
+            if (settled) return;
+            if (outcomes.length > 0) {
+              finishAccepting();
+              return;
+            }
+            settled = true;
+            cleanup();
+            reject(
+              new Error('No receiver connected. Please start a new transfer.'),
+            );
+          }, PIN_WAIT_TIMEOUT_MS);
+
+          cancelPoll = setInterval(() => {
+            if (cancelledRef.current && !settled) {
+              settled = true;
               cleanup();
+              reject(new Error('Cancelled'));
+            }
+          }, 250);
 
-              setState((prevState) => ({
-                status: 'transferring',
-                message: 'Sending via P2P...',
-                progress: { current: 0, total: fileSize },
-                contentType,
-                fileMetadata: { fileName, fileSize, mimeType },
-                currentRelays: prevState.currentRelays,
-                totalRelays: prevState.totalRelays,
-                useWebRTC: true,
-              }));
+          // Stopping a broadcast early keeps the receivers it already has.
+          stopAcceptingRef.current = () => {
+            if (outcomes.length > 0) finishAccepting();
+          };
 
-              try {
-                // After the data channel is open, nostr is no longer involved:
-                // completion is the data-channel ACK awaited here.
-                await sendFileOverDataChannel(
-                  rtc,
-                  sessionKeys.content,
-                  content,
-                  {
-                    onProgress: (current, total) =>
-                      setState((s) => ({
-                        ...s,
-                        progress: { current, total },
-                      })),
-                    isCancelled: () => cancelledRef.current,
-                  },
-                );
-                webRTCSuccess = true;
-                resolve();
-              } catch (err) {
-                reject(err);
-              } finally {
-                // The local peer connection is scoped to this Promise and is
-                // not reachable from the outer catch/finally, so close it here
-                // on success, error, or cancellation to avoid leaking it.
-                try {
-                  rtc.close();
-                } catch {
-                  // ignore
-                }
-              }
-            },
-            () => {
-              // Data-channel messages are not used by the auto-mode sender.
-            },
-          );
+          const processedEventIds = new Set<string>();
 
-          signalSubId = client.subscribe(
+          subId = client.subscribe(
             [
               {
                 kinds: [EVENT_KIND_DATA_TRANSFER],
                 '#t': [transferId],
                 '#p': [publicKey],
-                authors: [claim.receiverPubkey],
               },
             ],
-            processSignalEvent,
+            (event: Event) => {
+              if (settled || cancelledRef.current) return;
+              if (processedEventIds.has(event.id)) return;
+              processedEventIds.add(event.id);
+              // A receiver that re-publishes its claim is already served.
+              if (acceptedReceivers.has(event.pubkey)) return;
+
+              void (async () => {
+                const claim = await verifyClaim(
+                  event,
+                  transferId,
+                  generations,
+                  ecdhPublicKeyB64,
+                );
+                if (!claim) return;
+                if (settled || acceptedReceivers.has(event.pubkey)) return;
+                acceptReceiver(claim);
+                if (acceptedReceivers.size >= maxReceivers) finishAccepting();
+              })();
+            },
           );
 
-          const queryForExistingSignals = async () => {
+          const scheduleRotation = () => {
+            if (rotationInterval) clearInterval(rotationInterval);
+            rotationInterval = setInterval(() => {
+              if (settled || cancelledRef.current) return;
+              void publishRendezvous().catch((err) => {
+                console.error('Failed to publish rendezvous rotation:', err);
+              });
+            }, PIN_ROTATION_MS);
+          };
+
+          // On-demand PIN reset: drop every retained generation so previously
+          // shown PINs stop authenticating, restart the rotation cadence, and
+          // publish a fresh rendezvous — reusing the transfer's file bytes,
+          // keys, and relay connections.
+          let refreshInFlight = false;
+          refreshPinRef.current = async (kdf) => {
+            if (settled || cancelledRef.current || refreshInFlight) return;
+            refreshInFlight = true;
             try {
-              const existingEvents = await client.query([
-                {
-                  kinds: [EVENT_KIND_DATA_TRANSFER],
-                  '#t': [transferId],
-                  '#p': [publicKey],
-                  authors: [claim.receiverPubkey],
-                  limit: 50,
-                },
-              ]);
-              for (const event of existingEvents) {
-                await processSignalEvent(event);
-              }
+              if (kdf) currentPinKdf = kdf;
+              pinEpoch += 1;
+              generations.length = 0;
+              scheduleRotation();
+              await publishRendezvous();
             } catch (err) {
-              console.error('Failed to query existing signal events:', err);
+              console.error('Failed to publish refreshed PIN:', err);
+            } finally {
+              refreshInFlight = false;
             }
           };
 
-          rtc.createDataChannel('file-transfer');
-          void rtc.createOffer();
-          void queryForExistingSignals();
-
-          let retryCount = 0;
-          offerRetryInterval = setInterval(async () => {
-            if (answerReceived || webRTCSuccess || cancelledRef.current) {
-              if (offerRetryInterval) {
-                clearInterval(offerRetryInterval);
-                offerRetryInterval = null;
-              }
-              return;
-            }
-
-            retryCount++;
-            console.log(`Retrying WebRTC offer (attempt ${retryCount + 1})...`);
-            await queryForExistingSignals();
-            if (!answerReceived && !webRTCSuccess) {
-              void rtc.createOffer();
-            }
-          }, 5000);
-
-          connectionTimeout = setTimeout(() => {
-            if (!webRTCSuccess) {
-              cleanup();
-              rtc.close();
-              reject(new P2PConnectionError('WebRTC connection timeout'));
-            }
-          }, 30000);
+          // First PIN generation, then rotate.
+          void publishRendezvous().catch((err) => {
+            if (settled) return;
+            settled = true;
+            cleanup();
+            reject(err instanceof Error ? err : new Error('Publish failed'));
+          });
+          scheduleRotation();
         });
-      } catch (err) {
-        const message = `P2P transfer failed: ${err instanceof Error ? err.message : 'Unknown error'}`;
-        // Preserve the connection-failure distinction so the UI can suggest
-        // the offline-QR fallback only when P2P could not be established.
-        throw err instanceof P2PConnectionError
-          ? new P2PConnectionError(message)
-          : new Error(message);
-      }
 
-      // Completion is confirmed by the data-channel ACK (awaited inside
-      // sendFileOverDataChannel). Nostr is not involved past signaling.
-      setState((prevState) => ({
-        status: 'complete',
-        message: 'File sent via P2P!',
-        contentType,
-        currentRelays: prevState.currentRelays,
-        totalRelays: prevState.totalRelays,
-        useWebRTC: prevState.useWebRTC,
-      }));
-    } catch (error) {
-      if (!cancelledRef.current) {
+        if (cancelledRef.current) return;
+
+        // Claim lockout: rotation has stopped, retained generations are
+        // dropped, and only the accepted receivers' events are processed from
+        // here on. The PIN is no longer needed for display.
+        pinEpoch += 1;
         setPin(null);
         setPinFingerprint(null);
+        setPinKdf(null);
+
+        if (!broadcast) {
+          const [outcome] = await Promise.all(outcomes);
+          if ('error' in outcome) throw outcome.error;
+
+          // Completion is confirmed by the data-channel ACK (awaited inside
+          // sendFileOverDataChannel). Nostr is not involved past signaling.
+          setState((prevState) => ({
+            status: 'complete',
+            message: SENT_MESSAGES[contentType],
+            contentType,
+            digest: outcome.digest,
+            currentRelays: prevState.currentRelays,
+            totalRelays: prevState.totalRelays,
+            useWebRTC: prevState.useWebRTC,
+          }));
+          return;
+        }
+
         setState((prevState) => ({
           ...prevState,
-          status: 'error',
-          message: error instanceof Error ? error.message : 'Failed to send',
-          connectionFailed: error instanceof P2PConnectionError,
+          status: 'transferring',
+          message: `Sending to ${outcomes.length} receiver${outcomes.length === 1 ? '' : 's'}...`,
+          useWebRTC: true,
         }));
+        const results = await Promise.all(outcomes);
+        if (cancelledRef.current) return;
+
+        const delivered = results.filter(
+          (result): result is { digest: string } => 'digest' in result,
+        );
+        if (delivered.length === 0) {
+          // Every receiver failed: surface it like a single-receiver failure.
+          const failures = results.map(
+            (result) => (result as { error: unknown }).error,
+          );
+          const message = `Transfer failed for ${failures.length === 1 ? 'the receiver' : `all ${failures.length} receivers`}`;
+          throw failures.every((error) => error instanceof P2PConnectionError)
+            ? new P2PConnectionError(message)
+            : new Error(message);
+        }
+        setState((prevState) => ({
+          status: 'complete',
+          message:
+            delivered.length === results.length
+              ? `${SENT_MESSAGES[contentType]} (${delivered.length} receiver${delivered.length === 1 ? '' : 's'})`
+              : `Sent to ${delivered.length} of ${results.length} receivers`,
+          contentType,
+          digest: delivered[0].digest,
+          receivers: prevState.receivers,
+          currentRelays: prevState.currentRelays,
+          totalRelays: prevState.totalRelays,
+          useWebRTC: prevState.useWebRTC,
+        }));
+      } catch (error) {
+        if (!cancelledRef.current) {
+          setPin(null);
+          setPinFingerprint(null);
+          setPinKdf(null);
+          setState((prevState) => ({
+            ...prevState,
+            status: 'error',
+            message: error instanceof Error ? error.message : 'Failed to send',
+            connectionFailed: error instanceof P2PConnectionError,
+          }));
+        }
+      } finally {
+        sendingRef.current = false;
+        if (clientRef.current) {
+          clientRef.current.close();
+          clientRef.current = null;
+        }
       }
-    } finally {
-      sendingRef.current = false;
-      if (clientRef.current) {
-        clientRef.current.close();
-        clientRef.current = null;
-      }
-    }
-  }, []);
+    },
+    [],
+  );
 
   // Memoize return object to prevent unnecessary re-renders in consumers
   return useMemo(
-    () => ({ state, pin, pinFingerprint, send, cancel, refreshPin }),
-    [state, pin, pinFingerprint, send, cancel, refreshPin],
+    () => ({
+      state,
+      pin,
+      pinFingerprint,
+      pinKdf,
+      peerFingerprint,
+      send,
+      cancel,
+      stopAccepting,
+      refreshPin,
+      exchange,
+      sendInExchange,
+      endExchange,
+    }),
+    [
+      state,
+      pin,
+      pinFingerprint,
+      pinKdf,
+      peerFingerprint,
+      send,
+      cancel,
+      stopAccepting,
+      refreshPin,
+      exchange,
+      sendInExchange,
+      endExchange,
+    ],
   );
 }
@@ -0,0 +1,78 @@
+import { useCallback, useRef, useState } from 'react';
+import { MEMORY_SINK_MAX_BYTES } from '@/lib/crypto';
+import { pickSaveFile, supportsFileSave } from '@/lib/file-utils';
+import type { ContentType } from '@/lib/nostr';
+
+/** The file a receive flow is waiting to place, shown to the receiver. */
+export interface SaveLocationRequest {
+  fileName: string;
+  fileSize: number;
+}
+
+/**
+ * Whether to ask where to save a payload before receiving it. Only single
+ * files over the in-memory threshold qualify: smaller ones never touch disk,
+ * and multi-file transfers are saved into a folder afterwards.
+ */
+export function shouldAskSaveLocation(
+  contentType: ContentType,
+  fileSize: number,
+): boolean {
+  return (
+    supportsFileSave &&
+    contentType === 'file' &&
+    fileSize > MEMORY_SINK_MAX_BYTES
+  );
+}
+
+/**
+ * Pause a receive flow until the receiver decides where a large file goes.
+ * The picker needs a user gesture, so the flow awaits `ask()` while the page
+ * shows `request` with buttons calling `choose` or `keepInBrowser`.
+ */
+export function useSaveLocation() {
+  const [request, setRequest] = useState<SaveLocationRequest | null>(null);
+  const resolveRef = useRef<
+    ((handle: FileSystemFileHandle | null) => void) | null
+  >(null);
+
+  const settle = useCallback((handle: FileSystemFileHandle | null) => {
+    const resolve = resolveRef.current;
+    resolveRef.current = null;
+    setRequest(null);
+    resolve?.(handle);
+  }, []);
+
+  /**
+   * Wait for the receiver's choice. Resolves with the picked file, or null
+   * to receive into browser storage as usual.
+   */
+  const ask = useCallback(
+    (next: SaveLocationRequest) =>
+      new Promise<FileSystemFileHandle | null>((resolve) => {
+        resolveRef.current?.(null);
+        resolveRef.current = resolve;
+        setRequest(next);
+      }),
+    [],
+  );
+
+  /** Open the save picker; a dismissed picker leaves the question open. */
+  const choose = useCallback(async () => {
+    if (!request) return;
+    try {
+      const handle = await pickSaveFile(request.fileName);
+      if (handle) settle(handle);
+    } catch (err) {
+      console.error(
+        'Save picker failed, keeping the file in the browser:',
+        err,
+      );
+      settle(null);
+    }
+  }, [request, settle]);
+
+  const keepInBrowser = useCallback(() => settle(null), [settle]);
+
+  return { request, ask, choose, keepInBrowser };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  deflateChunk,
+  inflateChunk,
+  isCompressibleMimeType,
+} from './chunk-compression';
+
+describe('isCompressibleMimeType', () => {
+  it('compresses text and generic binary payloads', () => {
+    expect(isCompressibleMimeType('text/plain; charset=utf-8')).toBe(true);
+    expect(isCompressibleMimeType('application/json')).toBe(true);
+    expect(isCompressibleMimeType('application/octet-stream')).toBe(true);
+    expect(isCompressibleMimeType('image/svg+xml')).toBe(true);
+  });
+
+  it('skips already-compressed formats', () => {
+    expect(isCompressibleMimeType('image/jpeg')).toBe(false);
+    expect(isCompressibleMimeType('video/mp4')).toBe(false);
+    expect(isCompressibleMimeType('Application/ZIP')).toBe(false);
+    expect(
+      isCompressibleMimeType(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('chunk deflate', () => {
+  it('round-trips a compressible chunk', () => {
+    const chunk = new TextEncoder().encode('secure-send '.repeat(1000));
+    const deflated = deflateChunk(chunk);
+    expect(deflated).not.toBeNull();
+    expect(deflated!.length).toBeLessThan(chunk.length);
+    expect(inflateChunk(deflated!, chunk.length)).toEqual(chunk);
+  });
+
+  it('returns null for a chunk that does not shrink', () => {
+    const chunk = crypto.getRandomValues(new Uint8Array(4096));
+    expect(deflateChunk(chunk)).toBeNull();
+  });
+
+  it('rejects a chunk that inflates past the limit', () => {
+    const chunk = new Uint8Array(2048);
+    const deflated = deflateChunk(chunk)!;
+    expect(() => inflateChunk(deflated, 1024)).toThrow();
+  });
+
+  it('rejects data that is not DEFLATE', () => {
+    expect(() => inflateChunk(new Uint8Array([1, 2, 3, 4]), 1024)).toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { deflateSync, inflateSync } from 'fflate';
+
+/**
+ * Optional per-chunk compression for the data-channel transfer protocol.
+ *
+ * Each plaintext chunk is encoded with a codec before `encryptChunk`, and the
+ * codec byte travels (authenticated) in the chunk header. A receiver names the
+ * codecs it can decode in its HAVE message; the sender only uses one the
+ * receiver advertised, and only when the payload is worth compressing.
+ */
+
+/** Chunk codec byte: the plaintext as read from the source. */
+export const CHUNK_CODEC_RAW = 0;
+/** Chunk codec byte: raw DEFLATE (RFC 1951) of the plaintext. */
+export const CHUNK_CODEC_DEFLATE = 1;
+
+/** Codec name a receiver advertises in HAVE when it can inflate chunks. */
+export const DEFLATE_CODEC_NAME = 'deflate';
+
+/**
+ * MIME types whose content is already compressed. Deflating them again only
+ * costs CPU, so the sender skips compression for these payloads.
+ */
+const COMPRESSED_MIME_TYPES = new Set([
+  'application/epub+zip',
+  'application/gzip',
+  'application/java-archive',
+  'application/pdf',
+  'application/vnd.android.package-archive',
+  'application/vnd.rar',
+  'application/x-7z-compressed',
+  'application/x-apple-diskimage',
+  'application/x-bzip2',
+  'application/x-gzip',
+  'application/x-rar-compressed',
+  'application/x-xz',
+  'application/x-zip-compressed',
+  'application/zip',
+  'application/zstd',
+  'font/woff',
+  'font/woff2',
+]);
+
+/** Compressed-container families (Office Open XML, OpenDocument). */
+const COMPRESSED_MIME_PREFIXES = [
+  'application/vnd.openxmlformats-officedocument.',
+  'application/vnd.oasis.opendocument.',
+];
+
+/** Uncompressed formats inside otherwise compressed media families. */
+const UNCOMPRESSED_MEDIA_TYPES = new Set([
+  'audio/wav',
+  'audio/x-wav',
+  'image/bmp',
+  'image/svg+xml',
+  'image/tiff',
+  'image/x-icon',
+]);
+
+/**
+ * Whether a payload of this MIME type is worth deflating. Images, audio and
+ * video are assumed compressed unless listed as raw formats; an unknown or
+ * generic type is tried, and chunks that do not shrink are sent raw anyway.
+ */
+export function isCompressibleMimeType(mimeType: string): boolean {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  if (UNCOMPRESSED_MEDIA_TYPES.has(type)) return true;
+  if (
+    type.startsWith('image/') ||
+    type.startsWith('audio/') ||
+    type.startsWith('video/')
+  ) {
+    return false;
+  }
+  if (COMPRESSED_MIME_TYPES.has(type)) return false;
+  return !COMPRESSED_MIME_PREFIXES.some((prefix) => type.startsWith(prefix));
+}
+
+/**
+ * Deflate one plaintext chunk. Returns null when the result is not smaller,
+ * in which case the chunk is sent raw.
+ */
+export function deflateChunk(chunk: Uint8Array): Uint8Array | null {
+  const deflated = deflateSync(chunk);
+  return deflated.length < chunk.length ? deflated : null;
+}
+
+/**
+ * Inflate one chunk without letting it expand past `maxLength` bytes, so a
+ * hostile chunk cannot balloon memory. Throws if the data is not valid
+ * DEFLATE or inflates to more than `maxLength`.
+ */
+export function inflateChunk(data: Uint8Array, maxLength: number): Uint8Array {
+  // One spare byte distinguishes "exactly maxLength" from "truncated".
+  const inflated = inflateSync(data, { out: new Uint8Array(maxLength + 1) });
+  if (inflated.length > maxLength) {
+    throw new Error('Compressed chunk inflates past the chunk size');
+  }
+  return inflated;
+}
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { statsReport } from '../test/rtc-stats';
+import {
+  buildDiagnosticsReport,
+  type ConnectionDiagnostics,
+  DIAGNOSTICS_SAMPLE_INTERVAL_MS,
+  diagnoseConnection,
+  getTrackedConnections,
+  summarizeStats,
+  throughputSeries,
+  trackConnection,
+} from './connection-diagnostics';
+
+const candidates = [
+  {
+    id: 'L1',
+    type: 'local-candidate',
+    candidateType: 'host',
+    protocol: 'udp',
+    address: '3f1c-1.local',
+    port: 50000,
+  },
+  {
+    id: 'L2',
+    type: 'local-candidate',
+    candidateType: 'srflx',
+    protocol: 'udp',
+    address: '203.0.113.7',
+    port: 50001,
+    url: 'stun:stun.example.com:3478',
+  },
+  {
+    id: 'R1',
+    type: 'remote-candidate',
+    candidateType: 'host',
+    address: '9a2b.local',
+    port: 60000,
+  },
+];
+
+function diagnostics(
+  entries: Record<string, unknown>[],
+  iceServers = ['stun:stun.example.com:3478'],
+): ConnectionDiagnostics {
+  return {
+    id: 1,
+    startedAt: 0,
+    iceServers,
+    iceTransportPolicy: 'all',
+    hostCandidatesOnly: false,
+    connectionState: 'failed',
+    iceConnectionState: 'failed',
+    iceGatheringState: 'complete',
+    summary: summarizeStats(statsReport(entries)),
+    samples: [],
+  };
+}
+
+describe('summarizeStats', () => {
+  it('lists candidates and reads the selected pair', () => {
+    const summary = summarizeStats(
+      statsReport([
+        ...candidates,
+        {
+          id: 'P1',
+          type: 'candidate-pair',
+          localCandidateId: 'L2',
+          remoteCandidateId: 'R1',
+          state: 'succeeded',
+          nominated: true,
+          currentRoundTripTime: 0.0234,
+          bytesSent: 1000,
+          bytesReceived: 200,
+        },
+        { id: 'T', type: 'transport', selectedCandidatePairId: 'P1' },
+      ]),
+    );
+    expect(summary.localCandidates.map((c) => [c.type, c.mdns])).toEqual([
+      ['host', true],
+      ['srflx', false],
+    ]);
+    expect(summary.remoteCandidates).toHaveLength(1);
+    expect(summary.selectedPair).toEqual({
+      localType: 'srflx',
+      remoteType: 'host',
+      rttMs: 23,
+      bytesSent: 1000,
+      bytesReceived: 200,
+    });
+  });
+});
+
+describe('throughputSeries', () => {
+  it('turns byte counters into a rate per second', () => {
+    expect(
+      throughputSeries([
+        { at: 0, bytesSent: 0, bytesReceived: 0 },
+        { at: 1000, bytesSent: 4000, bytesReceived: 1000 },
+        { at: 3000, bytesSent: 8000, bytesReceived: 1000 },
+      ]),
+    ).toEqual([
+      { at: 1000, bytesPerSecond: 5000 },
+      { at: 3000, bytesPerSecond: 2000 },
+    ]);
+  });
+});
+
+describe('diagnoseConnection', () => {
+  it('points at unanswered STUN, mDNS-only peers and failed checks', () => {
+    const hints = diagnoseConnection(
+      diagnostics([
+        candidates[0],
+        candidates[2],
+        {
+          id: 'P1',
+          type: 'candidate-pair',
+          localCandidateId: 'L1',
+          remoteCandidateId: 'R1',
+          state: 'failed',
+        },
+      ]),
+    );
+    expect(hints.join('\n')).toMatch(/No STUN or TURN server answered/);
+    expect(hints.join('\n')).toMatch(/mDNS/);
+    expect(hints.join('\n')).toMatch(/Every candidate pair failed/);
+  });
+
+  it('reports a silent peer and has nothing to say once connected', () => {
+    expect(diagnoseConnection(diagnostics(candidates.slice(0, 2)))).toEqual([
+      'No candidates arrived from the other device, so there was nothing to try.',
+    ]);
+    expect(
+      diagnoseConnection(
+        diagnostics([
+          ...candidates,
+          {
+            id: 'P1',
+            type: 'candidate-pair',
+            localCandidateId: 'L1',
+            remoteCandidateId: 'R1',
+            state: 'succeeded',
+            selected: true,
+          },
+        ]),
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('trackConnection', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('samples an open connection and never records credentials', async () => {
+    let bytesSent = 0;
+    const pc = Object.assign(new EventTarget(), {
+      connectionState: 'connected',
+      iceConnectionState: 'connected',
+      iceGatheringState: 'complete',
+      getStats: async () =>
+        statsReport([
+          ...candidates,
+          {
+            id: 'P1',
+            type: 'candidate-pair',
+            localCandidateId: 'L1',
+            remoteCandidateId: 'R1',
+            state: 'succeeded',
+            bytesSent,
+            bytesReceived: 0,
+          },
+          { id: 'T', type: 'transport', selectedCandidatePairId: 'P1' },
+        ]),
+    }) as unknown as RTCPeerConnection;
+
+    const stop = trackConnection(pc, {
+      iceServers: [
+        { urls: 'turn:turn.example.com', username: 'u', credential: 'pw' },
+      ],
+    });
+    bytesSent = 1000;
+    await vi.advanceTimersByTimeAsync(DIAGNOSTICS_SAMPLE_INTERVAL_MS);
+    bytesSent = 3000;
+    await vi.advanceTimersByTimeAsync(DIAGNOSTICS_SAMPLE_INTERVAL_MS);
+    stop();
+    await vi.advanceTimersByTimeAsync(DIAGNOSTICS_SAMPLE_INTERVAL_MS * 3);
+
+    const [entry] = getTrackedConnections();
+    expect(entry.connectionState).toBe('closed');
+    expect(entry.samples.map((s) => s.bytesSent)).toEqual([1000, 3000]);
+    expect(entry.summary?.selectedPair?.localType).toBe('host');
+
+    const report = JSON.stringify(buildDiagnosticsReport(entry, '1.2.3'));
+    expect(report).toContain('turn:turn.example.com');
+    expect(report).not.toContain('pw');
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Connection diagnostics: what ICE tried and what the data channel achieved.
+ *
+ * Every WebRTCConnection registers its peer connection here. While it is
+ * open, `getStats()` is sampled once a second into a summary (candidates by
+ * type, the selected pair, round-trip time and byte counters), so the last
+ * picture survives a failed or closed connection. The most recent connections
+ * are kept in a small in-memory store that the diagnostics panel subscribes
+ * to; nothing is persisted or sent anywhere unless the user exports a report.
+ */
+
+import type { WebRTCConfig } from './webrtc-config';
+
+/** How often an open connection's stats are sampled. */
+export const DIAGNOSTICS_SAMPLE_INTERVAL_MS = 1000;
+/** Samples kept per connection (5 minutes at one per second). */
+export const MAX_DIAGNOSTICS_SAMPLES = 300;
+/** Connections kept in the store, most recent first. */
+export const MAX_TRACKED_CONNECTIONS = 5;
+
+export interface CandidateSummary {
+  id: string;
+  // host, srflx, prflx or relay
+  type: string;
+  protocol?: string;
+  address?: string;
+  port?: number;
+  // A host address hidden behind a random `.local` mDNS name by the browser.
+  mdns: boolean;
+  // The STUN/TURN server that produced a srflx or relay candidate.
+  url?: string;
+}
+
+export interface CandidatePairSummary {
+  localCandidateId: string;
+  remoteCandidateId: string;
+  state: string;
+  nominated: boolean;
+}
+
+export interface SelectedPairSummary {
+  localType: string;
+  remoteType: string;
+  rttMs?: number;
+  bytesSent: number;
+  bytesReceived: number;
+}
+
+/** One `getStats()` result, reduced to what the panel and report show. */
+export interface StatsSummary {
+  localCandidates: CandidateSummary[];
+  remoteCandidates: CandidateSummary[];
+  pairs: CandidatePairSummary[];
+  selectedPair: SelectedPairSummary | null;
+}
+
+export interface StatsSample {
+  at: number;
+  bytesSent: number;
+  bytesReceived: number;
+  rttMs?: number;
+}
+
+export interface ConnectionDiagnostics {
+  id: number;
+  startedAt: number;
+  iceServers: string[];
+  iceTransportPolicy: RTCIceTransportPolicy;
+  hostCandidatesOnly: boolean;
+  connectionState: RTCPeerConnectionState;
+  iceConnectionState: RTCIceConnectionState;
+  iceGatheringState: RTCIceGatheringState;
+  summary: StatsSummary | null;
+  samples: StatsSample[];
+}
+
+// lib.dom has no type for candidate stats; these are the fields read here.
+// `ip` is the older name for `address`.
+interface CandidateStats extends RTCStats {
+  candidateType?: string;
+  protocol?: string;
+  address?: string;
+  ip?: string;
+  port?: number;
+  url?: string;
+}
+
+// Firefox flags the selected pair itself instead of reporting transport stats.
+interface CandidatePairStats extends RTCIceCandidatePairStats {
+  selected?: boolean;
+}
+
+function statsOfType<T extends RTCStats>(
+  stats: RTCStatsReport,
+  type: RTCStatsType,
+): T[] {
+  const reports: T[] = [];
+  stats.forEach((report: RTCStats) => {
+    if (report.type === type) reports.push(report as T);
+  });
+  return reports;
+}
+
+/**
+ * The candidate pair the ICE agent is using: the transport's selected pair,
+ * or on Firefox (no transport stats) the pair flagged as selected.
+ */
+export function findSelectedCandidatePair(
+  stats: RTCStatsReport,
+): RTCIceCandidatePairStats | undefined {
+  for (const transport of statsOfType<RTCTransportStats>(stats, 'transport')) {
+    if (transport.selectedCandidatePairId) {
+      const pair: RTCIceCandidatePairStats | undefined = stats.get(
+        transport.selectedCandidatePairId,
+      );
+      if (pair) return pair;
+    }
+  }
+  return statsOfType<CandidatePairStats>(stats, 'candidate-pair').find(
+    (pair) => pair.selected || (pair.nominated && pair.state === 'succeeded'),
+  );
+}
+
+/** The `candidateType` (host, srflx, prflx or relay) of a candidate by id. */
+export function candidateTypeOf(
+  stats: RTCStatsReport,
+  id: string,
+): string | undefined {
+  const candidate: CandidateStats | undefined = stats.get(id);
+  return candidate?.candidateType;
+}
+
+function summarizeCandidate(report: CandidateStats): CandidateSummary {
+  const address = report.address ?? report.ip;
+  return {
+    id: report.id,
+    type: report.candidateType ?? 'unknown',
+    protocol: report.protocol,
+    address,
+    port: report.port,
+    mdns: address?.endsWith('.local') ?? false,
+    url: report.url,
+  };
+}
+
+/** Reduce a `getStats()` report to candidates, pairs and the selected pair. */
+export function summarizeStats(stats: RTCStatsReport): StatsSummary {
+  const summary: StatsSummary = {
+    localCandidates: statsOfType<CandidateStats>(stats, 'local-candidate').map(
+      summarizeCandidate,
+    ),
+    remoteCandidates: statsOfType<CandidateStats>(
+      stats,
+      'remote-candidate',
+    ).map(summarizeCandidate),
+    pairs: statsOfType<RTCIceCandidatePairStats>(stats, 'candidate-pair').map(
+      (pair) => ({
+        localCandidateId: pair.localCandidateId,
+        remoteCandidateId: pair.remoteCandidateId,
+        state: pair.state,
+        nominated: pair.nominated === true,
+      }),
+    ),
+    selectedPair: null,
+  };
+
+  const pair = findSelectedCandidatePair(stats);
+  if (pair) {
+    summary.selectedPair = {
+      localType: candidateTypeOf(stats, pair.localCandidateId) ?? 'unknown',
+      remoteType: candidateTypeOf(stats, pair.remoteCandidateId) ?? 'unknown',
+      rttMs:
+        typeof pair.currentRoundTripTime === 'number'
+          ? Math.round(pair.currentRoundTripTime * 1000)
+          : undefined,
+      bytesSent: pair.bytesSent ?? 0,
+      bytesReceived: pair.bytesReceived ?? 0,
+    };
+  }
+  return summary;
+}
+
+/**
+ * Bytes per second between consecutive samples, both directions combined,
+ * timed at the later sample.
+ */
+export function throughputSeries(
+  samples: readonly StatsSample[],
+): { at: number; bytesPerSecond: number }[] {
+  const series: { at: number; bytesPerSecond: number }[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const elapsed = (samples[i].at - samples[i - 1].at) / 1000;
+    if (elapsed <= 0) continue;
+    const bytes =
+      samples[i].bytesSent +
+      samples[i].bytesReceived -
+      samples[i - 1].bytesSent -
+      samples[i - 1].bytesReceived;
+    series.push({
+      at: samples[i].at,
+      bytesPerSecond: Math.max(0, bytes / elapsed),
+    });
+  }
+  return series;
+}
+
+/**
+ * Plain-language hints about why a connection did not form, from what ICE
+ * gathered and tried. Empty while the connection is still being set up and
+ * once a pair has been selected.
+ */
+export function diagnoseConnection(
+  diagnostics: ConnectionDiagnostics,
+): string[] {
+  const { summary, connectionState } = diagnostics;
+  if (connectionState !== 'failed' && connectionState !== 'closed') return [];
+  if (!summary) return ['No connection statistics were collected.'];
+  if (summary.selectedPair) return [];
+
+  const hints: string[] = [];
+  const localTypes = new Set(summary.localCandidates.map((c) => c.type));
+  const remote = summary.remoteCandidates;
+
+  if (summary.localCandidates.length === 0) {
+    hints.push(
+      'This device gathered no network candidates. Check that it is online and that the browser may use WebRTC.',
+    );
+  } else if (
+    diagnostics.iceServers.length > 0 &&
+    !localTypes.has('srflx') &&
+    !localTypes.has('relay')
+  ) {
+    hints.push(
+      'No STUN or TURN server answered, so this device only knows its local addresses. A firewall may be blocking UDP to the servers.',
+    );
+  }
+  if (remote.length === 0) {
+    hints.push(
+      'No candidates arrived from the other device, so there was nothing to try.',
+    );
+  } else if (remote.every((c) => c.mdns)) {
+    hints.push(
+      "The other device only offered mDNS (.local) addresses, which resolve on the same local network only. Across networks it needs a STUN server's answer.",
+    );
+  }
+  if (
+    summary.pairs.length > 0 &&
+    summary.pairs.every((p) => p.state === 'failed')
+  ) {
+    hints.push(
+      'Every candidate pair failed its connectivity check: NAT or firewall rules block each route. A TURN server would relay around them.',
+    );
+  }
+  return hints;
+}
+
+/** The JSON a user exports for support. Credentials are never included. */
+export function buildDiagnosticsReport(
+  diagnostics: ConnectionDiagnostics,
+  appVersion: string,
+) {
+  return {
+    app: 'secure-send',
+    version: appVersion,
+    exportedAt: new Date().toISOString(),
+    userAgent: typeof navigator === 'undefined' ? null : navigator.userAgent,
+    connection: {
+      startedAt: new Date(diagnostics.startedAt).toISOString(),
+      iceServers: diagnostics.iceServers,
+      iceTransportPolicy: diagnostics.iceTransportPolicy,
+      hostCandidatesOnly: diagnostics.hostCandidatesOnly,
+      connectionState: diagnostics.connectionState,
+      iceConnectionState: diagnostics.iceConnectionState,
+      iceGatheringState: diagnostics.iceGatheringState,
+    },
+    summary: diagnostics.summary,
+    samples: diagnostics.samples,
+    hints: diagnoseConnection(diagnostics),
+  };
+}
+
+let tracked: ConnectionDiagnostics[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+/** Recently tracked connections, most recent first. */
+export function getTrackedConnections(): readonly ConnectionDiagnostics[] {
+  return tracked;
+}
+
+/** Subscribe to changes of the tracked connections; returns unsubscribe. */
+export function subscribeConnectionDiagnostics(
+  listener: () => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function update(id: number, patch: Partial<ConnectionDiagnostics>) {
+  tracked = tracked.map((entry) =>
+    entry.id === id ? { ...entry, ...patch } : entry,
+  );
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Start sampling `pc` into the store. Sampling stops when the returned
+ * function is called or the connection closes; the entry itself stays until
+ * newer connections push it out.
+ */
+export function trackConnection(
+  pc: RTCPeerConnection,
+  config: WebRTCConfig,
+): () => void {
+  const id = nextId++;
+  tracked = [
+    {
+      id,
+      startedAt: Date.now(),
+      // URLs only: TURN credentials must never reach a report.
+      iceServers: (config.iceServers ?? []).flatMap((server) => server.urls),
+      iceTransportPolicy: config.iceTransportPolicy ?? 'all',
+      hostCandidatesOnly: config.hostCandidatesOnly ?? false,
+      connectionState: pc.connectionState,
+      iceConnectionState: pc.iceConnectionState,
+      iceGatheringState: pc.iceGatheringState,
+      summary: null,
+      samples: [],
+    },
+    ...tracked,
+  ].slice(0, MAX_TRACKED_CONNECTIONS);
+  for (const listener of listeners) listener();
+
+  let stopped = false;
+  const sample = async () => {
+    if (stopped || pc.connectionState === 'closed') return;
+    let stats: RTCStatsReport;
+    try {
+      stats = await pc.getStats();
+    } catch {
+      return;
+    }
+    if (stopped) return;
+    const summary = summarizeStats(stats);
+    const entry = tracked.find((e) => e.id === id);
+    if (!entry) return;
+    const samples = summary.selectedPair
+      ? [
+          ...entry.samples,
+          {
+            at: Date.now(),
+            bytesSent: summary.selectedPair.bytesSent,
+            bytesReceived: summary.selectedPair.bytesReceived,
+            rttMs: summary.selectedPair.rttMs,
+          },
+        ].slice(-MAX_DIAGNOSTICS_SAMPLES)
+      : entry.samples;
+    update(id, {
+      connectionState: pc.connectionState,
+      iceConnectionState: pc.iceConnectionState,
+      iceGatheringState: pc.iceGatheringState,
+      summary,
+      samples,
+    });
+  };
+
+  const interval = setInterval(
+    () => void sample(),
+    DIAGNOSTICS_SAMPLE_INTERVAL_MS,
+  );
+  // Catch the failure moment while the connection can still report stats.
+  const onStateChange = () => void sample();
+  pc.addEventListener('connectionstatechange', onStateChange);
+  pc.addEventListener('icegatheringstatechange', onStateChange);
+
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(interval);
+    pc.removeEventListener('connectionstatechange', onStateChange);
+    pc.removeEventListener('icegatheringstatechange', onStateChange);
+    update(id, { connectionState: 'closed' });
+  };
+}
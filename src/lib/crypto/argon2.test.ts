@@ -0,0 +1,25 @@
+import { argon2id } from '@noble/hashes/argon2.js';
+import { describe, expect, it } from 'vitest';
+import { computeArgon2id, deriveArgon2id } from './argon2';
+
+const encoder = new TextEncoder();
+const small = { memoryKib: 64, iterations: 2, parallelism: 1, hashLength: 32 };
+
+describe('Argon2id', () => {
+  it('matches an independent implementation', async () => {
+    const password = encoder.encode('ABCDE0123Y');
+    const salt = encoder.encode('secure-send:pin-root:v3');
+    const wasm = await computeArgon2id(password, salt, small);
+    expect(wasm).toEqual(
+      argon2id(password, salt, { t: 2, m: 64, p: 1, dkLen: 32 }),
+    );
+  });
+
+  it('derives inline without workers and leaves the password intact', async () => {
+    const password = encoder.encode('ABCDE0123Y');
+    const salt = encoder.encode('secure-send:pin-root:v3');
+    const derived = await deriveArgon2id(password, salt, small);
+    expect(derived).toEqual(await computeArgon2id(password, salt, small));
+    expect(new TextDecoder().decode(password)).toBe('ABCDE0123Y');
+  });
+});
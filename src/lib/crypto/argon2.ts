@@ -0,0 +1,119 @@
+/**
+ * Argon2id via hash-wasm's WebAssembly build.
+ *
+ * In the browser each derivation runs in its own short-lived worker, so the
+ * hashing stays off the main thread and its 64 MiB is released as soon as the
+ * worker exits. Where workers are unavailable (Node, tests) or the worker
+ * fails to start, the same WASM runs inline.
+ */
+
+import { argon2id } from 'hash-wasm';
+import {
+  ARGON2ID_ITERATIONS,
+  ARGON2ID_MEMORY_KIB,
+  ARGON2ID_PARALLELISM,
+} from './constants';
+import { wipeBufferSource } from './memory';
+
+export interface Argon2idParams {
+  memoryKib: number;
+  iterations: number;
+  parallelism: number;
+  /** Output length in bytes. */
+  hashLength: number;
+}
+
+/** Parameters of the Argon2id PIN root (see importPinRoot). */
+export const PIN_ROOT_ARGON2ID_PARAMS: Argon2idParams = {
+  memoryKib: ARGON2ID_MEMORY_KIB,
+  iterations: ARGON2ID_ITERATIONS,
+  parallelism: ARGON2ID_PARALLELISM,
+  hashLength: 32,
+};
+
+/** Whether this runtime can run the WASM Argon2id at all. */
+export function argon2idSupported(): boolean {
+  return typeof WebAssembly === 'object';
+}
+
+/** Run Argon2id on the current thread. */
+export async function computeArgon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2idParams,
+): Promise<Uint8Array<ArrayBuffer>> {
+  // hash-wasm returns a fresh copy of the WASM output, never a shared view.
+  return (await argon2id({
+    password,
+    salt,
+    memorySize: params.memoryKib,
+    iterations: params.iterations,
+    parallelism: params.parallelism,
+    hashLength: params.hashLength,
+    outputType: 'binary',
+  })) as Uint8Array<ArrayBuffer>;
+}
+
+function computeInWorker(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2idParams,
+): Promise<Uint8Array<ArrayBuffer>> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL('../../workers/argon2.worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    worker.onmessage = (e: MessageEvent) => {
+      worker.terminate();
+      const data = e.data as {
+        type?: unknown;
+        hash?: unknown;
+        error?: unknown;
+      };
+      if (data.type === 'success' && data.hash instanceof Uint8Array) {
+        resolve(data.hash as Uint8Array<ArrayBuffer>);
+      } else {
+        reject(
+          new Error(
+            typeof data.error === 'string' ? data.error : 'Argon2id failed',
+          ),
+        );
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Argon2id worker failed to start'));
+    };
+    // The worker gets its own copy of the password, which it wipes; the
+    // caller keeps (and wipes) the original.
+    const passwordCopy = password.slice();
+    worker.postMessage({ password: passwordCopy, salt, params }, [
+      passwordCopy.buffer,
+    ]);
+  });
+}
+
+/**
+ * Derive Argon2id output, in a worker when the runtime has them. The caller
+ * owns `password` and is responsible for wiping it.
+ */
+export async function deriveArgon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2idParams = PIN_ROOT_ARGON2ID_PARAMS,
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof Worker !== 'undefined') {
+    try {
+      return await computeInWorker(password, salt, params);
+    } catch (err) {
+      console.warn('Argon2id worker unavailable, hashing inline', err);
+    }
+  }
+  const copy = password.slice();
+  try {
+    return await computeArgon2id(copy, salt, params);
+  } finally {
+    wipeBufferSource(copy);
+  }
+}
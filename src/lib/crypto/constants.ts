@@ -22,8 +22,35 @@ export const PIN_TTL_MS = PIN_ROTATION_MS * PIN_ACTIVE_BUCKETS;
 // rule: derive the current bucket and the immediately previous bucket.
 export const PIN_HINT_LOOKBACK_BUCKETS = PIN_ACTIVE_BUCKETS - 1;
 
+// PIN-root KDF. New PINs are stretched with Argon2id (memory-hard, run as WASM
+// in a worker); PBKDF2 remains the fallback, for PINs minted by clients that
+// predate Argon2id and by senders asked for a compatible PIN. The PIN itself
+// says which KDF it uses, so both sides derive the same root without a round
+// trip: a PIN whose checksum is the original one is PBKDF2, whatever its
+// characters, and an Argon2id PIN's checksum is shifted by
+// PIN_ARGON2ID_CHECKSUM_OFFSET, so a client that predates Argon2id rejects it
+// as mistyped instead of silently deriving hints that never match.
+export type PinKdf = 'argon2id' | 'pbkdf2';
+
+// Odd, so an adjacent transposition (which shifts the weighted sum by an even
+// amount) never turns one KDF's PIN into the other's. A single substitution
+// can: for each position exactly one replacement character lands on the other
+// KDF's checksum, which the receiver then reports as no transfer found.
+export const PIN_ARGON2ID_CHECKSUM_OFFSET = 19;
+
+// Argon2id parameters for the PIN root: 64 MiB, 3 passes, one lane. Each guess
+// costs an attacker the memory as well as the time, unlike PBKDF2, which
+// parallelizes cheaply on GPUs.
+export const ARGON2ID_MEMORY_KIB = 64 * 1024;
+export const ARGON2ID_ITERATIONS = 3;
+export const ARGON2ID_PARALLELISM = 1;
+
+// Salt for the Argon2id PIN root. Versioned separately from PIN_ROOT_SALT so
+// the two KDFs can never be confused for one another.
+export const PIN_ROOT_SALT_ARGON2ID = 'secure-send:pin-root:v3';
+
 // PBKDF2 parameters for the PIN root derivation (browser-native alternative to
-// a memory-hard KDF). The PIN no longer derives any content-encryption keys —
+// a memory-hard KDF, used for PBKDF2 PINs). The PIN no longer derives any content-encryption keys —
 // those come from an ephemeral ECDH exchange — so the KDF only has to make
 // brute-forcing a captured rendezvous record slow relative to the ~PIN_TTL_MS
 // window in which a recovered PIN is useful (before the first claim locks the
@@ -36,6 +63,11 @@ export const PBKDF2_HASH = 'SHA-256';
 // the same root from the same PIN.
 export const PIN_ROOT_SALT = 'secure-send:pin-root:v2';
 
+// Domain-separation prefix for the Manual Exchange passphrase stretch (same
+// PBKDF2 parameters as the PIN root). Each sealed session adds its own random
+// salt after it, so one passphrase never yields the same key twice.
+export const MANUAL_PASSPHRASE_SALT = 'secure-send:manual-passphrase:v1';
+
 // HKDF salt shared by every derivation off the PIN root; each purpose is
 // domain-separated by its HKDF info label ('hint:<bucket>', 'auth',
 // 'rendezvous') so no two purposes ever share a key.
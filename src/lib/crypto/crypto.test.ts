@@ -190,6 +190,25 @@ describe('Stream Crypto', () => {
     ).rejects.toThrow();
   });
 
+  it('should authenticate the chunk codec byte', async () => {
+    const key = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+    const chunkData = new Uint8Array([9, 8, 7]);
+    const encryptedChunk = await encryptChunk(key, chunkData, 7, 1);
+    const parsed = parseChunkMessage(encryptedChunk);
+    expect(parsed.codec).toBe(1);
+
+    await expect(
+      decryptChunk(key, parsed.encryptedData, parsed.chunkIndex, 0),
+    ).rejects.toThrow();
+    expect(
+      await decryptChunk(key, parsed.encryptedData, parsed.chunkIndex, 1),
+    ).toEqual(chunkData);
+  });
+
   it('should calculate overhead correctly', () => {
     const overhead = calculateEncryptionOverhead(10);
     expect(overhead).toBe(10 * ENCRYPTED_CHUNK_OVERHEAD);
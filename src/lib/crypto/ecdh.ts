@@ -6,8 +6,8 @@ import { AES_KEY_LENGTH } from './constants';
  * SECURITY: Keys are generated as non-extractable to prevent exfiltration.
  * Public keys can still be exported even when non-extractable.
  *
- * ECDH by itself does not authenticate the peer. Manual mode relies on the
- * user-controlled QR/clipboard exchange path for authenticity.
+ * ECDH by itself does not authenticate the peer. Manual mode has both users
+ * compare verification symbols derived from the shared secret (see sas.ts).
  */
 
 /**
@@ -1,7 +1,10 @@
 export * from './aes-gcm';
+export * from './argon2';
 export * from './constants';
 export * from './ecdh';
 export * from './kdf';
 export * from './memory';
+export * from './passphrase';
 export * from './pin';
+export * from './sas';
 export * from './stream-crypto';
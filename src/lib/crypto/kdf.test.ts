@@ -1,7 +1,11 @@
 import { describe, expect, it } from 'vitest';
 import { decrypt, encrypt } from './aes-gcm';
 import { deriveSharedSecretKey, generateECDHKeyPair } from './ecdh';
-import { deriveNostrSessionKeys, generateSalt } from './kdf';
+import {
+  deriveExchangeItemKey,
+  deriveNostrSessionKeys,
+  generateSalt,
+} from './kdf';
 
 describe('Nostr session KDF', () => {
   it('derives non-extractable session keys that are not interchangeable', async () => {
@@ -26,6 +30,34 @@ describe('Nostr session KDF', () => {
     await expect(decrypt(keys.content, encrypted)).rejects.toThrow();
   });
 
+  it('gives every exchange item its own key', async () => {
+    const alice = await generateECDHKeyPair();
+    const bob = await generateECDHKeyPair();
+    const keys = await deriveNostrSessionKeys(
+      await deriveSharedSecretKey(alice.privateKey, bob.publicKeyBytes),
+      generateSalt(),
+    );
+    expect(keys.exchange.extractable).toBe(false);
+
+    const item = await deriveExchangeItemKey(keys.exchange, 'reply', 1);
+    const plaintext = new TextEncoder().encode('reply chunk');
+    const encrypted = await encrypt(item, plaintext);
+
+    await expect(
+      decrypt(
+        await deriveExchangeItemKey(keys.exchange, 'reply', 1),
+        encrypted,
+      ),
+    ).resolves.toEqual(plaintext);
+    for (const other of [
+      await deriveExchangeItemKey(keys.exchange, 'reply', 0),
+      await deriveExchangeItemKey(keys.exchange, 'content', 1),
+      keys.content,
+    ]) {
+      await expect(decrypt(other, encrypted)).rejects.toThrow();
+    }
+  });
+
   it('both ECDH peers derive the same session keys', async () => {
     const alice = await generateECDHKeyPair();
     const bob = await generateECDHKeyPair();
@@ -1,4 +1,5 @@
 import { AES_KEY_LENGTH, SALT_LENGTH } from './constants';
+import { wipeBufferSource } from './memory';
 
 /**
  * Session keys for Auto Exchange (Nostr) mode, derived from the ephemeral ECDH
@@ -8,15 +9,27 @@ import { AES_KEY_LENGTH, SALT_LENGTH } from './constants';
 export interface NostrSessionKeys {
   /** Encrypts relay-carried WebRTC signaling (offer/answer/candidates). */
   signals: CryptoKey;
-  /** Encrypts P2P file content chunks on the data channel. */
+  /** Encrypts the first transfer's P2P content, sender to receiver. */
   content: CryptoKey;
+  /**
+   * Non-extractable HKDF key an exchange session derives each item's content
+   * key from (deriveExchangeItemKey), so no two items, in either direction,
+   * share a key or nonce space.
+   */
+  exchange: CryptoKey;
 }
 
+/** Which way an exchange item travels: sender to receiver, or back. */
+export type ExchangeDirection = 'content' | 'reply';
+
 const SESSION_KEY_LABELS = {
   signals: 'secure-send:nostr-session:v2:signals',
   content: 'secure-send:nostr-session:v2:content',
+  exchange: 'secure-send:nostr-session:v2:exchange',
 } as const satisfies Record<keyof NostrSessionKeys, string>;
 
+const EXCHANGE_ITEM_KEY_LABEL = 'secure-send:exchange-item:v1';
+
 async function deriveSessionKey(
   sharedSecretKey: CryptoKey,
   salt: Uint8Array,
@@ -43,22 +56,75 @@ async function deriveSessionKey(
   );
 }
 
+async function deriveExchangeKey(
+  sharedSecretKey: CryptoKey,
+  salt: Uint8Array,
+): Promise<CryptoKey> {
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: salt as BufferSource,
+        info: new TextEncoder().encode(SESSION_KEY_LABELS.exchange),
+      },
+      sharedSecretKey,
+      256,
+    ),
+  );
+  try {
+    return await crypto.subtle.importKey('raw', bits, 'HKDF', false, [
+      'deriveKey',
+    ]);
+  } finally {
+    wipeBufferSource(bits);
+  }
+}
+
 /**
  * Derive the Auto Exchange session keys from the non-extractable HKDF key
  * returned by deriveSharedSecretKey (ecdh.ts) and the public per-transfer salt.
- * Distinct HKDF info labels guarantee signaling and content never reuse the
- * same AES-GCM key.
+ * Distinct HKDF info labels guarantee that signaling, the first transfer and
+ * the exchange items never reuse the same AES-GCM key.
  */
 export async function deriveNostrSessionKeys(
   sharedSecretKey: CryptoKey,
   salt: Uint8Array,
 ): Promise<NostrSessionKeys> {
-  const [signals, content] = await Promise.all([
+  const [signals, content, exchange] = await Promise.all([
     deriveSessionKey(sharedSecretKey, salt, SESSION_KEY_LABELS.signals),
     deriveSessionKey(sharedSecretKey, salt, SESSION_KEY_LABELS.content),
+    deriveExchangeKey(sharedSecretKey, salt),
   ]);
 
-  return { signals, content };
+  return { signals, content, exchange };
+}
+
+/**
+ * The AES-GCM content key of the `sequence`th exchange item sent in
+ * `direction`. Chunk indices and DONE restart for every item, so binding the
+ * direction and sequence number into the key keeps a chunk or DONE of one
+ * item from authenticating in any other.
+ */
+export async function deriveExchangeItemKey(
+  exchangeKey: CryptoKey,
+  direction: ExchangeDirection,
+  sequence: number,
+): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode(
+        `${EXCHANGE_ITEM_KEY_LABEL}:${direction}:${sequence}`,
+      ),
+    },
+    exchangeKey,
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    false,
+    ['encrypt', 'decrypt'],
+  );
 }
 
 /**
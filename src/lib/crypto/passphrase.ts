@@ -0,0 +1,132 @@
+/**
+ * Passphrase sealing for Manual Exchange payloads.
+ *
+ * An optional passphrase, agreed between the users out of band, is stretched
+ * with the PIN root's PBKDF2 parameters into an AES-256-GCM key. Sealed offers
+ * and answers are then unreadable to anyone who only sees the QR/clipboard
+ * payload, and because the ECDH public keys travel inside the sealed body, a
+ * relay of the codes that lacks the passphrase cannot substitute its own.
+ *
+ * The strength of both properties is the strength of the passphrase: a
+ * captured payload can be attacked offline at the PBKDF2 cost per guess.
+ */
+
+import { ValidationError } from '../errors';
+import {
+  AES_NONCE_LENGTH,
+  AES_TAG_LENGTH,
+  MANUAL_PASSPHRASE_SALT,
+  SALT_LENGTH,
+} from './constants';
+import { generateSalt } from './kdf';
+import { wipeBufferSource } from './memory';
+import { stretchPbkdf2 } from './pin';
+
+/** A stretched passphrase and the per-session salt it was stretched with. */
+export interface PassphraseSeal {
+  key: CryptoKey;
+  salt: Uint8Array;
+}
+
+/**
+ * Canonical form of a typed passphrase: Unicode NFC with surrounding
+ * whitespace removed, so the same words typed on two keyboards match.
+ */
+export function normalizePassphrase(passphrase: string): string {
+  return passphrase.normalize('NFC').trim();
+}
+
+/**
+ * Stretch a passphrase into a non-extractable AES-GCM key. The sender passes
+ * no salt and gets a fresh one; the receiver passes the salt from the sealed
+ * payload. Throws a ValidationError for an empty passphrase.
+ */
+export async function derivePassphraseSeal(
+  passphrase: string,
+  salt: Uint8Array = generateSalt(),
+): Promise<PassphraseSeal> {
+  const normalized = normalizePassphrase(passphrase);
+  if (!normalized) throw new ValidationError('Passphrase is empty');
+  if (salt.length !== SALT_LENGTH) {
+    throw new ValidationError(`Passphrase salt must be ${SALT_LENGTH} bytes`);
+  }
+
+  const encoder = new TextEncoder();
+  const secret = encoder.encode(normalized);
+  const prefix = encoder.encode(MANUAL_PASSPHRASE_SALT);
+  const pbkdf2Salt = new Uint8Array(prefix.length + salt.length);
+  pbkdf2Salt.set(prefix, 0);
+  pbkdf2Salt.set(salt, prefix.length);
+
+  let keyBits: Uint8Array<ArrayBuffer>;
+  try {
+    keyBits = await stretchPbkdf2(secret, pbkdf2Salt);
+  } finally {
+    wipeBufferSource(secret);
+  }
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      keyBits,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+    return { key, salt: salt.slice() };
+  } finally {
+    wipeBufferSource(keyBits);
+  }
+}
+
+/**
+ * Seal `plaintext` under the passphrase key. `header` is authenticated but
+ * not encrypted. Returns nonce || ciphertext || tag.
+ */
+export async function sealWithPassphrase(
+  seal: PassphraseSeal,
+  plaintext: Uint8Array,
+  header: Uint8Array,
+): Promise<Uint8Array> {
+  const nonce = new Uint8Array(AES_NONCE_LENGTH);
+  crypto.getRandomValues(nonce);
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: nonce,
+      additionalData: header as BufferSource,
+    },
+    seal.key,
+    plaintext as BufferSource,
+  );
+  const result = new Uint8Array(nonce.length + ciphertext.byteLength);
+  result.set(nonce, 0);
+  result.set(new Uint8Array(ciphertext), nonce.length);
+  return result;
+}
+
+/**
+ * Open a sealWithPassphrase() result. Returns null when the passphrase is
+ * wrong or the sealed bytes or header were altered.
+ */
+export async function openWithPassphrase(
+  seal: PassphraseSeal,
+  sealed: Uint8Array,
+  header: Uint8Array,
+): Promise<Uint8Array | null> {
+  if (sealed.length < AES_NONCE_LENGTH + AES_TAG_LENGTH) return null;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: sealed.slice(0, AES_NONCE_LENGTH),
+        additionalData: header as BufferSource,
+      },
+      seal.key,
+      sealed.slice(AES_NONCE_LENGTH),
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    return null;
+  }
+}
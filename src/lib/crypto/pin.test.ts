@@ -1,9 +1,11 @@
 import { describe, expect, test } from 'vitest';
 import {
+  PIN_ARGON2ID_CHECKSUM_OFFSET,
   PIN_CHARSET,
   PIN_FINGERPRINT_LENGTH,
   PIN_HINT_LENGTH,
   PIN_LENGTH,
+  type PinKdf,
 } from './constants';
 import {
   computePinFingerprint,
@@ -13,6 +15,7 @@ import {
   formatPin,
   generatePin,
   getPinBucket,
+  getPinKdf,
   importPinRoot,
   isPinBucketActive,
   isValidPin,
@@ -42,12 +45,87 @@ describe('PIN Utilities', () => {
     // Deterministic example: distinct adjacent data chars whose alphabet
     // positions do not differ by 16 (the only undetected distance).
     const data = '012345678';
-    const pin = data + computeChecksumForTest(data);
+    const pin = pinForTest(data);
     expect(isValidPin(pin)).toBe(true);
     const swapped = `10${pin.slice(2)}`;
     expect(isValidPin(swapped)).toBe(false);
   });
 
+  test('the checksum names the PIN-root KDF', () => {
+    const argon = generatePin();
+    const legacy = generatePin('pbkdf2');
+    expect(getPinKdf(argon)).toBe('argon2id');
+    expect(getPinKdf(legacy)).toBe('pbkdf2');
+    expect(isValidPin(legacy)).toBe(true);
+
+    // Same data characters, the other KDF's checksum.
+    const data = '012345678';
+    expect(getPinKdf(pinForTest(data))).toBe('pbkdf2');
+    expect(getPinKdf(pinForTest(data, 'argon2id'))).toBe('argon2id');
+    expect(getPinKdf('01234567')).toBeNull();
+  });
+
+  test('a PBKDF2-era PIN reads as PBKDF2 whatever its first character', () => {
+    // PINs minted before Argon2id carry only the original checksum.
+    for (const first of PIN_CHARSET) {
+      expect(getPinKdf(pinForTest(`${first}12345678`))).toBe('pbkdf2');
+    }
+  });
+
+  test('an Argon2id PIN fails the original checksum', () => {
+    // A client that predates Argon2id only knows the original checksum, so it
+    // rejects the PIN at entry instead of deriving the wrong root.
+    for (let sample = 0; sample < 20; sample++) {
+      const pin = generatePin();
+      expect(pinForTest(pin.slice(0, -1))).not.toBe(pin);
+    }
+  });
+
+  test('each KDF accepts exactly one checksum character', () => {
+    const data = generatePin().slice(0, -1);
+    const accepted = [...PIN_CHARSET].filter((char) => isValidPin(data + char));
+    expect(accepted.map((char) => getPinKdf(data + char)).sort()).toEqual([
+      'argon2id',
+      'pbkdf2',
+    ]);
+  });
+
+  test('a one-character substitution never keeps the KDF', () => {
+    for (const kdf of ['argon2id', 'pbkdf2'] as const) {
+      for (let sample = 0; sample < 20; sample++) {
+        const pin = generatePin(kdf);
+        for (let i = 0; i < PIN_LENGTH; i++) {
+          let switched = 0;
+          for (const replacement of PIN_CHARSET) {
+            if (replacement === pin[i]) continue;
+            const mutated = pin.slice(0, i) + replacement + pin.slice(i + 1);
+            const mutatedKdf = getPinKdf(mutated);
+            expect(mutatedKdf).not.toBe(kdf);
+            if (mutatedKdf) switched++;
+          }
+          // Only one replacement per position lands on the other KDF.
+          expect(switched).toBe(1);
+        }
+      }
+    }
+  });
+
+  test('an adjacent transposition never switches the KDF', () => {
+    for (const kdf of ['argon2id', 'pbkdf2'] as const) {
+      for (let a = 0; a < PIN_CHARSET.length; a++) {
+        for (let b = 0; b < PIN_CHARSET.length; b++) {
+          const pin = pinForTest(
+            `${PIN_CHARSET[a]}${PIN_CHARSET[b]}0000000`,
+            kdf,
+          );
+          const swapped = `${pin[1]}${pin[0]}${pin.slice(2)}`;
+          const swappedKdf = getPinKdf(swapped);
+          if (swappedKdf) expect(swappedKdf).toBe(kdf);
+        }
+      }
+    }
+  });
+
   test('normalizePinInput uppercases, maps look-alikes, strips separators', () => {
     expect(normalizePinInput('ab cd-e')).toBe('ABCDE');
     expect(normalizePinInput('oO')).toBe('00');
@@ -126,6 +204,17 @@ describe('PIN Utilities', () => {
     await expect(decrypt(rendezvousKey, sealed)).rejects.toThrow();
   });
 
+  test('Argon2id and PBKDF2 PINs derive unrelated roots', async () => {
+    const data = '012345678';
+    const bucket = getPinBucket();
+    const pbkdf2Root = await importPinRoot(pinForTest(data));
+    const argonRoot = await importPinRoot(pinForTest(data, 'argon2id'));
+    expect(await computePinHintFromRoot(argonRoot, bucket)).not.toBe(
+      await computePinHintFromRoot(pbkdf2Root, bucket),
+    );
+    await expect(importPinRoot('0123456789')).rejects.toThrow('Invalid PIN');
+  });
+
   test('two peers derive identical values from the same PIN', async () => {
     const pin = generatePin();
     const senderRoot = await importPinRoot(pin);
@@ -145,11 +234,14 @@ describe('PIN Utilities', () => {
   });
 });
 
-/** Mirror of the internal position-weighted checksum, for test vectors. */
-function computeChecksumForTest(data: string): string {
-  let sum = 0;
+/**
+ * Append the position-weighted checksum (a mirror of the internal one) for
+ * `kdf` to data characters, for test vectors.
+ */
+function pinForTest(data: string, kdf: PinKdf = 'pbkdf2'): string {
+  let sum = kdf === 'argon2id' ? PIN_ARGON2ID_CHECKSUM_OFFSET : 0;
   for (let i = 0; i < data.length; i++) {
     sum += PIN_CHARSET.indexOf(data[i]) * (2 * i + 1);
   }
-  return PIN_CHARSET[sum % PIN_CHARSET.length];
+  return data + PIN_CHARSET[sum % PIN_CHARSET.length];
 }
@@ -1,6 +1,9 @@
+import { ValidationError } from '../errors';
+import { argon2idSupported, deriveArgon2id } from './argon2';
 import {
   PBKDF2_HASH,
   PBKDF2_ITERATIONS,
+  PIN_ARGON2ID_CHECKSUM_OFFSET,
   PIN_CHARSET,
   PIN_CHECKSUM_LENGTH,
   PIN_FINGERPRINT_ITERATIONS,
@@ -11,7 +14,9 @@ import {
   PIN_HKDF_SALT,
   PIN_LENGTH,
   PIN_ROOT_SALT,
+  PIN_ROOT_SALT_ARGON2ID,
   PIN_ROTATION_MS,
+  type PinKdf,
 } from './constants';
 import { wipeBufferSource } from './memory';
 
@@ -21,10 +26,11 @@ import { wipeBufferSource } from './memory';
  * Weights are the odd numbers 1, 3, 5, ... — every weight is coprime with the
  * charset size (32), so any single-character substitution always changes the
  * checksum, and adjacent transpositions are detected unless the two characters
- * differ by exactly 16 positions in the alphabet.
+ * differ by exactly 16 positions in the alphabet. Argon2id PINs shift the sum
+ * by PIN_ARGON2ID_CHECKSUM_OFFSET, which is how a PIN names its KDF.
  */
-function computeChecksum(data: string): string {
-  let sum = 0;
+function computeChecksum(data: string, kdf: PinKdf): string {
+  let sum = kdf === 'argon2id' ? PIN_ARGON2ID_CHECKSUM_OFFSET : 0;
   for (let i = 0; i < data.length; i++) {
     const charIndex = PIN_CHARSET.indexOf(data[i]);
     sum += charIndex * (2 * i + 1);
@@ -32,14 +38,23 @@ function computeChecksum(data: string): string {
   return PIN_CHARSET[sum % PIN_CHARSET.length];
 }
 
+/**
+ * The KDF the sender's browser should mint PINs for by default: Argon2id
+ * wherever WebAssembly runs, PBKDF2 otherwise. A sender falls back to PBKDF2
+ * PINs when the receiver's client cannot take an Argon2id one.
+ */
+export function preferredPinKdf(): PinKdf {
+  return argon2idSupported() ? 'argon2id' : 'pbkdf2';
+}
+
 /**
  * Generate a random PIN with checksum.
  *
  * PIN_LENGTH - 1 data characters are drawn from the Crockford base32 PIN_CHARSET
  * using rejection sampling to eliminate modulo bias; the final character is a
- * checksum for typo detection.
+ * checksum for typo detection that also records the PIN-root KDF.
  */
-export function generatePin(): string {
+export function generatePin(kdf: PinKdf = 'argon2id'): string {
   const dataLength = PIN_LENGTH - PIN_CHECKSUM_LENGTH;
 
   const n = PIN_CHARSET.length;
@@ -59,8 +74,7 @@ export function generatePin(): string {
   }
 
   const data = result.join('');
-  const checksum = computeChecksum(data);
-  return data + checksum;
+  return data + computeChecksum(data, kdf);
 }
 
 /**
@@ -89,56 +103,105 @@ export function formatPin(pin: string): string {
 }
 
 /**
- * Validate PIN format and checksum.
+ * The KDF a PIN was minted for, read from its checksum, or null when the
+ * format or checksum is invalid. A PIN with the original checksum is PBKDF2,
+ * which is every PIN minted before Argon2id existed.
  */
-export function isValidPin(pin: string): boolean {
-  if (pin.length !== PIN_LENGTH) return false;
-  if (![...pin].every((char) => PIN_CHARSET.includes(char))) return false;
+export function getPinKdf(pin: string): PinKdf | null {
+  if (pin.length !== PIN_LENGTH) return null;
+  if (![...pin].every((char) => PIN_CHARSET.includes(char))) return null;
 
-  // Verify checksum
   const data = pin.slice(0, PIN_LENGTH - PIN_CHECKSUM_LENGTH);
-  const expectedChecksum = computeChecksum(data);
   const actualChecksum = pin.slice(-PIN_CHECKSUM_LENGTH);
-  return expectedChecksum === actualChecksum;
+  for (const kdf of ['pbkdf2', 'argon2id'] as const) {
+    if (computeChecksum(data, kdf) === actualChecksum) return kdf;
+  }
+  return null;
+}
+
+/**
+ * Validate PIN format and checksum.
+ */
+export function isValidPin(pin: string): boolean {
+  return getPinKdf(pin) !== null;
 }
 
 /**
  * Derive the PIN root: a non-extractable HKDF key produced by the full
- * PBKDF2-SHA-256 stretch of the PIN with the public PIN_ROOT_SALT.
+ * stretch of the PIN with a public salt — Argon2id (PIN_ROOT_SALT_ARGON2ID)
+ * or PBKDF2-SHA-256 (PIN_ROOT_SALT), whichever KDF the PIN's checksum names (see
+ * getPinKdf).
  *
  * Every wire-exposed PIN-scoped value (per-bucket rendezvous hint,
  * claim/confirm auth key, rendezvous payload key) is a cheap HKDF derivation
  * off this root with a distinct info label, so the expensive stretch runs
  * exactly once per PIN while brute-forcing any derived value still costs the
- * full PBKDF2 work factor per PIN guess. The on-screen fingerprint is never
+ * full KDF work factor per PIN guess. The on-screen fingerprint is never
  * transmitted and uses its own light stretch (computePinFingerprint).
  *
  * The PIN root derives no content-encryption keys — file content and WebRTC
  * signaling are protected by keys from the ephemeral ECDH exchange that the
  * PIN merely authenticates.
  *
+ * Throws a ValidationError for an invalid PIN, or for an Argon2id PIN in a
+ * runtime without WebAssembly.
+ *
  * Cleanup note: the encoded PIN bytes and the intermediate derived bits are
  * wiped after import. The original PIN string is managed by the JS engine and
  * cannot be explicitly wiped.
  */
 export async function importPinRoot(pin: string): Promise<CryptoKey> {
+  const kdf = getPinKdf(pin);
+  if (!kdf) throw new ValidationError('Invalid PIN');
+  if (kdf === 'argon2id' && !argon2idSupported()) {
+    throw new ValidationError(
+      'This PIN needs Argon2id, which requires WebAssembly in this browser. Ask the sender for a compatible PIN.',
+    );
+  }
+
   const encoder = new TextEncoder();
   const pinData = encoder.encode(pin);
 
-  let pbkdf2Key: CryptoKey;
+  let rootBits: Uint8Array<ArrayBuffer>;
   try {
-    pbkdf2Key = await crypto.subtle.importKey('raw', pinData, 'PBKDF2', false, [
+    rootBits =
+      kdf === 'argon2id'
+        ? await deriveArgon2id(pinData, encoder.encode(PIN_ROOT_SALT_ARGON2ID))
+        : await stretchPbkdf2(pinData, encoder.encode(PIN_ROOT_SALT));
+  } finally {
+    wipeBufferSource(pinData);
+  }
+
+  try {
+    return await crypto.subtle.importKey('raw', rootBits, 'HKDF', false, [
       'deriveBits',
+      'deriveKey',
     ]);
   } finally {
-    wipeBufferSource(pinData);
+    wipeBufferSource(rootBits);
   }
+}
 
-  const rootBits = new Uint8Array(
+/**
+ * Stretch a low-entropy secret to 32 bytes with PBKDF2-SHA-256 at the PIN-root
+ * work factor. The caller wipes `secret` and the result.
+ */
+export async function stretchPbkdf2(
+  secret: Uint8Array<ArrayBuffer>,
+  salt: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const pbkdf2Key = await crypto.subtle.importKey(
+    'raw',
+    secret,
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  return new Uint8Array(
     await crypto.subtle.deriveBits(
       {
         name: 'PBKDF2',
-        salt: encoder.encode(PIN_ROOT_SALT),
+        salt,
         iterations: PBKDF2_ITERATIONS,
         hash: PBKDF2_HASH,
       },
@@ -146,15 +209,6 @@ export async function importPinRoot(pin: string): Promise<CryptoKey> {
       256,
     ),
   );
-
-  try {
-    return await crypto.subtle.importKey('raw', rootBits, 'HKDF', false, [
-      'deriveBits',
-      'deriveKey',
-    ]);
-  } finally {
-    wipeBufferSource(rootBits);
-  }
 }
 
 function hkdfParams(info: string): HkdfParams {
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { deriveSharedSecretKey, generateECDHKeyPair } from './ecdh';
+import { generateSalt } from './kdf';
+import { computeManualSas, SAS_EMOJI, SAS_LENGTH } from './sas';
+
+describe('Manual Exchange SAS', () => {
+  it('uses 64 distinct symbols', () => {
+    expect(SAS_EMOJI).toHaveLength(64);
+    expect(new Set(SAS_EMOJI.map((s) => s.emoji)).size).toBe(64);
+    expect(new Set(SAS_EMOJI.map((s) => s.name)).size).toBe(64);
+  });
+
+  it('is the same on both ends of an honest exchange', async () => {
+    const sender = await generateECDHKeyPair();
+    const receiver = await generateECDHKeyPair();
+    const salt = generateSalt();
+
+    const senderSas = await computeManualSas(
+      await deriveSharedSecretKey(sender.privateKey, receiver.publicKeyBytes),
+      salt,
+      sender.publicKeyBytes,
+      receiver.publicKeyBytes,
+    );
+    const receiverSas = await computeManualSas(
+      await deriveSharedSecretKey(receiver.privateKey, sender.publicKeyBytes),
+      salt,
+      sender.publicKeyBytes,
+      receiver.publicKeyBytes,
+    );
+
+    expect(senderSas.emoji).toHaveLength(SAS_LENGTH);
+    expect(receiverSas).toEqual(senderSas);
+    expect(senderSas.senderFingerprint).toMatch(
+      /^[0-9A-F]{4}(-[0-9A-F]{4}){3}$/,
+    );
+  });
+
+  it('differs when a man-in-the-middle swaps the keys', async () => {
+    const sender = await generateECDHKeyPair();
+    const receiver = await generateECDHKeyPair();
+    const attacker = await generateECDHKeyPair();
+    const salt = generateSalt();
+
+    // Each side completed ECDH with the attacker instead of with each other.
+    const senderSas = await computeManualSas(
+      await deriveSharedSecretKey(sender.privateKey, attacker.publicKeyBytes),
+      salt,
+      sender.publicKeyBytes,
+      attacker.publicKeyBytes,
+    );
+    const receiverSas = await computeManualSas(
+      await deriveSharedSecretKey(receiver.privateKey, attacker.publicKeyBytes),
+      salt,
+      attacker.publicKeyBytes,
+      receiver.publicKeyBytes,
+    );
+
+    expect(receiverSas.emoji).not.toEqual(senderSas.emoji);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Short authentication string (SAS) for Manual Exchange.
+ *
+ * Manual mode's ECDH is unauthenticated: whoever carries the offer and answer
+ * (a chat service relaying a pasted payload, say) can swap in its own public
+ * keys and sit in the middle. Both sides therefore show a few emoji derived
+ * from the shared secret and both public keys; an attacker holding two
+ * different shared secrets shows two different sequences, which the people
+ * comparing them notice.
+ */
+
+import {
+  computePublicKeyCommitment,
+  deriveKeyConfirmationFromSecretKey,
+  formatFingerprint,
+  publicKeyToFingerprint,
+} from './ecdh';
+
+export interface SasEmoji {
+  emoji: string;
+  /** Spoken name, for comparing over a call. */
+  name: string;
+}
+
+/** 64 symbols (6 bits each), all easy to tell apart and to name. */
+export const SAS_EMOJI: readonly SasEmoji[] = [
+  { emoji: '🐶', name: 'Dog' },
+  { emoji: '🐱', name: 'Cat' },
+  { emoji: '🦁', name: 'Lion' },
+  { emoji: '🐎', name: 'Horse' },
+  { emoji: '🦄', name: 'Unicorn' },
+  { emoji: '🐷', name: 'Pig' },
+  { emoji: '🐘', name: 'Elephant' },
+  { emoji: '🐰', name: 'Rabbit' },
+  { emoji: '🐼', name: 'Panda' },
+  { emoji: '🐓', name: 'Rooster' },
+  { emoji: '🐧', name: 'Penguin' },
+  { emoji: '🐢', name: 'Turtle' },
+  { emoji: '🐟', name: 'Fish' },
+  { emoji: '🐙', name: 'Octopus' },
+  { emoji: '🦋', name: 'Butterfly' },
+  { emoji: '🌷', name: 'Flower' },
+  { emoji: '🌳', name: 'Tree' },
+  { emoji: '🌵', name: 'Cactus' },
+  { emoji: '🍄', name: 'Mushroom' },
+  { emoji: '🌏', name: 'Globe' },
+  { emoji: '🌙', name: 'Moon' },
+  { emoji: '☁️', name: 'Cloud' },
+  { emoji: '🔥', name: 'Fire' },
+  { emoji: '🍌', name: 'Banana' },
+  { emoji: '🍎', name: 'Apple' },
+  { emoji: '🍓', name: 'Strawberry' },
+  { emoji: '🌽', name: 'Corn' },
+  { emoji: '🍕', name: 'Pizza' },
+  { emoji: '🎂', name: 'Cake' },
+  { emoji: '❤️', name: 'Heart' },
+  { emoji: '😀', name: 'Smiley' },
+  { emoji: '🤖', name: 'Robot' },
+  { emoji: '🎩', name: 'Hat' },
+  { emoji: '👓', name: 'Glasses' },
+  { emoji: '🔧', name: 'Spanner' },
+  { emoji: '🎅', name: 'Santa' },
+  { emoji: '👍', name: 'Thumbs Up' },
+  { emoji: '☂️', name: 'Umbrella' },
+  { emoji: '⌛', name: 'Hourglass' },
+  { emoji: '⏰', name: 'Clock' },
+  { emoji: '🎁', name: 'Gift' },
+  { emoji: '💡', name: 'Light Bulb' },
+  { emoji: '📕', name: 'Book' },
+  { emoji: '✏️', name: 'Pencil' },
+  { emoji: '📎', name: 'Paperclip' },
+  { emoji: '✂️', name: 'Scissors' },
+  { emoji: '🔒', name: 'Lock' },
+  { emoji: '🔑', name: 'Key' },
+  { emoji: '🔨', name: 'Hammer' },
+  { emoji: '☎️', name: 'Telephone' },
+  { emoji: '🏁', name: 'Flag' },
+  { emoji: '🚂', name: 'Train' },
+  { emoji: '🚲', name: 'Bicycle' },
+  { emoji: '✈️', name: 'Aeroplane' },
+  { emoji: '🚀', name: 'Rocket' },
+  { emoji: '🏆', name: 'Trophy' },
+  { emoji: '⚽', name: 'Ball' },
+  { emoji: '🎸', name: 'Guitar' },
+  { emoji: '🎺', name: 'Trumpet' },
+  { emoji: '🔔', name: 'Bell' },
+  { emoji: '⚓', name: 'Anchor' },
+  { emoji: '🎧', name: 'Headphones' },
+  { emoji: '📁', name: 'Folder' },
+  { emoji: '📌', name: 'Pin' },
+];
+
+/**
+ * Symbols shown: 8 × 6 = 48 bits. There is no commitment round in the
+ * two-message offer/answer exchange, so a man-in-the-middle can grind its own
+ * key pairs against the receiver's sequence; 48 bits keeps that far beyond
+ * the session's lifetime.
+ */
+export const SAS_LENGTH = 8;
+
+export interface ManualSas {
+  emoji: SasEmoji[];
+  /** Formatted fingerprints of the two ECDH public keys, for a closer look. */
+  senderFingerprint: string;
+  receiverFingerprint: string;
+}
+
+/**
+ * Compute the SAS both ends of a Manual Exchange show. Symmetric: the sender
+ * and receiver pass the same two public keys in the same (sender, receiver)
+ * order and arrive at the same value only if they share the secret.
+ *
+ * @param sharedSecretKey - HKDF key from deriveSharedSecretKey()
+ * @param salt - The transfer salt from the offer
+ */
+export async function computeManualSas(
+  sharedSecretKey: CryptoKey,
+  salt: Uint8Array,
+  senderPublicKey: Uint8Array,
+  receiverPublicKey: Uint8Array,
+): Promise<ManualSas> {
+  const [confirm, senderCommitment, receiverCommitment] = await Promise.all([
+    deriveKeyConfirmationFromSecretKey(sharedSecretKey, salt),
+    computePublicKeyCommitment(senderPublicKey),
+    computePublicKeyCommitment(receiverPublicKey),
+  ]);
+  const encoder = new TextEncoder();
+  const input = new Uint8Array([
+    ...encoder.encode('secure-send-sas:v1'),
+    ...confirm,
+    ...encoder.encode(senderCommitment),
+    ...encoder.encode(receiverCommitment),
+  ]);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+
+  const emoji: SasEmoji[] = [];
+  for (let i = 0; i < SAS_LENGTH; i++) {
+    // Six bits per symbol, read big-endian across the digest.
+    const bit = i * 6;
+    const word = (digest[bit >> 3] << 8) | digest[(bit >> 3) + 1];
+    emoji.push(SAS_EMOJI[(word >> (10 - (bit & 7))) & 0x3f]);
+  }
+
+  const [senderFingerprint, receiverFingerprint] = await Promise.all([
+    publicKeyToFingerprint(senderPublicKey),
+    publicKeyToFingerprint(receiverPublicKey),
+  ]);
+  return {
+    emoji,
+    senderFingerprint: formatFingerprint(senderFingerprint),
+    receiverFingerprint: formatFingerprint(receiverFingerprint),
+  };
+}
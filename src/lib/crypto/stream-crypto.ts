@@ -10,77 +10,90 @@ import { AES_NONCE_LENGTH, AES_TAG_LENGTH } from './constants';
  * - Memory-efficient transfer (no need to buffer entire file encrypted)
  *
  * Encrypted chunk format:
- *   [2-byte chunk index (big-endian)][12-byte nonce][ciphertext][16-byte tag]
+ *   [2-byte chunk index (big-endian)][1-byte codec][12-byte nonce][ciphertext][16-byte tag]
  *
- * The chunk index is also passed as AES-GCM additional authenticated data.
- * That keeps the wire format compact while making the write position tamper-evident.
+ * The chunk index and codec header is also passed as AES-GCM additional
+ * authenticated data. That keeps the wire format compact while making the
+ * write position and the plaintext encoding tamper-evident.
  *
- * Total overhead per chunk: 2 + 12 + 16 = 30 bytes
+ * Total overhead per chunk: 2 + 1 + 12 + 16 = 31 bytes
  */
 
 // Chunk index is 2 bytes (big-endian), supporting up to 65535 chunks.
 const CHUNK_INDEX_SIZE = 2;
-const OVERHEAD_PER_CHUNK = CHUNK_INDEX_SIZE + AES_NONCE_LENGTH + AES_TAG_LENGTH;
+// Codec byte naming how the plaintext was encoded before encryption (see
+// chunk-compression.ts); 0 is the raw plaintext.
+const CHUNK_CODEC_SIZE = 1;
+const CHUNK_HEADER_SIZE = CHUNK_INDEX_SIZE + CHUNK_CODEC_SIZE;
+const OVERHEAD_PER_CHUNK =
+  CHUNK_HEADER_SIZE + AES_NONCE_LENGTH + AES_TAG_LENGTH;
 
-function encodeChunkIndex(chunkIndex: number): Uint8Array {
+function encodeChunkHeader(chunkIndex: number, codec: number): Uint8Array {
   if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex > 0xffff) {
     throw new Error(`Chunk index out of range: ${chunkIndex}`);
   }
+  if (!Number.isInteger(codec) || codec < 0 || codec > 0xff) {
+    throw new Error(`Chunk codec out of range: ${codec}`);
+  }
 
-  return new Uint8Array([(chunkIndex >> 8) & 0xff, chunkIndex & 0xff]);
+  return new Uint8Array([(chunkIndex >> 8) & 0xff, chunkIndex & 0xff, codec]);
 }
 
 /**
- * Encrypt a single chunk with chunk index prefix.
+ * Encrypt a single chunk with chunk index and codec prefix.
  *
  * @param key - AES-GCM encryption key
- * @param plaintext - Raw chunk data to encrypt
+ * @param plaintext - Chunk data to encrypt, already encoded with `codec`
  * @param chunkIndex - 0-based chunk index (0-65535)
- * @returns Encrypted chunk with format: [2-byte index][nonce][ciphertext][tag]
+ * @param codec - Codec byte for the encoded plaintext (0 = raw)
+ * @returns Encrypted chunk with format: [2-byte index][codec][nonce][ciphertext][tag]
  */
 export async function encryptChunk(
   key: CryptoKey,
   plaintext: Uint8Array,
   chunkIndex: number,
+  codec = 0,
 ): Promise<Uint8Array> {
-  const chunkIndexBytes = encodeChunkIndex(chunkIndex);
+  const header = encodeChunkHeader(chunkIndex, codec);
   const nonce = generateNonce();
 
   const ciphertext = await crypto.subtle.encrypt(
     {
       name: 'AES-GCM',
       iv: nonce as BufferSource,
-      additionalData: chunkIndexBytes as BufferSource,
+      additionalData: header as BufferSource,
     },
     key,
     plaintext as BufferSource,
   );
 
-  // Build output: [2-byte index][nonce][ciphertext+tag]
+  // Build output: [2-byte index][codec][nonce][ciphertext+tag]
   const result = new Uint8Array(
-    CHUNK_INDEX_SIZE + nonce.length + ciphertext.byteLength,
+    CHUNK_HEADER_SIZE + nonce.length + ciphertext.byteLength,
   );
 
-  // Write chunk index as big-endian 16-bit
-  result.set(chunkIndexBytes, 0);
+  // Write chunk index as big-endian 16-bit, then the codec byte
+  result.set(header, 0);
 
   // Write nonce
-  result.set(nonce, CHUNK_INDEX_SIZE);
+  result.set(nonce, CHUNK_HEADER_SIZE);
 
   // Write ciphertext (includes tag from Web Crypto)
-  result.set(new Uint8Array(ciphertext), CHUNK_INDEX_SIZE + nonce.length);
+  result.set(new Uint8Array(ciphertext), CHUNK_HEADER_SIZE + nonce.length);
 
   return result;
 }
 
 /**
- * Parse an encrypted chunk message to extract chunk index and encrypted data.
+ * Parse an encrypted chunk message to extract chunk index, codec and
+ * encrypted data.
  *
  * @param data - Raw message data (ArrayBuffer or Uint8Array)
- * @returns Parsed chunk with index and encrypted payload
+ * @returns Parsed chunk with index, codec and encrypted payload
  */
 export function parseChunkMessage(data: ArrayBuffer | Uint8Array): {
   chunkIndex: number;
+  codec: number;
   encryptedData: Uint8Array;
 } {
   const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
@@ -93,11 +106,12 @@ export function parseChunkMessage(data: ArrayBuffer | Uint8Array): {
 
   // Read chunk index (big-endian 16-bit)
   const chunkIndex = (bytes[0] << 8) | bytes[1];
+  const codec = bytes[CHUNK_INDEX_SIZE];
 
   // Rest is the encrypted data (nonce + ciphertext + tag)
-  const encryptedData = bytes.slice(CHUNK_INDEX_SIZE);
+  const encryptedData = bytes.slice(CHUNK_HEADER_SIZE);
 
-  return { chunkIndex, encryptedData };
+  return { chunkIndex, codec, encryptedData };
 }
 
 /**
@@ -105,18 +119,21 @@ export function parseChunkMessage(data: ArrayBuffer | Uint8Array): {
  *
  * @param key - AES-GCM decryption key
  * @param encryptedData - Encrypted data (nonce + ciphertext + tag)
- * @returns Decrypted plaintext
+ * @param chunkIndex - Chunk index from the header
+ * @param codec - Codec byte from the header (0 = raw)
+ * @returns Decrypted plaintext, still encoded with `codec`
  */
 export async function decryptChunk(
   key: CryptoKey,
   encryptedData: Uint8Array,
   chunkIndex: number,
+  codec = 0,
 ): Promise<Uint8Array> {
   if (encryptedData.length < AES_NONCE_LENGTH + AES_TAG_LENGTH) {
     throw new Error(`Encrypted data too short: ${encryptedData.length} bytes`);
   }
 
-  const chunkIndexBytes = encodeChunkIndex(chunkIndex);
+  const header = encodeChunkHeader(chunkIndex, codec);
   const nonce = encryptedData.slice(0, AES_NONCE_LENGTH);
   const ciphertext = encryptedData.slice(AES_NONCE_LENGTH);
 
@@ -124,7 +141,74 @@ export async function decryptChunk(
     {
       name: 'AES-GCM',
       iv: nonce as BufferSource,
-      additionalData: chunkIndexBytes as BufferSource,
+      additionalData: header as BufferSource,
+    },
+    key,
+    ciphertext as BufferSource,
+  );
+
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * Additional authenticated data for the whole-payload digest carried by the
+ * DONE terminator. Its length differs from the 3-byte chunk-header AAD, so a
+ * sealed digest can never authenticate as a chunk (or vice versa).
+ */
+const PAYLOAD_DIGEST_AAD = new TextEncoder().encode(
+  'secure-send:payload-digest:v1',
+);
+
+/**
+ * Additional authenticated data for a multi-file manifest. Distinct from the
+ * digest AAD, so neither control message can be replayed as the other.
+ */
+const FILE_MANIFEST_AAD = new TextEncoder().encode(
+  'secure-send:file-manifest:v1',
+);
+
+/** Seal a control-message body under the transfer key: [nonce][ciphertext][tag]. */
+async function sealControl(
+  key: CryptoKey,
+  plaintext: Uint8Array,
+  additionalData: Uint8Array,
+): Promise<Uint8Array> {
+  const nonce = generateNonce();
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: nonce as BufferSource,
+      additionalData: additionalData as BufferSource,
+    },
+    key,
+    plaintext as BufferSource,
+  );
+
+  const result = new Uint8Array(nonce.length + ciphertext.byteLength);
+  result.set(nonce, 0);
+  result.set(new Uint8Array(ciphertext), nonce.length);
+  return result;
+}
+
+/** Open a body sealed with sealControl under the same AAD. */
+async function openControl(
+  key: CryptoKey,
+  sealed: Uint8Array,
+  additionalData: Uint8Array,
+  description: string,
+): Promise<Uint8Array> {
+  if (sealed.length < AES_NONCE_LENGTH + AES_TAG_LENGTH) {
+    throw new Error(`Sealed ${description} too short: ${sealed.length} bytes`);
+  }
+
+  const nonce = sealed.slice(0, AES_NONCE_LENGTH);
+  const ciphertext = sealed.slice(AES_NONCE_LENGTH);
+
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: nonce as BufferSource,
+      additionalData: additionalData as BufferSource,
     },
     key,
     ciphertext as BufferSource,
@@ -133,6 +217,62 @@ export async function decryptChunk(
   return new Uint8Array(plaintext);
 }
 
+/**
+ * Seal the sender's whole-payload digest for the DONE terminator.
+ *
+ * @param key - AES-GCM encryption key (the transfer's content key)
+ * @param digest - Raw digest bytes
+ * @returns Sealed digest with format: [nonce][ciphertext][tag]
+ */
+export function encryptPayloadDigest(
+  key: CryptoKey,
+  digest: Uint8Array,
+): Promise<Uint8Array> {
+  return sealControl(key, digest, PAYLOAD_DIGEST_AAD);
+}
+
+/**
+ * Open a digest sealed with encryptPayloadDigest.
+ *
+ * @param key - AES-GCM decryption key
+ * @param sealed - Sealed digest (nonce + ciphertext + tag)
+ * @returns Raw digest bytes
+ */
+export function decryptPayloadDigest(
+  key: CryptoKey,
+  sealed: Uint8Array,
+): Promise<Uint8Array> {
+  return openControl(key, sealed, PAYLOAD_DIGEST_AAD, 'digest');
+}
+
+/**
+ * Seal an encoded multi-file manifest for the MANIFEST control message.
+ *
+ * @param key - AES-GCM encryption key (the transfer's content key)
+ * @param manifest - Encoded manifest bytes
+ * @returns Sealed manifest with format: [nonce][ciphertext][tag]
+ */
+export function encryptFileManifest(
+  key: CryptoKey,
+  manifest: Uint8Array,
+): Promise<Uint8Array> {
+  return sealControl(key, manifest, FILE_MANIFEST_AAD);
+}
+
+/**
+ * Open a manifest sealed with encryptFileManifest.
+ *
+ * @param key - AES-GCM decryption key
+ * @param sealed - Sealed manifest (nonce + ciphertext + tag)
+ * @returns Encoded manifest bytes
+ */
+export function decryptFileManifest(
+  key: CryptoKey,
+  sealed: Uint8Array,
+): Promise<Uint8Array> {
+  return openControl(key, sealed, FILE_MANIFEST_AAD, 'manifest');
+}
+
 /**
  * Calculate the overhead added by encryption for a given number of chunks.
  * Useful for progress calculations.
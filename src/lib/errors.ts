@@ -2,10 +2,11 @@
  * Custom error classes for specific error handling
  */
 
-// V8-specific captureStackTrace (available in Node.js and Chrome)
+// V8-specific captureStackTrace (available in Node.js and Chrome, so still
+// checked before use). Declared like @types/node so the two merge.
 declare global {
   interface ErrorConstructor {
-    captureStackTrace?(
+    captureStackTrace(
       targetObject: object,
       constructorOpt?: NewableFunction,
     ): void;
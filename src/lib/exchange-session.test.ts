@@ -0,0 +1,249 @@
+import { describe, expect, it } from 'vitest';
+import { fakeChannel } from '../test/loopback-channel';
+import {
+  createExchangeSession,
+  type ExchangeSession,
+  type ExchangeState,
+} from './exchange-session';
+import { createManifestTransferSource } from './file-manifest';
+import type { WebRTCConnection } from './webrtc';
+
+/**
+ * One side of a fake connection. Everything it sends is delivered, in order
+ * and asynchronously, to the peer's session and to the peer's primary channel
+ * (where the send in progress listens for ACK), after passing through
+ * `rewrite` when a test sets one.
+ */
+interface FakeEnd {
+  rtc: WebRTCConnection;
+  channel: RTCDataChannel;
+  session?: ExchangeSession;
+  closed: boolean;
+  rewrite?: (data: string | ArrayBuffer) => string | ArrayBuffer;
+}
+
+function connectPair(): [FakeEnd, FakeEnd] {
+  const makeEnd = (): FakeEnd => ({
+    rtc: undefined as unknown as WebRTCConnection,
+    channel: fakeChannel(),
+    closed: false,
+  });
+  const a = makeEnd();
+  const b = makeEnd();
+  const wire = (from: FakeEnd, to: FakeEnd) => {
+    const deliver = (sent: string | ArrayBuffer) => {
+      const data = from.rewrite ? from.rewrite(sent) : sent;
+      queueMicrotask(() => {
+        to.channel.dispatchEvent(new MessageEvent('message', { data }));
+        to.session?.onMessage(data);
+      });
+    };
+    from.rtc = {
+      send(data: string) {
+        deliver(data);
+      },
+      async sendWithBackpressure(data: Uint8Array) {
+        deliver(data.slice().buffer as ArrayBuffer);
+      },
+      getDataChannel() {
+        return from.channel;
+      },
+      getOpenDataChannels() {
+        return [from.channel];
+      },
+      close() {
+        from.closed = true;
+      },
+    } as unknown as WebRTCConnection;
+  };
+  wire(a, b);
+  wire(b, a);
+  return [a, b];
+}
+
+/** Track a session's snapshots and wait for one that matches. */
+function watchState() {
+  let latest: ExchangeState = { open: true, items: [] };
+  let waiters: Array<() => void> = [];
+  return {
+    onChange: (state: ExchangeState) => {
+      latest = state;
+      const current = waiters;
+      waiters = [];
+      for (const waiter of current) waiter();
+    },
+    latest: () => latest,
+    until(
+      predicate: (state: ExchangeState) => boolean,
+    ): Promise<ExchangeState> {
+      return new Promise((resolve) => {
+        const check = () => {
+          if (predicate(latest)) resolve(latest);
+          else waiters.push(check);
+        };
+        check();
+      });
+    },
+  };
+}
+
+function filesSource(name: string, contents: string[]) {
+  return createManifestTransferSource(
+    contents.map(
+      (text, i) =>
+        new File([text], `${name}-${i}.txt`, {
+          type: 'text/plain',
+          lastModified: 1700000000000,
+        }),
+    ),
+    name,
+  );
+}
+
+async function setUp() {
+  const [senderEnd, receiverEnd] = connectPair();
+  const exchangeKey = await crypto.subtle.importKey(
+    'raw',
+    crypto.getRandomValues(new Uint8Array(32)),
+    'HKDF',
+    false,
+    ['deriveKey'],
+  );
+  const senderState = watchState();
+  const receiverState = watchState();
+  senderEnd.session = createExchangeSession(senderEnd.rtc, {
+    exchangeKey,
+    role: 'sender',
+    onChange: senderState.onChange,
+  });
+  receiverEnd.session = createExchangeSession(receiverEnd.rtc, {
+    exchangeKey,
+    role: 'receiver',
+    onChange: receiverState.onChange,
+  });
+  return {
+    sender: senderEnd.session,
+    receiver: receiverEnd.session,
+    senderEnd,
+    receiverEnd,
+    senderState,
+    receiverState,
+  };
+}
+
+const settled = (state: ExchangeState, count: number) =>
+  state.items.length === count &&
+  state.items.every(
+    (item) => item.status === 'complete' || item.status === 'error',
+  );
+
+describe('createExchangeSession', () => {
+  it('sends files back in the reply direction', async () => {
+    const { receiver, senderState, receiverState } = await setUp();
+
+    receiver.send(filesSource('reply', ['thanks!']));
+
+    const received = await senderState.until((s) => settled(s, 1));
+    const sent = await receiverState.until((s) => settled(s, 1));
+    expect(sent.items[0]).toMatchObject({
+      direction: 'outgoing',
+      status: 'complete',
+    });
+    const item = received.items[0];
+    expect(item).toMatchObject({
+      direction: 'incoming',
+      status: 'complete',
+      name: 'reply-0.txt',
+      digest: sent.items[0].digest,
+    });
+    expect(await item.content?.files[0].data.text()).toBe('thanks!');
+  });
+
+  it('runs simultaneous offers one after the other, sender first', async () => {
+    const { sender, receiver, senderState, receiverState } = await setUp();
+
+    sender.send(filesSource('more', ['one', 'two']));
+    receiver.send(filesSource('back', ['three']));
+
+    const atSender = await senderState.until((s) => settled(s, 2));
+    const atReceiver = await receiverState.until((s) => settled(s, 2));
+    expect(atSender.items.map((item) => item.direction)).toEqual([
+      'outgoing',
+      'incoming',
+    ]);
+    expect(atReceiver.items.map((item) => item.direction)).toEqual([
+      'outgoing',
+      'incoming',
+    ]);
+    for (const state of [atSender, atReceiver]) {
+      expect(state.items.every((item) => item.status === 'complete')).toBe(
+        true,
+      );
+    }
+
+    const fromSender = atReceiver.items[1].content;
+    expect(fromSender?.name).toBe('2 files');
+    expect(
+      await Promise.all(
+        fromSender?.files.map((file) => file.data.text()) ?? [],
+      ),
+    ).toEqual(['one', 'two']);
+    expect(await atSender.items[1].content?.files[0].data.text()).toBe('three');
+  });
+
+  it('rejects an earlier item replayed in place of the next', async () => {
+    const { sender, senderEnd, receiverState } = await setUp();
+
+    const firstItem: (string | ArrayBuffer)[] = [];
+    senderEnd.rewrite = (data) => {
+      firstItem.push(data);
+      return data;
+    };
+    sender.send(filesSource('same', ['one']));
+    await receiverState.until((s) => settled(s, 1));
+
+    // Same names and size, so only the item key tells the two apart: swap
+    // the second item's MANIFEST, chunk and DONE for the first item's.
+    const replay = firstItem.filter(
+      (data) => typeof data !== 'string' || !data.startsWith('NEXT:'),
+    );
+    senderEnd.rewrite = (data) =>
+      typeof data === 'string' && (data.startsWith('NEXT:') || data === 'BYE')
+        ? data
+        : (replay.shift() ?? data);
+    sender.send(filesSource('same', ['two']));
+
+    const state = await receiverState.until((s) => settled(s, 2));
+    expect(state.items[0].status).toBe('complete');
+    expect(state.items[1].status).toBe('error');
+  });
+
+  it('ends both sides on BYE and refuses later sends', async () => {
+    const { sender, receiver, senderEnd, receiverState, senderState } =
+      await setUp();
+
+    receiver.end();
+    const ended = await senderState.until((s) => !s.open);
+    expect(ended.open).toBe(false);
+    expect(receiverState.latest().open).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(senderEnd.closed).toBe(true);
+
+    expect(() => sender.send(filesSource('late', ['x']))).toThrow(
+      'session has ended',
+    );
+  });
+
+  it('rejects anything but a multi-file source', async () => {
+    const { sender } = await setUp();
+    const text = {
+      name: 'message.txt',
+      type: 'text/plain',
+      size: 2,
+      estimatedSize: 2,
+      text: true,
+      stream: () => new Blob(['hi']).stream(),
+    };
+    expect(() => sender.send(text)).toThrow('Only files');
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Exchange sessions: after the first transfer completes, both peers keep its
+ * WebRTC connection open and either side can send more files over it.
+ *
+ * Each further item is an ordinary multi-file payload (see file-manifest.ts)
+ * carried by the protocol in p2p-transfer.ts. Items run one at a time, in
+ * either direction, on top of it:
+ *   - The side with an item queued sends `NEXT:<totalBytes>`.
+ *   - The peer answers with its (empty) HAVE message once it is idle. HAVE is
+ *     the go-ahead: the offering side then sends MANIFEST, chunks and DONE,
+ *     and the peer replies ACK as for the first transfer.
+ *   - If both sides offer at once, the original sender goes first. The
+ *     original receiver answers the sender's offer and keeps its own pending;
+ *     the sender answers that one when its send is done.
+ *   - `BYE` ends the session; either side may send it at any time.
+ *
+ * Every item is encrypted under its own key, derived from the session's
+ * exchange key, its direction (`content` from sender to receiver, `reply`
+ * back) and its sequence number in that direction (see
+ * deriveExchangeItemKey). Chunk indices restart at 0 for every item, so a
+ * chunk or DONE from one item can never be replayed into another. A failed
+ * item ends the session, since the peers can no longer agree on where the
+ * shared channel stands.
+ */
+
+import {
+  deriveExchangeItemKey,
+  type ExchangeDirection,
+  MAX_MESSAGE_SIZE,
+} from '@/lib/crypto';
+import { splitManifestPayload } from '@/lib/file-manifest';
+import {
+  ACK,
+  createDataChannelReceiver,
+  type DataChannelReceiver,
+  HAVE_PREFIX,
+  sendFileOverDataChannel,
+} from '@/lib/p2p-transfer';
+import { createReceiveSink, type ReceiveSink } from '@/lib/scratch-sink';
+import type { TransferSource } from '@/lib/transfer-source';
+import type { ReceivedFileList } from '@/lib/types';
+import type { WebRTCConnection } from '@/lib/webrtc';
+
+const NEXT_PREFIX = 'NEXT:';
+const BYE = 'BYE';
+
+/**
+ * How long to keep the connection after sending BYE, so the peer reads it
+ * before the transport goes away.
+ */
+const BYE_LINGER_MS = 1000;
+
+export interface ExchangeItem {
+  /** Unique within the session. */
+  id: number;
+  direction: 'outgoing' | 'incoming';
+  /**
+   * The sender's name for an outgoing item; derived from the files once an
+   * incoming item arrives.
+   */
+  name: string;
+  /** Payload bytes (the files back to back). */
+  size: number;
+  status: 'queued' | 'transferring' | 'complete' | 'error';
+  message?: string;
+  progress?: { current: number; total: number };
+  /** Lowercase hex SHA-256 of the payload, once complete. */
+  digest?: string;
+  /** The received files, once an incoming item completes. */
+  content?: ReceivedFileList;
+}
+
+export interface ExchangeState {
+  /** False once either side ended the session or the connection dropped. */
+  open: boolean;
+  items: ExchangeItem[];
+}
+
+export interface ExchangeSessionOptions {
+  /** The session's exchange key (NostrSessionKeys.exchange). */
+  exchangeKey: CryptoKey;
+  /**
+   * This side's part in the first transfer. The original sender's items
+   * travel in the `content` direction and its offer goes first when both
+   * peers offer at once; the receiver's travel in the `reply` direction.
+   */
+  role: 'sender' | 'receiver';
+  /** Called with a fresh snapshot whenever the session or an item changes. */
+  onChange: (state: ExchangeState) => void;
+}
+
+export interface ExchangeSession {
+  /** Feed every data-channel message here once the first transfer is done. */
+  onMessage: (data: string | ArrayBuffer) => void;
+  /**
+   * Queue a multi-file source. It is sent after every item queued before it
+   * and whatever the peer is sending at the time.
+   */
+  send: (source: TransferSource) => void;
+  /** Tell the peer the session is over and close the connection. */
+  end: () => void;
+  /** The connection dropped: fail unfinished items and close the session. */
+  connectionLost: () => void;
+  /** End the session and release the storage of every received item. */
+  dispose: () => void;
+}
+
+interface OutgoingEntry {
+  id: number;
+  source: TransferSource;
+}
+
+/**
+ * Run an exchange session over `rtc`, whose first transfer has completed and
+ * whose data channels are still open. The session does not own the
+ * connection's callbacks: the hook routes data-channel messages to
+ * `onMessage` and reports a dropped connection via `connectionLost`.
+ */
+export function createExchangeSession(
+  rtc: WebRTCConnection,
+  opts: ExchangeSessionOptions,
+): ExchangeSession {
+  let open = true;
+  let items: ExchangeItem[] = [];
+  let nextId = 0;
+  const queue: OutgoingEntry[] = [];
+  // Our NEXT, sent and not yet answered with HAVE.
+  let offered: OutgoingEntry | null = null;
+  // The peer's NEXT size, when it arrived while this side was busy.
+  let deferredOffer: number | null = null;
+  let active: 'sending' | 'receiving' | null = null;
+  let incoming: DataChannelReceiver | null = null;
+  // Storage of completed incoming items, readable until dispose().
+  const sinks: ReceiveSink[] = [];
+  let closeTimer: ReturnType<typeof setTimeout> | null = null;
+  const priority = opts.role === 'sender';
+  const sendDirection: ExchangeDirection = priority ? 'content' : 'reply';
+  const receiveDirection: ExchangeDirection = priority ? 'reply' : 'content';
+  // Items run one at a time, so both peers number each direction's items in
+  // the same order.
+  let sentCount = 0;
+  let receivedCount = 0;
+
+  const emit = () => opts.onChange({ open, items });
+
+  const updateItem = (id: number, patch: Partial<ExchangeItem>) => {
+    items = items.map((item) =>
+      item.id === id ? { ...item, ...patch } : item,
+    );
+    emit();
+  };
+
+  const addItem = (item: ExchangeItem) => {
+    items = [...items, item];
+    emit();
+  };
+
+  const close = (message: string, notifyPeer: boolean) => {
+    if (!open) return;
+    open = false;
+    incoming?.dispose();
+    incoming = null;
+    queue.length = 0;
+    offered = null;
+    items = items.map((item) =>
+      item.status === 'queued' || item.status === 'transferring'
+        ? { ...item, status: 'error', message }
+        : item,
+    );
+    emit();
+    if (notifyPeer) {
+      try {
+        rtc.send(BYE);
+      } catch {
+        // The connection is already gone.
+      }
+    }
+    closeTimer = setTimeout(
+      () => {
+        closeTimer = null;
+        try {
+          rtc.close();
+        } catch {
+          // ignore
+        }
+      },
+      notifyPeer ? BYE_LINGER_MS : 0,
+    );
+  };
+
+  const pump = () => {
+    if (!open || active) return;
+    if (deferredOffer !== null) {
+      const size = deferredOffer;
+      deferredOffer = null;
+      void receive(size);
+      return;
+    }
+    if (offered) return;
+    const entry = queue.shift();
+    if (!entry) return;
+    offered = entry;
+    updateItem(entry.id, { message: 'Waiting for the other side...' });
+    try {
+      rtc.send(`${NEXT_PREFIX}${entry.source.size}`);
+    } catch {
+      close('Connection lost', false);
+    }
+  };
+
+  const sendOffered = async (entry: OutgoingEntry, have: string) => {
+    active = 'sending';
+    updateItem(entry.id, { status: 'transferring', message: 'Sending...' });
+    const sequence = sentCount++;
+    try {
+      const key = await deriveExchangeItemKey(
+        opts.exchangeKey,
+        sendDirection,
+        sequence,
+      );
+      const result = await sendFileOverDataChannel(rtc, key, entry.source, {
+        haveMessage: have,
+        isCancelled: () => !open,
+        onProgress: (current, total) =>
+          updateItem(entry.id, { progress: { current, total } }),
+      });
+      updateItem(entry.id, {
+        status: 'complete',
+        message: 'Sent',
+        digest: result.digest,
+      });
+    } catch (err) {
+      // A session that already closed has marked the item itself.
+      if (open) {
+        updateItem(entry.id, {
+          status: 'error',
+          message: err instanceof Error ? err.message : 'Send failed',
+        });
+        close('Session ended after a failed transfer', true);
+      }
+    } finally {
+      active = null;
+      offered = null;
+      pump();
+    }
+  };
+
+  const receive = async (size: number) => {
+    active = 'receiving';
+    const id = nextId++;
+    addItem({
+      id,
+      direction: 'incoming',
+      name: 'Incoming files',
+      size,
+      status: 'transferring',
+      message: 'Receiving...',
+    });
+
+    const sequence = receivedCount++;
+    let sink: ReceiveSink | null = null;
+    try {
+      const key = await deriveExchangeItemKey(
+        opts.exchangeKey,
+        receiveDirection,
+        sequence,
+      );
+      sink = await createReceiveSink(size);
+      if (!open) throw new Error('Session ended');
+      const receiver = createDataChannelReceiver(key, size, sink, {
+        expectManifest: true,
+        onProgress: (current, total) =>
+          updateItem(id, { progress: { current, total } }),
+      });
+      incoming = receiver;
+      receiver.start();
+      rtc.send(await receiver.createHaveMessage());
+
+      const result = await receiver.done;
+      if (!result.manifest) throw new Error('Missing file manifest');
+      rtc.send(ACK);
+      sinks.push(sink);
+      sink = null;
+      const files = splitManifestPayload(result.data, result.manifest);
+      const name =
+        files.length === 1
+          ? (files[0].path ?? files[0].fileName)
+          : `${files.length} files`;
+      updateItem(id, {
+        status: 'complete',
+        name,
+        message: 'Received',
+        digest: result.digest,
+        content: { contentType: 'files', name, files },
+      });
+    } catch (err) {
+      if (sink) void sink.discard();
+      if (open) {
+        updateItem(id, {
+          status: 'error',
+          message: err instanceof Error ? err.message : 'Receive failed',
+        });
+        close('Session ended after a failed transfer', true);
+      }
+    } finally {
+      incoming = null;
+      active = null;
+      pump();
+    }
+  };
+
+  const onPeerOffer = (data: string) => {
+    const size = Number(data.slice(NEXT_PREFIX.length));
+    if (!Number.isSafeInteger(size) || size < 0 || size > MAX_MESSAGE_SIZE) {
+      close('The other side sent an invalid offer', true);
+      return;
+    }
+    // Busy, or both offered at once and this side goes first: answer the
+    // peer once idle. Otherwise answer now; our own offer stays pending and
+    // the peer answers it after.
+    if (active || (offered && priority)) {
+      deferredOffer = size;
+      return;
+    }
+    void receive(size);
+  };
+
+  const onMessage = (data: string | ArrayBuffer) => {
+    if (!open) return;
+    if (typeof data === 'string') {
+      if (data.startsWith(NEXT_PREFIX)) {
+        onPeerOffer(data);
+        return;
+      }
+      if (data.startsWith(HAVE_PREFIX)) {
+        if (offered && !active) void sendOffered(offered, data);
+        return;
+      }
+      if (data === BYE) {
+        close('The other side ended the session', false);
+        return;
+      }
+      // ACK is read by the send in progress.
+      if (data === ACK) return;
+    }
+    incoming?.onMessage(data);
+  };
+
+  const send = (source: TransferSource) => {
+    if (!open) throw new Error('The exchange session has ended');
+    if (!source.manifest || source.size === null) {
+      throw new Error('Only files can be sent in an exchange session');
+    }
+    if (source.size > MAX_MESSAGE_SIZE) {
+      throw new Error('Files exceed the transfer size limit');
+    }
+    const id = nextId++;
+    addItem({
+      id,
+      direction: 'outgoing',
+      name: source.name,
+      size: source.size,
+      status: 'queued',
+      message: 'Queued',
+    });
+    queue.push({ id, source });
+    pump();
+  };
+
+  return {
+    onMessage,
+    send,
+    end: () => close('Session ended', true),
+    connectionLost: () => close('Connection lost', false),
+    dispose: () => {
+      close('Session ended', true);
+      for (const sink of sinks) void sink.discard();
+      sinks.length = 0;
+      if (closeTimer) {
+        clearTimeout(closeTimer);
+        closeTimer = null;
+        try {
+          rtc.close();
+        } catch {
+          // ignore
+        }
+      }
+    },
+  };
+}
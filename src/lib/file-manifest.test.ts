@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createManifestTransferSource,
+  decodeManifest,
+  encodeManifest,
+  type FileManifest,
+  isSafeRelativePath,
+  splitManifestPayload,
+} from './file-manifest';
+
+function fileAt(
+  relativePath: string,
+  contents: string,
+  type = 'text/plain',
+): File {
+  const file = new File(
+    [contents],
+    relativePath.slice(relativePath.lastIndexOf('/') + 1),
+    { type, lastModified: 1700000000000 },
+  );
+  if (relativePath.includes('/')) {
+    Object.defineProperty(file, 'webkitRelativePath', {
+      value: relativePath,
+    });
+  }
+  return file;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('isSafeRelativePath', () => {
+  it('accepts plain relative paths', () => {
+    expect(isSafeRelativePath('a.txt')).toBe(true);
+    expect(isSafeRelativePath('photos/2024/beach.jpg')).toBe(true);
+  });
+
+  it('rejects traversal, absolute and malformed paths', () => {
+    expect(isSafeRelativePath('')).toBe(false);
+    expect(isSafeRelativePath('/etc/passwd')).toBe(false);
+    expect(isSafeRelativePath('../secret')).toBe(false);
+    expect(isSafeRelativePath('a/./b')).toBe(false);
+    expect(isSafeRelativePath('a//b')).toBe(false);
+    expect(isSafeRelativePath('a\\b')).toBe(false);
+    expect(isSafeRelativePath('a\nb')).toBe(false);
+  });
+});
+
+describe('decodeManifest', () => {
+  const manifest: FileManifest = {
+    files: [
+      { path: 'a.txt', size: 3, lastModified: 1, mimeType: 'text/plain' },
+      { path: 'dir/b.bin', size: 5, lastModified: 2, mimeType: '' },
+    ],
+  };
+
+  it('round-trips a manifest that describes the payload', () => {
+    const decoded = decodeManifest(encodeManifest(manifest), 8);
+    expect(decoded.files.map((file) => file.path)).toEqual([
+      'a.txt',
+      'dir/b.bin',
+    ]);
+    expect(decoded.files[1].mimeType).toBe('application/octet-stream');
+  });
+
+  it('rejects sizes that do not add up to the payload', () => {
+    expect(() => decodeManifest(encodeManifest(manifest), 9)).toThrow(
+      'file sizes do not match the payload',
+    );
+  });
+
+  it('rejects unsafe and conflicting paths', () => {
+    const unsafe = {
+      files: [{ ...manifest.files[0], path: '../a.txt' }],
+    };
+    expect(() => decodeManifest(encodeManifest(unsafe), 3)).toThrow(
+      'malformed file entry',
+    );
+
+    const clash = {
+      files: [
+        { ...manifest.files[0], path: 'dir' },
+        { ...manifest.files[1], path: 'dir/b.bin' },
+      ],
+    };
+    expect(() => decodeManifest(encodeManifest(clash), 8)).toThrow(
+      'conflicting path dir',
+    );
+  });
+
+  it('rejects data that is not a manifest', () => {
+    const encoder = new TextEncoder();
+    expect(() => decodeManifest(encoder.encode('{'), 0)).toThrow(
+      'not valid JSON',
+    );
+    expect(() => decodeManifest(encoder.encode('{"files":[]}'), 0)).toThrow(
+      'no files',
+    );
+  });
+});
+
+describe('createManifestTransferSource', () => {
+  it('streams the files back to back and describes them', async () => {
+    const files = [
+      fileAt('docs/readme.md', 'hello '),
+      fileAt('docs/data.json', '{"a":1}', 'application/json'),
+    ];
+    const source = createManifestTransferSource(files, 'docs');
+
+    expect(source.size).toBe(13);
+    expect(source.compressible).toBe(true);
+    expect(source.manifest?.files).toEqual([
+      {
+        path: 'docs/readme.md',
+        size: 6,
+        lastModified: 1700000000000,
+        mimeType: 'text/plain',
+      },
+      {
+        path: 'docs/data.json',
+        size: 7,
+        lastModified: 1700000000000,
+        mimeType: 'application/json',
+      },
+    ]);
+    expect(await readAll(source.stream())).toBe('hello {"a":1}');
+  });
+
+  it('numbers loose files and folders whose names collide', () => {
+    const source = createManifestTransferSource(
+      [
+        fileAt('notes.txt', 'a'),
+        fileAt('notes.txt', 'b'),
+        fileAt('photos', 'c'),
+        fileAt('photos/cat.jpg', 'd', 'image/jpeg'),
+      ],
+      'files',
+    );
+    expect(source.manifest?.files.map((file) => file.path)).toEqual([
+      'notes.txt',
+      'notes (2).txt',
+      'photos',
+      'photos (2)/cat.jpg',
+    ]);
+  });
+
+  it('marks a set of compressed files as not worth deflating', () => {
+    const source = createManifestTransferSource(
+      [fileAt('a.jpg', 'a', 'image/jpeg'), fileAt('b.mp4', 'b', 'video/mp4')],
+      'files',
+    );
+    expect(source.compressible).toBe(false);
+  });
+});
+
+describe('splitManifestPayload', () => {
+  it('slices the payload into its files', async () => {
+    const manifest: FileManifest = {
+      files: [
+        { path: 'a/one.txt', size: 3, lastModified: 5, mimeType: 'text/plain' },
+        { path: 'empty', size: 0, lastModified: 6, mimeType: 'text/plain' },
+        { path: 'two.txt', size: 3, lastModified: 7, mimeType: 'text/plain' },
+      ],
+    };
+    const files = splitManifestPayload(new Blob(['onetwo']), manifest);
+
+    expect(files.map((file) => file.fileName)).toEqual([
+      'one.txt',
+      'empty',
+      'two.txt',
+    ]);
+    expect(files[0].path).toBe('a/one.txt');
+    expect(files[2].lastModified).toBe(7);
+    expect(await files[0].data.text()).toBe('one');
+    expect(files[1].data.size).toBe(0);
+    expect(await files[2].data.text()).toBe('two');
+  });
+});
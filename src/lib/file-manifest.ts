@@ -0,0 +1,260 @@
+import { isCompressibleMimeType } from './chunk-compression';
+import { ENCRYPTION_CHUNK_SIZE } from './crypto';
+import type { TransferSource } from './transfer-source';
+import type { ReceivedFile } from './types';
+
+/**
+ * Multi-file transfers without ZIP packaging.
+ *
+ * The sender concatenates the selected files into one exact-size payload and
+ * describes where each file starts in a manifest. The manifest travels as a
+ * sealed MANIFEST control message once the data channel opens (see
+ * p2p-transfer.ts); the payload itself uses the ordinary chunk framing, so
+ * striping, compression, resume and the whole-payload digest all apply
+ * unchanged. The receiver slices the sealed payload back into files without
+ * copying them.
+ */
+
+/** One file in a multi-file transfer, in payload order. */
+export interface ManifestEntry {
+  /** Relative path with `/` separators, e.g. `photos/2024/beach.jpg`. */
+  path: string;
+  /** Size in bytes; the files' sizes sum to the payload size. */
+  size: number;
+  /** Modification time in ms since the epoch. */
+  lastModified: number;
+  mimeType: string;
+}
+
+export interface FileManifest {
+  files: ManifestEntry[];
+}
+
+/**
+ * Encoded manifests must fit in a single data-channel message next to the
+ * 128KB chunks; in practice that is a couple of thousand files.
+ */
+export const MAX_MANIFEST_BYTES = ENCRYPTION_CHUNK_SIZE;
+const MAX_PATH_LENGTH = 1024;
+
+/**
+ * A relative path is safe to recreate under a chosen directory when every
+ * segment is a plain name: no absolute paths, no `.`/`..`, no backslashes or
+ * control characters.
+ */
+export function isSafeRelativePath(path: string): boolean {
+  if (path.length === 0 || path.length > MAX_PATH_LENGTH) return false;
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: rejecting them is the point
+  if (/[\\\u0000-\u001f\u007f]/.test(path)) return false;
+  return path
+    .split('/')
+    .every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/** Insert ` (n)` before the extension of the path's last segment. */
+function numberedPath(path: string, n: number): string {
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  const split = dot > slash + 1 ? dot : path.length;
+  return `${path.slice(0, split)} (${n})${path.slice(split)}`;
+}
+
+/**
+ * Tracks paths written to one directory tree. A path conflicts when it is
+ * already taken, is another file's parent directory, or has a file as one
+ * of its own parent directories.
+ */
+function createPathRegistry() {
+  const files = new Set<string>();
+  const directories = new Set<string>();
+  const ancestors = (path: string) => {
+    const segments = path.split('/');
+    return segments.slice(1).map((_, i) => segments.slice(0, i + 1).join('/'));
+  };
+  return {
+    conflict(path: string): string | null {
+      if (files.has(path) || directories.has(path)) return path;
+      return ancestors(path).find((directory) => files.has(directory)) ?? null;
+    },
+    add(path: string): void {
+      files.add(path);
+      for (const directory of ancestors(path)) directories.add(directory);
+    },
+  };
+}
+
+/** Serialize a manifest for sealing (see encryptFileManifest). */
+export function encodeManifest(manifest: FileManifest): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(manifest));
+}
+
+/**
+ * Decode and validate a manifest received for a payload of `totalBytes`.
+ * Throws if it is malformed, unsafe, or does not describe exactly the payload.
+ */
+export function decodeManifest(
+  encoded: Uint8Array,
+  totalBytes: number,
+): FileManifest {
+  if (encoded.length > MAX_MANIFEST_BYTES) {
+    throw new Error('Invalid MANIFEST message: too large');
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(
+      new TextDecoder('utf-8', { fatal: true }).decode(encoded),
+    );
+  } catch {
+    throw new Error('Invalid MANIFEST message: not valid JSON');
+  }
+  const files = (value as { files?: unknown } | null)?.files;
+  if (!Array.isArray(files) || files.length === 0) {
+    throw new Error('Invalid MANIFEST message: no files');
+  }
+
+  let total = 0;
+  const entries: ManifestEntry[] = files.map((file: unknown) => {
+    const entry = file as Partial<Record<keyof ManifestEntry, unknown>> | null;
+    if (
+      typeof entry?.path !== 'string' ||
+      !isSafeRelativePath(entry.path) ||
+      !Number.isSafeInteger(entry.size) ||
+      (entry.size as number) < 0 ||
+      typeof entry.lastModified !== 'number' ||
+      !Number.isFinite(entry.lastModified) ||
+      typeof entry.mimeType !== 'string'
+    ) {
+      throw new Error('Invalid MANIFEST message: malformed file entry');
+    }
+    total += entry.size as number;
+    return {
+      path: entry.path,
+      size: entry.size as number,
+      lastModified: entry.lastModified,
+      mimeType: entry.mimeType || 'application/octet-stream',
+    };
+  });
+
+  if (total !== totalBytes) {
+    throw new Error(
+      'Invalid MANIFEST message: file sizes do not match the payload',
+    );
+  }
+  const paths = createPathRegistry();
+  for (const { path } of entries) {
+    const conflict = paths.conflict(path);
+    if (conflict !== null) {
+      throw new Error(`Invalid MANIFEST message: conflicting path ${conflict}`);
+    }
+    paths.add(path);
+  }
+  return { files: entries };
+}
+
+/**
+ * Build an exact-size source that streams `files` back to back and carries
+ * their manifest. Folder selections keep their `webkitRelativePath`; loose
+ * files that would collide get a numbered name.
+ *
+ * @param files - Selected files, in payload order
+ * @param name - Display name for the transfer as a whole
+ */
+export function createManifestTransferSource(
+  files: readonly File[],
+  name: string,
+): TransferSource {
+  const paths = createPathRegistry();
+  const entries = files.map((file): ManifestEntry => {
+    const basePath = file.webkitRelativePath || file.name;
+    if (!isSafeRelativePath(basePath)) {
+      throw new Error(
+        `Cannot send "${basePath}" as a separate file. Send it in a ZIP archive instead.`,
+      );
+    }
+    let path = basePath;
+    for (let n = 2; ; n++) {
+      const conflict = paths.conflict(path);
+      if (conflict === null) break;
+      // Number the file itself, or the parent directory that clashes with a
+      // file of the same name.
+      path =
+        conflict === path
+          ? numberedPath(basePath, n)
+          : `${numberedPath(conflict, n)}${path.slice(conflict.length)}`;
+    }
+    paths.add(path);
+    return {
+      path,
+      size: file.size,
+      lastModified: file.lastModified,
+      mimeType: file.type || 'application/octet-stream',
+    };
+  });
+  const manifest: FileManifest = { files: entries };
+  if (encodeManifest(manifest).length > MAX_MANIFEST_BYTES) {
+    throw new Error(
+      'Too many files to send separately. Send them as a ZIP archive instead.',
+    );
+  }
+
+  const totalBytes = files.reduce((total, file) => total + file.size, 0);
+  return {
+    name,
+    type: 'application/octet-stream',
+    size: totalBytes,
+    estimatedSize: totalBytes,
+    compressible: entries.some((entry) =>
+      isCompressibleMimeType(entry.mimeType),
+    ),
+    manifest,
+    stream: () => concatenateFiles(files),
+  };
+}
+
+function concatenateFiles(files: readonly File[]): ReadableStream<Uint8Array> {
+  let index = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (index < files.length) {
+        reader ??= files[index].stream().getReader();
+        const { done, value } = await reader.read();
+        if (!done) {
+          controller.enqueue(value);
+          return;
+        }
+        reader.releaseLock();
+        reader = null;
+        index++;
+      }
+      controller.close();
+    },
+    async cancel(reason) {
+      await reader?.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Slice a received multi-file payload into its files. Slices share the
+ * payload's storage (memory or OPFS scratch), so nothing is copied.
+ */
+export function splitManifestPayload(
+  data: Blob,
+  manifest: FileManifest,
+): ReceivedFile[] {
+  let offset = 0;
+  return manifest.files.map((entry) => {
+    const start = offset;
+    offset += entry.size;
+    return {
+      contentType: 'file',
+      data: data.slice(start, offset, entry.mimeType),
+      fileName: entry.path.slice(entry.path.lastIndexOf('/') + 1),
+      fileSize: entry.size,
+      mimeType: entry.mimeType,
+      path: entry.path,
+      lastModified: entry.lastModified,
+    };
+  });
+}
@@ -1,3 +1,5 @@
+import type { ReceivedFile } from './types';
+
 /**
  * Trigger a file download in the browser. `data` may be disk-backed (an OPFS
  * file); the browser streams it to the download without materializing it.
@@ -65,3 +67,113 @@ export function getMimeTypeDescription(mimeType: string): string {
   };
   return descriptions[mimeType] || mimeType || 'Unknown';
 }
+
+// lib.dom does not yet declare the File System Access directory picker.
+interface WindowWithDirectoryPicker {
+  showDirectoryPicker: (options?: {
+    mode?: 'read' | 'readwrite';
+  }) => Promise<FileSystemDirectoryHandle>;
+}
+
+/** True when received files can be written straight into a chosen folder. */
+export const supportsDirectorySave =
+  typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+// lib.dom does not yet declare the File System Access save picker.
+interface WindowWithSaveFilePicker {
+  showSaveFilePicker: (options?: {
+    suggestedName?: string;
+  }) => Promise<FileSystemFileHandle>;
+}
+
+/**
+ * True when a received file can be written straight into a file the user
+ * picks before the transfer starts (see createSaveFileReceiveSink).
+ */
+export const supportsFileSave =
+  typeof window !== 'undefined' && 'showSaveFilePicker' in window;
+
+/**
+ * Ask where to save a file. Must run from a user gesture. Resolves null if
+ * the user dismissed the picker.
+ */
+export async function pickSaveFile(
+  suggestedName: string,
+): Promise<FileSystemFileHandle | null> {
+  try {
+    return await (
+      window as unknown as WindowWithSaveFilePicker
+    ).showSaveFilePicker({ suggestedName });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+}
+
+// lib.dom does not yet declare the File System Access open picker.
+interface WindowWithOpenFilePicker {
+  showOpenFilePicker: (options?: {
+    multiple?: boolean;
+  }) => Promise<FileSystemFileHandle[]>;
+}
+
+/**
+ * True when files to send can be picked as handles, which the transfer
+ * history keeps so a later re-send can open the same files again.
+ */
+export const supportsFilePicker =
+  typeof window !== 'undefined' && 'showOpenFilePicker' in window;
+
+/**
+ * Ask for files to send, keeping their handles. Must run from a user
+ * gesture. Resolves null if the user dismissed the picker.
+ */
+export async function pickFiles(): Promise<{
+  files: File[];
+  handles: FileSystemFileHandle[];
+} | null> {
+  let handles: FileSystemFileHandle[];
+  try {
+    handles = await (
+      window as unknown as WindowWithOpenFilePicker
+    ).showOpenFilePicker({ multiple: true });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+  const files = await Promise.all(handles.map((handle) => handle.getFile()));
+  return { files, handles };
+}
+
+/**
+ * Ask for a folder and write each file into it, recreating the relative
+ * paths of a multi-file transfer. Data streams from its Blob (memory or OPFS)
+ * straight to disk. Resolves false if the user dismissed the picker.
+ */
+export async function saveFilesToDirectory(
+  files: readonly ReceivedFile[],
+): Promise<boolean> {
+  let root: FileSystemDirectoryHandle;
+  try {
+    root = await (
+      window as unknown as WindowWithDirectoryPicker
+    ).showDirectoryPicker({ mode: 'readwrite' });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return false;
+    throw err;
+  }
+
+  for (const file of files) {
+    const segments = (file.path ?? file.fileName).split('/');
+    const name = segments.pop()!;
+    let directory = root;
+    for (const segment of segments) {
+      directory = await directory.getDirectoryHandle(segment, { create: true });
+    }
+    const handle = await directory.getFileHandle(name, { create: true });
+    const writable = await handle.createWritable();
+    // pipeTo closes the writable on success and aborts it on failure.
+    await file.data.stream().pipeTo(writable);
+  }
+  return true;
+}
@@ -32,6 +32,9 @@ export function createZipTransferSource(
     // the input total remains useful as a progress/storage hint.
     size: null,
     estimatedSize: totalInputBytes,
+    // Entries are stored, not deflated, so the archive compresses like its
+    // contents despite the application/zip type.
+    compressible: true,
     stream: () => createZipStream(files),
   };
 }
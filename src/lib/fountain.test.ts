@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { base64urlEncode, parseChunk } from './chunk-utils';
+import {
+  createFountainDecoder,
+  createFountainEncoder,
+  type FountainDecoder,
+  parseFountainFrame,
+} from './fountain';
+
+function payload(length: number): Uint8Array {
+  const data = new Uint8Array(length);
+  for (let i = 0; i < length; i++) data[i] = (i * 31 + 7) % 256;
+  return data;
+}
+
+function parse(frame: Uint8Array) {
+  const parsed = parseFountainFrame(base64urlEncode(frame));
+  expect(parsed).not.toBeNull();
+  return parsed!;
+}
+
+describe('fountain frames', () => {
+  it('decodes from the systematic frames alone', () => {
+    const original = payload(1000);
+    const encoder = createFountainEncoder(original, 400);
+    expect(encoder.blockCount).toBe(3);
+
+    const decoder = createFountainDecoder(parse(encoder.frame(2)));
+    decoder.addFrame(parse(encoder.frame(0)));
+    expect(decoder.result()).toBeNull();
+    decoder.addFrame(parse(encoder.frame(1)));
+    expect(decoder.result()).toEqual(original);
+  });
+
+  it('recovers the payload whichever frames were missed', () => {
+    const original = payload(7000);
+    const encoder = createFountainEncoder(original, 400);
+    const k = encoder.blockCount;
+
+    // Skip every systematic frame and two of every three repair frames.
+    let decoder: FountainDecoder | null = null;
+    let used = 0;
+    for (let n = k; n < k * 20 && decoder?.result() == null; n += 3) {
+      const frame = parse(encoder.frame(n));
+      if (decoder) decoder.addFrame(frame);
+      else decoder = createFountainDecoder(frame);
+      used++;
+    }
+    expect(decoder?.result()).toEqual(original);
+    // A handful of frames beyond K, not a rescan of the whole set.
+    expect(used).toBeLessThan(k * 2);
+  });
+
+  it('ignores duplicates and frames of another payload', () => {
+    const encoder = createFountainEncoder(payload(900), 400);
+    const decoder = createFountainDecoder(parse(encoder.frame(0)));
+    expect(decoder.addFrame(parse(encoder.frame(0)))).toBe(false);
+
+    const other = createFountainEncoder(payload(901), 400);
+    const foreign = parse(other.frame(1));
+    expect(decoder.accepts(foreign)).toBe(false);
+    expect(decoder.addFrame(foreign)).toBe(false);
+    expect(decoder.rank()).toBe(1);
+  });
+
+  it('fails the checksum on a corrupted frame', () => {
+    const encoder = createFountainEncoder(payload(800), 400);
+    const decoder = createFountainDecoder(parse(encoder.frame(0)));
+    const bad = parse(encoder.frame(1));
+    bad.data[0] ^= 1;
+    decoder.addFrame(bad);
+    expect(decoder.rank()).toBe(2);
+    expect(decoder.result()).toBeNull();
+  });
+
+  it('never parses as a static chunk, nor a static chunk as a frame', () => {
+    const frame = createFountainEncoder(payload(500)).frame(5);
+    expect(parseChunk(base64urlEncode(frame))).toBeNull();
+    expect(
+      parseFountainFrame(base64urlEncode(new Uint8Array([0, 1, 42]))),
+    ).toBe(null);
+  });
+});
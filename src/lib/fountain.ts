@@ -0,0 +1,295 @@
+/**
+ * Fountain-coded QR frames for the animated multi-QR display.
+ *
+ * The payload is cut into K equal source blocks. Frame n carries block n for
+ * n < K (systematic frames), and after that an XOR of a pseudo-random set of
+ * blocks whose size follows the robust soliton distribution (LT coding),
+ * seeded by n. The sender loops through an endless stream of frames; the
+ * receiver decodes from whichever frames it catches, in any order, once it
+ * holds K independent ones — a missed frame costs a later one, not a rescan.
+ *
+ * Decoding is incremental Gaussian elimination over GF(2) rather than LT
+ * peeling: it succeeds as soon as the received frames have full rank, which
+ * matters at the small block counts of a signaling offer.
+ *
+ * Frame wire format (before base64url):
+ *   [1 byte: 0xff marker][2 bytes: block_count_be][4 bytes: payload_length_be]
+ *   [4 bytes: payload_crc32_be][4 bytes: frame_seed_be][block_size bytes: data]
+ *
+ * The marker can never start a static chunk (see chunk-utils.ts), whose index
+ * byte is always below its total of at most 255.
+ */
+
+import { base64urlDecode, computeCrc32 } from './chunk-utils';
+
+export const FOUNTAIN_FRAME_MARKER = 0xff;
+const HEADER_LENGTH = 15;
+
+/** Upper bound on source blocks; keeps the decoder's matrix small. */
+export const MAX_FOUNTAIN_BLOCKS = 1024;
+
+// Robust soliton parameters (Luby's c and delta).
+const SOLITON_C = 0.1;
+const SOLITON_DELTA = 0.5;
+
+export interface FountainFrame {
+  blockCount: number;
+  payloadLength: number;
+  checksum: number;
+  seed: number;
+  data: Uint8Array;
+}
+
+export interface FountainEncoder {
+  blockCount: number;
+  /** Frame n of the endless stream (n is taken modulo 2^32). */
+  frame: (n: number) => Uint8Array;
+}
+
+function blockSizeFor(payloadLength: number, blockCount: number): number {
+  return Math.ceil(payloadLength / blockCount);
+}
+
+// Seeds are small consecutive integers; mix them before driving xorshift,
+// which also must never start at zero.
+function createPrng(seed: number): () => number {
+  let h = seed ^ 0x9e3779b9;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  let state = (h ^ (h >>> 16)) >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state / 0x100000000;
+  };
+}
+
+/** Cumulative robust soliton distribution over degrees 1..k. */
+function solitonCdf(k: number): Float64Array {
+  const weights = new Float64Array(k + 1);
+  const r = SOLITON_C * Math.log(k / SOLITON_DELTA) * Math.sqrt(k);
+  const spike = Math.min(k, Math.max(1, Math.floor(k / r)));
+  for (let d = 1; d <= k; d++) {
+    // Ideal soliton
+    weights[d] = d === 1 ? 1 / k : 1 / (d * (d - 1));
+    // Robust extra mass at low degrees and a spike at k/r
+    if (d < spike) weights[d] += r / (d * k);
+    else if (d === spike) weights[d] += (r * Math.log(r / SOLITON_DELTA)) / k;
+  }
+  const cdf = new Float64Array(k + 1);
+  let total = 0;
+  for (let d = 1; d <= k; d++) total += Math.max(0, weights[d]);
+  let running = 0;
+  for (let d = 1; d <= k; d++) {
+    running += Math.max(0, weights[d]) / total;
+    cdf[d] = running;
+  }
+  cdf[k] = 1;
+  return cdf;
+}
+
+/** The source block indices frame `seed` combines. */
+export function fountainFrameBlocks(
+  blockCount: number,
+  seed: number,
+  cdf: Float64Array = solitonCdf(blockCount),
+): number[] {
+  if (seed < blockCount) return [seed];
+
+  const random = createPrng(seed);
+  const u = random();
+  let degree = 1;
+  while (degree < blockCount && cdf[degree] < u) degree++;
+
+  // Partial Fisher-Yates: the first `degree` entries are a uniform sample.
+  const indices = Array.from({ length: blockCount }, (_, i) => i);
+  for (let i = 0; i < degree; i++) {
+    const j = i + Math.floor(random() * (blockCount - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, degree);
+}
+
+/**
+ * Split a payload into source blocks for fountain framing. Blocks are as
+ * large as a static chunk's data so each frame fits the same QR size.
+ */
+export function createFountainEncoder(
+  binary: Uint8Array,
+  maxBlockBytes = 400,
+): FountainEncoder {
+  if (binary.length === 0) {
+    throw new Error('Payload cannot be empty');
+  }
+  const blockCount = Math.ceil(binary.length / maxBlockBytes);
+  if (blockCount > MAX_FOUNTAIN_BLOCKS) {
+    throw new Error(
+      `Payload too large: would need ${blockCount} blocks (max ${MAX_FOUNTAIN_BLOCKS})`,
+    );
+  }
+
+  const blockSize = blockSizeFor(binary.length, blockCount);
+  const padded = new Uint8Array(blockSize * blockCount);
+  padded.set(binary);
+  const checksum = computeCrc32(binary);
+  const cdf = solitonCdf(blockCount);
+
+  const frame = (n: number): Uint8Array => {
+    const seed = n >>> 0;
+    const out = new Uint8Array(HEADER_LENGTH + blockSize);
+    const view = new DataView(out.buffer);
+    out[0] = FOUNTAIN_FRAME_MARKER;
+    view.setUint16(1, blockCount);
+    view.setUint32(3, binary.length);
+    view.setUint32(7, checksum);
+    view.setUint32(11, seed);
+    const data = out.subarray(HEADER_LENGTH);
+    for (const block of fountainFrameBlocks(blockCount, seed, cdf)) {
+      const start = block * blockSize;
+      for (let i = 0; i < blockSize; i++) data[i] ^= padded[start + i];
+    }
+    return out;
+  };
+
+  return { blockCount, frame };
+}
+
+/** Whether decoded frame bytes carry the fountain marker. */
+export function isFountainFrameBytes(bytes: Uint8Array): boolean {
+  return bytes.length > 0 && bytes[0] === FOUNTAIN_FRAME_MARKER;
+}
+
+/**
+ * Parse a base64url-encoded fountain frame. Returns null if it is not a
+ * well-formed frame.
+ */
+export function parseFountainFrame(encoded: string): FountainFrame | null {
+  try {
+    const bytes = base64urlDecode(encoded);
+    if (bytes.length <= HEADER_LENGTH || !isFountainFrameBytes(bytes)) {
+      return null;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    const blockCount = view.getUint16(1);
+    const payloadLength = view.getUint32(3);
+    if (
+      blockCount === 0 ||
+      blockCount > MAX_FOUNTAIN_BLOCKS ||
+      payloadLength < blockCount ||
+      bytes.length - HEADER_LENGTH !== blockSizeFor(payloadLength, blockCount)
+    ) {
+      return null;
+    }
+    return {
+      blockCount,
+      payloadLength,
+      checksum: view.getUint32(7),
+      seed: view.getUint32(11),
+      data: bytes.slice(HEADER_LENGTH),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export interface FountainDecoder {
+  blockCount: number;
+  /** Independent frames received; the payload is recoverable at blockCount. */
+  rank: () => number;
+  /** Whether a frame belongs to the same payload as this decoder. */
+  accepts: (frame: FountainFrame) => boolean;
+  /** Add a frame; returns true when it carried new information. */
+  addFrame: (frame: FountainFrame) => boolean;
+  /**
+   * The payload once rank reaches blockCount, or null before then and when
+   * the reassembled bytes fail the CRC-32.
+   */
+  result: () => Uint8Array | null;
+}
+
+interface Row {
+  coefficients: Uint8Array;
+  data: Uint8Array;
+}
+
+function xorInto(target: Uint8Array, source: Uint8Array): void {
+  for (let i = 0; i < target.length; i++) target[i] ^= source[i];
+}
+
+function hasBit(bits: Uint8Array, index: number): boolean {
+  return (bits[index >> 3] & (1 << (index & 7))) !== 0;
+}
+
+/** Start decoding the payload `first` belongs to (and add `first`). */
+export function createFountainDecoder(first: FountainFrame): FountainDecoder {
+  const { blockCount, payloadLength, checksum } = first;
+  const cdf = solitonCdf(blockCount);
+  // Kept fully reduced: rows[p] has a 1 in column p and a 0 in every other
+  // pivot column, so a new frame reduces against it in a single pass.
+  const rows: (Row | undefined)[] = new Array(blockCount);
+  const seen = new Set<number>();
+  let rank = 0;
+
+  const accepts = (frame: FountainFrame) =>
+    frame.blockCount === blockCount &&
+    frame.payloadLength === payloadLength &&
+    frame.checksum === checksum;
+
+  const addFrame = (frame: FountainFrame): boolean => {
+    if (!accepts(frame) || rank === blockCount || seen.has(frame.seed)) {
+      return false;
+    }
+    seen.add(frame.seed);
+
+    const coefficients = new Uint8Array(Math.ceil(blockCount / 8));
+    for (const block of fountainFrameBlocks(blockCount, frame.seed, cdf)) {
+      coefficients[block >> 3] |= 1 << (block & 7);
+    }
+    const data = frame.data.slice();
+
+    // Clear every pivot column. Each row is zero in the other pivot columns,
+    // so one pass suffices; non-pivot columns may change along the way.
+    for (let col = 0; col < blockCount; col++) {
+      const row = rows[col];
+      if (row && hasBit(coefficients, col)) {
+        xorInto(coefficients, row.coefficients);
+        xorInto(data, row.data);
+      }
+    }
+    let pivot = 0;
+    while (pivot < blockCount && !hasBit(coefficients, pivot)) pivot++;
+    if (pivot === blockCount) return false;
+
+    for (const row of rows) {
+      if (row && hasBit(row.coefficients, pivot)) {
+        xorInto(row.coefficients, coefficients);
+        xorInto(row.data, data);
+      }
+    }
+    rows[pivot] = { coefficients, data };
+    rank++;
+    return true;
+  };
+
+  const result = (): Uint8Array | null => {
+    if (rank < blockCount) return null;
+    const blockSize = blockSizeFor(payloadLength, blockCount);
+    const out = new Uint8Array(blockSize * blockCount);
+    for (let i = 0; i < blockCount; i++) {
+      out.set((rows[i] as Row).data, i * blockSize);
+    }
+    const payload = out.subarray(0, payloadLength);
+    return computeCrc32(payload) === checksum ? payload : null;
+  };
+
+  addFrame(first);
+  return {
+    blockCount,
+    rank: () => rank,
+    accepts,
+    addFrame,
+    result,
+  };
+}
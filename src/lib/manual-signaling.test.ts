@@ -1,13 +1,19 @@
 import { describe, expect, it } from 'vitest';
+import { derivePassphraseSeal, TRANSFER_EXPIRATION_MS } from './crypto';
+import { ValidationError } from './errors';
 import {
   estimatePayloadSize,
   generateMutualAnswerBinary,
   generateMutualClipboardData,
   generateMutualOfferBinary,
+  getSealedPayloadSalt,
   isMutualPayload,
+  isSealedPayload,
+  isValidBinaryPayload,
   isValidSignalingPayload,
   parseClipboardPayload,
   parseMutualPayload,
+  resolveManualOffer,
   type SignalingPayload,
 } from './manual-signaling';
 
@@ -30,6 +36,7 @@ describe('Manual Signaling Utils', () => {
   it('should generate and parse mutual offer binary correctly', async () => {
     const metadata = {
       createdAt: Date.now(),
+      contentType: 'file' as const,
       fileName: 'test.txt',
       fileSize: 1024,
       fileSizeExact: true,
@@ -55,6 +62,7 @@ describe('Manual Signaling Utils', () => {
     expect(parsed?.candidates).toHaveLength(1);
     expect(parsed?.candidates[0]).toBe(mockCandidates[0].candidate);
     expect(parsed?.fileName).toBe(metadata.fileName);
+    expect(parsed?.contentType).toBe('file');
     expect(parsed?.publicKey).toEqual(Array.from(mockPublicKey));
   });
 
@@ -76,11 +84,28 @@ describe('Manual Signaling Utils', () => {
     expect(parsed?.publicKey).toEqual(Array.from(mockPublicKey));
   });
 
+  it('only de-obfuscates within the current and previous hour bucket', async () => {
+    const binary = await generateMutualAnswerBinary(
+      { type: 'answer', sdp: mockOffer.sdp },
+      mockCandidates,
+      mockPublicKey,
+    );
+    const hour = 3600 * 1000;
+
+    expect(
+      (await parseMutualPayload(binary, undefined, Date.now() + hour))?.type,
+    ).toBe('answer');
+    expect(
+      await parseMutualPayload(binary, undefined, Date.now() + 2 * hour),
+    ).toBeNull();
+  });
+
   it('should obfuscate data (output should not contain cleartext JSON)', async () => {
     const metadata = {
       createdAt: Date.now(),
       publicKey: mockPublicKey,
       salt: mockSalt,
+      contentType: 'file' as const,
       fileName: 'secret-file-name.txt',
       fileSize: 100,
       fileSizeExact: true,
@@ -145,4 +170,114 @@ describe('Manual Signaling Utils', () => {
     const size = await estimatePayloadSize(payload);
     expect(size).toBeGreaterThan(0);
   });
+
+  describe('passphrase-sealed payloads (SS04)', () => {
+    const metadata = {
+      createdAt: Date.now(),
+      contentType: 'file' as const,
+      fileName: 'secret-file-name.txt',
+      fileSize: 1024,
+      fileSizeExact: true,
+      mimeType: 'text/plain',
+      publicKey: mockPublicKey,
+      salt: mockSalt,
+    };
+
+    it('seals the offer and opens it with the same passphrase', async () => {
+      const seal = await derivePassphraseSeal('correct horse');
+      const binary = await generateMutualOfferBinary(
+        mockOffer,
+        mockCandidates,
+        metadata,
+        seal,
+      );
+
+      expect(isSealedPayload(binary)).toBe(true);
+      expect(isMutualPayload(binary)).toBe(false);
+      expect(isValidBinaryPayload(binary)).toBe(true);
+      expect(getSealedPayloadSalt(binary)).toEqual(seal.salt);
+      expect(new TextDecoder().decode(binary)).not.toContain('secret-file');
+
+      // The receiver stretches the typed passphrase with the code's salt.
+      const opened = await derivePassphraseSeal(
+        '  correct horse ',
+        getSealedPayloadSalt(binary)!,
+      );
+      const parsed = await parseMutualPayload(binary, opened);
+      expect(parsed?.fileName).toBe(metadata.fileName);
+      expect(parsed?.publicKey).toEqual(Array.from(mockPublicKey));
+
+      // Without the passphrase the code does not parse at all.
+      expect(await parseMutualPayload(binary)).toBeNull();
+    });
+
+    it('rejects a wrong passphrase, tampering and downgrades', async () => {
+      const seal = await derivePassphraseSeal('correct horse');
+      const answer = await generateMutualAnswerBinary(
+        { type: 'answer', sdp: mockOffer.sdp },
+        mockCandidates,
+        mockPublicKey,
+        Date.now(),
+        seal,
+      );
+      expect((await parseMutualPayload(answer, seal))?.type).toBe('answer');
+
+      const wrong = await derivePassphraseSeal('wrong horse', seal.salt);
+      expect(await parseMutualPayload(answer, wrong)).toBeNull();
+
+      const tampered = answer.slice();
+      tampered[tampered.length - 1] ^= 1;
+      expect(await parseMutualPayload(tampered, seal)).toBeNull();
+
+      // A relay cannot swap in an obfuscated-only answer.
+      const unsealed = await generateMutualAnswerBinary(
+        { type: 'answer', sdp: mockOffer.sdp },
+        mockCandidates,
+        mockPublicKey,
+      );
+      expect(await parseMutualPayload(unsealed, seal)).toBeNull();
+    });
+  });
+
+  describe('resolveManualOffer', () => {
+    const offer: SignalingPayload = {
+      type: 'offer',
+      sdp: 'v=0',
+      candidates: [],
+      createdAt: 1_000,
+      publicKey: Array.from(mockPublicKey),
+      fileName: 'notes.txt',
+      fileSize: 12,
+      fileSizeExact: true,
+      mimeType: 'text/plain',
+      salt: Array.from(mockSalt),
+    };
+
+    it('returns the announced content and the answer keys', () => {
+      expect(resolveManualOffer(offer, 2_000)).toEqual({
+        contentType: 'file',
+        fileName: 'notes.txt',
+        fileSize: 12,
+        fileSizeExact: true,
+        mimeType: 'text/plain',
+        salt: mockSalt,
+        senderPublicKey: mockPublicKey,
+      });
+    });
+
+    it('refuses expired, incomplete and inconsistent offers', () => {
+      expect(() =>
+        resolveManualOffer(offer, 1_000 + TRANSFER_EXPIRATION_MS + 1),
+      ).toThrow(/expired/);
+      expect(() => resolveManualOffer({ ...offer, salt: undefined })).toThrow(
+        ValidationError,
+      );
+      expect(() =>
+        resolveManualOffer(
+          { ...offer, contentType: 'files', fileSizeExact: false },
+          2_000,
+        ),
+      ).toThrow(/unsupported content type/);
+    });
+  });
 });
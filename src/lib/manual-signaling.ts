@@ -1,4 +1,16 @@
 import { deflateSync, inflateSync } from 'fflate';
+import {
+  MAX_MESSAGE_SIZE,
+  openWithPassphrase,
+  type PassphraseSeal,
+  SALT_LENGTH,
+  sealWithPassphrase,
+  TRANSFER_EXPIRATION_MS,
+} from './crypto';
+import { ValidationError } from './errors';
+import { formatFileSize } from './file-utils';
+import type { ContentType } from './nostr/types';
+import { MAX_TEXT_MESSAGE_BYTES } from './text-message';
 
 // Deterministic deflate helpers (avoid browser stream API stalls).
 function deflateCompress(data: Uint8Array): Uint8Array {
@@ -13,6 +25,11 @@ function deflateDecompress(data: Uint8Array): Uint8Array {
 const MAGIC_HEADER_V3 = new Uint8Array([0x53, 0x53, 0x30, 0x33]);
 // Inner magic: "mag!" (0x6d 0x61 0x67 0x21) - inside obfuscated area to verify seed
 const INNER_MAGIC_V3 = new Uint8Array([0x6d, 0x61, 0x67, 0x21]);
+// Magic header: "SS04" = passphrase-sealed payload. Layout:
+// [SS04][passphrase salt (16)][nonce (12)][AES-GCM(deflated JSON) + tag]
+// The magic and salt are the AES-GCM additional data.
+const MAGIC_HEADER_V4 = new Uint8Array([0x53, 0x53, 0x30, 0x34]);
+const SEALED_HEADER_LENGTH = 4 + SALT_LENGTH;
 const BUCKET_SEC = 3600; // 1 hour
 const BASE_SEED = 0x9e3779b9;
 
@@ -57,6 +74,8 @@ export interface SignalingPayload {
   // ECDH public key for mutual exchange (65 bytes P-256 uncompressed)
   publicKey: number[];
   // Offer-only fields:
+  // 'files' announces a multi-file payload with a MANIFEST; absent means 'file'.
+  contentType?: ContentType;
   fileName?: string;
   fileSize?: number;
   fileSizeExact?: boolean;
@@ -110,11 +129,102 @@ export function isValidSignalingPayload(
   return true;
 }
 
+/** A validated offer: what it announces and the keys its answer needs. */
+export interface ManualOffer {
+  contentType: ContentType;
+  fileName: string;
+  fileSize: number;
+  fileSizeExact: boolean;
+  mimeType: string;
+  salt: Uint8Array;
+  senderPublicKey: Uint8Array;
+}
+
 /**
- * Validate binary payload has correct magic header (SS03, version 3)
+ * Check an offer before answering it: unexpired, complete, and within the
+ * size and content-type limits.
+ * @throws ValidationError naming what is wrong with the offer
+ */
+export function resolveManualOffer(
+  payload: SignalingPayload,
+  now = Date.now(),
+): ManualOffer {
+  if (payload.type !== 'offer') {
+    throw new ValidationError('Expected offer, got answer');
+  }
+  if (
+    typeof payload.createdAt !== 'number' ||
+    !Number.isFinite(payload.createdAt)
+  ) {
+    throw new ValidationError(
+      'Offer missing timestamp. Ask sender to create a new one.',
+    );
+  }
+  if (now - payload.createdAt > TRANSFER_EXPIRATION_MS) {
+    throw new ValidationError('Offer expired. Ask sender to create a new one.');
+  }
+
+  const {
+    contentType = 'file',
+    fileName,
+    fileSize,
+    fileSizeExact,
+    mimeType,
+    salt,
+  } = payload;
+  if (!salt) {
+    throw new ValidationError('Invalid offer: missing encryption salt');
+  }
+  if (
+    !fileName ||
+    !mimeType ||
+    typeof fileSize !== 'number' ||
+    !Number.isFinite(fileSize) ||
+    fileSize < 0 ||
+    typeof fileSizeExact !== 'boolean'
+  ) {
+    throw new ValidationError(
+      'Invalid offer: missing or invalid file metadata',
+    );
+  }
+
+  // Multi-file payloads are exact-size (the manifest partitions them); a text
+  // message is a small exact-size payload.
+  if (
+    !(
+      contentType === 'file' ||
+      (contentType === 'files' && fileSizeExact) ||
+      (contentType === 'text' &&
+        fileSizeExact &&
+        fileSize <= MAX_TEXT_MESSAGE_BYTES)
+    )
+  ) {
+    throw new ValidationError('Invalid offer: unsupported content type');
+  }
+
+  if (fileSize > MAX_MESSAGE_SIZE) {
+    throw new ValidationError(
+      `Transfer rejected: Size (${formatFileSize(fileSize)}) exceeds limit (${formatFileSize(MAX_MESSAGE_SIZE)})`,
+    );
+  }
+
+  return {
+    contentType,
+    fileName,
+    fileSize,
+    fileSizeExact,
+    mimeType,
+    salt: new Uint8Array(salt),
+    senderPublicKey: new Uint8Array(payload.publicKey),
+  };
+}
+
+/**
+ * Validate binary payload has a known magic header (SS03 obfuscated or SS04
+ * passphrase-sealed)
  */
 export function isValidBinaryPayload(binary: Uint8Array): boolean {
-  return isMutualPayload(binary);
+  return isMutualPayload(binary) || isSealedPayload(binary);
 }
 
 /**
@@ -126,16 +236,58 @@ export function estimatePayloadSize(payload: SignalingPayload): number {
   return 4 + 4 + compressed.length; // 4 for SS03, 4 for INNER_MAGIC_V3
 }
 
+/**
+ * Encode a payload as SS04 when a passphrase seal is given, SS03 otherwise.
+ */
+async function encodeSignalingPayload(
+  payload: SignalingPayload,
+  seal?: PassphraseSeal,
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const jsonBytes = encoder.encode(JSON.stringify(payload));
+  const compressed = deflateCompress(jsonBytes);
+
+  if (seal) {
+    const header = new Uint8Array(SEALED_HEADER_LENGTH);
+    header.set(MAGIC_HEADER_V4, 0);
+    header.set(seal.salt, 4);
+    const sealed = await sealWithPassphrase(seal, compressed, header);
+
+    // Final binary: [SS04][salt][nonce + ciphertext + tag]
+    const result = new Uint8Array(header.length + sealed.length);
+    result.set(header, 0);
+    result.set(sealed, header.length);
+    return result;
+  }
+
+  // Build inner: [mag!][compressed]
+  const inner = new Uint8Array(4 + compressed.length);
+  inner.set(INNER_MAGIC_V3, 0);
+  inner.set(compressed, 4);
+
+  const currentBucket = Math.floor(Date.now() / 1000 / BUCKET_SEC);
+  const seed = getSeedForBucket(currentBucket);
+  const obfuscatedInner = xorObfuscate(inner, seed);
+
+  // Final binary: [SS03][obfuscatedInner]
+  const result = new Uint8Array(4 + obfuscatedInner.length);
+  result.set(MAGIC_HEADER_V3, 0);
+  result.set(obfuscatedInner, 4);
+  return result;
+}
+
 /**
  * Generate mutual offer as binary data
- * Format: [SS03 magic (4 bytes)][obfuscated compressed payload]
- * NOT encrypted - ECDH public keys are not secret
+ * Format: [SS03 magic (4 bytes)][obfuscated compressed payload], or SS04
+ * sealed under `seal` when the sender set a passphrase
+ * SS03 is NOT encrypted - ECDH public keys are not secret
  */
 export function generateMutualOfferBinary(
   offer: RTCSessionDescriptionInit,
   candidates: RTCIceCandidate[],
   metadata: {
     createdAt: number;
+    contentType: ContentType;
     fileName: string;
     fileSize: number;
     fileSizeExact: boolean;
@@ -143,12 +295,14 @@ export function generateMutualOfferBinary(
     publicKey: Uint8Array; // ECDH public key (65 bytes)
     salt: Uint8Array; // Salt for AES key derivation
   },
-): Uint8Array {
+  seal?: PassphraseSeal,
+): Promise<Uint8Array> {
   const payload: SignalingPayload = {
     type: 'offer',
     sdp: offer.sdp || '',
     candidates: candidates.map((c) => c.candidate),
     createdAt: metadata.createdAt,
+    contentType: metadata.contentType,
     fileName: metadata.fileName,
     fileSize: metadata.fileSize,
     fileSizeExact: metadata.fileSizeExact,
@@ -157,36 +311,21 @@ export function generateMutualOfferBinary(
     salt: Array.from(metadata.salt),
   };
 
-  const encoder = new TextEncoder();
-  const jsonBytes = encoder.encode(JSON.stringify(payload));
-  const compressed = deflateCompress(jsonBytes);
-
-  // Build inner: [mag!][compressed]
-  const inner = new Uint8Array(4 + compressed.length);
-  inner.set(INNER_MAGIC_V3, 0);
-  inner.set(compressed, 4);
-
-  const currentBucket = Math.floor(Date.now() / 1000 / BUCKET_SEC);
-  const seed = getSeedForBucket(currentBucket);
-  const obfuscatedInner = xorObfuscate(inner, seed);
-
-  // Final binary: [SS03][obfuscatedInner]
-  const result = new Uint8Array(4 + obfuscatedInner.length);
-  result.set(MAGIC_HEADER_V3, 0);
-  result.set(obfuscatedInner, 4);
-  return result;
+  return encodeSignalingPayload(payload, seal);
 }
 
 /**
  * Generate mutual answer as binary data
- * Format: [SS03 magic (4 bytes)][obfuscated compressed payload]
+ * Format: [SS03 magic (4 bytes)][obfuscated compressed payload], or SS04
+ * sealed under the offer's `seal`
  */
 export function generateMutualAnswerBinary(
   answer: RTCSessionDescriptionInit,
   candidates: RTCIceCandidate[],
   publicKey: Uint8Array, // ECDH public key (65 bytes)
   createdAt: number = Date.now(),
-): Uint8Array {
+  seal?: PassphraseSeal,
+): Promise<Uint8Array> {
   const payload: SignalingPayload = {
     type: 'answer',
     sdp: answer.sdp || '',
@@ -195,24 +334,7 @@ export function generateMutualAnswerBinary(
     publicKey: Array.from(publicKey),
   };
 
-  const encoder = new TextEncoder();
-  const jsonBytes = encoder.encode(JSON.stringify(payload));
-  const compressed = deflateCompress(jsonBytes);
-
-  // Build inner: [mag!][compressed]
-  const inner = new Uint8Array(4 + compressed.length);
-  inner.set(INNER_MAGIC_V3, 0);
-  inner.set(compressed, 4);
-
-  const currentBucket = Math.floor(Date.now() / 1000 / BUCKET_SEC);
-  const seed = getSeedForBucket(currentBucket);
-  const obfuscatedInner = xorObfuscate(inner, seed);
-
-  // Final binary: [SS03][obfuscatedInner]
-  const result = new Uint8Array(4 + obfuscatedInner.length);
-  result.set(MAGIC_HEADER_V3, 0);
-  result.set(obfuscatedInner, 4);
-  return result;
+  return encodeSignalingPayload(payload, seal);
 }
 
 /**
@@ -227,18 +349,27 @@ export function isValidPublicKeyArray(arr: unknown): arr is number[] {
 
 /**
  * Parse mutual exchange binary payload (offer or answer)
- * Returns null if invalid format or version
+ * Returns null if invalid format or version.
+ *
+ * With a `seal`, only an SS04 payload sealed under that same passphrase and
+ * salt parses — an SS03 payload is refused, so a relay of the codes cannot
+ * downgrade a passphrase-protected exchange. Without one, only SS03 parses.
+ *
+ * An SS03 payload only de-obfuscates within about two hours of `now`.
  */
-export function parseMutualPayload(
+export async function parseMutualPayload(
   binary: Uint8Array,
-): SignalingPayload | null {
+  seal?: PassphraseSeal,
+  now = Date.now(),
+): Promise<SignalingPayload | null> {
+  if (seal) return parseSealedPayload(binary, seal);
   try {
     if (!isMutualPayload(binary)) {
       return null;
     }
 
     const obfuscatedInner = binary.subarray(4);
-    const currentBucket = Math.floor(Date.now() / 1000 / BUCKET_SEC);
+    const currentBucket = Math.floor(now / 1000 / BUCKET_SEC);
 
     // Try current and previous bucket (approx 2 hours window)
     for (let i = 0; i <= 1; i++) {
@@ -274,6 +405,57 @@ export function parseMutualPayload(
   }
 }
 
+async function parseSealedPayload(
+  binary: Uint8Array,
+  seal: PassphraseSeal,
+): Promise<SignalingPayload | null> {
+  const salt = getSealedPayloadSalt(binary);
+  if (!salt || !equalBytes(salt, seal.salt)) return null;
+  const compressed = await openWithPassphrase(
+    seal,
+    binary.subarray(SEALED_HEADER_LENGTH),
+    binary.subarray(0, SEALED_HEADER_LENGTH),
+  );
+  if (!compressed) return null;
+  try {
+    const json = new TextDecoder().decode(deflateDecompress(compressed));
+    const payload = JSON.parse(json);
+    return isValidSignalingPayload(payload) ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Check if binary payload is passphrase-sealed (SS04)
+ */
+export function isSealedPayload(binary: Uint8Array): boolean {
+  if (binary.length < SEALED_HEADER_LENGTH) return false;
+  return (
+    binary[0] === MAGIC_HEADER_V4[0] &&
+    binary[1] === MAGIC_HEADER_V4[1] &&
+    binary[2] === MAGIC_HEADER_V4[2] &&
+    binary[3] === MAGIC_HEADER_V4[3]
+  );
+}
+
+/**
+ * The passphrase salt of an SS04 payload, needed to stretch the passphrase
+ * before the payload can be opened. Null for any other payload.
+ */
+export function getSealedPayloadSalt(binary: Uint8Array): Uint8Array | null {
+  if (!isSealedPayload(binary)) return null;
+  return binary.slice(4, SEALED_HEADER_LENGTH);
+}
+
 /**
  * Check if binary payload is mutual exchange format (SS03, version 3)
  */
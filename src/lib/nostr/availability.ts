@@ -1,4 +1,4 @@
-import { DEFAULT_RELAYS } from './relays';
+import { getRelays } from './relays';
 
 const RELAY_PROBE_TIMEOUT = 3000;
 
@@ -44,10 +44,10 @@ function probeRelay(url: string): Promise<string | null> {
  * Test Nostr relay availability by attempting WebSocket connections.
  * Probes all relays in parallel and returns which ones are available.
  *
- * @param relays - Relay URLs to test (defaults to DEFAULT_RELAYS)
+ * @param relays - Relay URLs to test (defaults to the configured list)
  */
 export async function testRelayAvailability(
-  relays: string[] = [...DEFAULT_RELAYS],
+  relays: string[] = getRelays(),
 ): Promise<RelayAvailabilityResult> {
   try {
     const results = await Promise.all(relays.map((url) => probeRelay(url)));
@@ -1,5 +1,5 @@
 import { type Event, type Filter, mergeFilters, SimplePool } from 'nostr-tools';
-import { DEFAULT_RELAYS } from './relays';
+import { getRelays } from './relays';
 
 /** Normalize relay URL by removing trailing slashes */
 function normalizeRelayUrl(url: string): string {
@@ -12,7 +12,7 @@ export class NostrClient {
   private subscriptions: Map<string, { close: () => void }>;
   private connectionReady: Promise<void>;
 
-  constructor(relays: string[] = [...DEFAULT_RELAYS]) {
+  constructor(relays: string[] = getRelays()) {
     this.pool = new SimplePool();
     // Normalize and dedupe relay URLs
     this.relays = [...new Set(relays.map(normalizeRelayUrl))];
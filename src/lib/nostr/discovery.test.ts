@@ -0,0 +1,240 @@
+import type { Event } from 'nostr-tools';
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { WebSocket } from 'ws';
+import { memoryStorage } from '../../test/memory-storage';
+import { type RelayStub, startRelayStub } from '../../test/nostr-relay';
+import {
+  collectCandidates,
+  DISCOVERED_RELAY_COUNT,
+  discoverRelays,
+  EVENT_KIND_RELAY_DISCOVERY,
+  EVENT_KIND_RELAY_LIST,
+  getSignalingRelays,
+  MIN_RELAY_MESSAGE_BYTES,
+  type RelayProbe,
+  rankRelays,
+  setRelayDiscoveryEnabled,
+} from './discovery';
+import { DEFAULT_RELAYS, saveRelays } from './relays';
+
+function event(kind: number, tags: string[][]): Event {
+  return {
+    kind,
+    tags,
+    content: '',
+    created_at: 1700000000,
+    pubkey: '0'.repeat(64),
+    id: '1'.repeat(64),
+    sig: '2'.repeat(128),
+  };
+}
+
+const relayList = (...urls: string[]) =>
+  event(
+    EVENT_KIND_RELAY_LIST,
+    urls.map((url) => ['r', url]),
+  );
+
+const monitorReport = (url: string, tags: string[][] = []) =>
+  event(EVENT_KIND_RELAY_DISCOVERY, [['d', url], ...tags]);
+
+function probe(url: string, overrides: Partial<RelayProbe> = {}): RelayProbe {
+  return {
+    url,
+    mentions: 0,
+    latencyMs: 100,
+    info: {
+      authRequired: false,
+      paymentRequired: false,
+      supportedNips: [1, 40],
+    },
+    ...overrides,
+  };
+}
+
+describe('collectCandidates', () => {
+  it('counts each relay list once and orders by mentions', () => {
+    const candidates = collectCandidates([
+      relayList('wss://a.example.com', 'wss://b.example.com/'),
+      relayList('wss://b.example.com', 'wss://b.example.com'),
+      relayList('https://not-a-relay.example.com', 'garbage'),
+    ]);
+    expect(candidates).toEqual([
+      { url: 'wss://b.example.com', mentions: 2 },
+      { url: 'wss://a.example.com', mentions: 1 },
+    ]);
+  });
+
+  it('reads monitor round-trip times and access requirements', () => {
+    const [fast, paid] = collectCandidates([
+      monitorReport('wss://fast.example.com', [['rtt-open', '80']]),
+      monitorReport('wss://paid.example.com', [
+        ['rtt-open', '150'],
+        ['R', 'payment'],
+      ]),
+    ]);
+    expect(fast).toEqual({
+      url: 'wss://fast.example.com',
+      mentions: 0,
+      monitorRttMs: 80,
+    });
+    expect(paid.restricted).toBe(true);
+  });
+});
+
+describe('rankRelays', () => {
+  it('drops relays that cannot carry signaling', () => {
+    const ranked = rankRelays([
+      probe('wss://ok.example.com'),
+      probe('wss://down.example.com', { latencyMs: null }),
+      probe('wss://auth.example.com', {
+        info: { authRequired: true, paymentRequired: false, supportedNips: [] },
+      }),
+      probe('wss://paid.example.com', {
+        info: { authRequired: false, paymentRequired: true, supportedNips: [] },
+      }),
+      probe('wss://tiny.example.com', {
+        info: {
+          authRequired: false,
+          paymentRequired: false,
+          supportedNips: [40],
+          maxMessageLength: MIN_RELAY_MESSAGE_BYTES - 1,
+        },
+      }),
+    ]);
+    expect(ranked.map((relay) => relay.url)).toEqual(['wss://ok.example.com']);
+  });
+
+  it('orders by latency, penalizing missing NIP-40 or NIP-11', () => {
+    const ranked = rankRelays([
+      probe('wss://no-info.example.com', { latencyMs: 50, info: null }),
+      probe('wss://no-expiry.example.com', {
+        latencyMs: 60,
+        info: {
+          authRequired: false,
+          paymentRequired: false,
+          supportedNips: [1],
+        },
+      }),
+      probe('wss://slow.example.com', { latencyMs: 200 }),
+      probe('wss://popular.example.com', { latencyMs: 200, mentions: 5 }),
+    ]);
+    expect(ranked.map((relay) => relay.url)).toEqual([
+      'wss://popular.example.com',
+      'wss://slow.example.com',
+      'wss://no-expiry.example.com',
+      'wss://no-info.example.com',
+    ]);
+  });
+
+  it('returns at most the requested number', () => {
+    const probes = ['a', 'b', 'c'].map((name) =>
+      probe(`wss://${name}.example.com`),
+    );
+    expect(rankRelays(probes, 2)).toHaveLength(2);
+  });
+});
+
+describe('discoverRelays', () => {
+  let seed: RelayStub;
+  let fast: RelayStub;
+  let slow: RelayStub;
+  // A relay that refuses connections: its port is closed.
+  let down: string;
+
+  beforeAll(async () => {
+    // The probes open connections through the global WebSocket, which
+    // Node 20 lacks.
+    vi.stubGlobal('WebSocket', WebSocket);
+    fast = await startRelayStub({
+      latencyMs: 5,
+      info: { supported_nips: [1, 11, 40] },
+    });
+    slow = await startRelayStub({
+      latencyMs: 250,
+      info: { supported_nips: [1, 11, 40] },
+    });
+    const closed = await startRelayStub();
+    down = closed.url;
+    await closed.close();
+    seed = await startRelayStub();
+    seed.stored.push(
+      relayList(fast.url, slow.url),
+      relayList(fast.url, down),
+      monitorReport('wss://paid.example.com', [['R', 'payment']]),
+    );
+  });
+
+  afterAll(async () => {
+    await Promise.all([seed.close(), fast.close(), slow.close()]);
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(() => {
+    seed.requests.length = 0;
+    vi.stubGlobal('sessionStorage', memoryStorage());
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  it('probes the candidates the seeds know about and ranks them', async () => {
+    const ranked = await discoverRelays({ seeds: [seed.url] });
+    expect(ranked.map((relay) => relay.url)).toEqual([fast.url, slow.url]);
+    expect(ranked[0]).toMatchObject({
+      mentions: 2,
+      info: { supportedNips: [1, 11, 40] },
+    });
+    expect(seed.requests).toEqual([
+      {
+        kinds: [EVENT_KIND_RELAY_LIST, EVENT_KIND_RELAY_DISCOVERY],
+        limit: 200,
+      },
+    ]);
+  });
+
+  it('reuses cached probes until they expire', async () => {
+    let now = 1_000_000;
+    await discoverRelays({ seeds: [seed.url], now: () => now });
+    now += 60_000;
+    await discoverRelays({ seeds: [seed.url], now: () => now });
+    expect(seed.requests).toHaveLength(1);
+
+    now += 60 * 60 * 1000;
+    await discoverRelays({ seeds: [seed.url], now: () => now });
+    expect(seed.requests).toHaveLength(2);
+  });
+
+  it('adds discovered relays to the configured list only when enabled', async () => {
+    saveRelays(['wss://own.example.com', slow.url]);
+    // Seed the cache so getSignalingRelays, which uses the default seeds,
+    // does not go looking for them.
+    await discoverRelays({ seeds: [seed.url] });
+
+    expect(await getSignalingRelays()).toEqual([
+      'wss://own.example.com',
+      slow.url,
+    ]);
+
+    setRelayDiscoveryEnabled(true);
+    const relays = await getSignalingRelays();
+    expect(relays).toEqual(['wss://own.example.com', slow.url, fast.url]);
+    expect(relays.length).toBeLessThanOrEqual(2 + DISCOVERED_RELAY_COUNT);
+  });
+
+  it('keeps the defaults when nothing is configured or discovered', async () => {
+    // An unreachable seed caches an empty discovery, which keeps
+    // getSignalingRelays off the default seeds on the public network.
+    await discoverRelays({ seeds: [down] });
+    setRelayDiscoveryEnabled(true);
+    expect(
+      (await getSignalingRelays()).slice(0, DEFAULT_RELAYS.length),
+    ).toEqual([...DEFAULT_RELAYS]);
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * Relay discovery: find relays beyond the configured list and rank them.
+ *
+ * Candidates come from seed relays: NIP-65 relay lists (kind 10002, whose `r`
+ * tags name the relays people use) and NIP-66 relay monitor reports (kind
+ * 30166, one per relay, with its round-trip time and access requirements).
+ * The most-mentioned candidates are then probed directly: the WebSocket
+ * open time, and the NIP-11 information document for auth/payment
+ * requirements, supported NIPs and the largest message the relay accepts.
+ *
+ * Probes are cached in sessionStorage for `DISCOVERY_CACHE_TTL_MS`, so a tab
+ * probes at most once per half hour. Discovery is opt-in (Settings page): it
+ * contacts many relays, each of which learns this client's IP address.
+ */
+
+import type { Event, Filter } from 'nostr-tools';
+import { getRelays, MAX_RELAYS, parseRelayUrl } from './relays';
+
+/** NIP-65 relay list metadata. */
+export const EVENT_KIND_RELAY_LIST = 10002;
+/** NIP-66 relay discovery (monitor report). */
+export const EVENT_KIND_RELAY_DISCOVERY = 30166;
+
+/** Relays asked for relay lists and monitor reports. */
+export const DISCOVERY_SEED_RELAYS = [
+  'wss://purplepag.es',
+  'wss://relay.nostr.watch',
+  'wss://relay.damus.io',
+  'wss://nos.lol',
+] as const;
+
+/** Discovered relays added to the configured list. */
+export const DISCOVERED_RELAY_COUNT = 4;
+
+const DISCOVERY_CACHE_KEY = 'secure-send:relay-discovery';
+const DISCOVERY_ENABLED_KEY = 'secure-send:relay-discovery-enabled';
+const DISCOVERY_CACHE_TTL_MS = 30 * 60 * 1000;
+const QUERY_TIMEOUT_MS = 4000;
+const PROBE_TIMEOUT_MS = 3000;
+const SEED_EVENT_LIMIT = 200;
+/** Candidates probed per discovery run, most-mentioned first. */
+const MAX_PROBED_CANDIDATES = 16;
+
+/**
+ * Smallest per-message limit a signaling relay may advertise. An offer with
+ * its ICE candidates, sealed and base64-encoded, stays well below this.
+ */
+export const MIN_RELAY_MESSAGE_BYTES = 32 * 1024;
+/** Ranking penalty for a relay without NIP-40 (rendezvous events expire). */
+const NO_EXPIRATION_PENALTY_MS = 200;
+/** Ranking penalty for a relay that serves no NIP-11 document. */
+const NO_INFO_PENALTY_MS = 300;
+
+export interface RelayCandidate {
+  url: string;
+  /** NIP-65 lists naming the relay. */
+  mentions: number;
+  /** Open round-trip time reported by a NIP-66 monitor, if any. */
+  monitorRttMs?: number;
+  /** A monitor reported that the relay requires auth or payment. */
+  restricted?: boolean;
+}
+
+/** The parts of a NIP-11 relay information document that matter here. */
+export interface RelayInfo {
+  authRequired: boolean;
+  paymentRequired: boolean;
+  supportedNips: number[];
+  maxMessageLength?: number;
+}
+
+export interface RelayProbe {
+  url: string;
+  mentions: number;
+  /** Time to open a WebSocket, or null when the relay was unreachable. */
+  latencyMs: number | null;
+  /** Null when the relay serves no readable NIP-11 document. */
+  info: RelayInfo | null;
+}
+
+/**
+ * Collect candidate relays from NIP-65 and NIP-66 events, most mentioned
+ * first. Invalid URLs are dropped.
+ */
+export function collectCandidates(events: readonly Event[]): RelayCandidate[] {
+  const candidates = new Map<string, RelayCandidate>();
+  const candidate = (raw: string | undefined) => {
+    const url = raw ? parseRelayUrl(raw) : null;
+    if (!url) return null;
+    let entry = candidates.get(url);
+    if (!entry) {
+      entry = { url, mentions: 0 };
+      candidates.set(url, entry);
+    }
+    return entry;
+  };
+
+  for (const event of events) {
+    if (event.kind === EVENT_KIND_RELAY_LIST) {
+      const named = new Set(
+        event.tags.filter((tag) => tag[0] === 'r').map((tag) => tag[1]),
+      );
+      for (const url of named) {
+        const entry = candidate(url);
+        if (entry) entry.mentions++;
+      }
+    } else if (event.kind === EVENT_KIND_RELAY_DISCOVERY) {
+      const entry = candidate(event.tags.find((tag) => tag[0] === 'd')?.[1]);
+      if (!entry) continue;
+      const rtt = Number(event.tags.find((tag) => tag[0] === 'rtt-open')?.[1]);
+      if (Number.isFinite(rtt) && rtt > 0) {
+        entry.monitorRttMs = Math.min(entry.monitorRttMs ?? rtt, rtt);
+      }
+      if (
+        event.tags.some(
+          (tag) =>
+            tag[0] === 'R' && (tag[1] === 'auth' || tag[1] === 'payment'),
+        )
+      ) {
+        entry.restricted = true;
+      }
+    }
+  }
+
+  return [...candidates.values()].sort(
+    (a, b) =>
+      b.mentions - a.mentions ||
+      (a.monitorRttMs ?? Number.POSITIVE_INFINITY) -
+        (b.monitorRttMs ?? Number.POSITIVE_INFINITY) ||
+      a.url.localeCompare(b.url),
+  );
+}
+
+/** Whether a probed relay can carry this app's signaling at all. */
+function usable(probe: RelayProbe): boolean {
+  if (probe.latencyMs === null) return false;
+  const info = probe.info;
+  if (!info) return true;
+  return (
+    !info.authRequired &&
+    !info.paymentRequired &&
+    (info.maxMessageLength === undefined ||
+      info.maxMessageLength >= MIN_RELAY_MESSAGE_BYTES)
+  );
+}
+
+function score(probe: RelayProbe): number {
+  let value = probe.latencyMs ?? Number.POSITIVE_INFINITY;
+  if (!probe.info) value += NO_INFO_PENALTY_MS;
+  else if (!probe.info.supportedNips.includes(40)) {
+    value += NO_EXPIRATION_PENALTY_MS;
+  }
+  return value;
+}
+
+/**
+ * Rank probed relays, best first, dropping unreachable ones and any that
+ * require auth or payment or cap messages below `MIN_RELAY_MESSAGE_BYTES`.
+ * Lower latency wins; a relay without NIP-40 or without a NIP-11 document is
+ * ranked as if it were slower. Ties go to the more-mentioned relay.
+ */
+export function rankRelays(
+  probes: readonly RelayProbe[],
+  limit = Number.POSITIVE_INFINITY,
+): RelayProbe[] {
+  return probes
+    .filter(usable)
+    .sort(
+      (a, b) =>
+        score(a) - score(b) ||
+        b.mentions - a.mentions ||
+        a.url.localeCompare(b.url),
+    )
+    .slice(0, limit);
+}
+
+/** Fetch events from one relay; resolves with whatever arrived before EOSE or the timeout. */
+export function queryRelay(url: string, filter: Filter): Promise<Event[]> {
+  return new Promise((resolve) => {
+    const events: Event[] = [];
+    const subId = `discovery-${Math.random().toString(36).slice(2, 10)}`;
+    let ws: WebSocket | null = null;
+    const finish = () => {
+      clearTimeout(timeout);
+      try {
+        ws?.close();
+      } catch {
+        // ignore
+      }
+      resolve(events);
+    };
+    const timeout = setTimeout(finish, QUERY_TIMEOUT_MS);
+    try {
+      ws = new WebSocket(url);
+      ws.onopen = () => ws?.send(JSON.stringify(['REQ', subId, filter]));
+      ws.onmessage = (message: MessageEvent) => {
+        let data: unknown;
+        try {
+          data = JSON.parse(String(message.data));
+        } catch {
+          return;
+        }
+        if (!Array.isArray(data) || data[1] !== subId) return;
+        if (data[0] === 'EVENT' && data[2] && typeof data[2] === 'object') {
+          events.push(data[2] as Event);
+        } else if (data[0] === 'EOSE' || data[0] === 'CLOSED') {
+          finish();
+        }
+      };
+      ws.onerror = finish;
+    } catch {
+      finish();
+    }
+  });
+}
+
+/** Time to open a WebSocket to `url`, or null when it did not open in time. */
+export function measureRelayLatency(url: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    const started = performance.now();
+    let ws: WebSocket | null = null;
+    const settle = (latency: number | null) => {
+      clearTimeout(timeout);
+      try {
+        ws?.close();
+      } catch {
+        // ignore
+      }
+      resolve(latency);
+    };
+    const timeout = setTimeout(() => settle(null), PROBE_TIMEOUT_MS);
+    try {
+      ws = new WebSocket(url);
+      ws.onopen = () => settle(Math.round(performance.now() - started));
+      ws.onerror = () => settle(null);
+    } catch {
+      settle(null);
+    }
+  });
+}
+
+/** Read a relay's NIP-11 information document, or null if it has none. */
+export async function fetchRelayInfo(url: string): Promise<RelayInfo | null> {
+  const httpUrl = url.replace(/^ws/, 'http');
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    const response = await fetch(httpUrl, {
+      headers: { Accept: 'application/nostr+json' },
+      signal: controller.signal,
+    });
+    if (!response.ok) return null;
+    const doc = (await response.json()) as {
+      supported_nips?: unknown;
+      limitation?: {
+        auth_required?: unknown;
+        payment_required?: unknown;
+        max_message_length?: unknown;
+      };
+    };
+    const limitation = doc.limitation ?? {};
+    return {
+      authRequired: limitation.auth_required === true,
+      paymentRequired: limitation.payment_required === true,
+      supportedNips: Array.isArray(doc.supported_nips)
+        ? doc.supported_nips.filter(
+            (nip): nip is number => typeof nip === 'number',
+          )
+        : [],
+      maxMessageLength:
+        typeof limitation.max_message_length === 'number'
+          ? limitation.max_message_length
+          : undefined,
+    };
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function probeCandidate(candidate: RelayCandidate): Promise<RelayProbe> {
+  const [latencyMs, info] = await Promise.all([
+    measureRelayLatency(candidate.url),
+    fetchRelayInfo(candidate.url),
+  ]);
+  return { url: candidate.url, mentions: candidate.mentions, latencyMs, info };
+}
+
+interface DiscoveryCache {
+  probedAt: number;
+  probes: RelayProbe[];
+}
+
+function readCache(now: number): RelayProbe[] | null {
+  try {
+    const stored = sessionStorage.getItem(DISCOVERY_CACHE_KEY);
+    if (!stored) return null;
+    const cache = JSON.parse(stored) as DiscoveryCache;
+    if (
+      typeof cache.probedAt !== 'number' ||
+      !Array.isArray(cache.probes) ||
+      now - cache.probedAt > DISCOVERY_CACHE_TTL_MS ||
+      cache.probedAt > now
+    ) {
+      return null;
+    }
+    return cache.probes;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(probes: RelayProbe[], now: number): void {
+  try {
+    const cache: DiscoveryCache = { probedAt: now, probes };
+    sessionStorage.setItem(DISCOVERY_CACHE_KEY, JSON.stringify(cache));
+  } catch {
+    // A tab without storage just probes again next time.
+  }
+}
+
+export interface DiscoverRelaysOptions {
+  seeds?: readonly string[];
+  /** Skip the cache and probe again. */
+  refresh?: boolean;
+  now?: () => number;
+}
+
+/**
+ * Discover and probe relays, returning every usable one ranked best first
+ * (see rankRelays). Uses the cached probes while they are fresh.
+ */
+export async function discoverRelays(
+  opts: DiscoverRelaysOptions = {},
+): Promise<RelayProbe[]> {
+  const now = opts.now ?? Date.now;
+  const cached = opts.refresh ? null : readCache(now());
+  if (cached) return rankRelays(cached);
+
+  const seeds = opts.seeds ?? DISCOVERY_SEED_RELAYS;
+  const results = await Promise.all(
+    seeds.map((seed) =>
+      queryRelay(seed, {
+        kinds: [EVENT_KIND_RELAY_LIST, EVENT_KIND_RELAY_DISCOVERY],
+        limit: SEED_EVENT_LIMIT,
+      }),
+    ),
+  );
+  const candidates = collectCandidates(results.flat())
+    .filter((candidate) => !candidate.restricted)
+    .slice(0, MAX_PROBED_CANDIDATES);
+  const probes = await Promise.all(candidates.map(probeCandidate));
+  writeCache(probes, now());
+  return rankRelays(probes);
+}
+
+/** Whether discovered relays are added to the configured list. */
+export function isRelayDiscoveryEnabled(): boolean {
+  try {
+    return localStorage.getItem(DISCOVERY_ENABLED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setRelayDiscoveryEnabled(enabled: boolean): void {
+  if (enabled) localStorage.setItem(DISCOVERY_ENABLED_KEY, 'true');
+  else localStorage.removeItem(DISCOVERY_ENABLED_KEY);
+}
+
+/**
+ * Relays for a Nostr client: the configured list, followed (when discovery is
+ * enabled) by the best `DISCOVERED_RELAY_COUNT` discovered relays not already
+ * in it. Discovery failures leave just the configured list.
+ */
+export async function getSignalingRelays(): Promise<string[]> {
+  const configured = getRelays();
+  if (!isRelayDiscoveryEnabled()) return configured;
+  try {
+    const discovered = (await discoverRelays())
+      .map((probe) => probe.url)
+      .filter((url) => !configured.includes(url))
+      .slice(0, DISCOVERED_RELAY_COUNT);
+    return [...configured, ...discovered].slice(0, MAX_RELAYS);
+  } catch {
+    return configured;
+  }
+}
@@ -33,11 +33,13 @@ describe('Nostr events', () => {
       'transfer-id',
       'hint',
       pinBucket,
+      'argon2id',
     );
 
     const parsed = parseRendezvousEvent(event);
     expect(parsed).not.toBeNull();
     expect(parsed?.hint).toBe('hint');
+    expect(parsed?.pinKdf).toBe('argon2id');
     expect(parsed?.transferId).toBe('transfer-id');
     expect(parsed?.salt).toEqual(salt);
     expect(parsed?.encryptedPayload).toEqual(encryptedPayload);
@@ -49,6 +51,30 @@ describe('Nostr events', () => {
     );
   });
 
+  it('treats a rendezvous event without a kdf tag as PBKDF2', () => {
+    const { secretKey } = generateEphemeralKeys();
+    const event = createRendezvousEvent(
+      secretKey,
+      new Uint8Array([1]),
+      new Uint8Array(16),
+      'transfer-id',
+      'hint',
+      getPinBucket(),
+      'pbkdf2',
+    );
+    const legacy = {
+      ...event,
+      tags: event.tags.filter((t) => t[0] !== 'kdf'),
+    };
+    expect(parseRendezvousEvent(legacy)?.pinKdf).toBe('pbkdf2');
+    expect(
+      parseRendezvousEvent({
+        ...event,
+        tags: [...legacy.tags, ['kdf', 'scrypt']],
+      }),
+    ).toBeNull();
+  });
+
   it('seals and opens handshake payloads with the auth key', async () => {
     const { secretKey } = generateEphemeralKeys();
     const authKey = await generateAesKey();
@@ -5,7 +5,11 @@ import {
   getPublicKey,
 } from 'nostr-tools';
 import { decrypt, encrypt } from '../crypto/aes-gcm';
-import { PIN_ACTIVE_BUCKETS, PIN_ROTATION_MS } from '../crypto/constants';
+import {
+  PIN_ACTIVE_BUCKETS,
+  PIN_ROTATION_MS,
+  type PinKdf,
+} from '../crypto/constants';
 import { EVENT_KIND_DATA_TRANSFER, EVENT_KIND_RENDEZVOUS } from './types';
 
 /**
@@ -37,7 +41,9 @@ export function generateHandshakeNonce(): string {
  * Contains the payload encrypted with the PIN-derived rendezvous key.
  *
  * @param hint - Rotation-bucket-scoped event-filtering tag: an HKDF derivation
- * off the PBKDF2 PIN root (see computePinHintFromRoot)
+ * off the PIN root (see computePinHintFromRoot)
+ * @param pinKdf - The KDF of the PIN root, published as the `kdf` tag. Events
+ * without it predate Argon2id and are PBKDF2.
  *
  * TTL behavior:
  * - The 'expiration' tag is the end of the PIN's immediately following bucket
@@ -53,6 +59,7 @@ export function createRendezvousEvent(
   transferId: string,
   hint: string,
   pinBucket: number,
+  pinKdf: PinKdf,
 ): Event {
   // Soft TTL: relays may auto-delete after this timestamp (NIP-40)
   const expiration = Math.floor(
@@ -68,6 +75,7 @@ export function createRendezvousEvent(
         ['s', uint8ArrayToBase64(salt)],
         ['t', transferId],
         ['type', 'rendezvous'],
+        ['kdf', pinKdf],
         ['expiration', expiration.toString()],
       ],
       created_at: Math.floor(Date.now() / 1000),
@@ -80,12 +88,13 @@ export function createRendezvousEvent(
 
 /**
  * Parse rendezvous event tags.
- * @returns Object with hint, salt, transferId, and encryptedPayload
+ * @returns Object with hint, salt, transferId, pinKdf, and encryptedPayload
  */
 export function parseRendezvousEvent(event: Event): {
   hint: string;
   salt: Uint8Array;
   transferId: string;
+  pinKdf: PinKdf;
   encryptedPayload: Uint8Array;
 } | null {
   if (event.kind !== EVENT_KIND_RENDEZVOUS) return null;
@@ -93,14 +102,17 @@ export function parseRendezvousEvent(event: Event): {
   const hint = event.tags.find((t) => t[0] === 'h')?.[1];
   const saltB64 = event.tags.find((t) => t[0] === 's')?.[1];
   const transferId = event.tags.find((t) => t[0] === 't')?.[1];
+  const kdfTag = event.tags.find((t) => t[0] === 'kdf')?.[1] ?? 'pbkdf2';
 
   if (!hint || !saltB64 || !transferId) return null;
+  if (kdfTag !== 'argon2id' && kdfTag !== 'pbkdf2') return null;
 
   try {
     return {
       hint,
       salt: base64ToUint8Array(saltB64),
       transferId,
+      pinKdf: kdfTag,
       encryptedPayload: base64ToUint8Array(event.content),
     };
   } catch {
@@ -0,0 +1,387 @@
+import type { Event, Filter } from 'nostr-tools';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import WebSocket from 'ws';
+import { type RelayStub, startRelayStub } from '../../test/nostr-relay';
+import { decrypt, encrypt } from '../crypto/aes-gcm';
+import { PIN_ROTATION_MS, PIN_TTL_MS } from '../crypto/constants';
+import { generateECDHKeyPair } from '../crypto/ecdh';
+import { generatePin, importPinRoot } from '../crypto/pin';
+import { createNostrClient, type NostrClient } from './client';
+import { generateEphemeralKeys, uint8ArrayToBase64 } from './events';
+import {
+  createClaim,
+  createConfirmEvent,
+  createRendezvous,
+  createSignalEvent,
+  derivePinLookupKeys,
+  deriveTransferSessionKeys,
+  findRendezvous,
+  openSignalEvent,
+  verifyClaim,
+  verifyConfirm,
+} from './handshake';
+import { EVENT_KIND_DATA_TRANSFER, EVENT_KIND_RENDEZVOUS } from './types';
+
+const WAIT_MS = 3000;
+
+let relay: RelayStub;
+const clients: NostrClient[] = [];
+
+function connect(): NostrClient {
+  const client = createNostrClient([relay.url]);
+  clients.push(client);
+  return client;
+}
+
+/** Resolve with the first event on `filter` that `accept` maps to a value. */
+function nextEvent<T>(
+  client: NostrClient,
+  filter: Filter,
+  accept: (event: Event) => Promise<T | null>,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      client.unsubscribe(subId);
+      reject(new Error(`No matching event within ${WAIT_MS}ms`));
+    }, WAIT_MS);
+    const subId = client.subscribe([filter], (event) => {
+      void accept(event).then((value) => {
+        if (value === null) return;
+        clearTimeout(timeout);
+        client.unsubscribe(subId);
+        resolve(value);
+      });
+    });
+  });
+}
+
+async function startSender(client: NostrClient) {
+  const { secretKey, publicKey } = generateEphemeralKeys();
+  const ecdh = await generateECDHKeyPair();
+  const ecdhPublicKeyB64 = uint8ArrayToBase64(ecdh.publicKeyBytes);
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+  const transferId = crypto.randomUUID();
+  const pin = generatePin();
+  const { event, generation } = await createRendezvous(
+    pin,
+    'argon2id',
+    secretKey,
+    salt,
+    {
+      type: 'rendezvous',
+      contentType: 'file',
+      transferId,
+      senderPubkey: publicKey,
+      ecdhPublicKey: ecdhPublicKeyB64,
+      relays: [relay.url],
+      fileName: 'a.txt',
+      fileSize: 5,
+      fileSizeExact: true,
+      mimeType: 'text/plain',
+    },
+  );
+  await client.publish(event);
+  return {
+    pin,
+    secretKey,
+    publicKey,
+    ecdh,
+    ecdhPublicKeyB64,
+    salt,
+    transferId,
+    event,
+    generation,
+  };
+}
+
+type Sender = Awaited<ReturnType<typeof startSender>>;
+
+async function lookUp(client: NostrClient, pin: string) {
+  const lookup = await derivePinLookupKeys(await importPinRoot(pin));
+  const events = await client.query([
+    { kinds: [EVENT_KIND_RENDEZVOUS], '#h': lookup.hints, limit: 10 },
+  ]);
+  return { lookup, events };
+}
+
+/**
+ * Run the receiver's half up to a confirmed claim while the sender waits
+ * for it, the way the hooks order their subscriptions and publishes.
+ */
+async function claimTransfer(
+  sender: Sender,
+  senderClient: NostrClient,
+  receiverClient: NostrClient,
+) {
+  const claimed = nextEvent(
+    senderClient,
+    {
+      kinds: [EVENT_KIND_DATA_TRANSFER],
+      '#t': [sender.transferId],
+      '#p': [sender.publicKey],
+    },
+    (event) =>
+      verifyClaim(
+        event,
+        sender.transferId,
+        [sender.generation],
+        sender.ecdhPublicKeyB64,
+      ),
+  );
+
+  const { lookup, events } = await lookUp(receiverClient, sender.pin);
+  const { rendezvous } = await findRendezvous(
+    events,
+    lookup.rendezvousKey,
+    'argon2id',
+  );
+  if (!rendezvous) throw new Error('rendezvous not found');
+  const claim = await createClaim(lookup.authKey, rendezvous);
+  const confirmed = nextEvent(
+    receiverClient,
+    {
+      kinds: [EVENT_KIND_DATA_TRANSFER],
+      '#t': [sender.transferId],
+      '#p': [claim.publicKey],
+      authors: [sender.publicKey],
+    },
+    async (event) =>
+      (await verifyConfirm(event, lookup.authKey, rendezvous, claim))
+        ? true
+        : null,
+  );
+  await receiverClient.publish(claim.event);
+
+  const verified = await claimed;
+  await senderClient.publish(
+    await createConfirmEvent(sender.secretKey, sender.transferId, verified),
+  );
+  await confirmed;
+  return { rendezvous, claim, verified };
+}
+
+// Node has no global WebSocket; nostr-tools' relays pick it up at connect time.
+beforeAll(() => {
+  vi.stubGlobal('WebSocket', WebSocket);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+afterEach(async () => {
+  for (const client of clients.splice(0)) client.close();
+  await relay?.close();
+  vi.useRealTimers();
+});
+
+describe('Nostr signaling over a relay', () => {
+  it('runs rendezvous, claim, confirm and an offer/answer exchange', async () => {
+    relay = await startRelayStub();
+    const senderClient = connect();
+    const receiverClient = connect();
+    const sender = await startSender(senderClient);
+    const { rendezvous, claim, verified } = await claimTransfer(
+      sender,
+      senderClient,
+      receiverClient,
+    );
+
+    const [senderKeys, receiverKeys] = await Promise.all([
+      deriveTransferSessionKeys(
+        sender.ecdh.privateKey,
+        verified.receiverEcdhPublicKey,
+        sender.salt,
+      ),
+      deriveTransferSessionKeys(
+        claim.ecdh.privateKey,
+        rendezvous.senderEcdhPublicKey,
+        rendezvous.salt,
+      ),
+    ]);
+    const sealed = await encrypt(senderKeys.content, new Uint8Array([1, 2]));
+    expect(await decrypt(receiverKeys.content, sealed)).toEqual(
+      new Uint8Array([1, 2]),
+    );
+
+    const offered = nextEvent(
+      receiverClient,
+      {
+        kinds: [EVENT_KIND_DATA_TRANSFER],
+        '#t': [sender.transferId],
+        '#p': [claim.publicKey],
+        authors: [sender.publicKey],
+      },
+      (event) =>
+        openSignalEvent(event, sender.transferId, receiverKeys.signals),
+    );
+    const answered = nextEvent(
+      senderClient,
+      {
+        kinds: [EVENT_KIND_DATA_TRANSFER],
+        '#t': [sender.transferId],
+        '#p': [sender.publicKey],
+        authors: [claim.publicKey],
+      },
+      (event) => openSignalEvent(event, sender.transferId, senderKeys.signals),
+    );
+
+    await senderClient.publish(
+      await createSignalEvent(
+        sender.secretKey,
+        claim.publicKey,
+        sender.transferId,
+        senderKeys.signals,
+        { type: 'offer', sdp: 'v=0 offer' },
+        0,
+      ),
+    );
+    expect(await offered).toEqual({
+      signal: { type: 'offer', sdp: 'v=0 offer' },
+      attempt: 0,
+    });
+
+    await receiverClient.publish(
+      await createSignalEvent(
+        claim.secretKey,
+        sender.publicKey,
+        sender.transferId,
+        receiverKeys.signals,
+        { type: 'answer', sdp: 'v=0 answer' },
+        0,
+      ),
+    );
+    expect(await answered).toEqual({
+      signal: { type: 'answer', sdp: 'v=0 answer' },
+      attempt: 0,
+    });
+  });
+
+  it('gets an offer through once the relay stops dropping it', async () => {
+    relay = await startRelayStub();
+    const senderClient = connect();
+    const receiverClient = connect();
+    const sender = await startSender(senderClient);
+    const { rendezvous, claim, verified } = await claimTransfer(
+      sender,
+      senderClient,
+      receiverClient,
+    );
+    const [senderKeys, receiverKeys] = await Promise.all([
+      deriveTransferSessionKeys(
+        sender.ecdh.privateKey,
+        verified.receiverEcdhPublicKey,
+        sender.salt,
+      ),
+      deriveTransferSessionKeys(
+        claim.ecdh.privateKey,
+        rendezvous.senderEcdhPublicKey,
+        rendezvous.salt,
+      ),
+    ]);
+
+    // The relay acknowledges the first two offers but loses them.
+    let dropped = 0;
+    relay.options.drop = (event) =>
+      event.pubkey === sender.publicKey && dropped++ < 2;
+
+    const offered = nextEvent(
+      receiverClient,
+      {
+        kinds: [EVENT_KIND_DATA_TRANSFER],
+        '#t': [sender.transferId],
+        '#p': [claim.publicKey],
+        authors: [sender.publicKey],
+      },
+      (event) =>
+        openSignalEvent(event, sender.transferId, receiverKeys.signals),
+    );
+    let received = false;
+    void offered.then(() => {
+      received = true;
+    });
+
+    // Resend until the receiver hears it, as the senders do.
+    for (let attempt = 0; !received && attempt < 10; attempt++) {
+      await senderClient.publish(
+        await createSignalEvent(
+          sender.secretKey,
+          claim.publicKey,
+          sender.transferId,
+          senderKeys.signals,
+          { type: 'offer', sdp: 'v=0' },
+          0,
+        ),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    expect(await offered).toMatchObject({ signal: { type: 'offer' } });
+    expect(dropped).toBeGreaterThan(2);
+  });
+
+  it('finds the rendezvous when the relay holds EOSE back', async () => {
+    relay = await startRelayStub({ eoseDelayMs: 400 });
+    const sender = await startSender(connect());
+
+    const { lookup, events } = await lookUp(connect(), sender.pin);
+    expect(events.map((event) => event.id)).toEqual([sender.event.id]);
+    const { rendezvous } = await findRendezvous(
+      events,
+      lookup.rendezvousKey,
+      'argon2id',
+    );
+    expect(rendezvous?.transferId).toBe(sender.transferId);
+  });
+
+  it('fails to publish when the relay refuses the kind', async () => {
+    relay = await startRelayStub({ rejectKinds: [EVENT_KIND_RENDEZVOUS] });
+    const client = connect();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(startSender(client)).rejects.toThrow();
+    // Every retry is refused.
+    expect(relay.published).toHaveLength(3);
+    expect(relay.stored).toHaveLength(0);
+    error.mockRestore();
+  });
+
+  it('stops serving an expired rendezvous unless the relay ignores NIP-40', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const start = Math.ceil(Date.now() / PIN_ROTATION_MS) * PIN_ROTATION_MS;
+    vi.setSystemTime(start);
+
+    relay = await startRelayStub();
+    const sender = await startSender(connect());
+    // Derive the hints while the PIN is still current.
+    const lookup = await derivePinLookupKeys(await importPinRoot(sender.pin));
+    const filter = {
+      kinds: [EVENT_KIND_RENDEZVOUS],
+      '#h': lookup.hints,
+      limit: 10,
+    };
+    const client = connect();
+    expect(await client.query([filter])).toHaveLength(1);
+
+    vi.setSystemTime(start + PIN_TTL_MS + 1000);
+    expect(await client.query([filter])).toHaveLength(0);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(client.publish(sender.event, 1)).rejects.toThrow();
+    error.mockRestore();
+
+    relay.options.ignoreExpiration = true;
+    const events = await client.query([filter]);
+    expect(events).toHaveLength(1);
+    expect(
+      await findRendezvous(events, lookup.rendezvousKey, 'argon2id'),
+    ).toEqual({ rendezvous: null, sawExpired: true });
+  });
+});
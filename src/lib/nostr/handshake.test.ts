@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import { decrypt, encrypt } from '../crypto/aes-gcm';
+import { PIN_CHARSET, type PinKdf } from '../crypto/constants';
+import { generateECDHKeyPair } from '../crypto/ecdh';
+import { generatePin, getPinKdf, importPinRoot } from '../crypto/pin';
+import { ValidationError } from '../errors';
+import { generateEphemeralKeys, uint8ArrayToBase64 } from './events';
+import {
+  createClaim,
+  createConfirmEvent,
+  createRendezvous,
+  createSignalEvent,
+  derivePinLookupKeys,
+  deriveTransferSessionKeys,
+  findRendezvous,
+  openSignalEvent,
+  resolveRendezvousContent,
+  verifyClaim,
+  verifyConfirm,
+} from './handshake';
+import type { RendezvousPayload } from './types';
+
+async function startSender(kdf: PinKdf = 'argon2id', pin = generatePin(kdf)) {
+  const { secretKey, publicKey } = generateEphemeralKeys();
+  const ecdh = await generateECDHKeyPair();
+  const ecdhPublicKeyB64 = uint8ArrayToBase64(ecdh.publicKeyBytes);
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+  const transferId = 'transfer-1';
+  const { event, generation } = await createRendezvous(
+    pin,
+    kdf,
+    secretKey,
+    salt,
+    {
+      type: 'rendezvous',
+      contentType: 'file',
+      transferId,
+      senderPubkey: publicKey,
+      ecdhPublicKey: ecdhPublicKeyB64,
+      fileName: 'a.txt',
+      fileSize: 5,
+      fileSizeExact: true,
+      mimeType: 'text/plain',
+    },
+  );
+  return {
+    pin,
+    secretKey,
+    ecdh,
+    ecdhPublicKeyB64,
+    transferId,
+    event,
+    generation,
+  };
+}
+
+describe('Nostr PIN handshake', () => {
+  it('runs rendezvous, claim, confirm and signaling end to end', async () => {
+    const sender = await startSender();
+
+    const lookup = await derivePinLookupKeys(await importPinRoot(sender.pin));
+    expect(lookup.hints).toContain(
+      sender.event.tags.find((t) => t[0] === 'h')?.[1],
+    );
+    const { rendezvous } = await findRendezvous(
+      [sender.event],
+      lookup.rendezvousKey,
+      'argon2id',
+    );
+    if (!rendezvous) throw new Error('rendezvous not found');
+    expect(resolveRendezvousContent(rendezvous.payload).fileName).toBe('a.txt');
+
+    const claim = await createClaim(lookup.authKey, rendezvous);
+    const verified = await verifyClaim(
+      claim.event,
+      sender.transferId,
+      [sender.generation],
+      sender.ecdhPublicKeyB64,
+    );
+    if (!verified) throw new Error('claim rejected');
+    expect(verified.receiverPubkey).toBe(claim.publicKey);
+
+    const confirm = await createConfirmEvent(
+      sender.secretKey,
+      sender.transferId,
+      verified,
+    );
+    expect(
+      await verifyConfirm(confirm, lookup.authKey, rendezvous, claim),
+    ).toBe(true);
+
+    const [senderKeys, receiverKeys] = await Promise.all([
+      deriveTransferSessionKeys(
+        sender.ecdh.privateKey,
+        verified.receiverEcdhPublicKey,
+        rendezvous.salt,
+      ),
+      deriveTransferSessionKeys(
+        claim.ecdh.privateKey,
+        rendezvous.senderEcdhPublicKey,
+        rendezvous.salt,
+      ),
+    ]);
+    const sealed = await encrypt(senderKeys.content, new Uint8Array([1, 2]));
+    expect(await decrypt(receiverKeys.content, sealed)).toEqual(
+      new Uint8Array([1, 2]),
+    );
+
+    const signal = await createSignalEvent(
+      sender.secretKey,
+      claim.publicKey,
+      sender.transferId,
+      senderKeys.signals,
+      { type: 'offer', sdp: 'v=0' },
+      2,
+    );
+    expect(
+      await openSignalEvent(signal, sender.transferId, receiverKeys.signals),
+    ).toEqual({ signal: { type: 'offer', sdp: 'v=0' }, attempt: 2 });
+    expect(
+      await openSignalEvent(signal, 'other-transfer', receiverKeys.signals),
+    ).toBeNull();
+  });
+
+  it('rejects a wrong PIN and a claim on another generation', async () => {
+    const sender = await startSender();
+    const wrong = await derivePinLookupKeys(await importPinRoot(generatePin()));
+    expect(
+      await findRendezvous([sender.event], wrong.rendezvousKey, 'argon2id'),
+    ).toEqual({ rendezvous: null, sawExpired: false });
+
+    const lookup = await derivePinLookupKeys(await importPinRoot(sender.pin));
+    const { rendezvous } = await findRendezvous(
+      [sender.event],
+      lookup.rendezvousKey,
+      'argon2id',
+    );
+    if (!rendezvous) throw new Error('rendezvous not found');
+    const claim = await createClaim(lookup.authKey, rendezvous);
+    expect(
+      await verifyClaim(
+        claim.event,
+        sender.transferId,
+        [{ ...sender.generation, nonce: 'rotated' }],
+        sender.ecdhPublicKeyB64,
+      ),
+    ).toBeNull();
+  });
+
+  it('finds a PBKDF2-era rendezvous from a PIN with an even first character', async () => {
+    // Before Argon2id a PIN's characters carried no KDF and the rendezvous
+    // had no kdf tag, so any first character must still read as PBKDF2.
+    let pin: string;
+    do {
+      pin = generatePin('pbkdf2');
+    } while (PIN_CHARSET.indexOf(pin[0]) % 2 !== 0);
+    const sender = await startSender('pbkdf2', pin);
+    const legacyEvent = {
+      ...sender.event,
+      tags: sender.event.tags.filter((t) => t[0] !== 'kdf'),
+    };
+
+    const pinKdf = getPinKdf(pin);
+    expect(pinKdf).toBe('pbkdf2');
+    if (!pinKdf) throw new Error('PIN rejected');
+    const lookup = await derivePinLookupKeys(await importPinRoot(pin));
+    const { rendezvous } = await findRendezvous(
+      [legacyEvent],
+      lookup.rendezvousKey,
+      pinKdf,
+    );
+    expect(rendezvous?.transferId).toBe(sender.transferId);
+  });
+
+  it('validates what a rendezvous announces', () => {
+    const payload = {
+      type: 'rendezvous',
+      transferId: 't',
+      fileName: '',
+      fileSize: 10,
+      fileSizeExact: false,
+    } as RendezvousPayload;
+    expect(resolveRendezvousContent(payload)).toMatchObject({
+      contentType: 'file',
+      fileName: 'unknown',
+      mimeType: 'application/octet-stream',
+      exchange: false,
+    });
+    expect(() =>
+      resolveRendezvousContent({ ...payload, contentType: 'files' }),
+    ).toThrow(ValidationError);
+    expect(() =>
+      resolveRendezvousContent({ ...payload, fileSize: -1 }),
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,529 @@
+import type { Event } from 'nostr-tools';
+import { decrypt, encrypt } from '../crypto/aes-gcm';
+import {
+  MAX_MESSAGE_SIZE,
+  PIN_HINT_LOOKBACK_BUCKETS,
+  PIN_TTL_MS,
+  type PinKdf,
+} from '../crypto/constants';
+import {
+  deriveSharedSecretKey,
+  type ECDHKeyPair,
+  formatFingerprint,
+  generateECDHKeyPair,
+  publicKeyToFingerprint,
+} from '../crypto/ecdh';
+import { deriveNostrSessionKeys, type NostrSessionKeys } from '../crypto/kdf';
+import {
+  computePinFingerprint,
+  computePinHintFromRoot,
+  derivePinAuthKey,
+  derivePinRendezvousKey,
+  getPinBucket,
+  importPinRoot,
+  isPinBucketActive,
+} from '../crypto/pin';
+import { ValidationError } from '../errors';
+import { formatFileSize } from '../file-utils';
+import { MAX_TEXT_MESSAGE_BYTES } from '../text-message';
+import type { WebRTCSignal } from '../webrtc';
+import {
+  base64ToUint8Array,
+  createHandshakeEvent,
+  createRendezvousEvent,
+  createSignalingEvent,
+  generateEphemeralKeys,
+  generateHandshakeNonce,
+  openHandshakePayload,
+  parseHandshakeEvent,
+  parseRendezvousEvent,
+  parseSignalingEvent,
+  sealHandshakePayload,
+  uint8ArrayToBase64,
+} from './events';
+import type {
+  ClaimPayload,
+  ConfirmPayload,
+  ContentType,
+  RendezvousPayload,
+} from './types';
+
+/**
+ * The PIN handshake and WebRTC signaling of the Nostr flow, one message at a
+ * time: rendezvous → claim → confirm, then encrypted signals until the data
+ * channel opens. The send/receive hooks and the Node CLI drive these steps
+ * with their own relay subscriptions, timeouts and cancellation.
+ */
+
+/**
+ * One rotation generation of the displayed PIN. Its absolute bucket lets the
+ * sender reject it as soon as it is older than the immediately previous
+ * bucket, regardless of timer delays or how many generations are retained.
+ */
+export interface PinGeneration {
+  authKey: CryptoKey;
+  nonce: string;
+  bucket: number;
+}
+
+/** A verified receiver claim: the sender transfers to this peer. */
+export interface VerifiedClaim {
+  receiverPubkey: string;
+  receiverEcdhPublicKey: Uint8Array;
+  payload: ClaimPayload;
+  authKey: CryptoKey;
+}
+
+/** A rendezvous the receiver decrypted with its PIN. */
+export interface FoundRendezvous {
+  payload: RendezvousPayload;
+  transferId: string;
+  senderPubkey: string;
+  senderEcdhPublicKey: Uint8Array;
+  salt: Uint8Array;
+}
+
+/** The validated transfer a rendezvous announces. */
+export interface RendezvousContent {
+  contentType: ContentType;
+  fileName: string;
+  fileSize: number;
+  fileSizeExact: boolean;
+  mimeType: string;
+  exchange: boolean;
+}
+
+/** The receiver's claim and the ephemeral keys it binds. */
+export interface ReceiverClaim {
+  event: Event;
+  secretKey: Uint8Array;
+  publicKey: string;
+  ecdh: ECDHKeyPair;
+  nonce: string;
+  ecdhPublicKeyB64: string;
+  /** Formatted fingerprint a broadcasting sender lists this receiver by. */
+  keyFingerprint: string;
+}
+
+/** A decrypted WebRTC signal and the connection attempt it belongs to. */
+export interface OpenedSignal {
+  signal: WebRTCSignal;
+  attempt: number;
+}
+
+/** Decode a 65-byte uncompressed P-256 public key; null if malformed. */
+export function decodeEcdhPublicKey(b64: string): Uint8Array | null {
+  try {
+    const bytes = base64ToUint8Array(b64);
+    if (bytes.length !== 65 || bytes[0] !== 0x04) return null;
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Seal a rendezvous payload under a fresh PIN. Returns the event to publish,
+ * the generation to retain for verifying claims, and the PIN fingerprint.
+ */
+export async function createRendezvous(
+  pin: string,
+  pinKdf: PinKdf,
+  secretKey: Uint8Array,
+  salt: Uint8Array,
+  payload: Omit<RendezvousPayload, 'nonce'>,
+): Promise<{ event: Event; generation: PinGeneration; fingerprint: string }> {
+  const root = await importPinRoot(pin);
+  const bucket = getPinBucket();
+  const [hint, authKey, rendezvousKey, fingerprint] = await Promise.all([
+    computePinHintFromRoot(root, bucket),
+    derivePinAuthKey(root),
+    derivePinRendezvousKey(root),
+    computePinFingerprint(pin),
+  ]);
+  const nonce = generateHandshakeNonce();
+
+  const sealed: RendezvousPayload = { ...payload, nonce };
+  const encryptedPayload = await encrypt(
+    rendezvousKey,
+    new TextEncoder().encode(JSON.stringify(sealed)),
+  );
+  const event = createRendezvousEvent(
+    secretKey,
+    encryptedPayload,
+    salt,
+    payload.transferId,
+    hint,
+    bucket,
+    pinKdf,
+  );
+  return { event, generation: { authKey, nonce, bucket }, fingerprint };
+}
+
+/**
+ * Verify a claim event against the retained PIN generations. Returns null for
+ * anything that is not a valid claim on this transfer: transfer tags are
+ * public, so an invalid claim must be ignored rather than abort the transfer.
+ */
+export async function verifyClaim(
+  event: Event,
+  transferId: string,
+  generations: readonly PinGeneration[],
+  senderEcdhPublicKeyB64: string,
+): Promise<VerifiedClaim | null> {
+  const handshake = parseHandshakeEvent(event);
+  if (
+    !handshake ||
+    handshake.type !== 'claim' ||
+    handshake.transferId !== transferId
+  ) {
+    return null;
+  }
+
+  // A retained key has no authority outside the sender's current and
+  // immediately previous wall-clock buckets.
+  for (const generation of generations.filter((candidate) =>
+    isPinBucketActive(candidate.bucket),
+  )) {
+    let opened: unknown;
+    try {
+      opened = await openHandshakePayload(
+        generation.authKey,
+        handshake.sealedPayload,
+      );
+    } catch {
+      continue; // Sealed with a different PIN/generation
+    }
+
+    const p = opened as Partial<ClaimPayload>;
+    const receiverEcdhPublicKey =
+      typeof p.receiverEcdhPublicKey === 'string'
+        ? decodeEcdhPublicKey(p.receiverEcdhPublicKey)
+        : null;
+    if (
+      p.type !== 'claim' ||
+      p.transferId !== transferId ||
+      p.senderNonce !== generation.nonce ||
+      typeof p.receiverNonce !== 'string' ||
+      !p.receiverNonce ||
+      p.senderEcdhPublicKey !== senderEcdhPublicKeyB64 ||
+      !receiverEcdhPublicKey ||
+      !isPinBucketActive(generation.bucket)
+    ) {
+      return null;
+    }
+
+    return {
+      receiverPubkey: event.pubkey,
+      receiverEcdhPublicKey,
+      payload: p as ClaimPayload,
+      authKey: generation.authKey,
+    };
+  }
+  return null;
+}
+
+/**
+ * Mutual proof: confirm under the same PIN-derived auth key that sealed the
+ * claim, echoing both nonces and the receiver key the sender locked onto.
+ */
+export async function createConfirmEvent(
+  secretKey: Uint8Array,
+  transferId: string,
+  claim: VerifiedClaim,
+): Promise<Event> {
+  const confirmPayload: ConfirmPayload = {
+    type: 'confirm',
+    transferId,
+    senderNonce: claim.payload.senderNonce,
+    receiverNonce: claim.payload.receiverNonce,
+    receiverEcdhPublicKey: claim.payload.receiverEcdhPublicKey,
+  };
+  return createHandshakeEvent(
+    secretKey,
+    claim.receiverPubkey,
+    transferId,
+    'confirm',
+    await sealHandshakePayload(claim.authKey, confirmPayload),
+  );
+}
+
+/**
+ * The receiver's lookup keys for a PIN. Hints cover the current and the
+ * previous rotation buckets, mirroring the sender's acceptance rule.
+ */
+export async function derivePinLookupKeys(root: CryptoKey): Promise<{
+  hints: string[];
+  rendezvousKey: CryptoKey;
+  authKey: CryptoKey;
+}> {
+  const currentBucket = getPinBucket();
+  const [hints, rendezvousKey, authKey] = await Promise.all([
+    Promise.all(
+      Array.from({ length: PIN_HINT_LOOKBACK_BUCKETS + 1 }, (_, offset) =>
+        computePinHintFromRoot(root, currentBucket - offset),
+      ),
+    ),
+    derivePinRendezvousKey(root),
+    derivePinAuthKey(root),
+  ]);
+  return { hints, rendezvousKey, authKey };
+}
+
+/**
+ * Find the newest rendezvous among `events` that decrypts under the PIN.
+ * `sawExpired` tells a stale PIN apart from a wrong one when none does.
+ */
+export async function findRendezvous(
+  events: readonly Event[],
+  rendezvousKey: CryptoKey,
+  pinKdf: PinKdf,
+): Promise<{ rendezvous: FoundRendezvous | null; sawExpired: boolean }> {
+  let sawExpired = false;
+  const sortedEvents = [...events].sort(
+    (a, b) => (b.created_at || 0) - (a.created_at || 0),
+  );
+
+  for (const event of sortedEvents) {
+    // A rendezvous event is only claimable while the sender still honors its
+    // PIN generation.
+    if (
+      !event.created_at ||
+      Date.now() - event.created_at * 1000 > PIN_TTL_MS
+    ) {
+      sawExpired = true;
+      continue;
+    }
+
+    const parsed = parseRendezvousEvent(event);
+    // The KDF tag must match the one the PIN names; a mismatch can only be a
+    // hint collision with someone else's event.
+    if (!parsed || parsed.pinKdf !== pinKdf) continue;
+
+    let candidate: RendezvousPayload;
+    try {
+      const decrypted = await decrypt(rendezvousKey, parsed.encryptedPayload);
+      candidate = JSON.parse(
+        new TextDecoder().decode(decrypted),
+      ) as RendezvousPayload;
+    } catch {
+      // Not sealed with our PIN (stale event sharing the hint tag); try the
+      // next candidate.
+      continue;
+    }
+
+    // Bind the authenticated payload to the plaintext routing data: the
+    // payload must name the event's own author and transfer id, so a copied
+    // ciphertext republished under another identity is rejected.
+    const senderEcdhPublicKey =
+      typeof candidate.ecdhPublicKey === 'string'
+        ? decodeEcdhPublicKey(candidate.ecdhPublicKey)
+        : null;
+    if (
+      candidate.type !== 'rendezvous' ||
+      candidate.transferId !== parsed.transferId ||
+      candidate.senderPubkey !== event.pubkey ||
+      typeof candidate.nonce !== 'string' ||
+      !candidate.nonce ||
+      !senderEcdhPublicKey
+    ) {
+      continue;
+    }
+
+    return {
+      rendezvous: {
+        payload: candidate,
+        transferId: parsed.transferId,
+        senderPubkey: event.pubkey,
+        senderEcdhPublicKey,
+        salt: parsed.salt,
+      },
+      sawExpired,
+    };
+  }
+  return { rendezvous: null, sawExpired };
+}
+
+/**
+ * Validate what a rendezvous announces before claiming it.
+ * @throws ValidationError for a malformed, oversized or unknown transfer
+ */
+export function resolveRendezvousContent(
+  payload: RendezvousPayload,
+): RendezvousContent {
+  if (
+    payload.fileSize == null ||
+    !Number.isFinite(payload.fileSize) ||
+    payload.fileSize < 0 ||
+    typeof payload.fileSizeExact !== 'boolean'
+  ) {
+    throw new ValidationError('Invalid file size in transfer');
+  }
+
+  // Multi-file payloads are exact-size (the manifest partitions them); a text
+  // message is a small exact-size payload.
+  const contentType = payload.contentType ?? 'file';
+  if (
+    !(
+      contentType === 'file' ||
+      (contentType === 'files' && payload.fileSizeExact) ||
+      (contentType === 'text' &&
+        payload.fileSizeExact &&
+        payload.fileSize <= MAX_TEXT_MESSAGE_BYTES)
+    )
+  ) {
+    throw new ValidationError('Invalid content type in transfer');
+  }
+
+  if (payload.fileSize > MAX_MESSAGE_SIZE) {
+    throw new ValidationError(
+      `Transfer rejected: Size (${formatFileSize(payload.fileSize)}) exceeds limit (${formatFileSize(MAX_MESSAGE_SIZE)})`,
+    );
+  }
+
+  return {
+    contentType,
+    fileName: payload.fileName || 'unknown',
+    fileSize: payload.fileSize,
+    fileSizeExact: payload.fileSizeExact,
+    mimeType: payload.mimeType || 'application/octet-stream',
+    exchange: payload.exchange === true,
+  };
+}
+
+/**
+ * Claim a transfer: prove PIN knowledge and bind a fresh ephemeral ECDH key
+ * (and the sender's) into the sealed payload.
+ */
+export async function createClaim(
+  authKey: CryptoKey,
+  rendezvous: FoundRendezvous,
+): Promise<ReceiverClaim> {
+  const { secretKey, publicKey } = generateEphemeralKeys();
+  const ecdh = await generateECDHKeyPair();
+  const ecdhPublicKeyB64 = uint8ArrayToBase64(ecdh.publicKeyBytes);
+  const keyFingerprint = formatFingerprint(
+    await publicKeyToFingerprint(ecdh.publicKeyBytes),
+  );
+  const nonce = generateHandshakeNonce();
+
+  const claimPayload: ClaimPayload = {
+    type: 'claim',
+    transferId: rendezvous.transferId,
+    senderNonce: rendezvous.payload.nonce,
+    receiverNonce: nonce,
+    receiverEcdhPublicKey: ecdhPublicKeyB64,
+    senderEcdhPublicKey: rendezvous.payload.ecdhPublicKey,
+  };
+  const event = createHandshakeEvent(
+    secretKey,
+    rendezvous.senderPubkey,
+    rendezvous.transferId,
+    'claim',
+    await sealHandshakePayload(authKey, claimPayload),
+  );
+  return {
+    event,
+    secretKey,
+    publicKey,
+    ecdh,
+    nonce,
+    ecdhPublicKeyB64,
+    keyFingerprint,
+  };
+}
+
+/** Whether `event` is the sender's confirm of this receiver's claim. */
+export async function verifyConfirm(
+  event: Event,
+  authKey: CryptoKey,
+  rendezvous: FoundRendezvous,
+  claim: ReceiverClaim,
+): Promise<boolean> {
+  const handshake = parseHandshakeEvent(event);
+  if (
+    !handshake ||
+    handshake.type !== 'confirm' ||
+    handshake.transferId !== rendezvous.transferId ||
+    event.pubkey !== rendezvous.senderPubkey
+  ) {
+    return false;
+  }
+
+  let opened: unknown;
+  try {
+    opened = await openHandshakePayload(authKey, handshake.sealedPayload);
+  } catch {
+    return false; // Not sealed with our PIN
+  }
+
+  const p = opened as Partial<ConfirmPayload>;
+  return (
+    p.type === 'confirm' &&
+    p.transferId === rendezvous.transferId &&
+    p.senderNonce === rendezvous.payload.nonce &&
+    p.receiverNonce === claim.nonce &&
+    p.receiverEcdhPublicKey === claim.ecdhPublicKeyB64
+  );
+}
+
+/**
+ * Session keys from the ephemeral ECDH exchange the PIN just authenticated —
+ * the PIN derives no content or signaling keys.
+ */
+export async function deriveTransferSessionKeys(
+  privateKey: CryptoKey,
+  peerEcdhPublicKey: Uint8Array,
+  salt: Uint8Array,
+): Promise<NostrSessionKeys> {
+  const sharedSecret = await deriveSharedSecretKey(
+    privateKey,
+    peerEcdhPublicKey,
+  );
+  return deriveNostrSessionKeys(sharedSecret, salt);
+}
+
+/** Encrypt one WebRTC signal of connection `attempt` for the peer. */
+export async function createSignalEvent(
+  secretKey: Uint8Array,
+  peerPubkey: string,
+  transferId: string,
+  signalsKey: CryptoKey,
+  signal: WebRTCSignal,
+  attempt: number,
+): Promise<Event> {
+  const encryptedSignal = await encrypt(
+    signalsKey,
+    new TextEncoder().encode(
+      JSON.stringify({ type: 'signal', signal, attempt }),
+    ),
+  );
+  return createSignalingEvent(
+    secretKey,
+    peerPubkey,
+    transferId,
+    encryptedSignal,
+  );
+}
+
+/**
+ * Decrypt a signaling event of this transfer. Returns null for other events.
+ * @throws if the signal was not encrypted with `signalsKey`
+ */
+export async function openSignalEvent(
+  event: Event,
+  transferId: string,
+  signalsKey: CryptoKey,
+): Promise<OpenedSignal | null> {
+  const signalData = parseSignalingEvent(event);
+  if (!signalData || signalData.transferId !== transferId) return null;
+
+  const decrypted = await decrypt(signalsKey, signalData.encryptedSignal);
+  const signalPayload = JSON.parse(new TextDecoder().decode(decrypted));
+  if (signalPayload.type !== 'signal' || !signalPayload.signal) return null;
+  return {
+    signal: signalPayload.signal as WebRTCSignal,
+    attempt:
+      typeof signalPayload.attempt === 'number' ? signalPayload.attempt : 0,
+  };
+}
@@ -1,5 +1,7 @@
 export * from './availability';
 export * from './client';
+export * from './discovery';
 export * from './events';
+export * from './handshake';
 export * from './relays';
 export * from './types';
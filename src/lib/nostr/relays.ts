@@ -1,4 +1,6 @@
-// Relays used for signaling (both sender and receiver must use the same list)
+// Relays used for signaling when the user has not configured their own. The
+// sender advertises its list in the rendezvous payload, so a receiver only
+// needs one relay in common to find the transfer.
 export const DEFAULT_RELAYS = [
   'wss://relay.damus.io',
   'wss://nos.lol',
@@ -9,3 +11,75 @@ export const DEFAULT_RELAYS = [
 ] as const;
 
 export const MIN_CONNECTED_RELAYS = 2;
+
+/** Upper bound on a configured list and on the relays a sender advertises. */
+export const MAX_RELAYS = 12;
+
+const RELAY_STORAGE_KEY = 'secure-send:relays';
+
+/**
+ * Validate and normalize a relay URL: `wss://` only, except plain `ws://` for
+ * a relay on this machine. Returns null for anything else.
+ */
+export function parseRelayUrl(input: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  const local = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  if (url.protocol !== 'wss:' && !(url.protocol === 'ws:' && local)) {
+    return null;
+  }
+  if (url.username || url.password || url.hash) return null;
+  return url.href.replace(/\/+$/, '');
+}
+
+/** Parse, de-duplicate and cap a list of relay URLs, dropping invalid ones. */
+export function sanitizeRelays(relays: readonly unknown[]): string[] {
+  const parsed = relays
+    .map((relay) => (typeof relay === 'string' ? parseRelayUrl(relay) : null))
+    .filter((relay): relay is string => relay !== null);
+  return [...new Set(parsed)].slice(0, MAX_RELAYS);
+}
+
+/** The user's relay list (see saveRelays), or the defaults. */
+export function getRelays(): string[] {
+  try {
+    const stored = localStorage.getItem(RELAY_STORAGE_KEY);
+    if (stored) {
+      const parsed: unknown = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        const relays = sanitizeRelays(parsed);
+        if (relays.length > 0) return relays;
+      }
+    }
+  } catch {
+    // No storage (private browsing, tests) or a corrupt entry.
+  }
+  return [...DEFAULT_RELAYS];
+}
+
+/**
+ * Persist the relay list used by both the send and receive pages, in order
+ * of preference. An empty list restores the defaults.
+ */
+export function saveRelays(relays: readonly string[]): string[] {
+  const sanitized = sanitizeRelays(relays);
+  if (sanitized.length === 0) {
+    localStorage.removeItem(RELAY_STORAGE_KEY);
+    return [...DEFAULT_RELAYS];
+  }
+  localStorage.setItem(RELAY_STORAGE_KEY, JSON.stringify(sanitized));
+  return sanitized;
+}
+
+/** Whether the user has replaced the default relay list. */
+export function hasCustomRelays(): boolean {
+  try {
+    return localStorage.getItem(RELAY_STORAGE_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
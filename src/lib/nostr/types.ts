@@ -2,8 +2,9 @@
 export const EVENT_KIND_DATA_TRANSFER = 24242;
 export const EVENT_KIND_RENDEZVOUS = 24243;
 
-// Content types
-export type ContentType = 'file';
+// Content types: a single file, several files described by a manifest, or a
+// text message shown by the receiver instead of downloaded
+export type ContentType = 'file' | 'files' | 'text';
 
 // Transfer states
 export type TransferStatus =
@@ -18,9 +19,14 @@ export type TransferStatus =
   | 'generating_offer'
   | 'showing_offer'
   | 'waiting_for_answer'
+  | 'verifying_sas'
   | 'waiting_for_offer'
+  | 'waiting_for_passphrase'
   | 'generating_answer'
-  | 'showing_answer';
+  | 'showing_answer'
+  // Offline QR fallback after a failed Manual Exchange connection
+  | 'sending_qr'
+  | 'receiving_qr';
 
 // File metadata
 export interface FileMetadata {
@@ -29,6 +35,22 @@ export interface FileMetadata {
   mimeType: string;
 }
 
+// One receiver of a broadcast send, tracked by the sender
+export interface ReceiverTransfer {
+  id: string; // Receiver's ephemeral Nostr pubkey
+  // Formatted fingerprint of the receiver's ECDH public key; the receiver
+  // shows the same value for its own key
+  fingerprint: string;
+  status: 'connecting' | 'transferring' | 'complete' | 'error';
+  message?: string;
+  progress?: {
+    current: number;
+    total: number;
+  };
+  // Set once this receiver's connection turns out to run through TURN.
+  relayed?: boolean;
+}
+
 // Base properties shared across all transfer states
 interface TransferStateBase {
   progress?: {
@@ -38,11 +60,24 @@ interface TransferStateBase {
   contentType?: ContentType;
   fileMetadata?: FileMetadata;
   useWebRTC?: boolean;
+  // Set while transferring when the P2P connection runs through a TURN relay
+  // (see webrtc-config.ts); content stays end-to-end encrypted.
+  relayed?: boolean;
   currentRelays?: string[]; // Connected relay URLs being used (for signaling)
   totalRelays?: number; // Total relays attempted to connect
   // Set on an error state when a direct P2P connection could not be established;
   // drives the offline-QR fallback suggestion in the UI.
   connectionFailed?: boolean;
+  // Set with connectionFailed when the payload can still go over the built-in
+  // offline QR transfer (Manual Exchange, small payloads).
+  qrFallback?: boolean;
+  // Hex SHA-256 of the whole payload, set on completion once both sides agree.
+  digest?: string;
+  // Receiver: formatted fingerprint of its own ECDH key, for comparison with
+  // the sender's receiver list.
+  keyFingerprint?: string;
+  // Broadcast sender: every accepted receiver, in the order they connected.
+  receivers?: ReceiverTransfer[];
 }
 
 // Error state has required message
@@ -83,6 +118,11 @@ export interface RendezvousPayload {
   /** False when fileSize is an input-size estimate for a streamed ZIP. */
   fileSizeExact: boolean;
   mimeType: string;
+  /**
+   * The sender keeps the connection open after the transfer for an exchange
+   * session (see exchange-session.ts).
+   */
+  exchange?: boolean;
 }
 
 /**
@@ -119,7 +159,12 @@ export interface ConfirmPayload {
 }
 
 // Re-export shared received-content types
-export type { ReceivedContent, ReceivedFile } from '../types';
+export type {
+  ReceivedContent,
+  ReceivedFile,
+  ReceivedFileList,
+  ReceivedText,
+} from '../types';
 
 // WebRTC Signaling
 export type SignalingType = 'offer' | 'answer' | 'candidate';
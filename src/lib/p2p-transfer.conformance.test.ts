@@ -0,0 +1,455 @@
+import fc from 'fast-check';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  chunk,
+  chunkIndexOf,
+  corrupt,
+  createLoopback,
+  done,
+  doneFirst,
+  drop,
+  duplicate,
+  type LoopbackOptions,
+  reverse,
+  shuffle,
+  truncate,
+} from '../test/loopback-channel';
+import { installOpfsMock, type OpfsMock } from '../test/opfs-mock';
+import {
+  bytesSource,
+  hexDigest,
+  makeKey,
+  makePlaintext,
+} from '../test/transfer-fixtures';
+import {
+  decryptChunk,
+  ENCRYPTED_CHUNK_OVERHEAD,
+  ENCRYPTION_CHUNK_SIZE,
+  encryptChunk,
+  MAX_MESSAGE_SIZE,
+  parseChunkMessage,
+} from './crypto';
+import { P2PConnectionError } from './errors';
+import {
+  ACK,
+  createDataChannelReceiver,
+  parseDoneMessage,
+  sendFileOverDataChannel,
+} from './p2p-transfer';
+import { createAdaptiveAppendSink, createReceiveSink } from './scratch-sink';
+import type { TransferSource } from './transfer-source';
+
+let opfs: OpfsMock;
+
+beforeAll(() => {
+  opfs = installOpfsMock();
+});
+
+afterAll(() => {
+  opfs.uninstall();
+});
+
+/** Chunks go raw, so a fault can cut them at exact offsets. */
+function rawSource(data: Uint8Array, sizeKnown: boolean): TransferSource {
+  return { ...bytesSource(data, sizeKnown), compressible: false };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/** Idle window for the receiver: long enough for a batch, short for a hang. */
+const RECEIVER_STALL_MS = 300;
+
+interface TransferRun {
+  plaintext: Uint8Array;
+  sent: PromiseSettledResult<{ totalBytes: number; digest: string }>;
+  received: PromiseSettledResult<{ data: Blob; digest: string }>;
+}
+
+/**
+ * Send `totalBytes` from a real sender to a real receiver over a loopback
+ * link. A receiver that fails tears the link down, as the hooks do, so the
+ * sender stops waiting for its ACK.
+ */
+async function runTransfer(
+  totalBytes: number,
+  sizeKnown: boolean,
+  link: LoopbackOptions,
+  senderStallMs?: number,
+): Promise<TransferRun> {
+  const key = await makeKey();
+  const plaintext = makePlaintext(totalBytes);
+  const sink = sizeKnown
+    ? await createReceiveSink(totalBytes)
+    : await createAdaptiveAppendSink(totalBytes);
+  const receiver = createDataChannelReceiver(
+    key,
+    sizeKnown ? totalBytes : null,
+    sink,
+    { estimatedBytes: totalBytes, stallTimeoutMs: RECEIVER_STALL_MS },
+  );
+  receiver.start();
+
+  const loopback = createLoopback((data) => receiver.onMessage(data), link);
+  void receiver.done.then(
+    () => loopback.reply(ACK),
+    () => loopback.close(),
+  );
+  const sending = sendFileOverDataChannel(
+    loopback.rtc,
+    key,
+    rawSource(plaintext, sizeKnown),
+    { stallTimeoutMs: senderStallMs },
+  );
+  void sending.catch(() => loopback.close());
+  loopback.reply(await receiver.createHaveMessage());
+
+  const [sent, received] = await Promise.allSettled([sending, receiver.done]);
+  receiver.dispose();
+  await sink.discard();
+  return { plaintext, sent, received };
+}
+
+interface Scenario {
+  name: string;
+  totalBytes: number;
+  sizeKnown: boolean;
+  link: LoopbackOptions;
+  senderStallMs?: number;
+  /** The receiver's error, or null when the transfer must succeed. */
+  rejects: RegExp | null;
+}
+
+const THREE_CHUNKS = 2 * ENCRYPTION_CHUNK_SIZE + 1234;
+
+const scenarios: Scenario[] = [
+  {
+    name: 'a clean link',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: {},
+    rejects: null,
+  },
+  {
+    name: 'an empty payload',
+    totalBytes: 0,
+    sizeKnown: true,
+    link: {},
+    rejects: null,
+  },
+  {
+    name: 'chunks delivered back to front',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: { faults: [reverse] },
+    rejects: null,
+  },
+  {
+    name: 'streamed chunks delivered back to front',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: false,
+    link: { faults: [reverse] },
+    rejects: null,
+  },
+  {
+    name: 'DONE overtaking every chunk on striped channels',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: false,
+    link: { lanes: 3, faults: [doneFirst] },
+    rejects: null,
+  },
+  {
+    name: 'a shuffled exact-size transfer',
+    totalBytes: 5 * ENCRYPTION_CHUNK_SIZE,
+    sizeKnown: true,
+    link: { lanes: 2, faults: [shuffle(7)] },
+    rejects: null,
+  },
+  {
+    name: 'a slowly draining channel within the idle window',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: { drainDelayMs: 20 },
+    senderStallMs: 1000,
+    rejects: null,
+  },
+  {
+    name: 'a lost chunk',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: { faults: [drop(chunk(1))] },
+    rejects: /Transfer stalled/,
+  },
+  {
+    name: 'a lost DONE',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: false,
+    link: { faults: [drop(done)] },
+    rejects: /Transfer stalled/,
+  },
+  {
+    name: 'a duplicated chunk',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: { faults: [duplicate(chunk(0))] },
+    rejects: /Duplicate chunk index: 0/,
+  },
+  {
+    name: 'a duplicated streamed chunk',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: false,
+    link: { faults: [duplicate(chunk(2))] },
+    rejects: /Duplicate chunk index: 2/,
+  },
+  {
+    name: 'a duplicated DONE',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: { faults: [duplicate(done)] },
+    rejects: /Duplicate DONE message/,
+  },
+  {
+    name: 'a chunk cut below the header',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: { faults: [truncate(chunk(1), 10)] },
+    rejects: /Message too short/,
+  },
+  {
+    name: 'a chunk missing its last byte',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: {
+      faults: [truncate(chunk(0), -1)],
+    },
+    rejects: /Invalid encrypted chunk 0 length/,
+  },
+  {
+    name: 'a streamed chunk missing its tag',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: false,
+    link: {
+      faults: [truncate(chunk(0), -16)],
+    },
+    rejects: /.+/,
+  },
+  {
+    name: 'a truncated DONE',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: { faults: [truncate(done, 7)] },
+    rejects: /Invalid DONE message/,
+  },
+  {
+    name: 'a corrupted chunk tag',
+    totalBytes: THREE_CHUNKS,
+    sizeKnown: true,
+    link: { faults: [corrupt(chunk(2))] },
+    rejects: /.+/,
+  },
+];
+
+describe('transfer conformance over a faulty link', () => {
+  it.each(scenarios)('$name', async (scenario) => {
+    const { plaintext, sent, received } = await runTransfer(
+      scenario.totalBytes,
+      scenario.sizeKnown,
+      scenario.link,
+      scenario.senderStallMs,
+    );
+
+    if (scenario.rejects === null) {
+      expect(sent.status).toBe('fulfilled');
+      if (received.status !== 'fulfilled') throw received.reason;
+      expect(new Uint8Array(await received.value.data.arrayBuffer())).toEqual(
+        plaintext,
+      );
+      expect(received.value.digest).toBe(hexDigest(plaintext));
+      return;
+    }
+
+    // Nothing the link does may make either side report success.
+    expect(received.status).toBe('rejected');
+    expect(sent.status).toBe('rejected');
+    if (received.status === 'rejected') {
+      expect(String(received.reason?.message)).toMatch(scenario.rejects);
+    }
+  });
+
+  it('aborts the sender when the channel stops draining', async () => {
+    const { sent } = await runTransfer(
+      THREE_CHUNKS,
+      true,
+      { drainDelayMs: 100 },
+      20,
+    );
+    expect(sent.status).toBe('rejected');
+    if (sent.status === 'rejected') {
+      expect(sent.reason).toBeInstanceOf(P2PConnectionError);
+      expect(sent.reason.message).toMatch(/Transfer stalled/);
+    }
+  });
+
+  it('resumes after a mid-stream close and resends only missing chunks', async () => {
+    const key = await makeKey();
+    const totalBytes = 4 * ENCRYPTION_CHUNK_SIZE + 17;
+    const plaintext = makePlaintext(totalBytes);
+    const sink = await createReceiveSink(totalBytes);
+    const receiver = createDataChannelReceiver(key, totalBytes, sink);
+
+    // First connection: two chunks go out, then every channel closes.
+    receiver.start();
+    const first = createLoopback((data) => receiver.onMessage(data), {
+      lanes: 2,
+      closeAfterChunks: 2,
+    });
+    const firstSend = sendFileOverDataChannel(
+      first.rtc,
+      key,
+      rawSource(plaintext, true),
+    );
+    first.reply(await receiver.createHaveMessage());
+    await expect(firstSend).rejects.toBeInstanceOf(P2PConnectionError);
+    receiver.suspend();
+
+    // Second connection: the sender skips whatever the receiver holds.
+    const second = createLoopback((data) => receiver.onMessage(data), {
+      lanes: 2,
+      faults: [reverse],
+    });
+    void receiver.done.then(() => second.reply(ACK));
+    const secondSend = sendFileOverDataChannel(
+      second.rtc,
+      key,
+      rawSource(plaintext, true),
+    );
+    receiver.start();
+    second.reply(await receiver.createHaveMessage());
+
+    const { digest: sentDigest } = await secondSend;
+    expect(second.sent.map(chunkIndexOf).filter((i) => i !== null)).toEqual([
+      2, 3, 4,
+    ]);
+    const { data, digest } = await receiver.done;
+    expect(new Uint8Array(await data.arrayBuffer())).toEqual(plaintext);
+    expect(digest).toBe(hexDigest(plaintext));
+    expect(sentDigest).toBe(digest);
+    await sink.discard();
+  });
+});
+
+describe('wire parser properties', () => {
+  it('round-trips any chunk through encryptChunk and parseChunkMessage', async () => {
+    const key = await makeKey();
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 0xffff }),
+        fc.integer({ min: 0, max: 0xff }),
+        fc.uint8Array({ maxLength: 256 }),
+        async (chunkIndex, codec, plaintext) => {
+          const message = await encryptChunk(key, plaintext, chunkIndex, codec);
+          const parsed = parseChunkMessage(message.buffer as ArrayBuffer);
+          expect(parsed.chunkIndex).toBe(chunkIndex);
+          expect(parsed.codec).toBe(codec);
+          expect(
+            await decryptChunk(key, parsed.encryptedData, chunkIndex, codec),
+          ).toEqual(plaintext);
+        },
+      ),
+      { numRuns: 100 },
+    );
+  });
+
+  it('splits or rejects arbitrary bytes as a chunk message', () => {
+    fc.assert(
+      fc.property(fc.uint8Array({ maxLength: 64 }), (bytes) => {
+        if (bytes.length < ENCRYPTED_CHUNK_OVERHEAD) {
+          expect(() => parseChunkMessage(bytes)).toThrow('Message too short');
+          return;
+        }
+        const parsed = parseChunkMessage(bytes);
+        expect(parsed.chunkIndex).toBe((bytes[0] << 8) | bytes[1]);
+        expect(parsed.codec).toBe(bytes[2]);
+        expect(parsed.encryptedData).toEqual(bytes.subarray(3));
+      }),
+    );
+  });
+
+  it('round-trips any in-range DONE terminator', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 0x10000 }),
+        fc.integer({ min: 0, max: MAX_MESSAGE_SIZE }),
+        fc.uint8Array({ minLength: 1, maxLength: 64 }),
+        (count, finalBytes, sealedDigest) => {
+          expect(
+            parseDoneMessage(
+              `DONE:${count}:${finalBytes}:${toBase64(sealedDigest)}`,
+            ),
+          ).toEqual({ count, finalBytes, sealedDigest });
+        },
+      ),
+    );
+  });
+
+  it('rejects or bounds any DONE-like string', () => {
+    const doneLike = fc.oneof(
+      fc.string(),
+      fc.stringMatching(/^DONE:\d{0,20}:\d{0,20}:[A-Za-z0-9+/=]{0,12}$/),
+    );
+    fc.assert(
+      fc.property(doneLike, (data) => {
+        let parsed: ReturnType<typeof parseDoneMessage>;
+        try {
+          parsed = parseDoneMessage(data);
+        } catch (error) {
+          expect((error as Error).message).toMatch(/^Invalid DONE message/);
+          return;
+        }
+        expect(Number.isSafeInteger(parsed.count)).toBe(true);
+        expect(parsed.count).toBeLessThanOrEqual(0x10000);
+        expect(parsed.finalBytes).toBeLessThanOrEqual(MAX_MESSAGE_SIZE);
+        expect(parsed.sealedDigest.length).toBeGreaterThan(0);
+      }),
+    );
+  });
+
+  it('never completes a transfer from unauthenticated messages', async () => {
+    const message = fc.oneof(
+      fc
+        .uint8Array({ maxLength: 200 })
+        .map((bytes) => bytes.buffer as ArrayBuffer),
+      fc.stringMatching(/^DONE:\d{1,3}:\d{1,4}:[A-Za-z0-9+/]{4,64}$/),
+      fc.constant('DONE:0:0:AAAA'),
+      fc.string({ maxLength: 40 }),
+    );
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(message, { maxLength: 12 }),
+        async (messages) => {
+          const key = await makeKey();
+          const sink = await createReceiveSink(100);
+          const receiver = createDataChannelReceiver(key, 100, sink);
+          receiver.start();
+          let outcome = 'pending';
+          void receiver.done.then(
+            () => {
+              outcome = 'resolved';
+            },
+            () => {
+              outcome = 'rejected';
+            },
+          );
+          for (const data of messages) receiver.onMessage(data);
+          await receiver.createHaveMessage();
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          receiver.dispose();
+          await sink.discard();
+          expect(outcome).not.toBe('resolved');
+        },
+      ),
+      { numRuns: 50 },
+    );
+  });
+});
@@ -1,6 +1,21 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { deflateSync } from 'fflate';
 import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fakeChannel } from '../test/loopback-channel';
 import { installOpfsMock, type OpfsMock } from '../test/opfs-mock';
-import { ENCRYPTION_CHUNK_SIZE, encryptChunk } from './crypto';
+import {
+  bytesSource,
+  hexDigest,
+  makeKey,
+  makePlaintext,
+} from '../test/transfer-fixtures';
+import {
+  ENCRYPTION_CHUNK_SIZE,
+  encryptChunk,
+  encryptFileManifest,
+  encryptPayloadDigest,
+} from './crypto';
+import { encodeManifest, type FileManifest } from './file-manifest';
 import {
   ACK,
   createDataChannelReceiver,
@@ -10,6 +25,55 @@ import { createAdaptiveAppendSink, createReceiveSink } from './scratch-sink';
 import type { TransferSource } from './transfer-source';
 import type { WebRTCConnection } from './webrtc';
 
+/**
+ * A fake connection whose outgoing messages land in `receiver` and whose
+ * incoming control strings (HAVE, ACK) come from the receiver's replies.
+ * `deliver` also learns which of the `laneCount` channels carried a chunk
+ * (control strings always use lane 0, the primary channel). Only lanes whose
+ * `readyState` is 'open' count as open, so a test can open one late.
+ */
+function connectToReceiver(
+  deliver: (data: string | ArrayBuffer, lane: number) => void,
+  laneCount = 1,
+): {
+  rtc: WebRTCConnection;
+  reply: (data: string) => void;
+  lanes: RTCDataChannel[];
+  sentIndices: number[];
+  sentLanes: number[];
+} {
+  const lanes = Array.from({ length: laneCount }, (_, i) =>
+    fakeChannel(i === 0 ? 'file-transfer' : `file-transfer:${i}`),
+  );
+  const sentIndices: number[] = [];
+  const sentLanes: number[] = [];
+  const rtc = {
+    async sendWithBackpressure(
+      data: Uint8Array,
+      _threshold?: number,
+      channel: RTCDataChannel = lanes[0],
+    ) {
+      const lane = lanes.indexOf(channel);
+      sentIndices.push((data[0] << 8) | data[1]);
+      sentLanes.push(lane);
+      deliver(data.slice().buffer as ArrayBuffer, lane);
+    },
+    send(data: string) {
+      deliver(data, 0);
+    },
+    getDataChannel() {
+      return lanes[0];
+    },
+    getOpenDataChannels() {
+      return lanes.filter((lane) => lane.readyState === 'open');
+    },
+  } as unknown as WebRTCConnection;
+  const reply = (data: string) => {
+    lanes[0].dispatchEvent(new MessageEvent('message', { data }));
+  };
+  return { rtc, reply, lanes, sentIndices, sentLanes };
+}
+
 let opfs: OpfsMock;
 
 beforeAll(() => {
@@ -20,19 +84,6 @@ afterAll(() => {
   opfs.uninstall();
 });
 
-async function makeKey(): Promise<CryptoKey> {
-  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
-    'encrypt',
-    'decrypt',
-  ]);
-}
-
-function makePlaintext(totalBytes: number): Uint8Array {
-  const data = new Uint8Array(totalBytes);
-  for (let i = 0; i < totalBytes; i++) data[i] = (i * 31 + 7) % 256;
-  return data;
-}
-
 async function encryptAll(
   key: CryptoKey,
   plaintext: Uint8Array,
@@ -49,6 +100,17 @@ async function encryptAll(
   return messages;
 }
 
+/** The sender's DONE terminator for `plaintext`, with its sealed digest. */
+async function doneMessage(
+  key: CryptoKey,
+  plaintext: Uint8Array,
+  count = Math.ceil(plaintext.length / ENCRYPTION_CHUNK_SIZE),
+): Promise<string> {
+  const sealed = await encryptPayloadDigest(key, sha256(plaintext));
+  const digest = btoa(String.fromCharCode(...sealed));
+  return `DONE:${count}:${plaintext.length}:${digest}`;
+}
+
 describe('sendFileOverDataChannel', () => {
   it('sends a full chunk before an unknown-size source has finished producing', async () => {
     const key = await makeKey();
@@ -78,9 +140,7 @@ describe('sendFileOverDataChannel', () => {
         }),
     };
 
-    const channel = Object.assign(new EventTarget(), {
-      readyState: 'open' as RTCDataChannelState,
-    }) as unknown as RTCDataChannel;
+    const channel = fakeChannel();
     let firstChunkSent!: () => void;
     const firstChunk = new Promise<void>((resolve) => {
       firstChunkSent = resolve;
@@ -99,15 +159,27 @@ describe('sendFileOverDataChannel', () => {
       getDataChannel() {
         return channel;
       },
+      getOpenDataChannels() {
+        return [channel];
+      },
     } as unknown as WebRTCConnection;
 
     const sending = sendFileOverDataChannel(rtc, key, source);
+    channel.dispatchEvent(new MessageEvent('message', { data: 'HAVE:' }));
     await firstChunk;
     expect(remainderReleased).toBe(false);
     releaseRemainder();
 
-    await expect(sending).resolves.toBe(ENCRYPTION_CHUNK_SIZE + 3);
-    expect(controls).toEqual([`DONE:2:${ENCRYPTION_CHUNK_SIZE + 3}`]);
+    const payload = new Uint8Array(ENCRYPTION_CHUNK_SIZE + 3);
+    payload.set([1, 2, 3], ENCRYPTION_CHUNK_SIZE);
+    await expect(sending).resolves.toEqual({
+      totalBytes: ENCRYPTION_CHUNK_SIZE + 3,
+      digest: hexDigest(payload),
+    });
+    expect(controls).toHaveLength(1);
+    expect(controls[0]).toMatch(
+      new RegExp(`^DONE:2:${ENCRYPTION_CHUNK_SIZE + 3}:[A-Za-z0-9+/]+=*$`),
+    );
   });
 });
 
@@ -128,11 +200,12 @@ describe('createDataChannelReceiver', () => {
     // Deliver the second chunk first: positional sink writes must reassemble.
     receiver.onMessage(messages[1]);
     receiver.onMessage(messages[0]);
-    receiver.onMessage(`DONE:${messages.length}:${totalBytes}`);
+    receiver.onMessage(await doneMessage(key, plaintext));
 
-    const blob = await receiver.done;
+    const { data: blob, digest } = await receiver.done;
     expect(blob.size).toBe(totalBytes);
     expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+    expect(digest).toBe(hexDigest(plaintext));
     expect(progress.at(-1)).toBe(totalBytes);
   });
 
@@ -141,9 +214,10 @@ describe('createDataChannelReceiver', () => {
     const sink = await createReceiveSink(0);
     const receiver = createDataChannelReceiver(key, 0, sink);
     receiver.start();
-    receiver.onMessage('DONE:0:0');
-    const blob = await receiver.done;
+    receiver.onMessage(await doneMessage(key, new Uint8Array(0)));
+    const { data: blob, digest } = await receiver.done;
     expect(blob.size).toBe(0);
+    expect(digest).toBe(hexDigest(new Uint8Array(0)));
   });
 
   it('rejects a duplicate chunk index', async () => {
@@ -184,11 +258,45 @@ describe('createDataChannelReceiver', () => {
     const receiver = createDataChannelReceiver(key, 100, sink);
     receiver.start();
     receiver.onMessage(message);
-    receiver.onMessage('DONE:2:100');
+    receiver.onMessage(await doneMessage(key, plaintext, 2));
 
     await expect(receiver.done).rejects.toThrow('Invalid DONE message');
   });
 
+  it('rejects a payload whose digest differs from the sender digest', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(100);
+    const [message] = await encryptAll(key, plaintext);
+    const other = plaintext.slice();
+    other[0] ^= 0xff;
+
+    const sink = await createReceiveSink(100);
+    const receiver = createDataChannelReceiver(key, 100, sink);
+    receiver.start();
+    receiver.onMessage(message);
+    receiver.onMessage(await doneMessage(key, other));
+
+    await expect(receiver.done).rejects.toThrow(
+      'Payload digest does not match the sender',
+    );
+  });
+
+  it('rejects a digest sealed under a different key', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(100);
+    const [message] = await encryptAll(key, plaintext);
+
+    const sink = await createReceiveSink(100);
+    const receiver = createDataChannelReceiver(key, 100, sink);
+    receiver.start();
+    receiver.onMessage(message);
+    receiver.onMessage(await doneMessage(await makeKey(), plaintext));
+
+    await expect(receiver.done).rejects.toThrow(
+      'digest failed to authenticate',
+    );
+  });
+
   it('appends an unknown-size streamed payload and trusts only the final byte count', async () => {
     const key = await makeKey();
     const totalBytes = ENCRYPTION_CHUNK_SIZE + 1234;
@@ -201,14 +309,46 @@ describe('createDataChannelReceiver', () => {
     receiver.start();
 
     for (const message of messages) receiver.onMessage(message);
-    receiver.onMessage(`DONE:${messages.length}:${totalBytes}`);
+    receiver.onMessage(await doneMessage(key, plaintext));
 
-    const blob = await receiver.done;
+    const { data: blob } = await receiver.done;
     expect(blob.size).toBe(totalBytes);
     expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
     await sink.discard();
   });
 
+  it('checks an in-order digest before sealing the sink', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(100);
+    const [message] = await encryptAll(key, plaintext);
+    const other = plaintext.slice();
+    other[0] ^= 0xff;
+
+    const sink = await createAdaptiveAppendSink(100);
+    let finished = false;
+    const receiver = createDataChannelReceiver(
+      key,
+      null,
+      {
+        append: (bytes) => sink.append(bytes),
+        finish: () => {
+          finished = true;
+          return sink.finish();
+        },
+        discard: () => sink.discard(),
+      },
+      { estimatedBytes: 100 },
+    );
+    receiver.start();
+    receiver.onMessage(message);
+    receiver.onMessage(await doneMessage(key, other));
+
+    await expect(receiver.done).rejects.toThrow(
+      'Payload digest does not match the sender',
+    );
+    expect(finished).toBe(false);
+  });
+
   it('aborts an idle transfer via the stall watchdog', async () => {
     const key = await makeKey();
     const sink = await createReceiveSink(100);
@@ -219,4 +359,444 @@ describe('createDataChannelReceiver', () => {
 
     await expect(receiver.done).rejects.toThrow('Transfer stalled');
   });
+
+  it('ignores messages while suspended', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(100);
+    const [message] = await encryptAll(key, plaintext);
+
+    const sink = await createReceiveSink(100);
+    const receiver = createDataChannelReceiver(key, 100, sink);
+    receiver.start();
+    receiver.suspend();
+    receiver.onMessage(message);
+
+    expect(await receiver.createHaveMessage()).toBe('HAVE::deflate');
+    receiver.dispose();
+    await sink.discard();
+  });
+});
+
+describe('striping across data channels', () => {
+  it('sends chunk i on channel i mod N', async () => {
+    const key = await makeKey();
+    const totalBytes = 4 * ENCRYPTION_CHUNK_SIZE + 1;
+    const plaintext = makePlaintext(totalBytes);
+    const sink = await createReceiveSink(totalBytes);
+    const receiver = createDataChannelReceiver(key, totalBytes, sink);
+    receiver.start();
+
+    const { rtc, reply, sentIndices, sentLanes } = connectToReceiver(
+      (data) => receiver.onMessage(data),
+      3,
+    );
+    void receiver.done.then(() => reply(ACK));
+
+    const sending = sendFileOverDataChannel(rtc, key, bytesSource(plaintext));
+    reply(await receiver.createHaveMessage());
+
+    await expect(sending).resolves.toMatchObject({ totalBytes });
+    expect(sentIndices).toEqual([0, 1, 2, 3, 4]);
+    expect(sentLanes).toEqual([0, 1, 2, 0, 1]);
+    const { data: blob } = await receiver.done;
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+    await sink.discard();
+  });
+
+  it('stripes onto a channel that opens after HAVE', async () => {
+    const key = await makeKey();
+    const totalBytes = 3 * ENCRYPTION_CHUNK_SIZE + 1;
+    const plaintext = makePlaintext(totalBytes);
+    const sink = await createReceiveSink(totalBytes);
+    const receiver = createDataChannelReceiver(key, totalBytes, sink);
+    receiver.start();
+
+    const { rtc, reply, lanes, sentIndices, sentLanes } = connectToReceiver(
+      (data) => {
+        receiver.onMessage(data);
+        // The second channel finishes opening once the first chunk is out.
+        (lanes[1] as { readyState: RTCDataChannelState }).readyState = 'open';
+      },
+      2,
+    );
+    (lanes[1] as { readyState: RTCDataChannelState }).readyState = 'connecting';
+    void receiver.done.then(() => reply(ACK));
+
+    const sending = sendFileOverDataChannel(rtc, key, bytesSource(plaintext));
+    reply(await receiver.createHaveMessage());
+
+    await expect(sending).resolves.toMatchObject({ totalBytes });
+    expect(sentIndices).toEqual([0, 1, 2, 3]);
+    expect(sentLanes).toEqual([0, 1, 0, 1]);
+    const { data: blob } = await receiver.done;
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+    await sink.discard();
+  });
+
+  it('reorders streamed chunks and waits for chunks that DONE overtook', async () => {
+    const key = await makeKey();
+    const totalBytes = 3 * ENCRYPTION_CHUNK_SIZE + 7;
+    const plaintext = makePlaintext(totalBytes);
+    const sink = await createAdaptiveAppendSink(totalBytes);
+    const receiver = createDataChannelReceiver(key, null, sink, {
+      estimatedBytes: totalBytes,
+    });
+    receiver.start();
+
+    // The second channel is slow: its chunks land only after DONE.
+    const delayed: ArrayBuffer[] = [];
+    const { rtc, reply } = connectToReceiver((data, lane) => {
+      if (lane === 1 && data instanceof ArrayBuffer) {
+        delayed.push(data);
+        return;
+      }
+      receiver.onMessage(data);
+      if (typeof data === 'string' && data.startsWith('DONE:')) {
+        for (const chunk of delayed) receiver.onMessage(chunk);
+      }
+    }, 2);
+    void receiver.done.then(() => reply(ACK));
+
+    const sending = sendFileOverDataChannel(
+      rtc,
+      key,
+      bytesSource(plaintext, false),
+    );
+    reply(await receiver.createHaveMessage());
+
+    await expect(sending).resolves.toMatchObject({ totalBytes });
+    const { data: blob, digest } = await receiver.done;
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+    expect(digest).toBe(hexDigest(plaintext));
+    await sink.discard();
+  });
+
+  it('rejects a streamed chunk too far ahead of the append position', async () => {
+    const key = await makeKey();
+    const chunk = makePlaintext(ENCRYPTION_CHUNK_SIZE);
+    const farAhead = await encryptChunk(key, chunk, 200);
+    const sink = await createAdaptiveAppendSink(ENCRYPTION_CHUNK_SIZE);
+    const receiver = createDataChannelReceiver(key, null, sink);
+    receiver.start();
+    receiver.onMessage(farAhead.buffer as ArrayBuffer);
+
+    await expect(receiver.done).rejects.toThrow('too far ahead');
+    await sink.discard();
+  });
+});
+
+describe('chunk compression', () => {
+  /** Send `source` to `receiver`, recording each chunk's codec byte. */
+  async function sendAndRecordCodecs(
+    key: CryptoKey,
+    source: TransferSource,
+    receiver: ReturnType<typeof createDataChannelReceiver>,
+  ): Promise<number[]> {
+    const codecs: number[] = [];
+    const { rtc, reply } = connectToReceiver((data) => {
+      if (data instanceof ArrayBuffer) codecs.push(new Uint8Array(data)[2]);
+      receiver.onMessage(data);
+    });
+    void receiver.done.then(
+      () => reply(ACK),
+      () => {},
+    );
+    const sending = sendFileOverDataChannel(rtc, key, source);
+    reply(await receiver.createHaveMessage());
+    await sending;
+    return codecs;
+  }
+
+  it('deflates compressible chunks and restores the original bytes', async () => {
+    const key = await makeKey();
+    const totalBytes = 2 * ENCRYPTION_CHUNK_SIZE + 500;
+    const plaintext = makePlaintext(totalBytes);
+    const sink = await createAdaptiveAppendSink(totalBytes);
+    const progress: number[] = [];
+    const receiver = createDataChannelReceiver(key, null, sink, {
+      onProgress: (current) => progress.push(current),
+    });
+    receiver.start();
+
+    const codecs = await sendAndRecordCodecs(
+      key,
+      bytesSource(plaintext, false),
+      receiver,
+    );
+
+    expect(codecs).toEqual([1, 1, 1]);
+    const { data: blob, digest } = await receiver.done;
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+    expect(digest).toBe(hexDigest(plaintext));
+    expect(progress.at(-1)).toBe(totalBytes);
+    await sink.discard();
+  });
+
+  it('sends chunks raw for an already-compressed MIME type', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(1000);
+    const sink = await createReceiveSink(plaintext.length);
+    const receiver = createDataChannelReceiver(key, plaintext.length, sink);
+    receiver.start();
+
+    const codecs = await sendAndRecordCodecs(
+      key,
+      { ...bytesSource(plaintext), type: 'video/mp4' },
+      receiver,
+    );
+
+    expect(codecs).toEqual([0]);
+    const { data: blob } = await receiver.done;
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+    await sink.discard();
+  });
+
+  it('sends chunks raw to a receiver that does not advertise deflate', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(1000);
+    const sink = await createReceiveSink(plaintext.length);
+    const receiver = createDataChannelReceiver(key, plaintext.length, sink, {
+      compression: false,
+    });
+    receiver.start();
+
+    expect(await receiver.createHaveMessage()).toBe('HAVE:');
+    const codecs = await sendAndRecordCodecs(
+      key,
+      bytesSource(plaintext),
+      receiver,
+    );
+
+    expect(codecs).toEqual([0]);
+    await expect(receiver.done).resolves.toMatchObject({
+      digest: hexDigest(plaintext),
+    });
+    await sink.discard();
+  });
+
+  it('rejects a deflated chunk the receiver did not advertise', async () => {
+    const key = await makeKey();
+    const message = await encryptChunk(key, new Uint8Array(10), 0, 1);
+    const sink = await createReceiveSink(1000);
+    const receiver = createDataChannelReceiver(key, 1000, sink, {
+      compression: false,
+    });
+    receiver.start();
+    receiver.onMessage(message.buffer as ArrayBuffer);
+
+    await expect(receiver.done).rejects.toThrow('Unsupported chunk codec: 1');
+    await sink.discard();
+  });
+
+  it('rejects a deflated chunk that inflates to the wrong length', async () => {
+    const key = await makeKey();
+    const message = await encryptChunk(
+      key,
+      deflateSync(new Uint8Array(999)),
+      0,
+      1,
+    );
+    const sink = await createReceiveSink(1000);
+    const receiver = createDataChannelReceiver(key, 1000, sink);
+    receiver.start();
+    receiver.onMessage(message.buffer as ArrayBuffer);
+
+    await expect(receiver.done).rejects.toThrow(
+      'Invalid chunk 0 length: expected 1000, got 999',
+    );
+    await sink.discard();
+  });
+});
+
+describe('multi-file manifest', () => {
+  function manifestFor(sizes: number[]): FileManifest {
+    return {
+      files: sizes.map((size, i) => ({
+        path: `dir/file-${i}.bin`,
+        size,
+        lastModified: 1700000000000 + i,
+        mimeType: 'application/octet-stream',
+      })),
+    };
+  }
+
+  it('delivers the manifest alongside the payload', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(ENCRYPTION_CHUNK_SIZE + 100);
+    const manifest = manifestFor([100, ENCRYPTION_CHUNK_SIZE]);
+    const sink = await createReceiveSink(plaintext.length);
+    const receiver = createDataChannelReceiver(key, plaintext.length, sink, {
+      expectManifest: true,
+    });
+    receiver.start();
+
+    const { rtc, reply } = connectToReceiver((data) =>
+      receiver.onMessage(data),
+    );
+    void receiver.done.then(
+      () => reply(ACK),
+      () => {},
+    );
+    const sending = sendFileOverDataChannel(rtc, key, {
+      ...bytesSource(plaintext),
+      manifest,
+    });
+    reply(await receiver.createHaveMessage());
+    await sending;
+
+    const received = await receiver.done;
+    expect(received.manifest).toEqual(manifest);
+    expect(new Uint8Array(await received.data.arrayBuffer())).toEqual(
+      plaintext,
+    );
+    await sink.discard();
+  });
+
+  it('rejects DONE without the expected manifest', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(1000);
+    const sink = await createReceiveSink(plaintext.length);
+    const receiver = createDataChannelReceiver(key, plaintext.length, sink, {
+      expectManifest: true,
+    });
+    receiver.start();
+    for (const message of await encryptAll(key, plaintext)) {
+      receiver.onMessage(message);
+    }
+    receiver.onMessage(await doneMessage(key, plaintext));
+
+    await expect(receiver.done).rejects.toThrow('Missing MANIFEST message');
+    await sink.discard();
+  });
+
+  it('rejects a manifest for a single-file transfer', async () => {
+    const key = await makeKey();
+    const sealed = await encryptFileManifest(
+      key,
+      encodeManifest(manifestFor([1000])),
+    );
+    const sink = await createReceiveSink(1000);
+    const receiver = createDataChannelReceiver(key, 1000, sink);
+    receiver.start();
+    receiver.onMessage(`MANIFEST:${btoa(String.fromCharCode(...sealed))}`);
+
+    await expect(receiver.done).rejects.toThrow('Unexpected MANIFEST message');
+    await sink.discard();
+  });
+
+  it('rejects a manifest that does not describe the payload', async () => {
+    const key = await makeKey();
+    const sealed = await encryptFileManifest(
+      key,
+      encodeManifest(manifestFor([400, 500])),
+    );
+    const sink = await createReceiveSink(1000);
+    const receiver = createDataChannelReceiver(key, 1000, sink, {
+      expectManifest: true,
+    });
+    receiver.start();
+    receiver.onMessage(`MANIFEST:${btoa(String.fromCharCode(...sealed))}`);
+
+    await expect(receiver.done).rejects.toThrow(
+      'Invalid MANIFEST message: file sizes do not match the payload',
+    );
+    await sink.discard();
+  });
+});
+
+describe('resuming a dropped transfer', () => {
+  it('retransmits only the chunks missing from the receiver HAVE set', async () => {
+    const key = await makeKey();
+    const totalBytes = 2 * ENCRYPTION_CHUNK_SIZE + 99;
+    const plaintext = makePlaintext(totalBytes);
+    const messages = await encryptAll(key, plaintext);
+
+    const sink = await createReceiveSink(totalBytes);
+    const receiver = createDataChannelReceiver(key, totalBytes, sink);
+
+    // First connection delivers the middle chunk, then drops.
+    receiver.start();
+    receiver.onMessage(messages[1]);
+    receiver.suspend();
+
+    const { rtc, reply, sentIndices } = connectToReceiver((data) => {
+      receiver.onMessage(data);
+    });
+    void receiver.done.then(() => reply(ACK));
+
+    const sending = sendFileOverDataChannel(rtc, key, bytesSource(plaintext));
+    receiver.start();
+    reply(await receiver.createHaveMessage());
+
+    const { digest: sentDigest } = await sending;
+    expect(sentIndices).toEqual([0, 2]);
+    const { data: blob, digest } = await receiver.done;
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+    // The skipped chunk still counts toward both sides' digest.
+    expect(digest).toBe(hexDigest(plaintext));
+    expect(sentDigest).toBe(digest);
+    await sink.discard();
+  });
+
+  it('resumes a streamed payload from the appended prefix', async () => {
+    const key = await makeKey();
+    const totalBytes = 2 * ENCRYPTION_CHUNK_SIZE + 5;
+    const plaintext = makePlaintext(totalBytes);
+    const messages = await encryptAll(key, plaintext);
+
+    const sink = await createAdaptiveAppendSink(totalBytes);
+    const receiver = createDataChannelReceiver(key, null, sink, {
+      estimatedBytes: totalBytes,
+    });
+    receiver.start();
+    receiver.onMessage(messages[0]);
+    receiver.suspend();
+
+    const { rtc, reply, sentIndices } = connectToReceiver((data) => {
+      receiver.onMessage(data);
+    });
+    void receiver.done.then(() => reply(ACK));
+
+    const sending = sendFileOverDataChannel(
+      rtc,
+      key,
+      bytesSource(plaintext, false),
+    );
+    receiver.start();
+    reply(await receiver.createHaveMessage());
+
+    await expect(sending).resolves.toMatchObject({ totalBytes });
+    expect(sentIndices).toEqual([1, 2]);
+    const { data: blob, digest } = await receiver.done;
+    expect(digest).toBe(hexDigest(plaintext));
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+    await sink.discard();
+  });
+
+  it('rejects a HAVE set with gaps for a streamed payload', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(2 * ENCRYPTION_CHUNK_SIZE);
+    const { rtc, reply } = connectToReceiver(() => {});
+
+    const sending = sendFileOverDataChannel(
+      rtc,
+      key,
+      bytesSource(plaintext, false),
+    );
+    // Bitmap 0b10: chunk 1 held without chunk 0.
+    reply('HAVE:Ag==');
+
+    await expect(sending).rejects.toThrow('must be a prefix');
+  });
+
+  it('rejects a HAVE index beyond the payload', async () => {
+    const key = await makeKey();
+    const plaintext = makePlaintext(100);
+    const { rtc, reply } = connectToReceiver(() => {});
+
+    const sending = sendFileOverDataChannel(rtc, key, bytesSource(plaintext));
+    reply('HAVE:Ag==');
+
+    await expect(sending).rejects.toThrow('out of range');
+  });
 });
@@ -7,12 +7,33 @@
  * per-chunk validation live in exactly one place.
  *
  * Wire protocol:
+ *   - Once the channel opens, the receiver sends `HAVE:<base64 bitmap>` naming
+ *     the chunk indices it already holds (empty on a fresh transfer). The
+ *     sender waits for it and skips those chunks, which is how a transfer
+ *     resumes after the peers re-run signaling on a new connection. An
+ *     optional `:<codec>,...` suffix lists the chunk codecs the receiver can
+ *     decode (currently only `deflate`).
+ *   - For a multi-file payload, a control string `MANIFEST:<sealed>` naming
+ *     each file's path, size and mtime (base64, sealed with the transfer key,
+ *     see `encryptFileManifest`). The payload is the files back to back; the
+ *     manifest is re-sent on every resumed connection and must not change.
  *   - Binary chunk messages, each produced by `encryptChunk`:
- *       [2-byte chunk index (big-endian)][12-byte nonce][ciphertext][16-byte tag]
- *     The chunk index is also the AES-GCM additional authenticated data.
- *   - A trailing control string `DONE:<totalChunks>:<totalBytes>`.
+ *       [2-byte chunk index (big-endian)][1-byte codec][12-byte nonce][ciphertext][16-byte tag]
+ *     The index and codec header is also the AES-GCM additional authenticated
+ *     data. A compressible payload sent to a receiver that advertised
+ *     `deflate` has each chunk deflated before encryption whenever that makes
+ *     it smaller; every byte count (progress, DONE, digest) still refers to
+ *     the original plaintext.
+ *     Chunks are striped round-robin across every open data channel; control
+ *     strings travel on the primary channel only.
+ *   - A trailing control string `DONE:<totalChunks>:<totalBytes>:<digest>`,
+ *     where `<digest>` is the base64 SHA-256 of the whole plaintext, sealed
+ *     with the transfer key (see `encryptPayloadDigest`).
  *   - The receiver replies with the control string `ACK` once every chunk has
- *     authenticated and been written to its sink.
+ *     authenticated and been written to its sink, and its own incrementally
+ *     computed SHA-256 matches the sender's.
+ *   - The offline QR fallback carries the same MANIFEST, chunk and DONE
+ *     messages one way, with no HAVE or ACK (see `encodeTransferMessages`).
  *
  * Neither side materializes the whole file: the sender coalesces a lazy
  * `TransferSource` into `ENCRYPTION_CHUNK_SIZE` pieces, and the receiver writes
@@ -20,29 +41,57 @@
  * (streamed ZIPs) are appended in order and finalized from the DONE byte count.
  */
 
+import { sha256 } from '@noble/hashes/sha2.js';
+import {
+  CHUNK_CODEC_DEFLATE,
+  CHUNK_CODEC_RAW,
+  DEFLATE_CODEC_NAME,
+  deflateChunk,
+  inflateChunk,
+  isCompressibleMimeType,
+} from '@/lib/chunk-compression';
 import {
   AES_NONCE_LENGTH,
   AES_TAG_LENGTH,
   decryptChunk,
+  decryptFileManifest,
+  decryptPayloadDigest,
   ENCRYPTED_CHUNK_OVERHEAD,
   ENCRYPTION_CHUNK_SIZE,
   encryptChunk,
+  encryptFileManifest,
+  encryptPayloadDigest,
   MAX_MESSAGE_SIZE,
   parseChunkMessage,
 } from '@/lib/crypto';
 import { P2PConnectionError } from '@/lib/errors';
+import {
+  decodeManifest,
+  encodeManifest,
+  type FileManifest,
+} from '@/lib/file-manifest';
 import type { AppendSink, ReceiveSink } from '@/lib/scratch-sink';
 import type { TransferSource } from '@/lib/transfer-source';
 import type { WebRTCConnection } from '@/lib/webrtc';
 
 /** Control-message tokens exchanged over the data channel. */
 const DONE_PREFIX = 'DONE:';
+/** Prefix of the receiver's resume-state message; see the module comment. */
+export const HAVE_PREFIX = 'HAVE:';
+const MANIFEST_PREFIX = 'MANIFEST:';
 /** Canonical acknowledgement token; receive hooks send this exact value. */
 export const ACK = 'ACK';
 
-/** Maximum time the sender waits for the receiver's ACK. */
+/** Maximum time the sender waits for the receiver's ACK (or HAVE). */
 export const ACK_TIMEOUT_MS = 30000;
 
+/**
+ * Reconnects a transfer may attempt after its data channel has opened once.
+ * Each attempt re-runs signaling and resumes from the receiver's HAVE state;
+ * the original connection does not count.
+ */
+export const MAX_RESUME_ATTEMPTS = 3;
+
 /**
  * Idle/stall timeout for an in-flight transfer. This is a per-activity window,
  * not an overall deadline: each chunk sent (sender) or message received
@@ -70,6 +119,130 @@ function resolveStallTimeoutMs(value: number | undefined): number {
  */
 const MAX_CHUNKS = 0x10000; // 65536
 
+/**
+ * How far a chunk may overtake the next one the receiver needs when chunks
+ * are striped across data channels. Each channel buffers at most about 1MB
+ * (8 chunks) before the sender waits on it, so real skew stays well below
+ * this; a streamed receiver holds at most this many encrypted chunks.
+ */
+const MAX_REORDER_CHUNKS = 128;
+
+/**
+ * Deflating incompressible data only burns CPU. After this many consecutive
+ * chunks failed to shrink, the sender only tries one chunk in every
+ * INCOMPRESSIBLE_PROBE_INTERVAL until one compresses again (a ZIP can mix
+ * photos with text files).
+ */
+const INCOMPRESSIBLE_RUN_LIMIT = 4;
+const INCOMPRESSIBLE_PROBE_INTERVAL = 16;
+
+/** Lowercase hex, the form `sha256sum` prints and users paste into tickets. */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Encode held chunk indices as `HAVE:<base64 bitmap>`, LSB-first per byte,
+ * followed by `:<codec>,...` when the receiver can decode compressed chunks.
+ */
+function encodeHaveMessage(
+  indices: ReadonlySet<number>,
+  codecs: readonly string[],
+): string {
+  let highest = -1;
+  for (const index of indices) highest = Math.max(highest, index);
+  const bitmap = new Uint8Array(Math.ceil((highest + 1) / 8));
+  for (const index of indices) bitmap[index >> 3] |= 1 << (index & 7);
+  const codecList = codecs.length > 0 ? `:${codecs.join(',')}` : '';
+  return `${HAVE_PREFIX}${bytesToBase64(bitmap)}${codecList}`;
+}
+
+/**
+ * Decode a HAVE message into chunk indices and advertised codec names; null
+ * if it is malformed. Unknown codec names are kept and simply never chosen.
+ */
+function parseHaveMessage(
+  data: string,
+): { held: Set<number>; codecs: Set<string> } | null {
+  const [encoded, codecList, ...rest] = data
+    .slice(HAVE_PREFIX.length)
+    .split(':');
+  if (rest.length > 0) return null;
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(encoded)) return null;
+  if (
+    codecList !== undefined &&
+    !/^[a-z0-9-]+(,[a-z0-9-]+)*$/.test(codecList)
+  ) {
+    return null;
+  }
+  let binary: string;
+  try {
+    binary = atob(encoded);
+  } catch {
+    return null;
+  }
+  if (binary.length > MAX_CHUNKS / 8) return null;
+  const indices = new Set<number>();
+  for (let byteIndex = 0; byteIndex < binary.length; byteIndex++) {
+    const byte = binary.charCodeAt(byteIndex);
+    for (let bit = 0; bit < 8; bit++) {
+      if (byte & (1 << bit)) indices.add(byteIndex * 8 + bit);
+    }
+  }
+  return { held: indices, codecs: new Set(codecList?.split(',')) };
+}
+
+/** The fields of a `DONE:<totalChunks>:<totalBytes>:<digest>` terminator. */
+export interface DoneMessage {
+  count: number;
+  finalBytes: number;
+  /** The payload digest, still sealed with the transfer key. */
+  sealedDigest: Uint8Array;
+}
+
+function encodeDoneMessage(
+  count: number,
+  finalBytes: number,
+  sealedDigest: Uint8Array,
+): string {
+  return `${DONE_PREFIX}${count}:${finalBytes}:${bytesToBase64(sealedDigest)}`;
+}
+
+/**
+ * Parse a DONE terminator, bounding its counts by the chunk-index range and
+ * the transfer size limit. Throws on anything malformed; the digest is only
+ * decoded here and authenticates when the receiver opens it.
+ */
+export function parseDoneMessage(data: string): DoneMessage {
+  const match = /^DONE:(\d+):(\d+):([A-Za-z0-9+/]+={0,2})$/.exec(data);
+  if (!match) throw new Error('Invalid DONE message');
+  const count = Number(match[1]);
+  const finalBytes = Number(match[2]);
+  if (
+    !Number.isSafeInteger(count) ||
+    count < 0 ||
+    count > MAX_CHUNKS ||
+    !Number.isSafeInteger(finalBytes) ||
+    finalBytes < 0 ||
+    finalBytes > MAX_MESSAGE_SIZE
+  ) {
+    throw new Error('Invalid DONE message values');
+  }
+  let sealedDigest: Uint8Array;
+  try {
+    sealedDigest = Uint8Array.from(atob(match[3]), (c) => c.charCodeAt(0));
+  } catch {
+    throw new Error('Invalid DONE message digest');
+  }
+  return { count, finalBytes, sealedDigest };
+}
+
 /** Minimum spacing between intermediate onProgress emissions. */
 const PROGRESS_MIN_INTERVAL_MS = 100;
 
@@ -93,6 +266,36 @@ function paceProgress(
   };
 }
 
+/** Outcome of a completed, acknowledged send. */
+export interface SendResult {
+  /** Plaintext bytes in the payload. */
+  totalBytes: number;
+  /** Lowercase hex SHA-256 of the whole plaintext payload. */
+  digest: string;
+}
+
+/** A received payload whose digest matched the sender's. */
+export interface ReceivedPayload {
+  /**
+   * The sealed plaintext payload from the sink (disk-backed for an
+   * OPFS-backed sink).
+   */
+  data: Blob;
+  /** Lowercase hex SHA-256 of `data`, verified against the sender's. */
+  digest: string;
+  /** File list of a multi-file payload; `data` is the files back to back. */
+  manifest?: FileManifest;
+}
+
+/** Sender choices a send hook applies when it sets up the connection. */
+export interface TransferSetupOptions {
+  /**
+   * Data channels to open and stripe chunks across, 1 to MAX_DATA_CHANNELS.
+   * Defaults to DEFAULT_DATA_CHANNELS.
+   */
+  dataChannels?: number;
+}
+
 export interface SendOptions {
   /** Called after each chunk with cumulative bytes sent and the total. */
   onProgress?: (current: number, total: number) => void;
@@ -104,6 +307,12 @@ export interface SendOptions {
    * transfer aborts. Defaults to STALL_TIMEOUT_MS.
    */
   stallTimeoutMs?: number;
+  /**
+   * The receiver's HAVE message, when the caller has already read it (an
+   * exchange session takes HAVE as the peer's go-ahead). Otherwise the send
+   * waits for HAVE on the primary channel.
+   */
+  haveMessage?: string;
 }
 
 export interface ReceiverOptions {
@@ -111,6 +320,16 @@ export interface ReceiverOptions {
   onProgress?: (current: number, total: number) => void;
   /** Progress hint used only when the payload's final size is not yet known. */
   estimatedBytes?: number;
+  /**
+   * Advertise `deflate` in HAVE so a sender may compress chunks. Defaults to
+   * true.
+   */
+  compression?: boolean;
+  /**
+   * The payload is a multi-file transfer: require the sender's MANIFEST and
+   * resolve with it. Otherwise a MANIFEST message fails the transfer.
+   */
+  expectManifest?: boolean;
   /**
    * Idle window in ms: once `start()` is called, the transfer aborts if no
    * data-channel message arrives within this span. Every message resets it.
@@ -123,10 +342,10 @@ export interface DataChannelReceiver {
   /** Feed every data-channel message here. */
   onMessage: (data: string | ArrayBuffer) => void;
   /**
-   * Resolves with the sealed plaintext payload from the sink (disk-backed
-   * for an OPFS-backed sink), or rejects on any error.
+   * Resolves with the sealed payload and its verified digest, or rejects on
+   * any error (including a digest mismatch).
    */
-  done: Promise<Blob>;
+  done: Promise<ReceivedPayload>;
   /**
    * Arm the stall watchdog. Call once the data channel is open and data should
    * begin flowing; every subsequent message resets the idle window.
@@ -137,30 +356,202 @@ export interface DataChannelReceiver {
    * cancel path so the timer does not outlive an abandoned transfer.
    */
   dispose: () => void;
+  /**
+   * Pause after the data channel dropped: the watchdog stops and messages are
+   * ignored until the next `start()`, while the sink and every authenticated
+   * chunk are kept for a resumed connection.
+   */
+  suspend: () => void;
+  /**
+   * Settle in-flight chunk writes, then encode the chunks held so far as the
+   * HAVE message to send when a (new) data channel opens.
+   */
+  createHaveMessage: () => Promise<string>;
 }
 
 /**
  * Read a lazy payload, coalesce it into `ENCRYPTION_CHUNK_SIZE` chunks, and
  * encrypt/send each chunk immediately. ZIP sources therefore start sending
- * before their later entries have even been read.
+ * before their later entries have even been read. Every chunk, including
+ * those the receiver already holds, feeds the payload digest.
+ *
+ * Chunks are deflated before encryption when the receiver advertised
+ * `deflate` and the source is compressible (`source.compressible`, else its
+ * MIME type); a chunk that does not shrink is sent raw.
+ *
+ * Chunk `i` goes out on open data channel `i mod N`, and each send waits only
+ * on its own channel's buffer, so N channels keep N buffers filling at once.
+ * The open channels are read again for every chunk, so a channel that was
+ * still opening at HAVE joins as soon as it opens.
  */
 export async function sendFileOverDataChannel(
   rtc: WebRTCConnection,
   key: CryptoKey,
   source: TransferSource,
   opts: SendOptions = {},
-): Promise<number> {
+): Promise<SendResult> {
   const { isCancelled } = opts;
   const reportProgress = paceProgress(opts.onProgress);
   const stallTimeoutMs = resolveStallTimeoutMs(opts.stallTimeoutMs);
   const progressTotal = source.size ?? source.estimatedSize;
+  // Listen before the first await: the receiver sends HAVE as soon as its end
+  // of the channel opens.
+  const haveMessage =
+    opts.haveMessage ??
+    waitForControlMessage(
+      rtc,
+      (data) => data.startsWith(HAVE_PREFIX),
+      'resume state',
+    );
+
+  const have = parseHaveMessage(await haveMessage);
+  if (!have) throw new Error('Invalid HAVE message');
+  const { held } = have;
+  validateHeldChunks(held, source.size);
+  const compress =
+    have.codecs.has(DEFLATE_CODEC_NAME) &&
+    (source.compressible ?? isCompressibleMimeType(source.type));
+  if (rtc.getOpenDataChannels().length === 0) {
+    throw new P2PConnectionError('Data channel closed before transfer');
+  }
+  if (source.manifest) {
+    // The primary channel is ordered, so the manifest precedes DONE.
+    const sealedManifest = await encryptFileManifest(
+      key,
+      encodeManifest(source.manifest),
+    );
+    rtc.send(`${MANIFEST_PREFIX}${bytesToBase64(sealedManifest)}`);
+  }
+
+  const hasher = sha256.create();
+  let incompressibleRun = 0;
+
+  const encodeChunk = (
+    chunk: Uint8Array,
+    chunkIndex: number,
+  ): { codec: number; body: Uint8Array } => {
+    if (
+      !compress ||
+      (incompressibleRun >= INCOMPRESSIBLE_RUN_LIMIT &&
+        chunkIndex % INCOMPRESSIBLE_PROBE_INTERVAL !== 0)
+    ) {
+      return { codec: CHUNK_CODEC_RAW, body: chunk };
+    }
+    const deflated = deflateChunk(chunk);
+    if (!deflated) {
+      incompressibleRun++;
+      return { codec: CHUNK_CODEC_RAW, body: chunk };
+    }
+    incompressibleRun = 0;
+    return { codec: CHUNK_CODEC_DEFLATE, body: deflated };
+  };
+
+  let sentBytes = 0;
+  const sendChunk = async (chunk: Uint8Array, chunkIndex: number) => {
+    hasher.update(chunk);
+
+    // Chunks the receiver already holds are still read (the source is a
+    // stream) but never re-encrypted or re-sent.
+    if (!held.has(chunkIndex)) {
+      const { codec, body } = encodeChunk(chunk, chunkIndex);
+      const encryptedChunk = await encryptChunk(key, body, chunkIndex, codec);
+      const lanes = rtc.getOpenDataChannels();
+      if (lanes.length === 0) {
+        throw new P2PConnectionError('Data channel closed during transfer');
+      }
+      // A single chunk that cannot be handed off within the idle window means
+      // the receiver has stopped draining the channel; abort rather than block.
+      await withStallTimeout(
+        sendChunkMessage(rtc, lanes[chunkIndex % lanes.length], encryptedChunk),
+        stallTimeoutMs,
+        `Transfer stalled: receiver stopped accepting data within ${Math.round(stallTimeoutMs / 1000)}s`,
+      );
+    }
+    sentBytes += chunk.length;
+    reportProgress(sentBytes, progressTotal);
+  };
+
+  const { chunkCount, totalBytes } = await readSourceChunks(
+    source,
+    sendChunk,
+    isCancelled,
+  );
+
+  const digest = hasher.digest();
+  const sealedDigest = await encryptPayloadDigest(key, digest);
+
+  // The byte count authenticates the final length for sources whose streamed
+  // output was not known during signaling.
+  const ack = waitForControlMessage(
+    rtc,
+    (data) => data === ACK,
+    'acknowledgment',
+  );
+  rtc.send(encodeDoneMessage(chunkCount, totalBytes, sealedDigest));
+  reportProgress(totalBytes, totalBytes);
+
+  await ack;
+  return { totalBytes, digest: toHex(digest) };
+}
+
+/**
+ * The messages sendFileOverDataChannel would send to a fresh receiver that
+ * advertised `deflate`, in order, for a one-way link that carries neither
+ * HAVE nor ACK (the offline QR fallback, see qr-transfer.ts). Every message
+ * is held in memory, so this is only for small sources.
+ */
+export async function encodeTransferMessages(
+  key: CryptoKey,
+  source: TransferSource,
+): Promise<{ messages: (string | Uint8Array)[] } & SendResult> {
+  const compress = source.compressible ?? isCompressibleMimeType(source.type);
+  const messages: (string | Uint8Array)[] = [];
+  if (source.manifest) {
+    const sealedManifest = await encryptFileManifest(
+      key,
+      encodeManifest(source.manifest),
+    );
+    messages.push(`${MANIFEST_PREFIX}${bytesToBase64(sealedManifest)}`);
+  }
+
+  const hasher = sha256.create();
+  const { chunkCount, totalBytes } = await readSourceChunks(
+    source,
+    async (chunk, chunkIndex) => {
+      hasher.update(chunk);
+      const deflated = compress ? deflateChunk(chunk) : null;
+      messages.push(
+        deflated
+          ? await encryptChunk(key, deflated, chunkIndex, CHUNK_CODEC_DEFLATE)
+          : await encryptChunk(key, chunk, chunkIndex, CHUNK_CODEC_RAW),
+      );
+    },
+  );
+
+  const digest = hasher.digest();
+  const sealedDigest = await encryptPayloadDigest(key, digest);
+  messages.push(encodeDoneMessage(chunkCount, totalBytes, sealedDigest));
+  return { messages, totalBytes, digest: toHex(digest) };
+}
+
+/**
+ * Coalesce a lazy source into `ENCRYPTION_CHUNK_SIZE` chunks and hand each to
+ * `onChunk` in index order; only the last may be short. A full chunk is a
+ * reused buffer, valid only until `onChunk` settles. Enforces the chunk-index
+ * range and size limit, and the source's own size when it declares one.
+ */
+async function readSourceChunks(
+  source: TransferSource,
+  onChunk: (chunk: Uint8Array, chunkIndex: number) => Promise<void>,
+  isCancelled?: () => boolean,
+): Promise<{ chunkCount: number; totalBytes: number }> {
   const reader = source.stream().getReader();
   const plainChunk = new Uint8Array(ENCRYPTION_CHUNK_SIZE);
   let plainChunkLength = 0;
   let totalBytes = 0;
   let chunkIndex = 0;
 
-  const sendChunk = async (chunk: Uint8Array) => {
+  const emitChunk = async (chunk: Uint8Array) => {
     if (isCancelled?.()) throw new Error('Cancelled');
     if (chunkIndex >= MAX_CHUNKS) {
       throw new Error('File too large for the transfer chunk-index range');
@@ -168,18 +559,9 @@ export async function sendFileOverDataChannel(
     if (totalBytes + chunk.length > MAX_MESSAGE_SIZE) {
       throw new Error('Generated payload exceeds the transfer size limit');
     }
-
-    const encryptedChunk = await encryptChunk(key, chunk, chunkIndex);
-    // A single chunk that cannot be handed off within the idle window means the
-    // receiver has stopped draining the channel; abort rather than block here.
-    await withStallTimeout(
-      rtc.sendWithBackpressure(encryptedChunk),
-      stallTimeoutMs,
-      `Transfer stalled: receiver stopped accepting data within ${Math.round(stallTimeoutMs / 1000)}s`,
-    );
+    await onChunk(chunk, chunkIndex);
     chunkIndex++;
     totalBytes += chunk.length;
-    reportProgress(totalBytes, progressTotal);
   };
 
   let completed = false;
@@ -202,14 +584,14 @@ export async function sendFileOverDataChannel(
         plainChunkLength += copied;
         offset += copied;
         if (plainChunkLength === ENCRYPTION_CHUNK_SIZE) {
-          await sendChunk(plainChunk);
+          await emitChunk(plainChunk);
           plainChunkLength = 0;
         }
       }
     }
 
     if (plainChunkLength > 0) {
-      await sendChunk(plainChunk.slice(0, plainChunkLength));
+      await emitChunk(plainChunk.slice(0, plainChunkLength));
     }
     if (source.size !== null && totalBytes !== source.size) {
       throw new Error(
@@ -221,14 +603,48 @@ export async function sendFileOverDataChannel(
     if (!completed) await reader.cancel().catch(() => {});
     reader.releaseLock();
   }
+  return { chunkCount: chunkIndex, totalBytes };
+}
 
-  // The byte count authenticates the final length for sources whose streamed
-  // output was not known during signaling.
-  rtc.send(`${DONE_PREFIX}${chunkIndex}:${totalBytes}`);
-  reportProgress(totalBytes, totalBytes);
+/**
+ * Check a receiver's HAVE set against what this source can produce. Streamed
+ * (unknown-size) payloads are appended in order, so the receiver can only
+ * hold a prefix of them.
+ */
+function validateHeldChunks(held: Set<number>, size: number | null): void {
+  if (size !== null) {
+    const chunkCount = Math.ceil(size / ENCRYPTION_CHUNK_SIZE);
+    for (const index of held) {
+      if (index >= chunkCount) {
+        throw new Error(`Invalid HAVE message: chunk ${index} out of range`);
+      }
+    }
+    return;
+  }
+  for (let index = 0; index < held.size; index++) {
+    if (!held.has(index)) {
+      throw new Error('Invalid HAVE message: streamed chunks must be a prefix');
+    }
+  }
+}
 
-  await waitForAckMessage(rtc);
-  return totalBytes;
+/**
+ * Send one encrypted chunk, reporting a channel that closed underneath the
+ * send as a connection failure so the hooks can offer to resume.
+ */
+async function sendChunkMessage(
+  rtc: WebRTCConnection,
+  channel: RTCDataChannel,
+  encryptedChunk: Uint8Array,
+): Promise<void> {
+  try {
+    await rtc.sendWithBackpressure(encryptedChunk, undefined, channel);
+  } catch (error) {
+    if (channel.readyState !== 'open') {
+      throw new P2PConnectionError('Data channel closed during transfer');
+    }
+    throw error;
+  }
 }
 
 /**
@@ -260,15 +676,26 @@ function withStallTimeout<T>(
   });
 }
 
-function waitForAckMessage(rtc: WebRTCConnection): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
+/**
+ * Resolve with the first control string that `accept` matches. A closed or
+ * failed channel rejects with a P2PConnectionError, since the peers can
+ * re-run signaling and resume; a silent peer times out after ACK_TIMEOUT_MS.
+ */
+function waitForControlMessage(
+  rtc: WebRTCConnection,
+  accept: (data: string) => boolean,
+  description: string,
+): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
     const dc = rtc.getDataChannel();
     if (!dc) {
       reject(new Error('Data channel unavailable'));
       return;
     }
     if (dc.readyState !== 'open') {
-      reject(new Error('Data channel closed before acknowledgment'));
+      reject(
+        new P2PConnectionError(`Data channel closed before ${description}`),
+      );
       return;
     }
 
@@ -280,32 +707,38 @@ function waitForAckMessage(rtc: WebRTCConnection): Promise<void> {
       clearTimeout(timeout);
     };
     const onMessage = (event: MessageEvent) => {
-      if (event.data === ACK) {
+      if (typeof event.data === 'string' && accept(event.data)) {
         if (settled) return;
         settled = true;
         cleanup();
-        resolve();
+        resolve(event.data);
       }
     };
-    // A close/error means the ACK can never arrive, so fail immediately instead
-    // of waiting out ACK_TIMEOUT_MS.
+    // A close/error means the message can never arrive, so fail immediately
+    // instead of waiting out ACK_TIMEOUT_MS.
     const onClose = () => {
       if (settled) return;
       settled = true;
       cleanup();
-      reject(new Error('Data channel closed before acknowledgment'));
+      reject(
+        new P2PConnectionError(`Data channel closed before ${description}`),
+      );
     };
     const onError = () => {
       if (settled) return;
       settled = true;
       cleanup();
-      reject(new Error('Data channel error while waiting for acknowledgment'));
+      reject(
+        new P2PConnectionError(
+          `Data channel error while waiting for ${description}`,
+        ),
+      );
     };
     const timeout = setTimeout(() => {
       if (settled) return;
       settled = true;
       cleanup();
-      reject(new Error('Timeout waiting for acknowledgment'));
+      reject(new Error(`Timeout waiting for ${description}`));
     }, ACK_TIMEOUT_MS);
 
     // addEventListener (not .onmessage) so this coexists with the connection's
@@ -326,10 +759,26 @@ function isAppendSink(sink: DataChannelSink): sink is AppendSink {
  * Create a streaming receiver. `totalBytes` is null when the sender is
  * producing a ZIP whose final streamed length is not known during signaling.
  *
+ * Chunks may be deflated (see the module comment); each is inflated after it
+ * authenticates, bounded by the plaintext length it may have, so the sink,
+ * progress and DONE byte count only ever see the original plaintext.
+ *
  * Exact-size payloads retain positional writes and may arrive out of order.
- * Unknown-size payloads use the data channel's reliable ordering and append to
- * an adaptive sink. In both modes DONE supplies a final authenticated chunk
- * count and byte count before the sink is sealed.
+ * Unknown-size payloads append to an adaptive sink in index order; chunks
+ * that overtook an earlier one on another striping channel wait in a bounded
+ * reorder buffer. In both modes DONE supplies a final authenticated chunk
+ * count and byte count before the sink is sealed, and completion waits for
+ * chunks still in flight when DONE arrives.
+ *
+ * The payload digest is computed while chunks are written: each chunk that
+ * extends the contiguous prefix is hashed in index order, and a payload hashed
+ * entirely that way is checked before the sink is sealed. Anything past a gap
+ * (possible only when a resumed sender fills holes out of order) is hashed
+ * from the sealed sink once DONE arrives.
+ *
+ * The receiver outlives any one data channel: after `suspend()` it keeps its
+ * sink and authenticated indices, and a resumed connection continues from the
+ * HAVE message it reports.
  */
 export function createDataChannelReceiver(
   key: CryptoKey,
@@ -341,6 +790,10 @@ export function createDataChannelReceiver(
   const stallTimeoutMs = resolveStallTimeoutMs(opts.stallTimeoutMs);
   const sizeKnown = totalBytes !== null;
   const progressTotal = sizeKnown ? totalBytes : (opts.estimatedBytes ?? 0);
+  const advertisedCodecs =
+    (opts.compression ?? true) ? [DEFLATE_CODEC_NAME] : [];
+  const acceptedCodecs = new Set([CHUNK_CODEC_RAW]);
+  if (advertisedCodecs.length > 0) acceptedCodecs.add(CHUNK_CODEC_DEFLATE);
 
   if (
     totalBytes !== null &&
@@ -356,6 +809,10 @@ export function createDataChannelReceiver(
   if (!sizeKnown && !isAppendSink(sink)) {
     throw new Error('Unknown-size transfers require an append sink');
   }
+  const expectManifest = opts.expectManifest ?? false;
+  if (expectManifest && !sizeKnown) {
+    throw new Error('Multi-file transfers require an exact size');
+  }
 
   const expectedChunks = sizeKnown
     ? Math.ceil(totalBytes / ENCRYPTION_CHUNK_SIZE)
@@ -371,11 +828,31 @@ export function createDataChannelReceiver(
   const receivedIndices = new Set<number>();
   const pending = new Set<Promise<void>>();
   let receivedEncryptedBytes = 0;
-  let claimedPlaintextBytes = 0;
   let totalDecryptedBytes = 0;
   let previousUnknownChunkLength: number | null = null;
-  let appendChain = Promise.resolve();
+  let appendChain: Promise<Uint8Array | null> = Promise.resolve(null);
+  const hasher = sha256.create();
+  // Next chunk index the incremental hash is waiting for, and the chain that
+  // feeds chunks to it in index order.
+  let hashFrontier = 0;
+  let hashChain = Promise.resolve();
+  const hashBacklog = new Map<number, Promise<Uint8Array | null>>();
+  let hashLimit = Number.POSITIVE_INFINITY;
+  // Streamed chunks that overtook the next append position.
+  const reorderBuffer = new Map<
+    number,
+    { codec: number; encryptedData: Uint8Array; messageLength: number }
+  >();
+  let pendingDone: {
+    count: number;
+    finalBytes: number;
+    sealedDigest: Uint8Array;
+  } | null = null;
+  let completing = false;
   let settled = false;
+  // The first authenticated manifest; a resumed sender must send the same one.
+  let manifest: FileManifest | null = null;
+  let manifestJson: string | null = null;
 
   let stallTimer: ReturnType<typeof setTimeout> | null = null;
   const clearStallTimer = () => {
@@ -385,9 +862,9 @@ export function createDataChannelReceiver(
     }
   };
 
-  let resolveDone!: (value: Blob) => void;
+  let resolveDone!: (value: ReceivedPayload) => void;
   let rejectDone!: (error: Error) => void;
-  const done = new Promise<Blob>((resolve, reject) => {
+  const done = new Promise<ReceivedPayload>((resolve, reject) => {
     resolveDone = resolve;
     rejectDone = reject;
   });
@@ -419,19 +896,85 @@ export function createDataChannelReceiver(
     clearStallTimer();
   };
 
-  const handleChunk = (data: ArrayBuffer) => {
-    const messageLength = data.byteLength;
-    let chunkIndex: number;
-    let encryptedData: Uint8Array;
-    let expectedPlaintextLength: number;
-    let writePosition: number | null = null;
+  // While suspended the old channel is dead; a late message from it must not
+  // claim an index the resumed sender is about to retransmit.
+  let suspended = false;
 
-    try {
-      ({ chunkIndex, encryptedData } = parseChunkMessage(data));
-      if (receivedIndices.has(chunkIndex)) {
-        throw new Error(`Duplicate chunk index: ${chunkIndex}`);
+  const start = () => {
+    suspended = false;
+    armStallTimer();
+  };
+
+  const suspend = () => {
+    suspended = true;
+    clearStallTimer();
+    // Unclaimed chunks and an early DONE are not part of the HAVE state; the
+    // resumed sender sends them again.
+    reorderBuffer.clear();
+    pendingDone = null;
+  };
+
+  const createHaveMessage = async () => {
+    // Indices are claimed before their chunk is decrypted and written; once
+    // the in-flight work settles every claimed index is either stored or the
+    // receiver has already failed.
+    if (pending.size > 0) {
+      await Promise.allSettled(Array.from(pending));
+    }
+    return encodeHaveMessage(receivedIndices, advertisedCodecs);
+  };
+
+  // Feed the incremental hash in index order. A chunk that overtook the
+  // frontier waits in the backlog; one too far ahead caps the incremental pass
+  // and the rest is hashed from the sealed sink (see finishDigest).
+  const queueHash = (
+    chunkIndex: number,
+    written: Promise<Uint8Array | null>,
+  ): Promise<void> => {
+    if (chunkIndex !== hashFrontier) {
+      if (
+        chunkIndex < hashLimit &&
+        chunkIndex - hashFrontier <= MAX_REORDER_CHUNKS
+      ) {
+        hashBacklog.set(chunkIndex, written);
+      } else {
+        hashLimit = Math.min(hashLimit, chunkIndex);
+        for (const index of hashBacklog.keys()) {
+          if (index >= hashLimit) hashBacklog.delete(index);
+        }
       }
+      return written.then(() => {});
+    }
+
+    let next: Promise<Uint8Array | null> | undefined = written;
+    while (next) {
+      const chunk = next;
+      hashChain = hashChain.then(async () => {
+        const decryptedChunk = await chunk;
+        if (decryptedChunk) hasher.update(decryptedChunk);
+      });
+      hashBacklog.delete(hashFrontier);
+      hashFrontier++;
+      next =
+        hashFrontier < hashLimit ? hashBacklog.get(hashFrontier) : undefined;
+    }
+    // A chain that already failed skips this chunk's step, so observe the
+    // chunk's own outcome too or its rejection would go unhandled.
+    return Promise.all([written, hashChain]).then(() => {});
+  };
+
+  const acceptChunk = (
+    chunkIndex: number,
+    codec: number,
+    encryptedData: Uint8Array,
+    messageLength: number,
+  ) => {
+    // Upper bound for the chunk's plaintext; exact for exact-size payloads.
+    let expectedPlaintextLength = ENCRYPTION_CHUNK_SIZE;
+    let writePosition: number | null = null;
+    const bodyLength = encryptedData.length - AES_NONCE_LENGTH - AES_TAG_LENGTH;
 
+    try {
       if (sizeKnown) {
         if (chunkIndex >= expectedChunks!) {
           throw new Error(`Chunk index out of range: ${chunkIndex}`);
@@ -441,11 +984,18 @@ export function createDataChannelReceiver(
           chunkIndex === expectedChunks! - 1
             ? totalBytes - writePosition
             : ENCRYPTION_CHUNK_SIZE;
-        const expectedEncryptedLength =
-          expectedPlaintextLength + AES_NONCE_LENGTH + AES_TAG_LENGTH;
-        if (encryptedData.length !== expectedEncryptedLength) {
+        if (codec === CHUNK_CODEC_RAW) {
+          const expectedEncryptedLength =
+            expectedPlaintextLength + AES_NONCE_LENGTH + AES_TAG_LENGTH;
+          if (encryptedData.length !== expectedEncryptedLength) {
+            throw new Error(
+              `Invalid encrypted chunk ${chunkIndex} length: expected ${expectedEncryptedLength}, got ${encryptedData.length}`,
+            );
+          }
+        } else if (bodyLength <= 0 || bodyLength >= expectedPlaintextLength) {
+          // The sender only deflates a chunk when that makes it smaller.
           throw new Error(
-            `Invalid encrypted chunk ${chunkIndex} length: expected ${expectedEncryptedLength}, got ${encryptedData.length}`,
+            `Invalid compressed chunk ${chunkIndex} length: ${bodyLength}`,
           );
         }
         receivedEncryptedBytes += messageLength;
@@ -453,33 +1003,18 @@ export function createDataChannelReceiver(
           throw new Error('Transfer exceeds advertised size');
         }
       } else {
-        // RTCDataChannel is reliable and ordered by default. Requiring that
-        // order lets the receiver append without holding or seeking chunks.
+        // Streamed chunks reach this point in index order (see handleChunk),
+        // which lets the receiver append without holding or seeking chunks.
         if (chunkIndex !== receivedIndices.size || chunkIndex >= MAX_CHUNKS) {
           throw new Error(`Unexpected streamed chunk index: ${chunkIndex}`);
         }
-        expectedPlaintextLength =
-          encryptedData.length - AES_NONCE_LENGTH - AES_TAG_LENGTH;
-        if (
-          expectedPlaintextLength <= 0 ||
-          expectedPlaintextLength > ENCRYPTION_CHUNK_SIZE
-        ) {
+        const maxBodyLength =
+          codec === CHUNK_CODEC_RAW
+            ? ENCRYPTION_CHUNK_SIZE
+            : ENCRYPTION_CHUNK_SIZE - 1;
+        if (bodyLength <= 0 || bodyLength > maxBodyLength) {
           throw new Error(`Invalid streamed chunk ${chunkIndex} length`);
         }
-        if (
-          previousUnknownChunkLength !== null &&
-          previousUnknownChunkLength !== ENCRYPTION_CHUNK_SIZE
-        ) {
-          throw new Error('Only the final streamed chunk may be short');
-        }
-        if (
-          claimedPlaintextBytes + expectedPlaintextLength >
-          MAX_MESSAGE_SIZE
-        ) {
-          throw new Error('Transfer exceeds the supported size limit');
-        }
-        previousUnknownChunkLength = expectedPlaintextLength;
-        claimedPlaintextBytes += expectedPlaintextLength;
       }
 
       // Claim the index before decrypting so duplicates and an in-order DONE
@@ -491,38 +1026,67 @@ export function createDataChannelReceiver(
     }
 
     const processChunk = async () => {
-      const decryptedChunk = await decryptChunk(key, encryptedData, chunkIndex);
-      if (settled) return;
-      if (decryptedChunk.length !== expectedPlaintextLength) {
-        throw new Error(
-          `Invalid chunk ${chunkIndex} length: expected ${expectedPlaintextLength}, got ${decryptedChunk.length}`,
-        );
+      const decodedChunk = await decryptChunk(
+        key,
+        encryptedData,
+        chunkIndex,
+        codec,
+      );
+      if (settled) return null;
+      let decryptedChunk = decodedChunk;
+      if (codec === CHUNK_CODEC_DEFLATE) {
+        try {
+          decryptedChunk = inflateChunk(decodedChunk, expectedPlaintextLength);
+        } catch {
+          throw new Error(`Invalid compressed chunk ${chunkIndex}`);
+        }
       }
 
       if (sizeKnown) {
+        if (decryptedChunk.length !== expectedPlaintextLength) {
+          throw new Error(
+            `Invalid chunk ${chunkIndex} length: expected ${expectedPlaintextLength}, got ${decryptedChunk.length}`,
+          );
+        }
         if (writePosition! + decryptedChunk.length > totalBytes) {
           throw new Error(`Chunk ${chunkIndex} exceeds expected file size`);
         }
         await (sink as ReceiveSink).write(writePosition!, decryptedChunk);
       } else {
+        // A deflated chunk's plaintext length is only known now; appends run
+        // in index order, so the streamed length rules are checked here.
+        if (decryptedChunk.length === 0) {
+          throw new Error(`Invalid streamed chunk ${chunkIndex} length`);
+        }
+        if (
+          previousUnknownChunkLength !== null &&
+          previousUnknownChunkLength !== ENCRYPTION_CHUNK_SIZE
+        ) {
+          throw new Error('Only the final streamed chunk may be short');
+        }
+        if (totalDecryptedBytes + decryptedChunk.length > MAX_MESSAGE_SIZE) {
+          throw new Error('Transfer exceeds the supported size limit');
+        }
+        previousUnknownChunkLength = decryptedChunk.length;
         await (sink as AppendSink).append(decryptedChunk);
       }
-      if (settled) return;
+      if (settled) return null;
       totalDecryptedBytes += decryptedChunk.length;
 
       reportProgress(totalDecryptedBytes, progressTotal);
+      return decryptedChunk;
     };
 
-    // Appends must follow wire order even if Web Crypto resolves operations at
-    // different times. Exact-size positional writes remain parallel.
-    let work: Promise<void>;
+    // Appends must follow index order even if Web Crypto resolves operations
+    // at different times. Exact-size positional writes remain parallel.
+    let written: Promise<Uint8Array | null>;
     if (sizeKnown) {
-      work = processChunk();
+      written = processChunk();
     } else {
       appendChain = appendChain.then(processChunk);
-      work = appendChain;
+      written = appendChain;
     }
-    const promise = work.catch((error: unknown) => {
+    const promise = queueHash(chunkIndex, written).catch((error: unknown) => {
       fail(
         error instanceof Error ? error : new Error('Failed to receive chunk'),
       );
@@ -532,8 +1096,103 @@ export function createDataChannelReceiver(
     void promise.finally(() => pending.delete(promise));
   };
 
-  const handleDone = async (count: number, finalBytes: number) => {
-    if (count !== receivedIndices.size) {
+  const handleChunk = (data: ArrayBuffer) => {
+    let chunkIndex: number;
+    let codec: number;
+    let encryptedData: Uint8Array;
+    try {
+      ({ chunkIndex, codec, encryptedData } = parseChunkMessage(data));
+      if (!acceptedCodecs.has(codec)) {
+        throw new Error(`Unsupported chunk codec: ${codec}`);
+      }
+      if (receivedIndices.has(chunkIndex) || reorderBuffer.has(chunkIndex)) {
+        throw new Error(`Duplicate chunk index: ${chunkIndex}`);
+      }
+      if (pendingDone && chunkIndex >= pendingDone.count) {
+        throw new Error(`Chunk index out of range: ${chunkIndex}`);
+      }
+    } catch (error) {
+      fail(error instanceof Error ? error : new Error('Invalid data chunk'));
+      return;
+    }
+
+    if (sizeKnown) {
+      acceptChunk(chunkIndex, codec, encryptedData, data.byteLength);
+    } else {
+      // Striping channels deliver independently, so a streamed chunk can
+      // overtake an earlier one. Hold it (still encrypted) until the gap
+      // fills; the sender's per-channel backpressure bounds the skew.
+      const nextIndex = receivedIndices.size;
+      if (chunkIndex - nextIndex > MAX_REORDER_CHUNKS) {
+        fail(
+          new Error(
+            `Streamed chunk ${chunkIndex} arrived too far ahead of chunk ${nextIndex}`,
+          ),
+        );
+        return;
+      }
+      reorderBuffer.set(chunkIndex, {
+        codec,
+        encryptedData,
+        messageLength: data.byteLength,
+      });
+      let next = reorderBuffer.get(receivedIndices.size);
+      while (next && !settled) {
+        reorderBuffer.delete(receivedIndices.size);
+        acceptChunk(
+          receivedIndices.size,
+          next.codec,
+          next.encryptedData,
+          next.messageLength,
+        );
+        next = reorderBuffer.get(receivedIndices.size);
+      }
+    }
+    completeWhenAllArrived();
+  };
+
+  const handleManifest = (sealed: Uint8Array) => {
+    if (!expectManifest) {
+      fail(new Error('Unexpected MANIFEST message'));
+      return;
+    }
+    const promise = (async () => {
+      let encoded: Uint8Array;
+      try {
+        encoded = await decryptFileManifest(key, sealed);
+      } catch {
+        throw new Error('Invalid MANIFEST message: failed to authenticate');
+      }
+      const decoded = decodeManifest(encoded, totalBytes!);
+      const json = JSON.stringify(decoded);
+      if (manifestJson !== null && json !== manifestJson) {
+        throw new Error('MANIFEST changed on a resumed connection');
+      }
+      manifest = decoded;
+      manifestJson = json;
+    })().catch((error: unknown) => {
+      fail(
+        error instanceof Error ? error : new Error('Invalid MANIFEST message'),
+      );
+    });
+
+    pending.add(promise);
+    void promise.finally(() => pending.delete(promise));
+  };
+
+  // Validate what DONE can settle on arrival; the rest waits until every
+  // chunk it counts has arrived, since DONE (on the primary channel) can
+  // overtake chunks still in flight on striping channels.
+  const handleDone = (
+    count: number,
+    finalBytes: number,
+    sealedDigest: Uint8Array,
+  ) => {
+    if (pendingDone || completing) {
+      fail(new Error('Duplicate DONE message'));
+      return;
+    }
+    if (count < receivedIndices.size) {
       fail(
         new Error(
           `Invalid DONE message: received ${receivedIndices.size} chunks, got ${count}`,
@@ -547,16 +1206,41 @@ export function createDataChannelReceiver(
       );
       return;
     }
-    if (!sizeKnown && finalBytes !== claimedPlaintextBytes) {
-      fail(new Error('Invalid DONE message: final size does not match chunks'));
+    pendingDone = { count, finalBytes, sealedDigest };
+    completeWhenAllArrived();
+  };
+
+  const completeWhenAllArrived = () => {
+    if (!pendingDone || settled || receivedIndices.size < pendingDone.count) {
       return;
     }
+    const { count, finalBytes, sealedDigest } = pendingDone;
+    pendingDone = null;
+    completing = true;
+    void complete(count, finalBytes, sealedDigest);
+  };
 
+  const complete = async (
+    count: number,
+    finalBytes: number,
+    sealedDigest: Uint8Array,
+  ) => {
     if (pending.size > 0) {
       await Promise.allSettled(Array.from(pending));
     }
     if (settled) return;
 
+    if (expectManifest && !manifest) {
+      fail(new Error('Missing MANIFEST message'));
+      return;
+    }
+
+    // Streamed chunk lengths are only known once each has been decoded.
+    if (!sizeKnown && finalBytes !== totalDecryptedBytes) {
+      fail(new Error('Invalid DONE message: final size does not match chunks'));
+      return;
+    }
+
     if (receivedIndices.size !== count || totalDecryptedBytes !== finalBytes) {
       fail(
         new Error(
@@ -566,9 +1250,28 @@ export function createDataChannelReceiver(
       return;
     }
 
+    let expectedDigest: Uint8Array;
+    try {
+      expectedDigest = await decryptPayloadDigest(key, sealedDigest);
+    } catch {
+      fail(new Error('Invalid DONE message: digest failed to authenticate'));
+      return;
+    }
+    if (settled) return;
+
+    // When every chunk was hashed in order the digest is already known:
+    // check it before sealing, so a sink that hands its bytes on as they
+    // arrive (a streaming download) is never committed with a bad payload.
+    let digest = hashFrontier >= count ? toHex(hasher.digest()) : null;
+    if (digest !== null && digest !== toHex(expectedDigest)) {
+      fail(new Error('Payload digest does not match the sender'));
+      return;
+    }
+
     let payload: Blob;
     try {
       payload = await sink.finish();
+      digest ??= toHex(await finishDigest(payload));
     } catch (error) {
       fail(
         error instanceof Error
@@ -580,39 +1283,72 @@ export function createDataChannelReceiver(
     // A stall timeout or dispose() during the flush already settled `done`.
     if (settled) return;
 
+    if (digest !== toHex(expectedDigest)) {
+      fail(new Error('Payload digest does not match the sender'));
+      return;
+    }
+
     settled = true;
     clearStallTimer();
     reportProgress(finalBytes, finalBytes);
-    resolveDone(payload);
+    resolveDone({ data: payload, digest, manifest: manifest ?? undefined });
+  };
+
+  // Hash whatever the incremental pass could not reach in order, reading it
+  // back from the sealed payload.
+  const finishDigest = async (payload: Blob) => {
+    const remainderStart = hashFrontier * ENCRYPTION_CHUNK_SIZE;
+    if (remainderStart < payload.size) {
+      const reader = payload.slice(remainderStart).stream().getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          hasher.update(value);
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    }
+    return hasher.digest();
   };
 
   const onMessage = (data: string | ArrayBuffer) => {
-    if (settled) return;
+    if (settled || suspended) return;
 
     // Any message is activity; reset the idle watchdog before dispatching.
     armStallTimer();
 
     if (typeof data === 'string') {
       if (data.startsWith(DONE_PREFIX)) {
-        const match = /^DONE:(\d+):(\d+)$/.exec(data);
+        let terminator: DoneMessage;
+        try {
+          terminator = parseDoneMessage(data);
+        } catch (error) {
+          fail(
+            error instanceof Error ? error : new Error('Invalid DONE message'),
+          );
+          return;
+        }
+        handleDone(
+          terminator.count,
+          terminator.finalBytes,
+          terminator.sealedDigest,
+        );
+      } else if (data.startsWith(MANIFEST_PREFIX)) {
+        const match = /^MANIFEST:([A-Za-z0-9+/]+={0,2})$/.exec(data);
         if (!match) {
-          fail(new Error('Invalid DONE message'));
+          fail(new Error('Invalid MANIFEST message'));
           return;
         }
-        const count = Number(match[1]);
-        const finalBytes = Number(match[2]);
-        if (
-          !Number.isSafeInteger(count) ||
-          count < 0 ||
-          count > MAX_CHUNKS ||
-          !Number.isSafeInteger(finalBytes) ||
-          finalBytes < 0 ||
-          finalBytes > MAX_MESSAGE_SIZE
-        ) {
-          fail(new Error('Invalid DONE message values'));
+        let sealed: Uint8Array;
+        try {
+          sealed = Uint8Array.from(atob(match[1]), (c) => c.charCodeAt(0));
+        } catch {
+          fail(new Error('Invalid MANIFEST message'));
           return;
         }
-        void handleDone(count, finalBytes);
+        handleManifest(sealed);
       }
       return;
     }
@@ -622,5 +1358,5 @@ export function createDataChannelReceiver(
     }
   };
 
-  return { onMessage, done, start: armStallTimer, dispose };
+  return { onMessage, done, start, dispose, suspend, createHaveMessage };
 }
@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { installOpfsMock, type OpfsMock } from '../test/opfs-mock';
+import { makeKey } from '../test/transfer-fixtures';
+import { base64urlEncode } from './chunk-utils';
+import type { FileManifest } from './file-manifest';
+import {
+  createFountainDecoder,
+  createFountainEncoder,
+  parseFountainFrame,
+} from './fountain';
+import { createDataChannelReceiver } from './p2p-transfer';
+import {
+  decodeQrTransfer,
+  encodeQrTransfer,
+  QR_TRANSFER_MAX_BYTES,
+  replayQrTransfer,
+} from './qr-transfer';
+import { createAdaptiveAppendSink, createReceiveSink } from './scratch-sink';
+import type { TransferSource } from './transfer-source';
+
+let opfs: OpfsMock;
+
+beforeAll(() => {
+  opfs = installOpfsMock();
+});
+
+afterAll(() => {
+  opfs.uninstall();
+});
+
+function textSource(text: string, sizeKnown = true): TransferSource {
+  const data = new TextEncoder().encode(text);
+  return {
+    name: 'settings.conf',
+    type: 'text/plain',
+    size: sizeKnown ? data.length : null,
+    estimatedSize: data.length,
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        },
+      }),
+  };
+}
+
+async function receive(
+  key: CryptoKey,
+  transcript: Uint8Array,
+  totalBytes: number | null,
+  expectManifest = false,
+) {
+  const sink =
+    totalBytes === null
+      ? await createAdaptiveAppendSink(0)
+      : await createReceiveSink(totalBytes);
+  const receiver = createDataChannelReceiver(key, totalBytes, sink, {
+    expectManifest,
+  });
+  try {
+    const received = await replayQrTransfer(transcript, receiver);
+    return {
+      ...received,
+      text: new TextDecoder().decode(await received.data.arrayBuffer()),
+    };
+  } finally {
+    await sink.discard();
+  }
+}
+
+describe('QR transfer', () => {
+  const config = 'listen = 0.0.0.0:8443\n'.repeat(200);
+
+  it('delivers a payload through fountain-coded frames', async () => {
+    const key = await makeKey();
+    const transcript = await encodeQrTransfer(key, textSource(config));
+    // Compressible text is deflated before encryption.
+    expect(transcript.length).toBeLessThan(config.length);
+
+    // Drop every other frame, as a camera would.
+    const encoder = createFountainEncoder(transcript);
+    const parse = (n: number) =>
+      parseFountainFrame(base64urlEncode(encoder.frame(n)))!;
+    const decoder = createFountainDecoder(parse(1));
+    for (let n = 3; decoder.result() === null; n += 2) {
+      decoder.addFrame(parse(n));
+    }
+
+    const received = await receive(key, decoder.result()!, config.length);
+    expect(received.text).toBe(config);
+    expect(received.digest).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('replays a streamed payload and its manifest', async () => {
+    const key = await makeKey();
+    const streamed = await encodeQrTransfer(key, textSource(config, false));
+    expect((await receive(key, streamed, null)).text).toBe(config);
+
+    const manifest: FileManifest = {
+      files: [
+        {
+          path: 'a.conf',
+          size: 10,
+          lastModified: 1700000000000,
+          mimeType: 'text/plain',
+        },
+        {
+          path: 'b.conf',
+          size: config.length - 10,
+          lastModified: 1700000000001,
+          mimeType: 'text/plain',
+        },
+      ],
+    };
+    const files = await encodeQrTransfer(key, {
+      ...textSource(config),
+      manifest,
+    });
+    const received = await receive(key, files, config.length, true);
+    expect(received.manifest).toEqual(manifest);
+  });
+
+  it('fails to authenticate under another transfer key', async () => {
+    const transcript = await encodeQrTransfer(
+      await makeKey(),
+      textSource(config),
+    );
+    await expect(
+      receive(await makeKey(), transcript, config.length),
+    ).rejects.toThrow();
+  });
+
+  it('rejects a malformed transcript and an oversized payload', async () => {
+    const key = await makeKey();
+    const transcript = await encodeQrTransfer(key, textSource(config));
+    expect(decodeQrTransfer(transcript.slice(0, -1))).toBeNull();
+    expect(decodeQrTransfer(new TextEncoder().encode('SS03...'))).toBeNull();
+    await expect(
+      receive(key, transcript.slice(0, -1), config.length),
+    ).rejects.toThrow('not a file transfer');
+
+    await expect(
+      encodeQrTransfer(key, textSource('x'.repeat(QR_TRANSFER_MAX_BYTES + 1))),
+    ).rejects.toThrow('Too large');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Offline QR fallback for Manual Exchange transfers.
+ *
+ * When no WebRTC connection forms, both sides still hold the transfer key the
+ * verified exchange derived. The sender encrypts the payload into the very
+ * messages a data channel would carry (`encodeTransferMessages`), packs them
+ * into one transcript, and shows it as an endless fountain-coded QR animation
+ * (see fountain.ts). The receiver scans until the transcript decodes, then
+ * replays it into a `createDataChannelReceiver`, so every chunk, the manifest
+ * and the payload digest are checked exactly as on the P2P path.
+ *
+ * The link is one way: the sender never learns that the receiver finished,
+ * and nothing is resumed. It is meant for small payloads (configs, keys).
+ *
+ * Transcript format:
+ *   [4 bytes: "SSQ1"] then, per message,
+ *   [1 byte: kind (0 text, 1 binary)][4 bytes: length_be][length bytes]
+ */
+
+import { ValidationError } from './errors';
+import { formatFileSize } from './file-utils';
+import {
+  type DataChannelReceiver,
+  encodeTransferMessages,
+  type ReceivedPayload,
+} from './p2p-transfer';
+import type { TransferSource } from './transfer-source';
+
+const TRANSCRIPT_MAGIC = new Uint8Array([0x53, 0x53, 0x51, 0x31]); // "SSQ1"
+const KIND_TEXT = 0;
+const KIND_BINARY = 1;
+const MESSAGE_HEADER_LENGTH = 5;
+
+/**
+ * Largest payload offered over QR. At about 4 frames per second this is
+ * roughly a minute of scanning; anything bigger needs a connection.
+ */
+export const QR_TRANSFER_MAX_BYTES = 64 * 1024;
+
+/** Whether a payload of this (estimated) size may use the QR fallback. */
+export function fitsQrTransfer(bytes: number): boolean {
+  return bytes <= QR_TRANSFER_MAX_BYTES;
+}
+
+/**
+ * Encrypt `source` under the transfer key into a QR transfer transcript.
+ * Throws a ValidationError when the payload is too large for QR.
+ */
+export async function encodeQrTransfer(
+  key: CryptoKey,
+  source: TransferSource,
+): Promise<Uint8Array> {
+  const tooLarge = new ValidationError(
+    `Too large to send by QR code (limit ${formatFileSize(QR_TRANSFER_MAX_BYTES)})`,
+  );
+  if (!fitsQrTransfer(source.size ?? source.estimatedSize)) throw tooLarge;
+
+  const { messages, totalBytes } = await encodeTransferMessages(key, source);
+  // A streamed ZIP only knows its real size now.
+  if (!fitsQrTransfer(totalBytes)) throw tooLarge;
+
+  const encoder = new TextEncoder();
+  const parts = messages.map((message) =>
+    typeof message === 'string'
+      ? { kind: KIND_TEXT, bytes: encoder.encode(message) }
+      : { kind: KIND_BINARY, bytes: message },
+  );
+  let length = TRANSCRIPT_MAGIC.length;
+  for (const part of parts) length += MESSAGE_HEADER_LENGTH + part.bytes.length;
+
+  const transcript = new Uint8Array(length);
+  const view = new DataView(transcript.buffer);
+  transcript.set(TRANSCRIPT_MAGIC, 0);
+  let offset = TRANSCRIPT_MAGIC.length;
+  for (const { kind, bytes } of parts) {
+    view.setUint8(offset, kind);
+    view.setUint32(offset + 1, bytes.length);
+    transcript.set(bytes, offset + MESSAGE_HEADER_LENGTH);
+    offset += MESSAGE_HEADER_LENGTH + bytes.length;
+  }
+  return transcript;
+}
+
+/**
+ * Split a transcript back into data-channel messages, in the form a channel
+ * delivers them. Returns null if it is not a well-formed transcript.
+ */
+export function decodeQrTransfer(
+  transcript: Uint8Array,
+): (string | ArrayBuffer)[] | null {
+  if (
+    transcript.length < TRANSCRIPT_MAGIC.length ||
+    TRANSCRIPT_MAGIC.some((byte, i) => transcript[i] !== byte)
+  ) {
+    return null;
+  }
+
+  const view = new DataView(
+    transcript.buffer,
+    transcript.byteOffset,
+    transcript.byteLength,
+  );
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const messages: (string | ArrayBuffer)[] = [];
+  let offset = TRANSCRIPT_MAGIC.length;
+  try {
+    while (offset < transcript.length) {
+      if (offset + MESSAGE_HEADER_LENGTH > transcript.length) return null;
+      const kind = view.getUint8(offset);
+      const length = view.getUint32(offset + 1);
+      const start = offset + MESSAGE_HEADER_LENGTH;
+      if (start + length > transcript.length) return null;
+      const bytes = transcript.slice(start, start + length);
+      if (kind === KIND_TEXT) messages.push(decoder.decode(bytes));
+      else if (kind === KIND_BINARY) messages.push(bytes.buffer);
+      else return null;
+      offset = start + length;
+    }
+  } catch {
+    return null;
+  }
+  return messages.length > 0 ? messages : null;
+}
+
+/**
+ * Feed a scanned transcript to `receiver` as if a data channel had delivered
+ * it, and resolve with the verified payload. Rejects with a ValidationError
+ * for a malformed transcript, and with the receiver's own error for anything
+ * that fails to authenticate (another transfer's key, a tampered chunk).
+ */
+export async function replayQrTransfer(
+  transcript: Uint8Array,
+  receiver: DataChannelReceiver,
+): Promise<ReceivedPayload> {
+  const messages = decodeQrTransfer(transcript);
+  if (!messages) {
+    throw new ValidationError('That QR code is not a file transfer');
+  }
+  receiver.start();
+  try {
+    for (const message of messages) receiver.onMessage(message);
+    return await receiver.done;
+  } finally {
+    receiver.dispose();
+  }
+}
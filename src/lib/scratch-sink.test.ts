@@ -1,9 +1,11 @@
-import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
 import { installOpfsMock, type OpfsMock } from '../test/opfs-mock';
 import { MEMORY_SINK_MAX_BYTES } from './crypto/constants';
 import {
   createAppendSink,
   createReceiveSink,
+  createSaveFileAppendSink,
+  createSaveFileReceiveSink,
   sweepTransferScratch,
 } from './scratch-sink';
 
@@ -189,6 +191,82 @@ describe('createAppendSink (OPFS, over threshold)', () => {
   });
 });
 
+/** A file in the mock root standing in for one the save picker returned. */
+async function pickedFile(name: string, contents?: Uint8Array) {
+  const handle = (await opfs.root.getFileHandle(name, {
+    create: true,
+  })) as unknown as FileSystemFileHandle & { remove: () => Promise<void> };
+  if (contents) {
+    const writable = await handle.createWritable();
+    await writable.write(contents as BufferSource);
+    await writable.close();
+  }
+  handle.remove = vi.fn(async () => {
+    await opfs.root.removeEntry(name);
+  });
+  return handle;
+}
+
+describe('createSaveFileReceiveSink', () => {
+  it('writes positionally into the picked file without a scratch copy', async () => {
+    const handle = await pickedFile('picked.bin');
+    const sink = await createSaveFileReceiveSink(handle, 4);
+    await sink.write(2, new Uint8Array([3, 4]));
+    await sink.write(0, new Uint8Array([1, 2]));
+    const blob = await sink.finish();
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3, 4]),
+    );
+    expect(await scratchDirNames()).toHaveLength(0);
+
+    // The file belongs to the user once finished.
+    await sink.discard();
+    expect(handle.remove).not.toHaveBeenCalled();
+    expect((await handle.getFile()).size).toBe(4);
+    await opfs.root.removeEntry('picked.bin');
+  });
+
+  it('removes the empty file the picker created when discarded', async () => {
+    const handle = await pickedFile('abandoned.bin');
+    const sink = await createSaveFileReceiveSink(handle, 4);
+    await sink.write(0, new Uint8Array([1, 2]));
+    await sink.discard();
+    await expect(sink.discard()).resolves.toBeUndefined();
+    expect(handle.remove).toHaveBeenCalledTimes(1);
+    expect(opfs.root.entries.has('abandoned.bin')).toBe(false);
+  });
+
+  it('leaves an existing file untouched when discarded', async () => {
+    const original = new Uint8Array([9, 9, 9]);
+    const handle = await pickedFile('existing.bin', original);
+    const sink = await createSaveFileReceiveSink(handle, 4);
+    await sink.write(0, new Uint8Array([1, 2, 3, 4]));
+    await sink.discard();
+    expect(handle.remove).not.toHaveBeenCalled();
+    expect(
+      new Uint8Array(await (await handle.getFile()).arrayBuffer()),
+    ).toEqual(original);
+    await expect(sink.finish()).rejects.toThrow('discarded');
+    await opfs.root.removeEntry('existing.bin');
+  });
+});
+
+describe('createSaveFileAppendSink', () => {
+  it('appends chunks into the picked file', async () => {
+    const handle = await pickedFile('streamed.zip');
+    const sink = await createSaveFileAppendSink(handle);
+    await sink.append(new Uint8Array([1, 2, 3]));
+    await sink.append(new Uint8Array([4, 5]));
+    const blob = await sink.finish();
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3, 4, 5]),
+    );
+    await sink.discard();
+    expect((await handle.getFile()).size).toBe(5);
+    await opfs.root.removeEntry('streamed.zip');
+  });
+});
+
 describe('sweepTransferScratch', () => {
   it('removes entries no live sink owns and keeps owned ones', async () => {
     const sink = await createAppendSink(OPFS_SIZE);
@@ -16,6 +16,10 @@
  * engines (Safari/iOS only in 26), so support is feature-detected and sink
  * creation rejects with a user-facing error where it is missing.
  *
+ * Where the browser has `showSaveFilePicker`, the receiver can instead pick
+ * the destination file before the transfer starts; the save-file sinks write
+ * straight into it so a large payload never takes a second copy on disk.
+ *
  * Privacy note: a scratch file holds plaintext on disk for the lifetime of
  * the sink. Every path that abandons a transfer must call `discard()`, and
  * `sweepTransferScratch` removes files that crashed or closed sessions left
@@ -35,7 +39,8 @@ export interface ReceiveSink {
   /**
    * Release all storage backing this sink, including a finished payload's
    * scratch file (a disk-backed Blob from `finish()` becomes unreadable; a
-   * memory-backed one is immutable and stays readable). Safe to call at any
+   * memory-backed one is immutable and stays readable). A save-file sink
+   * keeps a finished file, which belongs to the user. Safe to call at any
    * point and more than once.
    */
   discard(): Promise<void>;
@@ -61,7 +66,8 @@ const SCRATCH_DIR_NAME = 'transfer-scratch';
 /** Scratch files owned by a live sink in this session; the sweeper skips them. */
 const activeScratchNames = new Set<string>();
 
-function opfsSupported(): boolean {
+/** True when over-threshold payloads can be received into OPFS. */
+export function opfsSupported(): boolean {
   return (
     typeof navigator !== 'undefined' &&
     typeof navigator.storage?.getDirectory === 'function' &&
@@ -160,6 +166,57 @@ function scratchLifecycle(scratch: ScratchFile, enqueue: OpQueue) {
   };
 }
 
+// lib.dom does not yet declare FileSystemHandle.remove (Chromium only).
+interface RemovableFileHandle extends FileSystemFileHandle {
+  remove?: () => Promise<void>;
+}
+
+interface SaveFile {
+  handle: FileSystemFileHandle;
+  writable: FileSystemWritableFileStream;
+  /** Whether the file was empty when opened, i.e. the picker just created it. */
+  createdEmpty: boolean;
+}
+
+async function openSaveFile(handle: FileSystemFileHandle): Promise<SaveFile> {
+  const createdEmpty = (await handle.getFile()).size === 0;
+  // keepExistingData defaults to false: the writable starts empty and only
+  // replaces the file's contents when closed.
+  const writable = await handle.createWritable();
+  return { handle, writable, createdEmpty };
+}
+
+/**
+ * finish/discard for a sink writing into a user-chosen file. Writes land in
+ * the browser's swap file until `close()` commits them, so aborting before
+ * then leaves the chosen file as it was. After `finish()` the file belongs to
+ * the user and `discard()` leaves it in place.
+ */
+function saveFileLifecycle(file: SaveFile, enqueue: OpQueue) {
+  let finished = false;
+  let discarded = false;
+  return {
+    finish(): Promise<Blob> {
+      return enqueue(async () => {
+        if (discarded) throw new Error('Scratch sink discarded');
+        await file.writable.close();
+        finished = true;
+        return file.handle.getFile();
+      });
+    },
+    async discard(): Promise<void> {
+      if (discarded || finished) return;
+      discarded = true;
+      await enqueue(() => file.writable.abort()).catch(() => {});
+      // A file the picker created for this transfer would otherwise be left
+      // behind empty. Best effort: only Chromium can remove a file by handle.
+      if (file.createdEmpty) {
+        await (file.handle as RemovableFileHandle).remove?.().catch(() => {});
+      }
+    },
+  };
+}
+
 function createMemoryReceiveSink(totalBytes: number): ReceiveSink {
   let buffer: Uint8Array | null = new Uint8Array(totalBytes);
   return {
@@ -344,3 +401,52 @@ export async function createAdaptiveAppendSink(
     },
   };
 }
+
+/**
+ * Positional sink that writes a transfer of `totalBytes` plaintext bytes
+ * straight into a file the user picked, instead of an OPFS scratch file.
+ * Same discard-on-failure guarantee as the scratch sinks: nothing written
+ * reaches the chosen file unless `finish()` commits it.
+ */
+export async function createSaveFileReceiveSink(
+  handle: FileSystemFileHandle,
+  totalBytes: number,
+): Promise<ReceiveSink> {
+  const file = await openSaveFile(handle);
+  const enqueue = createOpQueue();
+  const lifecycle = saveFileLifecycle(file, enqueue);
+  try {
+    // Size the file up front so a transfer that does not fit fails before any data flows.
+    await file.writable.truncate(totalBytes);
+  } catch (error) {
+    await lifecycle.discard();
+    throw error;
+  }
+  return {
+    write(position, bytes) {
+      return enqueue(() =>
+        file.writable.write({
+          type: 'write',
+          position,
+          data: bytes as BufferSource,
+        }),
+      );
+    },
+    ...lifecycle,
+  };
+}
+
+/** Sequential variant of `createSaveFileReceiveSink` for output of unknown size. */
+export async function createSaveFileAppendSink(
+  handle: FileSystemFileHandle,
+): Promise<AppendSink> {
+  const file = await openSaveFile(handle);
+  const enqueue = createOpQueue();
+  return {
+    append(bytes) {
+      const data = bytes.slice();
+      return enqueue(() => file.writable.write(data as BufferSource));
+    },
+    ...saveFileLifecycle(file, enqueue),
+  };
+}
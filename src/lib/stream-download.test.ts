@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createStreamDownloadSink } from './stream-download';
+
+/**
+ * Stand-in for the service worker side of public/stream-download-sw.js: it
+ * accepts the registration, "starts" the download when the iframe is
+ * attached, and lets the test decide when the download asks for a chunk.
+ */
+function installFakeWorker() {
+  const received: Uint8Array[] = [];
+  const events: string[] = [];
+  let port: MessagePort | null = null;
+
+  const worker = {
+    postMessage(message: { type: string }, transfer?: Transferable[]) {
+      if (message.type !== 'secure-send:stream-download') return;
+      port = transfer?.[0] as MessagePort;
+      port.onmessage = (event: MessageEvent) => {
+        const data = event.data as { type: string; bytes?: ArrayBuffer };
+        events.push(data.type);
+        if (data.type === 'chunk' && data.bytes) {
+          received.push(new Uint8Array(data.bytes));
+        }
+        if (data.type === 'end' || data.type === 'abort') port?.close();
+      };
+      port.postMessage({ type: 'registered' });
+    },
+  };
+  vi.stubGlobal('navigator', { serviceWorker: { controller: worker } });
+  vi.stubGlobal('document', {
+    createElement: () => ({ hidden: false, src: '', remove() {} }),
+    body: {
+      appendChild: () => port?.postMessage({ type: 'started' }),
+    },
+  });
+
+  return {
+    received,
+    events,
+    pull: () => port?.postMessage({ type: 'pull' }),
+    cancel: () => port?.postMessage({ type: 'cancelled' }),
+    close: () => port?.close(),
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createStreamDownloadSink', () => {
+  it('hands over one chunk per pull and ends the download on finish', async () => {
+    const fake = installFakeWorker();
+    const sink = await createStreamDownloadSink(
+      'archive.zip',
+      'application/zip',
+    );
+
+    const first = sink.append(new Uint8Array([1, 2, 3]));
+    const second = sink.append(new Uint8Array([4, 5]));
+    await tick();
+    expect(fake.received).toHaveLength(0);
+
+    fake.pull();
+    await first;
+    await tick();
+    expect(fake.received).toEqual([new Uint8Array([1, 2, 3])]);
+
+    fake.pull();
+    await second;
+    const blob = await sink.finish();
+    await tick();
+    expect(blob.size).toBe(0);
+    expect(sink.bytesWritten).toBe(5);
+    expect(fake.received).toEqual([
+      new Uint8Array([1, 2, 3]),
+      new Uint8Array([4, 5]),
+    ]);
+    expect(fake.events).toEqual(['chunk', 'chunk', 'end']);
+
+    // The download is the user's now.
+    await sink.discard();
+    expect(fake.events).not.toContain('abort');
+  });
+
+  it('aborts the download when discarded before finish', async () => {
+    const fake = installFakeWorker();
+    const sink = await createStreamDownloadSink(
+      'archive.zip',
+      'application/zip',
+    );
+
+    const waiting = sink.append(new Uint8Array([1]));
+    await sink.discard();
+    await expect(waiting).rejects.toThrow('cancelled');
+    await tick();
+    expect(fake.events).toEqual(['abort']);
+    await expect(sink.finish()).rejects.toThrow('closed');
+  });
+
+  it('fails the transfer when the user cancels the download', async () => {
+    const fake = installFakeWorker();
+    const sink = await createStreamDownloadSink(
+      'archive.zip',
+      'application/zip',
+    );
+
+    const waiting = sink.append(new Uint8Array([1]));
+    fake.cancel();
+    await expect(waiting).rejects.toThrow('The download was cancelled');
+    await sink.discard();
+    fake.close();
+  });
+
+  it('rejects when no service worker controls the page', async () => {
+    vi.stubGlobal('navigator', { serviceWorker: { controller: null } });
+    await expect(
+      createStreamDownloadSink('archive.zip', 'application/zip'),
+    ).rejects.toThrow('installed');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Streaming downloads through the service worker, for receivers whose browser
+ * cannot hold an over-threshold payload in OPFS (see scratch-sink.ts).
+ *
+ * The sink registers a download with the service worker over a MessagePort
+ * and navigates a hidden iframe to its URL. The worker (public/
+ * stream-download-sw.js) answers with a `Content-Disposition: attachment`
+ * response whose body pulls decrypted chunks from the port, so they go
+ * straight to the browser's download manager with no scratch storage:
+ *   page → worker  `{ type: 'chunk', bytes }` (only in answer to `pull`),
+ *                  `{ type: 'end' }`, `{ type: 'abort' }`
+ *   worker → page  `registered`, `started` (the download request arrived),
+ *                  `pull`, `cancelled` (the user cancelled the download)
+ *
+ * Only sequential output can stream this way, so it backs append sinks for
+ * payloads of unknown size (streamed ZIPs). A download that fails or is
+ * discarded before `finish()` errors the response body; the browser then marks
+ * it failed and drops the partial file.
+ */
+
+import { MEMORY_SINK_MAX_BYTES } from './crypto/constants';
+import { type AppendSink, opfsSupported } from './scratch-sink';
+
+/** Must match public/stream-download-sw.js. */
+const STREAM_DOWNLOAD_PATH = '/__stream-download/';
+const STREAM_DOWNLOAD_MESSAGE = 'secure-send:stream-download';
+const KEEPALIVE_MESSAGE = 'secure-send:keepalive';
+
+/** How long the worker has to receive the download request. */
+const DOWNLOAD_START_TIMEOUT_MS = 10_000;
+/**
+ * Port traffic does not count as worker activity in every browser; a message
+ * to the worker itself does, and keeps it alive while the download runs.
+ */
+const KEEPALIVE_INTERVAL_MS = 10_000;
+/** Time to leave the iframe in place after the body completes. */
+const IFRAME_REMOVE_DELAY_MS = 1000;
+
+/** An append sink whose bytes went to the browser's downloads. */
+export interface StreamDownloadSink extends AppendSink {
+  /**
+   * Plaintext bytes handed to the download so far. `finish()` resolves with
+   * an empty Blob, since the payload is no longer held by the page.
+   */
+  readonly bytesWritten: number;
+}
+
+type WorkerMessage = { type: 'registered' | 'started' | 'pull' | 'cancelled' };
+
+/**
+ * True when this page is controlled by the app's service worker, which is not
+ * the case on the first visit (before it installs) or in development.
+ */
+export function streamDownloadSupported(): boolean {
+  return (
+    typeof navigator !== 'undefined' &&
+    !!navigator.serviceWorker?.controller &&
+    typeof MessageChannel !== 'undefined'
+  );
+}
+
+function waitFor<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  message: string,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Start a streaming download of `fileName` and return the sink that feeds it.
+ * Rejects when the service worker does not pick the download up.
+ */
+export async function createStreamDownloadSink(
+  fileName: string,
+  mimeType: string,
+): Promise<StreamDownloadSink> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) {
+    throw new Error('Streaming downloads need the app to be installed first');
+  }
+
+  const id = crypto.randomUUID();
+  const channel = new MessageChannel();
+  const port = channel.port1;
+
+  let credits = 0;
+  let cancelled = false;
+  let wake: (() => void) | null = null;
+  let onRegistered: (() => void) | null = null;
+  let onStarted: (() => void) | null = null;
+
+  port.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    switch (event.data.type) {
+      case 'registered':
+        onRegistered?.();
+        break;
+      case 'started':
+        onStarted?.();
+        break;
+      case 'pull':
+        credits++;
+        break;
+      case 'cancelled':
+        cancelled = true;
+        break;
+    }
+    const resume = wake;
+    wake = null;
+    resume?.();
+  };
+
+  const registered = new Promise<void>((resolve) => {
+    onRegistered = resolve;
+  });
+  const started = new Promise<void>((resolve) => {
+    onStarted = resolve;
+  });
+
+  const iframe = document.createElement('iframe');
+  iframe.hidden = true;
+  const keepalive = setInterval(
+    () => worker.postMessage({ type: KEEPALIVE_MESSAGE }),
+    KEEPALIVE_INTERVAL_MS,
+  );
+  const release = (delayMs: number) => {
+    clearInterval(keepalive);
+    setTimeout(() => iframe.remove(), delayMs);
+  };
+
+  try {
+    worker.postMessage(
+      { type: STREAM_DOWNLOAD_MESSAGE, id, fileName, mimeType },
+      [channel.port2],
+    );
+    await waitFor(
+      registered,
+      DOWNLOAD_START_TIMEOUT_MS,
+      'The service worker did not accept the download',
+    );
+    iframe.src = `${STREAM_DOWNLOAD_PATH}${id}`;
+    document.body.appendChild(iframe);
+    await waitFor(
+      started,
+      DOWNLOAD_START_TIMEOUT_MS,
+      'The browser did not start the download',
+    );
+  } catch (error) {
+    port.close();
+    release(0);
+    throw error;
+  }
+
+  let bytesWritten = 0;
+  let closed = false;
+  let chain: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(op: () => Promise<T>): Promise<T> => {
+    const run = chain.then(op);
+    chain = run.catch(() => {});
+    return run;
+  };
+
+  // Wait until the worker asks for the next chunk.
+  const nextCredit = async () => {
+    while (credits === 0 && !cancelled) {
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+    if (cancelled) throw new Error('The download was cancelled');
+    credits--;
+  };
+
+  return {
+    get bytesWritten() {
+      return bytesWritten;
+    },
+    append(bytes) {
+      if (closed) return Promise.reject(new Error('Download already closed'));
+      const data = bytes.slice();
+      return enqueue(async () => {
+        await nextCredit();
+        // Transferring the buffer detaches `data`; count it first.
+        bytesWritten += data.length;
+        port.postMessage({ type: 'chunk', bytes: data.buffer }, [data.buffer]);
+      });
+    },
+    finish() {
+      if (closed) return Promise.reject(new Error('Download already closed'));
+      return enqueue(async () => {
+        if (cancelled) throw new Error('The download was cancelled');
+        closed = true;
+        port.postMessage({ type: 'end' });
+        port.close();
+        release(IFRAME_REMOVE_DELAY_MS);
+        return new Blob([]);
+      });
+    },
+    async discard() {
+      if (closed) return;
+      closed = true;
+      cancelled = true;
+      wake?.();
+      await chain;
+      port.postMessage({ type: 'abort' });
+      port.close();
+      release(0);
+    },
+  };
+}
+
+/**
+ * Whether a payload of unknown size should stream to the downloads instead
+ * of an append sink: only when it is expected to outgrow memory and this
+ * browser has no OPFS to spill it into.
+ */
+export function shouldStreamDownload(estimatedBytes: number): boolean {
+  return (
+    estimatedBytes > MEMORY_SINK_MAX_BYTES &&
+    !opfsSupported() &&
+    streamDownloadSupported()
+  );
+}
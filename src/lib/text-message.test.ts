@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createTextTransferSource,
+  decodeTextMessage,
+  MAX_TEXT_MESSAGE_BYTES,
+  textMessageSize,
+} from './text-message';
+
+describe('createTextTransferSource', () => {
+  it('streams the UTF-8 bytes of the message', async () => {
+    const source = createTextTransferSource('pässwörd 🔑');
+
+    expect(source.text).toBe(true);
+    expect(source.type).toBe('text/plain; charset=utf-8');
+    expect(source.size).toBe(textMessageSize('pässwörd 🔑'));
+    expect(await new Response(source.stream()).text()).toBe('pässwörd 🔑');
+  });
+
+  it('rejects a message over the size limit', () => {
+    expect(() =>
+      createTextTransferSource('x'.repeat(MAX_TEXT_MESSAGE_BYTES + 1)),
+    ).toThrow('Text message is too long');
+  });
+});
+
+describe('decodeTextMessage', () => {
+  it('decodes a UTF-8 payload', async () => {
+    const data = new Blob([new TextEncoder().encode('token: abc\n')]);
+    await expect(decodeTextMessage(data)).resolves.toBe('token: abc\n');
+  });
+
+  it('rejects bytes that are not UTF-8', async () => {
+    await expect(
+      decodeTextMessage(new Blob([new Uint8Array([0xff, 0xfe, 0x00])])),
+    ).rejects.toThrow('not valid UTF-8');
+  });
+});
@@ -0,0 +1,56 @@
+import type { TransferSource } from './transfer-source';
+
+/**
+ * Text messages: passwords, tokens and snippets sent as a short UTF-8 payload
+ * and shown by the receiver instead of being offered as a download.
+ */
+
+/**
+ * Largest text message, in UTF-8 bytes. Messages are held and displayed in
+ * memory on both sides; anything bigger belongs in a file.
+ */
+export const MAX_TEXT_MESSAGE_BYTES = 1024 * 1024; // 1MB
+
+export const TEXT_MESSAGE_MIME_TYPE = 'text/plain; charset=utf-8';
+const TEXT_MESSAGE_NAME = 'message.txt';
+
+/** UTF-8 size of a text message, for checking it against the limit. */
+export function textMessageSize(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/** Wrap a text message in the shared transfer abstraction. */
+export function createTextTransferSource(text: string): TransferSource {
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.length > MAX_TEXT_MESSAGE_BYTES) {
+    throw new Error('Text message is too long. Send it as a file instead.');
+  }
+  return {
+    name: TEXT_MESSAGE_NAME,
+    type: TEXT_MESSAGE_MIME_TYPE,
+    size: bytes.length,
+    estimatedSize: bytes.length,
+    text: true,
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          if (bytes.length > 0) controller.enqueue(bytes);
+          controller.close();
+        },
+      }),
+  };
+}
+
+/** Decode a received text message. Throws if it is not valid UTF-8. */
+export async function decodeTextMessage(data: Blob): Promise<string> {
+  if (data.size > MAX_TEXT_MESSAGE_BYTES) {
+    throw new Error('Received text message is too long');
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(
+      await data.arrayBuffer(),
+    );
+  } catch {
+    throw new Error('Received text message is not valid UTF-8');
+  }
+}
@@ -0,0 +1,166 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage } from '../test/memory-storage';
+import {
+  clearTransferHistory,
+  deleteTransferHistoryEntry,
+  isTransferHistoryEnabled,
+  leftTransferOutcome,
+  listTransferHistory,
+  MAX_HISTORY_ENTRIES,
+  recordTransfer,
+  reopenFileHandles,
+  setTransferHistoryEnabled,
+  type TransferHistoryEntry,
+} from './transfer-history';
+
+function sent(
+  startedAt: number,
+  overrides: Partial<TransferHistoryEntry> = {},
+): Omit<TransferHistoryEntry, 'id'> {
+  return {
+    startedAt,
+    durationMs: 1500,
+    mode: 'nostr',
+    contentType: 'file',
+    name: `file-${startedAt}.txt`,
+    size: 5,
+    digest: 'ab'.repeat(32),
+    outcome: 'complete',
+    peers: [{ fingerprint: 'AAAA-BBBB', acknowledged: true }],
+    ...overrides,
+  };
+}
+
+function fakeHandle(
+  file: File | Error,
+  permission: PermissionState = 'granted',
+  afterRequest: PermissionState = permission,
+): FileSystemFileHandle {
+  return {
+    kind: 'file',
+    name: file instanceof File ? file.name : 'gone.txt',
+    queryPermission: async () => permission,
+    requestPermission: async () => afterRequest,
+    getFile: async () => {
+      if (file instanceof Error) throw file;
+      return file;
+    },
+  } as unknown as FileSystemFileHandle;
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('transfer history', () => {
+  it('records nothing until it is turned on', async () => {
+    expect(isTransferHistoryEnabled()).toBe(false);
+    expect(await recordTransfer(sent(1))).toBeNull();
+    expect(await listTransferHistory()).toEqual([]);
+  });
+
+  it('lists recorded sends newest first', async () => {
+    await setTransferHistoryEnabled(true);
+    const older = await recordTransfer(sent(1000));
+    const newer = await recordTransfer(
+      sent(2000, {
+        mode: 'manual',
+        outcome: 'failed',
+        error: 'P2P transfer failed',
+        digest: undefined,
+        peers: [],
+      }),
+    );
+    expect(await listTransferHistory()).toEqual([newer, older]);
+  });
+
+  it('deletes one entry or forgets them all', async () => {
+    await setTransferHistoryEnabled(true);
+    const first = await recordTransfer(sent(1));
+    const second = await recordTransfer(sent(2));
+    if (!first || !second) throw new Error('not recorded');
+
+    await deleteTransferHistoryEntry(first.id);
+    expect(await listTransferHistory()).toEqual([second]);
+
+    await clearTransferHistory();
+    expect(await listTransferHistory()).toEqual([]);
+    expect(isTransferHistoryEnabled()).toBe(true);
+  });
+
+  it('forgets everything when turned off', async () => {
+    await setTransferHistoryEnabled(true);
+    await recordTransfer(sent(1));
+    await setTransferHistoryEnabled(false);
+    expect(isTransferHistoryEnabled()).toBe(false);
+    expect(await listTransferHistory()).toEqual([]);
+  });
+
+  it('records a QR send left by the sender as unconfirmed', async () => {
+    expect(leftTransferOutcome(true)).toBe('unconfirmed');
+    expect(leftTransferOutcome(false)).toBe('cancelled');
+
+    await setTransferHistoryEnabled(true);
+    const entry = await recordTransfer(
+      sent(1, {
+        mode: 'manual',
+        outcome: leftTransferOutcome(true),
+        digest: undefined,
+        peers: [{ fingerprint: 'AAAA-BBBB', acknowledged: false }],
+      }),
+    );
+    expect(await listTransferHistory()).toEqual([entry]);
+    expect(entry?.outcome).not.toBe('complete');
+  });
+
+  it('drops the oldest entries past the cap', async () => {
+    await setTransferHistoryEnabled(true);
+    for (let i = 0; i <= MAX_HISTORY_ENTRIES; i++) {
+      await recordTransfer(sent(i));
+    }
+    const entries = await listTransferHistory();
+    expect(entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(entries[0].startedAt).toBe(MAX_HISTORY_ENTRIES);
+    expect(entries.at(-1)?.startedAt).toBe(1);
+  });
+});
+
+describe('reopenFileHandles', () => {
+  const a = new File(['hello'], 'a.txt');
+  const b = new File(['world'], 'b.txt');
+
+  it('reopens the files in order', async () => {
+    expect(await reopenFileHandles([fakeHandle(a), fakeHandle(b)])).toEqual([
+      a,
+      b,
+    ]);
+  });
+
+  it('asks for permission the browser dropped', async () => {
+    expect(
+      await reopenFileHandles([fakeHandle(a, 'prompt', 'granted')]),
+    ).toEqual([a]);
+    expect(
+      await reopenFileHandles([
+        fakeHandle(a),
+        fakeHandle(b, 'prompt', 'denied'),
+      ]),
+    ).toBeNull();
+  });
+
+  it('gives up when a file is gone', async () => {
+    const gone = new DOMException(
+      'A requested file was not found',
+      'NotFoundError',
+    );
+    expect(
+      await reopenFileHandles([fakeHandle(a), fakeHandle(gone)]),
+    ).toBeNull();
+  });
+});
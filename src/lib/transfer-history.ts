@@ -0,0 +1,205 @@
+/**
+ * Transfer history: an opt-in record of past sends, kept only in this
+ * browser's IndexedDB. It stores what was sent (name, size, digest), how and
+ * to whom (mode, the receivers' ECDH key fingerprints), and how it ended,
+ * including whether the receiver's ACK arrived. Nothing is recorded until the
+ * user turns it on, and a text message's content never is.
+ */
+
+import type { ContentType } from './nostr/types';
+
+const HISTORY_ENABLED_KEY = 'secure-send:history-enabled';
+const DB_NAME = 'secure-send-history';
+const DB_VERSION = 1;
+const STORE = 'transfers';
+
+/** Most entries kept; recording another drops the oldest. */
+export const MAX_HISTORY_ENTRIES = 200;
+
+export type HistoryMode = 'nostr' | 'manual';
+
+/**
+ * - complete: the payload went out; each peer says whether it ACKed
+ * - unconfirmed: the payload was shown as animated QR codes, which the
+ *   sender can never learn the receiver finished reading
+ * - failed: the transfer ended with an error
+ * - cancelled: the sender stopped it
+ */
+export type HistoryOutcome =
+  | 'complete'
+  | 'unconfirmed'
+  | 'failed'
+  | 'cancelled';
+
+/** A receiver of a send, identified by its ECDH key fingerprint. */
+export interface HistoryPeer {
+  /** Formatted fingerprint, as both sides show it. */
+  fingerprint: string;
+  /** The receiver's ACK arrived: every chunk landed and the digest matched. */
+  acknowledged: boolean;
+}
+
+export interface TransferHistoryEntry {
+  id: string;
+  /** When the transfer started (ms since epoch). */
+  startedAt: number;
+  durationMs: number;
+  mode: HistoryMode;
+  contentType: ContentType;
+  /** File, archive or multi-file name, as the receiver was shown it. */
+  name: string;
+  /** Payload bytes, estimated for a ZIP packaged while sending. */
+  size: number;
+  /** Lowercase hex SHA-256 of the payload, once a receiver confirmed it. */
+  digest?: string;
+  outcome: HistoryOutcome;
+  /** Why a failed transfer failed. */
+  error?: string;
+  /** Receivers in the order they connected; empty if none connected. */
+  peers: HistoryPeer[];
+  /**
+   * Handles to the files sent, in selection order, when every file was
+   * picked through the File System Access API; see reopenFileHandles.
+   */
+  fileHandles?: FileSystemFileHandle[];
+}
+
+/**
+ * The outcome of a send the sender left while it was still running. Leaving
+ * is how an animated QR transfer ends, but nothing says whether the receiver
+ * got it, so it is unconfirmed rather than complete.
+ */
+export function leftTransferOutcome(sendingQr: boolean): HistoryOutcome {
+  return sendingQr ? 'unconfirmed' : 'cancelled';
+}
+
+/** Whether sends are recorded. Off by default. */
+export function isTransferHistoryEnabled(): boolean {
+  try {
+    return localStorage.getItem(HISTORY_ENABLED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/** Turn recording on or off. Turning it off forgets every entry. */
+export async function setTransferHistoryEnabled(
+  enabled: boolean,
+): Promise<void> {
+  if (enabled) {
+    localStorage.setItem(HISTORY_ENABLED_KEY, 'true');
+    return;
+  }
+  localStorage.removeItem(HISTORY_ENABLED_KEY);
+  await clearTransferHistory();
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openHistoryDb(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('startedAt', 'startedAt');
+  };
+  return requestResult(request);
+}
+
+/** Run `body` in one transaction and resolve with its result once committed. */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  body: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> {
+  const db = await openHistoryDb();
+  try {
+    const transaction = db.transaction(STORE, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await body(transaction.objectStore(STORE));
+    await committed;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Record a finished send, if history is enabled, and trim the store to
+ * MAX_HISTORY_ENTRIES. Resolves with the stored entry, or null when off.
+ */
+export async function recordTransfer(
+  entry: Omit<TransferHistoryEntry, 'id'>,
+): Promise<TransferHistoryEntry | null> {
+  if (!isTransferHistoryEnabled()) return null;
+  const stored: TransferHistoryEntry = { id: crypto.randomUUID(), ...entry };
+  await withStore('readwrite', async (store) => {
+    await requestResult(store.add(stored));
+    const keys = await requestResult(store.index('startedAt').getAllKeys());
+    // Keys come oldest first.
+    for (const key of keys.slice(0, -MAX_HISTORY_ENTRIES)) {
+      store.delete(key);
+    }
+  });
+  return stored;
+}
+
+/** Every recorded send, newest first. */
+export async function listTransferHistory(): Promise<TransferHistoryEntry[]> {
+  const entries = await withStore('readonly', (store) =>
+    requestResult(
+      store.index('startedAt').getAll() as IDBRequest<TransferHistoryEntry[]>,
+    ),
+  );
+  return entries.reverse();
+}
+
+export async function deleteTransferHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', (store) => requestResult(store.delete(id)));
+}
+
+/** Forget every recorded send. Recording stays on if it was on. */
+export async function clearTransferHistory(): Promise<void> {
+  await withStore('readwrite', (store) => requestResult(store.clear()));
+}
+
+// lib.dom does not yet declare File System Access permissions.
+interface FileSystemHandleWithPermission {
+  queryPermission: (descriptor: { mode: 'read' }) => Promise<PermissionState>;
+  requestPermission: (descriptor: { mode: 'read' }) => Promise<PermissionState>;
+}
+
+/**
+ * Open the files behind stored handles again for a re-send. Asks for read
+ * permission where the browser dropped it, so it must run from a user
+ * gesture. Resolves null if any file was moved or deleted, or permission is
+ * refused.
+ */
+export async function reopenFileHandles(
+  handles: readonly FileSystemFileHandle[],
+): Promise<File[] | null> {
+  const files: File[] = [];
+  for (const handle of handles) {
+    try {
+      const permissions = handle as unknown as FileSystemHandleWithPermission;
+      let permission = await permissions.queryPermission({ mode: 'read' });
+      if (permission === 'prompt') {
+        permission = await permissions.requestPermission({ mode: 'read' });
+      }
+      if (permission !== 'granted') return null;
+      files.push(await handle.getFile());
+    } catch {
+      // NotFoundError for a moved or deleted file, NotAllowedError without
+      // a user gesture.
+      return null;
+    }
+  }
+  return files;
+}
@@ -1,3 +1,6 @@
+import type { FileManifest } from './file-manifest';
+import type { ContentType } from './nostr/types';
+
 /**
  * A repeatable, lazily-opened payload for the P2P transfer pipeline.
  *
@@ -11,9 +14,30 @@ export interface TransferSource {
   type: string;
   size: number | null;
   estimatedSize: number;
+  /**
+   * Whether per-chunk compression is worth trying. When omitted the sender
+   * decides from `type` (see isCompressibleMimeType).
+   */
+  compressible?: boolean;
+  /**
+   * File list for a multi-file payload (see file-manifest.ts). The sender
+   * seals it into a MANIFEST message; the payload is the files back to back.
+   */
+  manifest?: FileManifest;
+  /**
+   * The payload is a UTF-8 text message the receiver shows in place rather
+   * than offering as a download (see text-message.ts).
+   */
+  text?: boolean;
   stream: () => ReadableStream<Uint8Array>;
 }
 
+/** Content type signaling announces for a source. */
+export function getTransferContentType(source: TransferSource): ContentType {
+  if (source.manifest) return 'files';
+  return source.text ? 'text' : 'file';
+}
+
 /** Wrap a picker-provided file in the shared lazy transfer abstraction. */
 export function createFileTransferSource(file: File): TransferSource {
   return {
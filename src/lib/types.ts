@@ -1,3 +1,5 @@
+import type { PinKdf } from './crypto/constants';
+
 export interface ReceivedFile {
   contentType: 'file';
   /**
@@ -8,21 +10,55 @@ export interface ReceivedFile {
   fileName: string;
   fileSize: number;
   mimeType: string;
+  /** Relative path (with folders) when the file came from a multi-file transfer. */
+  path?: string;
+  /** Sender-side modification time (ms since epoch), when known. */
+  lastModified?: number;
+  /**
+   * Name of the file the payload was written into when the receiver picked
+   * a destination before the transfer (`data` then reads from that file).
+   */
+  savedAs?: string;
+  /**
+   * True when the payload streamed straight into the browser's downloads as
+   * it arrived (see stream-download.ts); `data` is then empty.
+   */
+  downloaded?: boolean;
+}
+
+/**
+ * Files received together in one multi-file transfer, in the sender's order.
+ * Each file's data is a slice of the one received payload.
+ */
+export interface ReceivedFileList {
+  contentType: 'files';
+  /** Display name the sender gave the transfer as a whole. */
+  name: string;
+  files: ReceivedFile[];
+}
+
+/** A text message, decoded from its UTF-8 payload. */
+export interface ReceivedText {
+  contentType: 'text';
+  text: string;
 }
 
-export type ReceivedContent = ReceivedFile;
+export type ReceivedContent = ReceivedFile | ReceivedFileList | ReceivedText;
 
 /**
  * Key material derived from an entered PIN.
  * @property key - Non-extractable HKDF PIN root (see importPinRoot): the full
- *   PBKDF2 stretch of the PIN, from which the receiver derives the per-bucket
+ *   Argon2id or PBKDF2 stretch of the PIN, from which the receiver derives the per-bucket
  *   rendezvous hints, the rendezvous payload key, and the claim/confirm auth
  *   key. It derives no content-encryption keys — those come from the ephemeral
  *   ECDH exchange the PIN authenticates.
  * @property fingerprint - Stable PIN fingerprint (see computePinFingerprint),
  *   shown for human visual comparison only; never sent across the wire.
+ * @property kdf - The KDF the PIN's checksum names (see getPinKdf); the
+ *   receiver only accepts rendezvous events tagged with the same one.
  */
 export interface PinKeyMaterial {
   key: CryptoKey;
   fingerprint: string;
+  kdf: PinKdf;
 }
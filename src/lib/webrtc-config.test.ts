@@ -1,5 +1,20 @@
-import { describe, expect, it } from 'vitest';
-import { getIceServers, getWebRTCConfig } from './webrtc-config';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage } from '../test/memory-storage';
+import {
+  getIceServers,
+  getIceSettings,
+  getWebRTCConfig,
+  MAX_ICE_SERVERS,
+  parseIceServerUrl,
+  sanitizeIceServers,
+  saveIceSettings,
+} from './webrtc-config';
+
+const turn = {
+  urls: 'turn:turn.example.com:3478',
+  username: 'alice',
+  credential: 'secret',
+};
 
 describe('WebRTC configuration', () => {
   it('configures STUN discovery without TURN relay fallback', () => {
@@ -13,4 +28,111 @@ describe('WebRTC configuration', () => {
 
     expect(getWebRTCConfig().iceServers).toEqual(servers);
   });
+
+  it('replaces the defaults with the configured servers', () => {
+    const servers = [{ urls: 'stun:stun.example.com:3478' }, turn];
+    const config = getWebRTCConfig({ servers, policy: 'all' });
+    expect(config.iceServers).toEqual(servers);
+    expect(config.iceTransportPolicy).toBe('all');
+  });
+
+  it('forces or forbids relaying by policy', () => {
+    const servers = [{ urls: 'stun:stun.example.com' }, turn];
+    expect(getWebRTCConfig({ servers, policy: 'relay' })).toMatchObject({
+      iceServers: servers,
+      iceTransportPolicy: 'relay',
+    });
+    expect(getWebRTCConfig({ servers, policy: 'no-relay' })).toMatchObject({
+      iceServers: [{ urls: 'stun:stun.example.com' }],
+      iceTransportPolicy: 'all',
+    });
+  });
+
+  it('contacts no server and keeps host candidates only in LAN-only mode', () => {
+    expect(getWebRTCConfig({ servers: [turn], policy: 'lan-only' })).toEqual({
+      iceServers: [],
+      iceTransportPolicy: 'all',
+      iceCandidatePoolSize: 10,
+      hostCandidatesOnly: true,
+    });
+    expect(getWebRTCConfig().hostCandidatesOnly).toBe(false);
+  });
+});
+
+describe('parseIceServerUrl', () => {
+  it('normalizes STUN and TURN URLs', () => {
+    expect(parseIceServerUrl(' TURN:Turn.Example.com:3478 ')).toBe(
+      'turn:turn.example.com:3478',
+    );
+    expect(parseIceServerUrl('turns:turn.example.com?transport=tcp')).toBe(
+      'turns:turn.example.com?transport=tcp',
+    );
+    expect(parseIceServerUrl('stun:[2001:db8::1]:3478')).toBe(
+      'stun:[2001:db8::1]:3478',
+    );
+  });
+
+  it('rejects other schemes, bad ports and garbage', () => {
+    expect(parseIceServerUrl('https://turn.example.com')).toBeNull();
+    expect(parseIceServerUrl('turn:turn.example.com:99999')).toBeNull();
+    expect(parseIceServerUrl('stun:stun.example.com?transport=tcp')).toBeNull();
+    expect(parseIceServerUrl('turn:user@turn.example.com')).toBeNull();
+    expect(parseIceServerUrl('turn.example.com')).toBeNull();
+  });
+});
+
+describe('sanitizeIceServers', () => {
+  it('requires TURN credentials and drops duplicates and junk', () => {
+    expect(
+      sanitizeIceServers([
+        { urls: 'turn:turn.example.com:3478' },
+        { urls: 'stun:stun.example.com', username: 'ignored' },
+        { urls: 'STUN:stun.example.com' },
+        turn,
+        'stun:stun.example.com',
+        null,
+      ]),
+    ).toEqual([{ urls: 'stun:stun.example.com' }, turn]);
+
+    const many = Array.from({ length: MAX_ICE_SERVERS + 2 }, (_, i) => ({
+      urls: `stun:s${i}.example.com`,
+    }));
+    expect(sanitizeIceServers(many)).toHaveLength(MAX_ICE_SERVERS);
+  });
+});
+
+describe('ICE settings storage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('persists servers and policy for new connections', () => {
+    expect(getIceSettings()).toEqual({ servers: [], policy: 'all' });
+    saveIceSettings({ servers: [turn], policy: 'relay' });
+    expect(getIceSettings()).toEqual({ servers: [turn], policy: 'relay' });
+    expect(getWebRTCConfig()).toMatchObject({
+      iceServers: [turn],
+      iceTransportPolicy: 'relay',
+    });
+  });
+
+  it('clears storage when the defaults are restored', () => {
+    saveIceSettings({ servers: [turn], policy: 'no-relay' });
+    saveIceSettings({ servers: [], policy: 'all' });
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('falls back to the defaults for a corrupt entry', () => {
+    localStorage.setItem('secure-send:ice-servers', '{not json');
+    expect(getIceSettings()).toEqual({ servers: [], policy: 'all' });
+    localStorage.setItem(
+      'secure-send:ice-servers',
+      '{"servers":[{"urls":"http://x"}],"policy":"sometimes"}',
+    );
+    expect(getIceSettings()).toEqual({ servers: [], policy: 'all' });
+  });
 });
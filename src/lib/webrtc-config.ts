@@ -1,10 +1,20 @@
 /**
  * WebRTC ICE Server Configuration
  *
- * Provides multiple public STUN servers for direct ICE candidate discovery.
- * TURN is intentionally unsupported: file transport must remain a direct
- * peer-to-peer connection, and connection attempts fail when no direct ICE
- * route can be established.
+ * By default only public STUN servers are used, for direct ICE candidate
+ * discovery. Users behind a NAT that defeats direct routes (symmetric NAT,
+ * corporate firewalls) can configure their own STUN/TURN servers in Settings.
+ * A TURN relay forwards the DTLS-encrypted data channel, and every chunk is
+ * AES-GCM encrypted end to end before it is sent, so the relay operator sees
+ * only ciphertext.
+ *
+ * The ICE policy decides how relays are used: `all` lets ICE pick the best
+ * route, `relay` forces every connection through TURN (hiding each peer's IP
+ * address from the other), and `no-relay` never relays, even when a TURN
+ * server is configured. `lan-only` contacts no STUN or TURN server at all, so
+ * no third party learns the user's public IP address, and WebRTCConnection
+ * signals and accepts host candidates only: the devices must reach each other
+ * on the local network.
  */
 
 /**
@@ -19,22 +29,166 @@ const STUN_SERVERS: RTCIceServer[] = [
   { urls: 'stun:stun.cloudflare.com:3478' },
 ];
 
+export type IcePolicy = 'all' | 'relay' | 'no-relay' | 'lan-only';
+
+/** User-configured ICE servers and relay policy (see saveIceSettings). */
+export interface IceSettings {
+  /** Replaces the default STUN servers when non-empty. */
+  servers: RTCIceServer[];
+  policy: IcePolicy;
+}
+
+/** RTCConfiguration plus the candidate filter WebRTCConnection applies. */
+export interface WebRTCConfig extends RTCConfiguration {
+  /** Signal and accept host candidates only (the `lan-only` policy). */
+  hostCandidatesOnly?: boolean;
+}
+
+/** Upper bound on configured ICE servers; each one is probed per connection. */
+export const MAX_ICE_SERVERS = 8;
+
+const ICE_SETTINGS_STORAGE_KEY = 'secure-send:ice-servers';
+
+const ICE_POLICIES: readonly IcePolicy[] = [
+  'all',
+  'relay',
+  'no-relay',
+  'lan-only',
+];
+
+// scheme:host[:port][?transport=udp|tcp] (RFC 7064 / RFC 7065)
+const ICE_URL_PATTERN =
+  /^(stuns?|turns?):(\[[0-9a-f:.]+\]|[a-z0-9.-]+)(:\d{1,5})?(\?transport=(udp|tcp))?$/i;
+
+/** Whether an ICE server URL (already validated) is a TURN relay. */
+export function isTurnUrl(url: string): boolean {
+  return /^turns?:/i.test(url);
+}
+
+/**
+ * Validate and normalize a STUN/TURN URL such as `turn:turn.example.com:3478`
+ * or `turns:turn.example.com?transport=tcp`. Returns null for anything else.
+ */
+export function parseIceServerUrl(input: string): string | null {
+  const trimmed = input.trim();
+  const match = ICE_URL_PATTERN.exec(trimmed);
+  if (!match) return null;
+  if (match[3] && Number(match[3].slice(1)) > 65535) return null;
+  // The transport parameter is meaningless for STUN.
+  if (match[4] && !isTurnUrl(trimmed)) return null;
+  return `${match[1].toLowerCase()}:${match[2].toLowerCase()}${match[3] ?? ''}${
+    match[4]?.toLowerCase() ?? ''
+  }`;
+}
+
+function sanitizeIceServer(entry: unknown): RTCIceServer | null {
+  if (typeof entry !== 'object' || entry === null) return null;
+  const { urls, username, credential } = entry as Record<string, unknown>;
+  if (typeof urls !== 'string') return null;
+  const url = parseIceServerUrl(urls);
+  if (!url) return null;
+  if (!isTurnUrl(url)) return { urls: url };
+  // Browsers reject a TURN server without credentials.
+  if (typeof username !== 'string' || !username) return null;
+  if (typeof credential !== 'string' || !credential) return null;
+  return { urls: url, username, credential };
+}
+
+/**
+ * Parse, de-duplicate and cap a list of ICE servers, one URL per entry,
+ * dropping invalid ones and TURN entries without credentials.
+ */
+export function sanitizeIceServers(
+  servers: readonly unknown[],
+): RTCIceServer[] {
+  const seen = new Set<string>();
+  const sanitized: RTCIceServer[] = [];
+  for (const entry of servers) {
+    const server = sanitizeIceServer(entry);
+    if (!server || seen.has(server.urls as string)) continue;
+    seen.add(server.urls as string);
+    sanitized.push(server);
+  }
+  return sanitized.slice(0, MAX_ICE_SERVERS);
+}
+
+/** The user's ICE servers and policy, or the defaults. */
+export function getIceSettings(): IceSettings {
+  try {
+    const stored = localStorage.getItem(ICE_SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const parsed: unknown = JSON.parse(stored);
+      if (typeof parsed === 'object' && parsed !== null) {
+        const { servers, policy } = parsed as Record<string, unknown>;
+        return {
+          servers: Array.isArray(servers) ? sanitizeIceServers(servers) : [],
+          policy: ICE_POLICIES.includes(policy as IcePolicy)
+            ? (policy as IcePolicy)
+            : 'all',
+        };
+      }
+    }
+  } catch {
+    // No storage (private browsing, tests) or a corrupt entry.
+  }
+  return { servers: [], policy: 'all' };
+}
+
+/**
+ * Persist the ICE servers and policy used for every new connection, on both
+ * the send and receive pages. No servers and the `all` policy restores the
+ * defaults. TURN credentials are stored in this browser in plain text.
+ */
+export function saveIceSettings(settings: IceSettings): IceSettings {
+  const sanitized: IceSettings = {
+    servers: sanitizeIceServers(settings.servers),
+    policy: ICE_POLICIES.includes(settings.policy) ? settings.policy : 'all',
+  };
+  if (sanitized.servers.length === 0 && sanitized.policy === 'all') {
+    localStorage.removeItem(ICE_SETTINGS_STORAGE_KEY);
+  } else {
+    localStorage.setItem(ICE_SETTINGS_STORAGE_KEY, JSON.stringify(sanitized));
+  }
+  return sanitized;
+}
+
+/** Whether connections are restricted to the local network. */
+export function isLanOnly(settings: IceSettings = getIceSettings()): boolean {
+  return settings.policy === 'lan-only';
+}
+
 /**
- * Get the complete ICE server configuration.
- * Includes STUN servers only; no relay candidates are configured.
+ * Get the ICE servers for a new connection: the user's servers, or the
+ * default public STUN servers. Under the `no-relay` policy TURN entries are
+ * left out, so no relay candidate can ever be gathered; `lan-only` uses no
+ * server at all.
  */
-export function getIceServers(): RTCIceServer[] {
-  return [...STUN_SERVERS];
+export function getIceServers(
+  settings: IceSettings = getIceSettings(),
+): RTCIceServer[] {
+  if (isLanOnly(settings)) return [];
+  const servers = settings.servers.length > 0 ? settings.servers : STUN_SERVERS;
+  return servers
+    .filter(
+      (server) =>
+        settings.policy !== 'no-relay' || !isTurnUrl(server.urls as string),
+    )
+    .map((server) => ({ ...server }));
 }
 
 /**
  * Get complete RTCConfiguration with ICE servers.
  * Use this when creating a new RTCPeerConnection.
  */
-export function getWebRTCConfig(): RTCConfiguration {
+export function getWebRTCConfig(
+  settings: IceSettings = getIceSettings(),
+): WebRTCConfig {
   return {
-    iceServers: getIceServers(),
+    iceServers: getIceServers(settings),
+    // Only relay candidates are paired when relaying is forced.
+    iceTransportPolicy: settings.policy === 'relay' ? 'relay' : 'all',
     // Use all available candidates for best connectivity
     iceCandidatePoolSize: 10,
+    hostCandidatesOnly: isLanOnly(settings),
   };
 }
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { statsReport } from '../test/rtc-stats';
+import {
+  isHostCandidate,
+  isRelayedCandidatePair,
+  stripNonHostCandidates,
+} from './webrtc';
+
+const candidates = [
+  { id: 'host', type: 'local-candidate', candidateType: 'host' },
+  { id: 'relay', type: 'local-candidate', candidateType: 'relay' },
+  { id: 'peer', type: 'remote-candidate', candidateType: 'srflx' },
+];
+
+describe('isRelayedCandidatePair', () => {
+  it('follows the transport to its selected pair', () => {
+    const stats = (selected: string) =>
+      statsReport([
+        ...candidates,
+        {
+          id: 'direct',
+          type: 'candidate-pair',
+          localCandidateId: 'host',
+          remoteCandidateId: 'peer',
+        },
+        {
+          id: 'relayed',
+          type: 'candidate-pair',
+          localCandidateId: 'relay',
+          remoteCandidateId: 'peer',
+        },
+        { id: 't', type: 'transport', selectedCandidatePairId: selected },
+      ]);
+    expect(isRelayedCandidatePair(stats('relayed'))).toBe(true);
+    expect(isRelayedCandidatePair(stats('direct'))).toBe(false);
+  });
+
+  it('falls back to the flagged pair without transport stats', () => {
+    const stats = statsReport([
+      ...candidates,
+      {
+        id: 'relayed',
+        type: 'candidate-pair',
+        localCandidateId: 'relay',
+        remoteCandidateId: 'peer',
+        selected: true,
+      },
+    ]);
+    expect(isRelayedCandidatePair(stats)).toBe(true);
+    expect(isRelayedCandidatePair(statsReport(candidates))).toBe(false);
+  });
+});
+
+describe('host candidate filtering', () => {
+  const host =
+    'candidate:1 1 udp 2122260223 3f1c.local 54321 typ host generation 0';
+  const srflx =
+    'candidate:2 1 udp 1686052607 203.0.113.7 54321 typ srflx raddr 0.0.0.0 rport 0';
+  const relay =
+    'candidate:3 1 udp 41885439 198.51.100.2 3478 typ relay raddr 203.0.113.7 rport 54321';
+
+  it('recognizes host candidates only', () => {
+    expect(isHostCandidate(host)).toBe(true);
+    expect(isHostCandidate(`a=${host}`)).toBe(true);
+    expect(isHostCandidate(srflx)).toBe(false);
+    expect(isHostCandidate(relay)).toBe(false);
+    expect(isHostCandidate('')).toBe(false);
+  });
+
+  it('strips server-derived candidates from an SDP', () => {
+    const sdp = [
+      'v=0',
+      'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+      `a=${host}`,
+      `a=${srflx}`,
+      `a=${relay}`,
+      'a=end-of-candidates',
+      '',
+    ].join('\r\n');
+    expect(stripNonHostCandidates(sdp)).toBe(
+      [
+        'v=0',
+        'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+        `a=${host}`,
+        'a=end-of-candidates',
+        '',
+      ].join('\r\n'),
+    );
+  });
+});
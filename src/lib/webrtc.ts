@@ -1,3 +1,10 @@
+import {
+  candidateTypeOf,
+  findSelectedCandidatePair,
+  trackConnection,
+} from './connection-diagnostics';
+import type { WebRTCConfig } from './webrtc-config';
+
 export type WebRTCSignal =
   | { type: 'offer'; sdp: string }
   | { type: 'answer'; sdp: string }
@@ -8,25 +15,71 @@ type WebRTCData = string | ArrayBuffer | ArrayBufferView | Blob;
 // Backpressure threshold: pause sending while the send buffer exceeds this.
 const BACKPRESSURE_THRESHOLD = 1024 * 1024; // 1MB
 
+// Extra striping channels are labelled `<primary label>:<n>`; the unsuffixed
+// channel is the primary one that carries control messages.
+const STRIPE_LABEL_SEPARATOR = ':';
+
+/** Data channels a transfer may stripe chunks across (primary included). */
+export const MAX_DATA_CHANNELS = 8;
+/** Channel count used when the sender does not choose one. */
+export const DEFAULT_DATA_CHANNELS = 4;
+
+/**
+ * Whether an ICE candidate (an SDP `candidate:` attribute, with or without the
+ * `a=` prefix) is a host candidate: a local interface address, never one
+ * learned from a STUN or TURN server.
+ */
+export function isHostCandidate(candidate: string): boolean {
+  return /\styp\s+host(\s|$)/.test(candidate);
+}
+
+/** Remove every candidate line but host ones from an SDP. */
+export function stripNonHostCandidates(sdp: string): string {
+  return sdp
+    .split('\r\n')
+    .filter((line) => !line.startsWith('a=candidate:') || isHostCandidate(line))
+    .join('\r\n');
+}
+
+/**
+ * Whether the selected ICE candidate pair in `stats` runs through a TURN
+ * relay on either side. False when no pair has been selected yet.
+ */
+export function isRelayedCandidatePair(stats: RTCStatsReport): boolean {
+  const pair = findSelectedCandidatePair(stats);
+  if (!pair) return false;
+  return [pair.localCandidateId, pair.remoteCandidateId].some(
+    (id) => candidateTypeOf(stats, id) === 'relay',
+  );
+}
+
 export class WebRTCConnection {
   private pc: RTCPeerConnection;
   private dataChannel: RTCDataChannel | null = null;
+  // Every data channel in stripe order; index 0 is the primary channel.
+  private stripeChannels: RTCDataChannel[] = [];
   private onSignal: (signal: WebRTCSignal) => void;
   private onDataChannelOpen: () => void;
   private onDataChannelMessage: (data: string | ArrayBuffer) => void;
   private onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+  // LAN-only mode: drop server-derived candidates in both directions.
+  private hostCandidatesOnly: boolean;
+  private stopDiagnostics: () => void;
 
   private remoteDescriptionSet = false;
   private candidateQueue: RTCIceCandidate[] = [];
 
   constructor(
-    config: RTCConfiguration,
+    config: WebRTCConfig,
     onSignal: (signal: WebRTCSignal) => void,
     onDataChannelOpen: () => void,
     onDataChannelMessage: (data: string | ArrayBuffer) => void,
     onConnectionStateChange?: (state: RTCPeerConnectionState) => void,
   ) {
-    this.pc = new RTCPeerConnection(config);
+    const { hostCandidatesOnly = false, ...rtcConfig } = config;
+    this.pc = new RTCPeerConnection(rtcConfig);
+    this.hostCandidatesOnly = hostCandidatesOnly;
+    this.stopDiagnostics = trackConnection(this.pc, config);
     this.onSignal = onSignal;
     this.onDataChannelOpen = onDataChannelOpen;
     this.onDataChannelMessage = onDataChannelMessage;
@@ -34,6 +87,10 @@ export class WebRTCConnection {
 
     this.pc.onicecandidate = (event) => {
       if (event.candidate) {
+        if (!this.acceptsCandidate(event.candidate.candidate)) {
+          console.log('Dropping non-host ICE candidate (LAN-only)');
+          return;
+        }
         console.log('Generated ICE candidate:', event.candidate.candidate);
         this.onSignal({ type: 'candidate', candidate: event.candidate });
       }
@@ -59,29 +116,63 @@ export class WebRTCConnection {
     };
   }
 
-  public createDataChannel(label: string) {
-    console.log('Creating DataChannel:', label);
-    const channel = this.pc.createDataChannel(label);
-    this.setupDataChannel(channel);
+  /**
+   * Create the primary data channel plus `count - 1` striping channels.
+   * Only the primary channel's open event is reported; messages from every
+   * channel go to the same message callback.
+   */
+  public createDataChannel(label: string, count = 1) {
+    if (!Number.isInteger(count) || count < 1 || count > MAX_DATA_CHANNELS) {
+      throw new Error(`Invalid data channel count: ${count}`);
+    }
+    console.log('Creating DataChannel:', label, `(${count} total)`);
+    this.setupDataChannel(this.pc.createDataChannel(label));
+    for (let stripe = 1; stripe < count; stripe++) {
+      this.setupDataChannel(
+        this.pc.createDataChannel(`${label}${STRIPE_LABEL_SEPARATOR}${stripe}`),
+      );
+    }
   }
 
   private setupDataChannel(channel: RTCDataChannel) {
-    this.dataChannel = channel;
+    const separator = channel.label.lastIndexOf(STRIPE_LABEL_SEPARATOR);
+    const stripe =
+      separator === -1 ? 0 : Number(channel.label.slice(separator + 1));
+    if (
+      !Number.isInteger(stripe) ||
+      stripe < 0 ||
+      stripe >= MAX_DATA_CHANNELS
+    ) {
+      console.warn('Ignoring data channel with invalid label:', channel.label);
+      channel.close();
+      return;
+    }
+    this.stripeChannels[stripe] = channel;
     // Receivers assume binary messages arrive as ArrayBuffer; make it explicit
     // rather than relying on the browser default.
     channel.binaryType = 'arraybuffer';
     // Enables the 'bufferedamountlow' event used by sendWithBackpressure.
     channel.bufferedAmountLowThreshold = BACKPRESSURE_THRESHOLD;
-    this.dataChannel.onopen = () => {
-      console.log('Data channel open state:', this.dataChannel?.readyState);
-      this.onDataChannelOpen();
-    };
-    this.dataChannel.onmessage = (event) => {
+    channel.onmessage = (event) => {
       this.onDataChannelMessage(event.data);
     };
-    this.dataChannel.onerror = (err) => {
+    channel.onerror = (err) => {
       console.error('DataChannel error:', err);
     };
+    if (stripe !== 0) return;
+
+    this.dataChannel = channel;
+    let announced = false;
+    const announceOpen = () => {
+      if (announced) return;
+      announced = true;
+      console.log('Data channel open state:', this.dataChannel?.readyState);
+      this.onDataChannelOpen();
+    };
+    channel.onopen = announceOpen;
+    // node-datachannel hands over a remote channel already open and never
+    // fires 'open' for it.
+    if (channel.readyState === 'open') announceOpen();
   }
 
   public async createOffer() {
@@ -93,7 +184,7 @@ export class WebRTCConnection {
     if (!offer.sdp) {
       throw new Error('Failed to create offer: SDP is missing');
     }
-    this.onSignal({ type: 'offer', sdp: offer.sdp });
+    this.onSignal({ type: 'offer', sdp: this.filterSdp(offer.sdp) });
   }
 
   public async handleSignal(signal: WebRTCSignal) {
@@ -105,7 +196,10 @@ export class WebRTCConnection {
         }
         console.log('Setting remote offer...');
         await this.pc.setRemoteDescription(
-          new RTCSessionDescription({ type: 'offer', sdp: signal.sdp }),
+          new RTCSessionDescription({
+            type: 'offer',
+            sdp: this.filterSdp(signal.sdp),
+          }),
         );
         this.remoteDescriptionSet = true;
         await this.processQueue();
@@ -116,18 +210,28 @@ export class WebRTCConnection {
         if (!answer.sdp) {
           throw new Error('Failed to create answer: SDP is missing');
         }
-        this.onSignal({ type: 'answer', sdp: answer.sdp });
+        this.onSignal({ type: 'answer', sdp: this.filterSdp(answer.sdp) });
       } else if (signal.type === 'answer') {
         if (!signal.sdp) {
           throw new Error('Invalid answer signal: SDP is missing');
         }
         console.log('Setting remote answer...');
         await this.pc.setRemoteDescription(
-          new RTCSessionDescription({ type: 'answer', sdp: signal.sdp }),
+          new RTCSessionDescription({
+            type: 'answer',
+            sdp: this.filterSdp(signal.sdp),
+          }),
         );
         this.remoteDescriptionSet = true;
         await this.processQueue();
       } else if (signal.type === 'candidate') {
+        if (
+          signal.candidate &&
+          !this.acceptsCandidate(signal.candidate.candidate ?? '')
+        ) {
+          console.log('Ignoring remote non-host ICE candidate (LAN-only)');
+          return;
+        }
         if (signal.candidate) {
           let candidate: RTCIceCandidate;
           try {
@@ -152,6 +256,28 @@ export class WebRTCConnection {
     }
   }
 
+  /**
+   * Whether a candidate may be signaled or added. In LAN-only mode only host
+   * candidates pass; an empty end-of-candidates marker always does.
+   */
+  private acceptsCandidate(candidate: string): boolean {
+    return (
+      !this.hostCandidatesOnly || candidate === '' || isHostCandidate(candidate)
+    );
+  }
+
+  private filterSdp(sdp: string): string {
+    return this.hostCandidatesOnly ? stripNonHostCandidates(sdp) : sdp;
+  }
+
+  /**
+   * The local description's SDP with its gathered candidates, under the same
+   * LAN-only filtering as signaled descriptions. Empty before one is set.
+   */
+  public getLocalSdp(): string {
+    return this.filterSdp(this.pc.localDescription?.sdp ?? '');
+  }
+
   public getPeerConnection(): RTCPeerConnection {
     return this.pc;
   }
@@ -160,6 +286,33 @@ export class WebRTCConnection {
     return this.dataChannel;
   }
 
+  /**
+   * Currently open data channels in stripe order, primary first. Striping
+   * channels the remote side never opened are skipped.
+   */
+  public getOpenDataChannels(): RTCDataChannel[] {
+    return this.stripeChannels.filter(
+      (channel) => channel?.readyState === 'open',
+    );
+  }
+
+  /** The peer connection's current `getStats()` report. */
+  public getStats(): Promise<RTCStatsReport> {
+    return this.pc.getStats();
+  }
+
+  /**
+   * Whether the connection currently runs through a TURN relay. Resolves
+   * false when stats are unavailable.
+   */
+  public async isRelayed(): Promise<boolean> {
+    try {
+      return isRelayedCandidatePair(await this.getStats());
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Wait for ICE gathering to complete with a bounded timeout.
    * Uses event listeners + post-subscribe checks to avoid missing the completion event.
@@ -283,16 +436,18 @@ export class WebRTCConnection {
   public async sendWithBackpressure(
     data: WebRTCData,
     bufferThreshold: number = BACKPRESSURE_THRESHOLD,
+    channel: RTCDataChannel | null = this.dataChannel,
   ): Promise<void> {
-    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+    if (!channel || channel.readyState !== 'open') {
       throw new Error('Data channel not open');
     }
+    const dc = channel;
 
     // Wait for the buffer to drain if it's too full, driven by the
     // 'bufferedamountlow' event with a coarse interval as a safety fallback
-    // (covers unsupported/missed events and channel close).
-    while (this.dataChannel.bufferedAmount > bufferThreshold) {
-      const dc = this.dataChannel;
+    // (covers unsupported/missed events and channel close). Each channel
+    // drains independently, so striped sends only wait on their own channel.
+    while (dc.bufferedAmount > bufferThreshold) {
       dc.bufferedAmountLowThreshold = bufferThreshold;
       await new Promise<void>((resolve) => {
         let done = false;
@@ -314,36 +469,40 @@ export class WebRTCConnection {
         }, 100);
         dc.addEventListener('bufferedamountlow', onLow);
       });
-      if (this.dataChannel.readyState !== 'open') {
+      if (dc.readyState !== 'open') {
         throw new Error('Data channel closed before send completed');
       }
     }
 
-    this.sendData(data);
+    this.sendData(data, dc);
   }
 
-  private sendData(data: WebRTCData) {
-    if (!this.dataChannel) {
+  private sendData(
+    data: WebRTCData,
+    channel: RTCDataChannel | null = this.dataChannel,
+  ) {
+    if (!channel) {
       throw new Error('Data channel not open');
     }
 
     if (typeof data === 'string') {
-      this.dataChannel.send(data);
+      channel.send(data);
     } else if (data instanceof Blob) {
-      this.dataChannel.send(data);
+      channel.send(data);
     } else if (data instanceof ArrayBuffer) {
-      this.dataChannel.send(data);
+      channel.send(data);
     } else if (ArrayBuffer.isView(data)) {
       // send() transmits exactly [byteOffset, byteOffset+byteLength). Callers
       // pass fresh, exact-size views (encryptChunk output), so no copy is needed.
-      this.dataChannel.send(data as ArrayBufferView<ArrayBuffer>);
+      channel.send(data as ArrayBufferView<ArrayBuffer>);
     } else {
       throw new Error('Unsupported data type for data channel send');
     }
   }
 
   public close() {
-    if (this.dataChannel) this.dataChannel.close();
+    for (const channel of this.stripeChannels) channel?.close();
+    this.stopDiagnostics();
     this.pc.close();
   }
 }
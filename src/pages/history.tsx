@@ -0,0 +1,9 @@
+import { TransferHistory } from '@/components/secure-send/transfer-history';
+
+export function HistoryPage() {
+  return (
+    <div className="flex w-full justify-center">
+      <TransferHistory />
+    </div>
+  );
+}
@@ -1,8 +1,6 @@
 import {
   AlertCircle,
   Camera,
-  Download,
-  FileDown,
   Loader2,
   RefreshCw,
   RotateCcw,
@@ -10,18 +8,18 @@ import {
 } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { PassphrasePrompt } from '@/components/secure-send/passphrase-prompt';
 import { QRDisplay } from '@/components/secure-send/qr-display';
+import { QRInput } from '@/components/secure-send/qr-input';
+import { QRScanner } from '@/components/secure-send/qr-scanner';
+import { ReceivedContentView } from '@/components/secure-send/received-content';
+import { SasDisplay } from '@/components/secure-send/sas-display';
 import { TransferStatus } from '@/components/secure-send/transfer-status';
 import { Button } from '@/components/ui/button';
 import { useChunkCollector } from '@/hooks/use-chunk-collector';
 import { useManualReceive } from '@/hooks/use-manual-receive';
 import { useQRScanner } from '@/hooks/useQRScanner';
 import { extractChunkParam } from '@/lib/chunk-utils';
-import {
-  downloadFile,
-  formatFileSize,
-  getMimeTypeDescription,
-} from '@/lib/file-utils';
 import { isMobileDevice } from '@/lib/utils';
 
 type PageStep = 'collecting' | 'transferring';
@@ -41,6 +39,9 @@ export function ReceiveChunkedPage() {
     receivedContent,
     startReceive,
     submitOffer,
+    submitPassphrase,
+    receiveOverQr,
+    submitQrTransfer,
     cancel,
     reset,
   } = useManualReceive();
@@ -122,16 +123,6 @@ export function ReceiveChunkedPage() {
     setFacingMode((prev) => (prev === 'environment' ? 'user' : 'environment'));
   }, []);
 
-  const handleDownload = useCallback(() => {
-    if (receivedContent) {
-      downloadFile(
-        receivedContent.data,
-        receivedContent.fileName,
-        receivedContent.mimeType,
-      );
-    }
-  }, [receivedContent]);
-
   const handleCancel = useCallback(() => {
     cancel();
     void navigate('/receive');
@@ -156,11 +147,24 @@ export function ReceiveChunkedPage() {
 
           {total !== null ? (
             <div className="space-y-3">
-              <p className="text-sm text-muted-foreground text-center">
-                Collected {collected} of {total} QR code{total !== 1 ? 's' : ''}{' '}
-                ({collectedPercent}%)
-              </p>
-              {total > 1 && (
+              {chunkState.animated ? (
+                <>
+                  <p className="text-sm text-muted-foreground text-center">
+                    Decoded {collected} of {total} block
+                    {total !== 1 ? 's' : ''} ({collectedPercent}%)
+                  </p>
+                  <p className="text-xs text-muted-foreground text-center">
+                    Keep the camera on the sender's animated QR code. Missed
+                    frames don't matter; later ones make up for them.
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center">
+                  Collected {collected} of {total} QR code
+                  {total !== 1 ? 's' : ''} ({collectedPercent}%)
+                </p>
+              )}
+              {total > 1 && !chunkState.animated && (
                 <>
                   <div className="flex flex-wrap justify-center gap-1.5">
                     {Array.from({ length: total }, (_, i) => {
@@ -303,7 +307,30 @@ export function ReceiveChunkedPage() {
 
         {/* Transfer status (connecting, receiving progress, etc.) */}
         {receiveState.status !== 'waiting_for_offer' && (
-          <TransferStatus state={receiveState} />
+          <TransferStatus state={receiveState} onQrTransfer={receiveOverQr} />
+        )}
+
+        {/* Resume after a dropped connection: the sender shows a new code */}
+        {receiveState.status === 'waiting_for_offer' &&
+          receiveState.fileMetadata && (
+            <div className="space-y-4">
+              <TransferStatus state={receiveState} />
+              <QRInput
+                expectedType="offer"
+                label="Scan or paste the sender's new code"
+                onSubmit={submitOffer}
+              />
+            </div>
+          )}
+
+        {/* Passphrase for a sealed offer */}
+        {receiveState.status === 'waiting_for_passphrase' && (
+          <PassphrasePrompt onSubmit={submitPassphrase} />
+        )}
+
+        {/* Offline QR transfer after a failed connection */}
+        {receiveState.status === 'receiving_qr' && (
+          <QRScanner expectedType="transfer" onScan={submitQrTransfer} />
         )}
 
         {/* Answer display: returned to the sender by QR or copy/paste */}
@@ -343,31 +370,16 @@ export function ReceiveChunkedPage() {
               clipboardData={clipboardData}
               label="Your response"
             />
+            {receiveState.sas && (
+              <SasDisplay sas={receiveState.sas} side="receiver" />
+            )}
           </div>
         )}
 
-        {/* Download completed file */}
+        {/* Download completed files */}
         {receiveState.status === 'complete' && receivedContent && (
           <div className="space-y-4">
-            <div className="p-6 border rounded-lg bg-muted/50 text-center space-y-3">
-              <FileDown className="h-12 w-12 mx-auto text-muted-foreground" />
-              <div>
-                <p className="font-medium truncate max-w-[300px] mx-auto">
-                  {receivedContent.fileName}
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  {formatFileSize(receivedContent.fileSize)} &bull;{' '}
-                  {getMimeTypeDescription(receivedContent.mimeType)}
-                </p>
-              </div>
-              <Button
-                onClick={handleDownload}
-                className="w-full max-w-[200px] bg-cyan-600 hover:bg-cyan-700 dark:bg-cyan-600 dark:hover:bg-cyan-700"
-              >
-                <Download className="mr-2 h-4 w-4" />
-                Download File
-              </Button>
-            </div>
+            <ReceivedContentView content={receivedContent} />
           </div>
         )}
 
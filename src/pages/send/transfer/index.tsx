@@ -2,14 +2,20 @@ import {
   AlertTriangle,
   ArrowLeftRight,
   CheckCircle2,
+  Film,
   Loader2,
   RotateCcw,
 } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { AnimatedQR } from '@/components/secure-send/animated-qr';
+import { ExchangePanel } from '@/components/secure-send/exchange-panel';
 import { MultiQRDisplay } from '@/components/secure-send/multi-qr-display';
+import { PayloadDigest } from '@/components/secure-send/payload-digest';
 import { PinDisplay } from '@/components/secure-send/pin-display';
 import { QRInput } from '@/components/secure-send/qr-input';
+import { ReceiverList } from '@/components/secure-send/receiver-list';
+import { SasDisplay } from '@/components/secure-send/sas-display';
 import { TransferStatus } from '@/components/secure-send/transfer-status';
 import { Button } from '@/components/ui/button';
 import { useSend } from '@/contexts/send-context';
@@ -18,14 +24,23 @@ import {
   useManualSend,
 } from '@/hooks/use-manual-send';
 import { type UseNostrSendReturn, useNostrSend } from '@/hooks/use-nostr-send';
+import { createManifestTransferSource } from '@/lib/file-manifest';
 import {
   archiveTimestamp,
   createZipTransferSource,
   getArchiveBaseName,
 } from '@/lib/folder-utils';
 import { testRelayAvailability } from '@/lib/nostr';
+import { createTextTransferSource } from '@/lib/text-message';
+import {
+  type HistoryOutcome,
+  type HistoryPeer,
+  leftTransferOutcome,
+  recordTransfer,
+} from '@/lib/transfer-history';
 import {
   createFileTransferSource,
+  getTransferContentType,
   type TransferSource,
 } from '@/lib/transfer-source';
 
@@ -57,6 +72,9 @@ export function SendTransferPage() {
   const manualHook = useManualSend();
 
   const startedRef = useRef(false);
+  // When the current attempt started, and whether the history has it yet.
+  const startedAtRef = useRef(0);
+  const recordedRef = useRef(false);
 
   // Determine which hook to use based on config with discriminated union
   const isOnline = config?.methodChoice === 'online';
@@ -76,8 +94,19 @@ export function SendTransferPage() {
   const pin = activeHook.type === 'online' ? activeHook.hook.pin : null;
   const pinFingerprint =
     activeHook.type === 'online' ? activeHook.hook.pinFingerprint : null;
+  const pinKdf = activeHook.type === 'online' ? activeHook.hook.pinKdf : null;
   const refreshPin =
     activeHook.type === 'online' ? activeHook.hook.refreshPin : undefined;
+  const stopAccepting =
+    activeHook.type === 'online' ? activeHook.hook.stopAccepting : undefined;
+  // Broadcast sends list their receivers
+  const receivers =
+    activeHook.type === 'online' ? activeHook.hook.state.receivers : undefined;
+  // Exchange session kept open after the transfer
+  const exchange =
+    activeHook.type === 'online' ? activeHook.hook.exchange : null;
+  // The single receiver's key fingerprint, once it connected
+  const peerFingerprint = activeHook.hook.peerFingerprint;
 
   // Offline-specific properties (type-safe access via discriminated union)
   const manualState =
@@ -85,6 +114,11 @@ export function SendTransferPage() {
   const offerData = manualState?.offerData;
   const submitAnswer =
     activeHook.type === 'offline' ? activeHook.hook.submitAnswer : undefined;
+  const sas = manualState?.status === 'verifying_sas' ? manualState.sas : null;
+  const qrTransferData =
+    manualState?.status === 'sending_qr' ? manualState.qrTransferData : null;
+  const qrFallback =
+    manualState?.status === 'error' && manualState.qrFallback === true;
 
   // Redirect if no config
   useEffect(() => {
@@ -93,7 +127,7 @@ export function SendTransferPage() {
     }
   }, [config, navigate]);
 
-  // Prepare the direct file or lazy ZIP source
+  // Prepare the text, direct file, multi-file or lazy ZIP source
   useEffect(() => {
     if (!config || startedRef.current) return;
 
@@ -114,6 +148,14 @@ export function SendTransferPage() {
           }
         }
 
+        if (config.text !== undefined) {
+          // A text message is sent from memory as a small exact-size payload.
+          if (cancelled) return;
+          setTransferSource(createTextTransferSource(config.text));
+          setStep('ready');
+          return;
+        }
+
         // Prepare file
         const files = config.selectedFiles;
 
@@ -129,10 +171,19 @@ export function SendTransferPage() {
           if (cancelled) return;
           setTransferSource(createFileTransferSource(files[0]));
           setStep('ready');
+        } else if (config.multiFileMode === 'files') {
+          // Multiple files, or a folder selection: send them back to back as
+          // separate files, described by a manifest the receiver uses to
+          // split them again.
+          if (cancelled) return;
+          setTransferSource(
+            createManifestTransferSource(files, getArchiveBaseName(files)),
+          );
+          setStep('ready');
         } else {
-          // Multiple files, or a folder selection whose structure must be
-          // preserved: create a lazy ZIP source. Packaging starts only once
-          // the data channel is ready and its output is sent immediately.
+          // ZIP packaging requested: create a lazy ZIP source. Packaging
+          // starts only once the data channel is ready and its output is sent
+          // immediately.
           if (cancelled) return;
           const archiveName = `${getArchiveBaseName(files)}_${archiveTimestamp()}`;
           setTransferSource(createZipTransferSource(files, archiveName));
@@ -160,12 +211,59 @@ export function SendTransferPage() {
       return;
 
     startedRef.current = true;
+    startedAtRef.current = Date.now();
+    recordedRef.current = false;
     // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional: sync step state when starting transfer
     setStep('active');
 
-    void activeHook.hook.send(transferSource);
+    void activeHook.hook.send(transferSource, {
+      dataChannels: config.dataChannels,
+      maxReceivers: config.maxReceivers,
+      exchange: config.exchange,
+      passphrase: config.passphrase,
+    });
   }, [step, transferSource, config, activeHook]);
 
+  // Add the attempt to the transfer history (a no-op unless the user turned
+  // it on), once: on completion, failure, or when the sender leaves it.
+  const recordHistory = useCallback(
+    (outcome: HistoryOutcome, errorMessage?: string) => {
+      if (!config || !transferSource || recordedRef.current) return;
+      recordedRef.current = true;
+      // Receipts come from the data-channel ACK; an animated QR transfer
+      // has none.
+      const peers: HistoryPeer[] = receivers
+        ? receivers.map((receiver) => ({
+            fingerprint: receiver.fingerprint,
+            acknowledged: receiver.status === 'complete',
+          }))
+        : peerFingerprint
+          ? [
+              {
+                fingerprint: peerFingerprint,
+                acknowledged: outcome === 'complete',
+              },
+            ]
+          : [];
+      void recordTransfer({
+        startedAt: startedAtRef.current,
+        durationMs: Date.now() - startedAtRef.current,
+        mode: config.methodChoice === 'online' ? 'nostr' : 'manual',
+        contentType: getTransferContentType(transferSource),
+        name: transferSource.name,
+        size: transferSource.size ?? transferSource.estimatedSize,
+        digest: state.digest,
+        outcome,
+        error: errorMessage,
+        peers,
+        fileHandles: config.fileHandles,
+      }).catch((err) => {
+        console.error('Failed to record transfer history:', err);
+      });
+    },
+    [config, transferSource, receivers, peerFingerprint, state.digest],
+  );
+
   // Track completion - sync local step with hook state
   // Only apply state changes when transfer is active to avoid race conditions
   // after cancellation (handleSwitchToOffline, handleRetry set startedRef to false)
@@ -175,18 +273,23 @@ export function SendTransferPage() {
     if (state.status === 'complete') {
       // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional: sync step with hook completion
       setStep('complete');
+      recordHistory('complete');
     } else if (state.status === 'error') {
       // TypeScript narrows state to TransferStateError, so message is required
       setError(state.message);
       setStep('error');
+      recordHistory('failed', state.message);
     }
-  }, [state]);
+  }, [state, recordHistory]);
 
   const handleCancel = useCallback(() => {
+    // Leaving an animated QR transfer is how it ends: only the receiver's
+    // screen shows whether it arrived.
+    if (step === 'active') recordHistory(leftTransferOutcome(!!qrTransferData));
     cancel();
     clearConfig();
     void navigate('/send');
-  }, [cancel, clearConfig, navigate]);
+  }, [step, qrTransferData, recordHistory, cancel, clearConfig, navigate]);
 
   const handleSwitchToOffline = useCallback(() => {
     if (!config) return;
@@ -219,6 +322,14 @@ export function SendTransferPage() {
     setError(null);
   }, [cancel]);
 
+  // The connection failed but the payload is small: animate it as QR codes.
+  const handleSendOverQr = useCallback(() => {
+    if (activeHook.type !== 'offline') return;
+    setError(null);
+    setStep('active');
+    activeHook.hook.sendOverQr();
+  }, [activeHook]);
+
   const handleSendAnother = useCallback(() => {
     cancel();
     clearConfig();
@@ -299,7 +410,9 @@ export function SendTransferPage() {
                         the receiver scans <strong>any</strong> code below with
                         their camera to get started, then the app guides them
                         through the rest. Codes can be scanned in any order, but
-                        all of them must be scanned.
+                        all of them must be scanned. With many codes, switch to{' '}
+                        <strong>Animated</strong> and just hold one cycling code
+                        in front of their camera.
                       </li>
                       <li>
                         <span className="font-medium text-foreground">
@@ -339,6 +452,23 @@ export function SendTransferPage() {
             <TransferStatus state={state} />
           )}
 
+          {/* Manual Exchange mode: offline QR transfer after a failed connection */}
+          {qrTransferData && (
+            <div className="flex justify-center">
+              <AnimatedQR data={qrTransferData} />
+            </div>
+          )}
+
+          {/* Manual Exchange mode: compare the SAS before connecting */}
+          {sas && activeHook.type === 'offline' && (
+            <SasDisplay
+              sas={sas}
+              side="sender"
+              onConfirm={activeHook.hook.confirmSas}
+              onReject={activeHook.hook.rejectSas}
+            />
+          )}
+
           {/* Nostr mode: Transfer progress */}
           {isOnline && (
             <TransferStatus
@@ -348,16 +478,44 @@ export function SendTransferPage() {
                   <PinDisplay
                     pin={pin}
                     fingerprint={pinFingerprint}
-                    onExpire={handleCancel}
+                    // A broadcast that already has receivers keeps them when
+                    // the wait backstop elapses.
+                    onExpire={
+                      receivers?.length && stopAccepting
+                        ? stopAccepting
+                        : handleCancel
+                    }
                     onRefresh={refreshPin}
+                    // An older receiver or one without WebAssembly cannot
+                    // use an Argon2id PIN; offer a PBKDF2 one instead.
+                    onUseCompatiblePin={
+                      refreshPin && pinKdf === 'argon2id'
+                        ? () => refreshPin('pbkdf2')
+                        : undefined
+                    }
                   />
                 ) : undefined
               }
             />
           )}
 
+          {/* Nostr broadcast: per-receiver progress */}
+          {receivers && <ReceiverList receivers={receivers} />}
+          {stopAccepting &&
+            state.status === 'waiting_for_receiver' &&
+            !!receivers?.length && (
+              <Button
+                onClick={stopAccepting}
+                variant="secondary"
+                className="w-full"
+              >
+                Stop accepting receivers
+              </Button>
+            )}
+
           <Button onClick={handleCancel} variant="outline" className="w-full">
-            Cancel
+            {/* The receiver's screen, not this one, shows a QR transfer end */}
+            {qrTransferData ? 'Done' : 'Cancel'}
           </Button>
         </>
       )}
@@ -372,10 +530,21 @@ export function SendTransferPage() {
             <div className="text-center">
               <p className="font-medium text-lg">Transfer Complete!</p>
               <p className="text-muted-foreground text-sm">
-                Your files have been sent successfully.
+                {receivers
+                  ? state.message
+                  : 'Your files have been sent successfully.'}
               </p>
             </div>
           </div>
+          {receivers && <ReceiverList receivers={receivers} />}
+          {state.digest && <PayloadDigest digest={state.digest} />}
+          {exchange && activeHook.type === 'online' && (
+            <ExchangePanel
+              exchange={exchange}
+              onSend={activeHook.hook.sendInExchange}
+              onEnd={activeHook.hook.endExchange}
+            />
+          )}
           <Button onClick={handleSendAnother} className="w-full">
             <RotateCcw className="mr-2 h-4 w-4" />
             Send Another
@@ -393,6 +562,20 @@ export function SendTransferPage() {
               <p className="text-sm text-muted-foreground">{error}</p>
             </div>
           </div>
+          {qrFallback && (
+            <div className="rounded-lg bg-muted/50 border p-4 space-y-3">
+              <p className="text-sm text-muted-foreground">
+                If the receiver is next to you, show them the file as an
+                animated QR code instead. It stays encrypted with the key you
+                just verified; the receiver taps{' '}
+                <strong>Receive by QR code</strong> and scans it.
+              </p>
+              <Button onClick={handleSendOverQr} className="w-full">
+                <Film className="mr-2 h-4 w-4" />
+                Send by QR code
+              </Button>
+            </div>
+          )}
           <div className="flex gap-2">
             <Button onClick={handleRetry} className="flex-1">
               Retry
@@ -0,0 +1,11 @@
+import { IceSettings } from '@/components/secure-send/ice-settings';
+import { RelaySettings } from '@/components/secure-send/relay-settings';
+
+export function SettingsPage() {
+  return (
+    <div className="flex w-full flex-col items-center gap-6">
+      <RelaySettings />
+      <IceSettings />
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * An in-memory data-channel link for protocol tests.
+ *
+ * `createLoopback` gives the sender a fake `WebRTCConnection` whose messages
+ * travel to a receiver callback, and lets the test misbehave like a real
+ * network: faults rewrite what the sender put on the wire (drop, duplicate,
+ * truncate, reorder), sends can drain slowly, and the link can close
+ * mid-stream. Control strings the receiver replies with (HAVE, ACK) arrive
+ * on the sender's primary channel.
+ *
+ * The link holds everything the sender sends and delivers it as one batch
+ * when the sender sends DONE or the link closes, so a fault sees the whole
+ * attempt and can move any message anywhere, DONE included.
+ */
+
+import type { WebRTCConnection } from '@/lib/webrtc';
+
+/** A message the sender put on the wire and the channel that carried it. */
+export interface WireMessage {
+  data: string | ArrayBuffer;
+  lane: number;
+}
+
+/** Rewrites the batch of messages one delivery carries. */
+export type WireFault = (messages: WireMessage[]) => WireMessage[];
+
+export interface LoopbackOptions {
+  /** Data channels to stripe chunks across. Defaults to 1. */
+  lanes?: number;
+  /** Applied in order to each delivered batch. */
+  faults?: WireFault[];
+  /** Delay before each chunk send resolves, as a slowly draining buffer. */
+  drainDelayMs?: number;
+  /** Close every channel once this many chunks are out; the next send fails. */
+  closeAfterChunks?: number;
+}
+
+export interface Loopback {
+  /** The sender's end of the link. */
+  rtc: WebRTCConnection;
+  /** Every message the sender sent, before faults, in send order. */
+  sent: WireMessage[];
+  /** Deliver a control string from the receiver to the sender. */
+  reply: (data: string) => void;
+  /** Deliver what is held, then close every channel. */
+  close: () => void;
+}
+
+/** An open data channel that only dispatches what a test sends it. */
+export function fakeChannel(label = 'file-transfer'): RTCDataChannel {
+  return Object.assign(new EventTarget(), {
+    label,
+    readyState: 'open' as RTCDataChannelState,
+  }) as unknown as RTCDataChannel;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** The chunk index in a binary message's 2-byte header. */
+export function chunkIndexOf(message: WireMessage): number | null {
+  if (typeof message.data === 'string') return null;
+  const bytes = new Uint8Array(message.data);
+  return bytes.length >= 2 ? (bytes[0] << 8) | bytes[1] : null;
+}
+
+function isDone(message: WireMessage): boolean {
+  return typeof message.data === 'string' && message.data.startsWith('DONE:');
+}
+
+export function createLoopback(
+  receive: (data: string | ArrayBuffer) => void,
+  options: LoopbackOptions = {},
+): Loopback {
+  const lanes = Array.from({ length: options.lanes ?? 1 }, (_, i) =>
+    fakeChannel(i === 0 ? 'file-transfer' : `file-transfer:${i}`),
+  );
+  const faults = options.faults ?? [];
+  const sent: WireMessage[] = [];
+  let held: WireMessage[] = [];
+  let chunksBeforeClose = options.closeAfterChunks ?? Number.POSITIVE_INFINITY;
+  let closed = false;
+
+  const flush = () => {
+    let batch = held;
+    held = [];
+    for (const fault of faults) batch = fault(batch);
+    for (const message of batch) receive(message.data);
+  };
+
+  const transmit = (message: WireMessage) => {
+    sent.push(message);
+    held.push({ ...message });
+    if (isDone(message)) flush();
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    flush();
+    for (const lane of lanes) {
+      (lane as { readyState: RTCDataChannelState }).readyState = 'closed';
+      lane.dispatchEvent(new Event('close'));
+    }
+  };
+
+  const rtc = {
+    async sendWithBackpressure(
+      data: Uint8Array,
+      _threshold?: number,
+      channel: RTCDataChannel = lanes[0],
+    ) {
+      if (options.drainDelayMs) await delay(options.drainDelayMs);
+      if (chunksBeforeClose-- <= 0) close();
+      if (closed) throw new Error('Data channel is not open');
+      transmit({
+        data: data.slice().buffer as ArrayBuffer,
+        lane: lanes.indexOf(channel),
+      });
+    },
+    send(data: string) {
+      if (closed) throw new Error('Data channel is not open');
+      transmit({ data, lane: 0 });
+    },
+    getDataChannel() {
+      return lanes[0];
+    },
+    getOpenDataChannels() {
+      return closed ? [] : lanes;
+    },
+  } as unknown as WebRTCConnection;
+
+  const reply = (data: string) => {
+    if (closed) return;
+    lanes[0].dispatchEvent(new MessageEvent('message', { data }));
+  };
+
+  return { rtc, sent, reply, close };
+}
+
+// --- Faults -------------------------------------------------------------
+
+/** Drop the messages `match` selects. */
+export function drop(match: (message: WireMessage) => boolean): WireFault {
+  return (messages) => messages.filter((message) => !match(message));
+}
+
+/** Deliver the messages `match` selects twice in a row. */
+export function duplicate(match: (message: WireMessage) => boolean): WireFault {
+  return (messages) =>
+    messages.flatMap((message) =>
+      match(message) ? [message, message] : [message],
+    );
+}
+
+/**
+ * Cut the messages `match` selects to `slice(0, end)`; a negative `end`
+ * drops that many trailing bytes (or characters).
+ */
+export function truncate(
+  match: (message: WireMessage) => boolean,
+  end: number,
+): WireFault {
+  return (messages) =>
+    messages.map((message) =>
+      match(message)
+        ? { ...message, data: message.data.slice(0, end) }
+        : message,
+    );
+}
+
+/** Flip one bit of each binary message `match` selects, at `offset` from the end. */
+export function corrupt(
+  match: (message: WireMessage) => boolean,
+  offset = 1,
+): WireFault {
+  return (messages) =>
+    messages.map((message) => {
+      if (typeof message.data === 'string' || !match(message)) return message;
+      const bytes = new Uint8Array(message.data.slice(0));
+      bytes[bytes.length - offset] ^= 0x01;
+      return { ...message, data: bytes.buffer as ArrayBuffer };
+    });
+}
+
+/** Deliver the batch back to front. */
+export const reverse: WireFault = (messages) => [...messages].reverse();
+
+/** Deliver DONE ahead of every chunk, as if the primary channel overtook the rest. */
+export const doneFirst: WireFault = (messages) => [
+  ...messages.filter(isDone),
+  ...messages.filter((message) => !isDone(message)),
+];
+
+/** Shuffle the batch with a seeded generator, so a failure reproduces. */
+export function shuffle(seed: number): WireFault {
+  return (messages) => {
+    const out = [...messages];
+    let state = seed >>> 0 || 1;
+    for (let i = out.length - 1; i > 0; i--) {
+      state ^= state << 13;
+      state ^= state >>> 17;
+      state ^= state << 5;
+      const j = (state >>> 0) % (i + 1);
+      [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out;
+  };
+}
+
+/** Selects the chunk with this index. */
+export function chunk(index: number): (message: WireMessage) => boolean {
+  return (message) => chunkIndexOf(message) === index;
+}
+
+/** Selects the DONE terminator. */
+export const done = isDone;
@@ -0,0 +1,199 @@
+/**
+ * An in-process Nostr relay for signaling and relay discovery tests.
+ *
+ * A real WebSocket server on localhost speaking the NIP-01 subset the app
+ * uses: `EVENT` is verified and answered with `OK`, stored and fanned out to
+ * matching subscriptions; `REQ` replays stored matches (newest first, up to
+ * `limit`) then sends `EOSE` and stays live; `CLOSE` ends a subscription.
+ * Events whose NIP-40 `expiration` has passed are refused and never served.
+ * Plain HTTP requests to the same port get the NIP-11 document, if any.
+ *
+ * The knobs on `options` misbehave like public relays do, and may be changed
+ * while a test runs.
+ */
+
+import { createServer } from 'node:http';
+import {
+  type Event,
+  type Filter,
+  matchFilters,
+  verifyEvent,
+} from 'nostr-tools';
+import { type WebSocket, WebSocketServer } from 'ws';
+
+export interface RelayStubOptions {
+  /** Answer `OK` for the event but neither store nor deliver it. */
+  drop?: (event: Event) => boolean;
+  /** Hold `EOSE` back this long after the stored events. */
+  eoseDelayMs?: number;
+  /** Kinds refused with `OK false`. */
+  rejectKinds?: number[];
+  /** Accept, store and serve events past their NIP-40 expiration. */
+  ignoreExpiration?: boolean;
+  /** Hold the WebSocket handshake back this long, as a distant relay. */
+  latencyMs?: number;
+  /** NIP-11 document; omitted means the relay serves none (404). */
+  info?: Record<string, unknown>;
+}
+
+export interface RelayStub {
+  /** `ws://` URL to hand to `createNostrClient`. */
+  url: string;
+  options: RelayStubOptions;
+  /** Every event published to the relay, including dropped and refused ones. */
+  published: Event[];
+  /** Events the relay stores and serves; a test may seed it directly. */
+  stored: Event[];
+  /** Every `REQ` filter received, in order. */
+  requests: Filter[];
+  close: () => Promise<void>;
+}
+
+function isExpired(event: Event, nowSec = Math.floor(Date.now() / 1000)) {
+  const tag = event.tags.find(([name]) => name === 'expiration');
+  if (!tag) return false;
+  const expiration = Number(tag[1]);
+  return Number.isFinite(expiration) && expiration <= nowSec;
+}
+
+/** Start a relay on an ephemeral localhost port. */
+export async function startRelayStub(
+  options: RelayStubOptions = {},
+): Promise<RelayStub> {
+  const server = createServer((_request, response) => {
+    const info = stub.options.info;
+    if (!info) {
+      response.writeHead(404).end('Not found');
+      return;
+    }
+    response
+      .writeHead(200, { 'Content-Type': 'application/nostr+json' })
+      .end(JSON.stringify(info));
+  });
+  const sockets = new WebSocketServer({ noServer: true });
+  await new Promise<void>((resolve, reject) => {
+    server.once('listening', resolve);
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1');
+  });
+  const address = server.address();
+  if (!address || typeof address === 'string') {
+    throw new Error('Relay stub is not listening on a TCP port');
+  }
+
+  const published: Event[] = [];
+  const stored: Event[] = [];
+  const requests: Filter[] = [];
+  const subscriptions = new Map<WebSocket, Map<string, Filter[]>>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+
+  const servable = (event: Event) =>
+    stub.options.ignoreExpiration || !isExpired(event);
+
+  const send = (socket: WebSocket, message: unknown[]) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const handleEvent = (socket: WebSocket, event: Event) => {
+    published.push(event);
+    const ok = (accepted: boolean, reason = '') =>
+      send(socket, ['OK', event.id, accepted, reason]);
+
+    if (!verifyEvent(event)) return ok(false, 'invalid: bad signature');
+    if (stub.options.rejectKinds?.includes(event.kind)) {
+      return ok(false, `blocked: kind ${event.kind} is not accepted`);
+    }
+    if (!servable(event)) return ok(false, 'invalid: event has expired');
+    if (stub.options.drop?.(event)) return ok(true);
+
+    if (!stored.some((existing) => existing.id === event.id)) {
+      stored.push(event);
+      for (const [peer, subs] of subscriptions) {
+        for (const [subId, filters] of subs) {
+          if (matchFilters(filters, event)) send(peer, ['EVENT', subId, event]);
+        }
+      }
+    }
+    ok(true);
+  };
+
+  const handleReq = (socket: WebSocket, subId: string, filters: Filter[]) => {
+    requests.push(...filters);
+    subscriptions.get(socket)?.set(subId, filters);
+    const limit = Math.min(
+      ...filters.map((filter) => filter.limit ?? Number.POSITIVE_INFINITY),
+    );
+    const matches = stored
+      .filter((event) => servable(event) && matchFilters(filters, event))
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, limit);
+    for (const event of matches) send(socket, ['EVENT', subId, event]);
+
+    const eose = () => send(socket, ['EOSE', subId]);
+    if (!stub.options.eoseDelayMs) {
+      eose();
+      return;
+    }
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      eose();
+    }, stub.options.eoseDelayMs);
+    timers.add(timer);
+  };
+
+  server.on('upgrade', (request, socket, head) => {
+    const upgrade = () =>
+      sockets.handleUpgrade(request, socket, head, (ws) =>
+        sockets.emit('connection', ws, request),
+      );
+    if (!stub.options.latencyMs) {
+      upgrade();
+      return;
+    }
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      upgrade();
+    }, stub.options.latencyMs);
+    timers.add(timer);
+  });
+
+  sockets.on('connection', (socket) => {
+    subscriptions.set(socket, new Map());
+    socket.on('close', () => subscriptions.delete(socket));
+    socket.on('message', (raw) => {
+      let message: unknown[];
+      try {
+        message = JSON.parse(String(raw));
+      } catch {
+        send(socket, ['NOTICE', 'invalid: malformed JSON']);
+        return;
+      }
+      const [type, ...rest] = message;
+      if (type === 'EVENT') {
+        handleEvent(socket, rest[0] as Event);
+      } else if (type === 'REQ') {
+        handleReq(socket, rest[0] as string, rest.slice(1) as Filter[]);
+      } else if (type === 'CLOSE') {
+        subscriptions.get(socket)?.delete(rest[0] as string);
+      } else {
+        send(socket, ['NOTICE', `unsupported: ${String(type)}`]);
+      }
+    });
+  });
+
+  const stub: RelayStub = {
+    url: `ws://127.0.0.1:${address.port}`,
+    options,
+    published,
+    stored,
+    requests,
+    close: () => {
+      for (const timer of timers) clearTimeout(timer);
+      for (const socket of subscriptions.keys()) socket.terminate();
+      sockets.close();
+      server.closeAllConnections();
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+  return stub;
+}
@@ -0,0 +1,11 @@
+/**
+ * A `getStats()` result built from plain entries, keyed by their `id` as
+ * the browser's report is.
+ */
+export function statsReport(
+  entries: Record<string, unknown>[],
+): RTCStatsReport {
+  return new Map(
+    entries.map((entry) => [entry.id as string, entry]),
+  ) as unknown as RTCStatsReport;
+}
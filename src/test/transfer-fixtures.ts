@@ -0,0 +1,48 @@
+/**
+ * Keys, payloads and sources shared by the transfer protocol tests.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import type { TransferSource } from '@/lib/transfer-source';
+
+/** A fresh non-extractable AES-256-GCM transfer key. */
+export async function makeKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/** A deterministic, non-repeating-looking payload of `totalBytes`. */
+export function makePlaintext(totalBytes: number): Uint8Array {
+  const data = new Uint8Array(totalBytes);
+  for (let i = 0; i < totalBytes; i++) data[i] = (i * 31 + 7) % 256;
+  return data;
+}
+
+/** A one-chunk stream of `data`, with or without a known size. */
+export function bytesSource(
+  data: Uint8Array,
+  sizeKnown = true,
+): TransferSource {
+  return {
+    name: 'payload.bin',
+    type: 'application/octet-stream',
+    size: sizeKnown ? data.length : null,
+    estimatedSize: data.length,
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        },
+      }),
+  };
+}
+
+/** Lowercase hex SHA-256, as the transfer reports its payload digest. */
+export function hexDigest(data: Uint8Array): string {
+  return Array.from(sha256(data), (b) => b.toString(16).padStart(2, '0')).join(
+    '',
+  );
+}
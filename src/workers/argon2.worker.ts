@@ -0,0 +1,40 @@
+// Argon2id Worker
+// Runs one PIN-root stretch off the main thread; the page terminates the
+// worker after the reply so its WASM memory is released.
+
+import { argon2id } from 'hash-wasm';
+
+interface WorkerRequest {
+  password: Uint8Array;
+  salt: Uint8Array;
+  params: {
+    memoryKib: number;
+    iterations: number;
+    parallelism: number;
+    hashLength: number;
+  };
+}
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const { password, salt, params } = e.data;
+
+  try {
+    const hash = await argon2id({
+      password,
+      salt,
+      memorySize: params.memoryKib,
+      iterations: params.iterations,
+      parallelism: params.parallelism,
+      hashLength: params.hashLength,
+      outputType: 'binary',
+    });
+    self.postMessage({ type: 'success', hash }, { transfer: [hash.buffer] });
+  } catch (error) {
+    self.postMessage({
+      type: 'error',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    password.fill(0);
+  }
+};
@@ -30,6 +30,9 @@ export default defineConfig({
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff,woff2,wasm}'],
         // Increase max file size for WASM files (zxing-wasm can be large)
         maximumFileSizeToCacheInBytes: 5 * 1024 * 1024, // 5MB
+        // Streaming downloads for receivers without OPFS (src/lib/stream-download.ts)
+        importScripts: ['stream-download-sw.js'],
+        navigateFallbackDenylist: [/^\/__stream-download\//],
       },
       manifest: {
         name: 'Secure Send Files and Folders',